@@ -1,6 +1,7 @@
 // See https://svelte.dev/docs/kit/types#app.d.ts
 // for information about these interfaces
 import type { SupabaseClient, Session, User } from '@supabase/supabase-js';
+import type { RateTable } from '$lib/jobs/currency';
 
 declare global {
 	namespace App {
@@ -10,7 +11,14 @@ declare global {
 			session: Session | null;
 			user: User | null;
 		}
-		// interface PageData {}
+		interface PageData {
+			/** Currency the viewer sees salary estimates in, from the root layout */
+			displayCurrency?: string | null;
+			/** Conversion rates for those estimates, from the root layout */
+			rateTable?: RateTable;
+			/** IANA timezone the viewer works from, from the root layout */
+			timezone?: string | null;
+		}
 		// interface PageState {}
 		// interface Platform {}
 	}
@@ -0,0 +1,80 @@
+/**
+ * Article Comments
+ * ================
+ *
+ * Shared rules for the discussion under an article: comment validation
+ * and turning the flat list of comments into reply threads. The article
+ * page's comment actions validate with the same function the thread's
+ * forms use.
+ *
+ * Comments are markdown. Edits keep the earlier versions and deletes are
+ * soft (016_article_comments.sql): a deleted comment stays in the thread
+ * while it has replies, and disappears once it has none.
+ *
+ * Usage:
+ * ```typescript
+ * import { buildCommentThreads, validateComment } from '$lib/articles/comments';
+ *
+ * const parsed = validateComment({ body: form.get('body') }); // { body } or { error }
+ * const threads = buildCommentThreads(comments);
+ * ```
+ */
+
+import type { ArticleComment } from '$lib/types';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Matches the comments.body check */
+export const MAX_COMMENT_LENGTH = 10000;
+
+/** Replies indent up to this depth; deeper ones line up with it */
+export const MAX_THREAD_DEPTH = 4;
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Check a comment or an edit from the thread's forms.
+ */
+export function validateComment(input: { body?: unknown }): { body: string } | { error: string } {
+	const body = typeof input.body === 'string' ? input.body.trim() : '';
+	if (!body) {
+		return { error: 'Write something first' };
+	}
+	if (body.length > MAX_COMMENT_LENGTH) {
+		return { error: `Comments must be ${MAX_COMMENT_LENGTH.toLocaleString('en-US')} characters or fewer` };
+	}
+	return { body };
+}
+
+// ============================================
+// THREADS
+// ============================================
+
+/**
+ * Nest comments under the comments they reply to, oldest first at every
+ * level. Deleted comments without replies are dropped; replies whose
+ * parent is missing become top-level comments.
+ */
+export function buildCommentThreads(comments: ArticleComment[]): ArticleComment[] {
+	const byId = new Map(comments.map((comment) => [comment.id, { ...comment, replies: [] as ArticleComment[] }]));
+	const roots: ArticleComment[] = [];
+
+	const sorted = [...byId.values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+	for (const comment of sorted) {
+		const parent = comment.parentId ? byId.get(comment.parentId) : undefined;
+		(parent ? parent.replies : roots).push(comment);
+	}
+
+	return prune(roots);
+}
+
+/** Drop deleted comments that no longer have replies, deepest first */
+function prune(comments: ArticleComment[]): ArticleComment[] {
+	return comments
+		.map((comment) => ({ ...comment, replies: prune(comment.replies) }))
+		.filter((comment) => !comment.deleted || comment.replies.length > 0);
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import type { ArticleDraft } from '$lib/types';
+import {
+	EMPTY_ARTICLE,
+	MAX_TAGS,
+	MIN_CONTENT_LENGTH,
+	WORDS_PER_MINUTE,
+	articleSlug,
+	articleStatus,
+	excerptFrom,
+	parseTags,
+	readArticleForm,
+	readingTime,
+	savedArticlePath,
+	toArticleInput,
+	validateArticle,
+	type ArticleInput
+} from './editor';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const body = 'Retrospectives work when the team owns the follow-ups. '.repeat(3);
+
+function input(overrides: Partial<ArticleInput>): ArticleInput {
+	return { ...EMPTY_ARTICLE, title: 'Running better retros', content: body, ...overrides };
+}
+
+// MARK: - Status & Paths
+
+describe('articleStatus', () => {
+	it('tells drafts, scheduled and live articles apart', () => {
+		expect(articleStatus({ is_published: false, published_at: '2026-10-01T00:00:00Z' }, now)).toBe('draft');
+		expect(articleStatus({ is_published: true, published_at: '2026-10-20T00:00:00Z' }, now)).toBe('scheduled');
+		expect(articleStatus({ is_published: true, published_at: '2026-10-01T00:00:00Z' }, now)).toBe('published');
+		expect(articleStatus({ is_published: true, published_at: null }, now)).toBe('published');
+	});
+});
+
+describe('savedArticlePath', () => {
+	it('opens live articles and returns to the editor otherwise', () => {
+		expect(savedArticlePath('ada', { slug: 'retros', status: 'published' })).toBe('/ada/retros');
+		expect(savedArticlePath('ada', { slug: 'retros', status: 'scheduled' })).toBe('/ada/retros/edit?saved=scheduled');
+	});
+});
+
+// MARK: - Text
+
+describe('articleSlug', () => {
+	it('slugs the title, with a fallback for titles without letters', () => {
+		expect(articleSlug('Café Retros: What Works?')).toBe('cafe-retros-what-works');
+		expect(articleSlug('!!!')).toBe('untitled');
+		expect(articleSlug(`${'word '.repeat(30)}`)).toHaveLength(79);
+	});
+});
+
+describe('readingTime', () => {
+	it('counts the words a reader reads, at least a minute', () => {
+		const words = Array.from({ length: WORDS_PER_MINUTE + 1 }, () => 'word').join(' ');
+
+		expect(readingTime('')).toBe(1);
+		expect(readingTime(words)).toBe(2);
+		// Image syntax and lone formatting marks aren't words
+		expect(readingTime(`${'word '.repeat(WORDS_PER_MINUTE)} ![a chart](https://img.example/1.png) ## **`)).toBe(1);
+	});
+});
+
+describe('excerptFrom', () => {
+	it('skips headings and code and keeps link text', () => {
+		const markdown = '# Title\n\n```js\nconst x = 1;\n```\n\nRead [the guide](https://example.com) first.';
+
+		expect(excerptFrom(markdown)).toBe('Read the guide first.');
+	});
+
+	it('cuts long text at a word boundary', () => {
+		expect(excerptFrom('one two three four', 10)).toBe('one two…');
+	});
+});
+
+describe('parseTags', () => {
+	it('splits on commas and spaces and resolves aliases once', () => {
+		expect(parseTags('#JS, javascript agile,  Scrum')).toEqual(['javascript', 'agile', 'scrum']);
+		expect(parseTags(' , ')).toEqual([]);
+	});
+});
+
+// MARK: - Form Parsing
+
+describe('readArticleForm', () => {
+	it('reads form data and autosave bodies alike', () => {
+		const form = new FormData();
+		form.set('title', '  Retros  ');
+		form.set('tags', 'agile');
+
+		expect(readArticleForm(form)).toEqual({ ...EMPTY_ARTICLE, title: 'Retros', tags: 'agile' });
+		expect(readArticleForm({ title: 'Retros', content: 42, community: '' })).toEqual({
+			...EMPTY_ARTICLE,
+			title: 'Retros'
+		});
+	});
+});
+
+describe('toArticleInput', () => {
+	const draft: ArticleDraft = {
+		id: 'article-1',
+		slug: 'retros',
+		status: 'scheduled',
+		title: 'Retros',
+		excerpt: '',
+		content: body,
+		coverImage: null,
+		tags: ['agile', 'scrum'],
+		community: 'dev',
+		readingTime: 1,
+		publishedAt: '2026-10-20T09:00:00.000Z',
+		updatedAt: '2026-10-19T09:00:00.000Z'
+	};
+
+	it('keeps the schedule only while the article is scheduled', () => {
+		expect(toArticleInput(draft)).toMatchObject({ tags: 'agile, scrum', coverImage: '', publishAt: draft.publishedAt });
+		expect(toArticleInput({ ...draft, status: 'published' }).publishAt).toBe('');
+	});
+});
+
+// MARK: - Validation
+
+describe('validateArticle', () => {
+	it('saves drafts with just a title or just content', () => {
+		expect(validateArticle(input({ content: '' }), 'draft', { now }).errors).toEqual({});
+		expect(validateArticle(input({ title: '' }), 'draft', { now }).errors).toEqual({});
+		expect(validateArticle(input({ title: '', content: '' }), 'draft', { now }).errors.title).toBe(
+			'Give your draft a title or start writing'
+		);
+	});
+
+	it('needs a title and a real body to publish', () => {
+		const { article, errors } = validateArticle(input({ title: '', content: 'Too short' }), 'publish', { now });
+
+		expect(article).toBeNull();
+		expect(errors).toEqual({
+			title: 'Give your article a title',
+			content: `Write at least ${MIN_CONTENT_LENGTH} characters before publishing`
+		});
+	});
+
+	it('checks the cover image, tags and community', () => {
+		const { errors } = validateArticle(
+			input({ coverImage: 'javascript:alert(1)', tags: 'a, b, c, d, e', community: 'nowhere' }),
+			'draft',
+			{ now }
+		);
+
+		expect(errors).toEqual({
+			coverImage: 'Enter a full image URL, starting with https://',
+			tags: `Use at most ${MAX_TAGS} tags`,
+			community: 'Choose a community'
+		});
+	});
+
+	it('schedules publishing within the allowed window', () => {
+		const publish = (publishAt: string, live = false) =>
+			validateArticle(input({ publishAt }), 'publish', { now, live });
+
+		expect(publish('2026-10-20T09:00:00Z').article?.publishAt).toBe('2026-10-20T09:00:00.000Z');
+		expect(publish('2026-10-18T09:00:00Z').errors.publishAt).toBe('Pick a time in the future, or publish now');
+		expect(publish('2028-01-01T00:00:00Z').errors.publishAt).toBe('Articles can be scheduled up to 365 days ahead');
+		expect(publish('soon').errors.publishAt).toBe('Pick a date and time to publish at');
+		// Live articles keep their publication date
+		expect(publish('2026-10-18T09:00:00Z', true).article?.publishAt).toBeNull();
+	});
+
+	it('returns the cleaned article', () => {
+		const { article } = validateArticle(input({ tags: 'JS, agile', excerpt: 'Short' }), 'publish', { now });
+
+		expect(article).toEqual({
+			title: 'Running better retros',
+			excerpt: 'Short',
+			content: body,
+			coverImage: null,
+			tags: ['javascript', 'agile'],
+			community: 'dev',
+			publishAt: null
+		});
+	});
+});
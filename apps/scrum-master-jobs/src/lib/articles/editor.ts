@@ -0,0 +1,382 @@
+/**
+ * Article Editor
+ * ==============
+ *
+ * Form model, validation and autosave for the article editor at /new and
+ * /[username]/[slug]/edit. The form edits an `ArticleInput` (plain
+ * strings, as typed); `validateArticle` turns it into a `ValidArticle`
+ * the server writes to `articles`.
+ *
+ * Drafts autosave while the author types and only need a title or some
+ * content. Publishing needs a title and a real body, and can be
+ * scheduled for a later time (015_article_editor.sql keeps scheduled
+ * articles private until then). Reading time is computed by the server
+ * with `readingTime`; the editor uses the same function for its estimate.
+ *
+ * Usage:
+ * ```typescript
+ * import { readArticleForm, validateArticle } from '$lib/articles/editor';
+ *
+ * const input = readArticleForm(await request.formData());
+ * const { article, errors } = validateArticle(input, 'publish');
+ * ```
+ */
+
+import type { ArticleDraft, ArticleStatus } from '$lib/types';
+import { communities, getCommunityById } from '$lib/data/communities';
+import { companySlug } from '$lib/jobs/companies';
+import { canonicalTag } from './tags';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * The editor's fields, as typed. Tags are comma separated.
+ */
+export interface ArticleInput {
+	title: string;
+	excerpt: string;
+	content: string;
+	coverImage: string;
+	tags: string;
+	community: string;
+	/** ISO timestamp to go live at, empty to publish right away */
+	publishAt: string;
+}
+
+/** Field-level messages, keyed by form field */
+export type ArticleErrors = Partial<Record<keyof ArticleInput, string>>;
+
+/**
+ * An article that passed validation, ready to be written to `articles`.
+ */
+export interface ValidArticle {
+	title: string;
+	excerpt: string;
+	content: string;
+	coverImage: string | null;
+	tags: string[];
+	community: string;
+	/** ISO timestamp for a scheduled article, null to publish now */
+	publishAt: string | null;
+}
+
+/** Saving keeps (or moves) the article to draft; publishing puts it live or schedules it */
+export type ArticleSaveMode = 'draft' | 'publish';
+
+/**
+ * What an autosave wrote, for the editor to keep its id and address.
+ */
+export interface AutosavedArticle {
+	id: string;
+	slug: string;
+	readingTime: number;
+	savedAt: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const MAX_TITLE_LENGTH = 150;
+export const MAX_EXCERPT_LENGTH = 300;
+export const MIN_CONTENT_LENGTH = 100;
+export const MAX_CONTENT_LENGTH = 100_000;
+export const MAX_TAGS = 4;
+export const MAX_TAG_LENGTH = 30;
+
+/** Longest slug derived from a title */
+const MAX_SLUG_LENGTH = 80;
+
+/** Reading speed behind `readingTime` */
+export const WORDS_PER_MINUTE = 200;
+
+/** Latest time an article can be scheduled for, in days from now */
+export const MAX_SCHEDULE_DAYS = 365;
+
+/** Pause in typing before a draft is autosaved */
+export const AUTOSAVE_DELAY_MS = 1500;
+
+export const ARTICLE_STATUSES: { value: ArticleStatus; label: string; description: string }[] = [
+	{ value: 'draft', label: 'Draft', description: 'Only you can see it. Changes are saved as you type.' },
+	{ value: 'scheduled', label: 'Scheduled', description: 'Goes live at the scheduled time. Only you can see it until then.' },
+	{ value: 'published', label: 'Published', description: 'Live in the community feed.' }
+];
+
+/** Communities an article can be posted to, for the editor's picker */
+export const ARTICLE_COMMUNITIES: { id: string; name: string }[] = communities.map((community) => ({
+	id: community.id,
+	name: community.name
+}));
+
+export const EMPTY_ARTICLE: ArticleInput = {
+	title: '',
+	excerpt: '',
+	content: '',
+	coverImage: '',
+	tags: '',
+	community: 'dev',
+	publishAt: ''
+};
+
+// ============================================
+// STATUS
+// ============================================
+
+/**
+ * Where an article is in its lifecycle. Published articles whose
+ * publication date is still ahead are scheduled.
+ */
+export function articleStatus(
+	row: { is_published: boolean; published_at: string | null },
+	now: Date = new Date()
+): ArticleStatus {
+	if (!row.is_published) return 'draft';
+	if (row.published_at && new Date(row.published_at).getTime() > now.getTime()) return 'scheduled';
+	return 'published';
+}
+
+export function articleStatusLabel(status: ArticleStatus): string {
+	return ARTICLE_STATUSES.find((option) => option.value === status)?.label ?? status;
+}
+
+// ============================================
+// PATHS
+// ============================================
+
+export function articlePath(username: string, slug: string): string {
+	return `/${encodeURIComponent(username)}/${encodeURIComponent(slug)}`;
+}
+
+export function articleEditPath(username: string, slug: string): string {
+	return `${articlePath(username, slug)}/edit`;
+}
+
+/**
+ * Where the editor goes after a deliberate save: the article itself once
+ * it is live, otherwise back to the editor with a notice.
+ */
+export function savedArticlePath(username: string, article: Pick<ArticleDraft, 'slug' | 'status'>): string {
+	if (article.status === 'published') return articlePath(username, article.slug);
+	return `${articleEditPath(username, article.slug)}?saved=${article.status}`;
+}
+
+// ============================================
+// TEXT
+// ============================================
+
+/**
+ * URL slug for an article, from its title. Clashes with the author's
+ * other articles are suffixed by `ensure_unique_article_slug()`.
+ */
+export function articleSlug(title: string): string {
+	return companySlug(title).slice(0, MAX_SLUG_LENGTH).replace(/-+$/, '') || 'untitled';
+}
+
+/**
+ * Markdown reduced to the words a reader reads: image syntax is dropped,
+ * links keep their text and formatting marks become spaces.
+ */
+function plainWords(markdown: string): string[] {
+	return markdown
+		.replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+		.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+		.replace(/[#>*_`~|]/g, ' ')
+		.split(/\s+/)
+		.filter((word) => /[\p{L}\p{N}]/u.test(word));
+}
+
+/**
+ * Minutes it takes to read an article, at least one.
+ */
+export function readingTime(markdown: string): number {
+	return Math.max(1, Math.ceil(plainWords(markdown).length / WORDS_PER_MINUTE));
+}
+
+/**
+ * Excerpt for an article the author didn't write one for: the start of
+ * the body without headings and code, cut at a word boundary.
+ */
+export function excerptFrom(markdown: string, maxLength: number = 160): string {
+	const prose = markdown.replace(/```[\s\S]*?```/g, ' ').replace(/^#{1,6}\s.*$/gm, ' ');
+	const text = plainWords(prose).join(' ');
+	if (text.length <= maxLength) return text;
+	const cut = text.slice(0, maxLength);
+	const lastSpace = cut.lastIndexOf(' ');
+	return `${lastSpace > 0 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+/**
+ * Split the tags field into canonical tags (lowercase, without '#',
+ * aliases resolved), de-duplicated.
+ */
+export function parseTags(text: string): string[] {
+	const tags = text
+		.split(/[,\s]+/)
+		.map(canonicalTag)
+		.filter(Boolean);
+	return [...new Set(tags)];
+}
+
+// ============================================
+// FORM PARSING
+// ============================================
+
+/**
+ * Read the article fields from a submitted form or an autosave body.
+ */
+export function readArticleForm(form: FormData | Record<string, unknown>): ArticleInput {
+	const get = (key: keyof ArticleInput) => (form instanceof FormData ? form.get(key) : form[key]);
+	const text = (key: keyof ArticleInput) => {
+		const value = get(key);
+		return typeof value === 'string' ? value.trim() : '';
+	};
+
+	return {
+		title: text('title'),
+		excerpt: text('excerpt'),
+		content: text('content'),
+		coverImage: text('coverImage'),
+		tags: text('tags'),
+		community: text('community') || EMPTY_ARTICLE.community,
+		publishAt: text('publishAt')
+	};
+}
+
+/**
+ * Turn a saved article back into form fields, for editing it.
+ */
+export function toArticleInput(article: ArticleDraft): ArticleInput {
+	return {
+		title: article.title,
+		excerpt: article.excerpt,
+		content: article.content,
+		coverImage: article.coverImage ?? '',
+		tags: article.tags.join(', '),
+		community: article.community,
+		publishAt: article.status === 'scheduled' ? (article.publishedAt ?? '') : ''
+	};
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+function isHttpUrl(value: string): boolean {
+	try {
+		const url = new URL(value);
+		return url.protocol === 'https:' || url.protocol === 'http:';
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Check an article. Drafts only need a title or some content;
+ * `publish` also requires a title and a body of at least
+ * MIN_CONTENT_LENGTH characters. A schedule must be in the future,
+ * except for `live` articles, whose publication date is fixed and whose
+ * schedule is ignored.
+ * @returns The cleaned article when there are no errors, otherwise null
+ */
+export function validateArticle(
+	input: ArticleInput,
+	mode: ArticleSaveMode,
+	options: { live?: boolean; now?: Date } = {}
+): { article: ValidArticle | null; errors: ArticleErrors } {
+	const errors: ArticleErrors = {};
+	const publishing = mode === 'publish';
+	const now = options.now ?? new Date();
+
+	if (input.title.length > MAX_TITLE_LENGTH) {
+		errors.title = `Titles must be ${MAX_TITLE_LENGTH} characters or fewer`;
+	} else if (publishing && !input.title) {
+		errors.title = 'Give your article a title';
+	} else if (!input.title && !input.content) {
+		errors.title = 'Give your draft a title or start writing';
+	}
+
+	if (input.excerpt.length > MAX_EXCERPT_LENGTH) {
+		errors.excerpt = `Excerpts must be ${MAX_EXCERPT_LENGTH} characters or fewer`;
+	}
+
+	if (input.content.length > MAX_CONTENT_LENGTH) {
+		errors.content = `Articles must be ${MAX_CONTENT_LENGTH.toLocaleString('en-US')} characters or fewer`;
+	} else if (publishing && input.content.length < MIN_CONTENT_LENGTH) {
+		errors.content = `Write at least ${MIN_CONTENT_LENGTH} characters before publishing`;
+	}
+
+	if (input.coverImage && !isHttpUrl(input.coverImage)) {
+		errors.coverImage = 'Enter a full image URL, starting with https://';
+	}
+
+	const tags = parseTags(input.tags);
+	if (tags.length > MAX_TAGS) {
+		errors.tags = `Use at most ${MAX_TAGS} tags`;
+	} else if (tags.some((tag) => tag.length > MAX_TAG_LENGTH || !/^[a-z0-9][a-z0-9-]*$/.test(tag))) {
+		errors.tags = `Tags use letters, numbers and dashes, up to ${MAX_TAG_LENGTH} characters each`;
+	}
+
+	if (!getCommunityById(input.community)) {
+		errors.community = 'Choose a community';
+	}
+
+	let publishAt: string | null = null;
+	if (publishing && input.publishAt && !options.live) {
+		const at = new Date(input.publishAt);
+		const latest = now.getTime() + MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000;
+		if (Number.isNaN(at.getTime())) {
+			errors.publishAt = 'Pick a date and time to publish at';
+		} else if (at.getTime() <= now.getTime()) {
+			errors.publishAt = 'Pick a time in the future, or publish now';
+		} else if (at.getTime() > latest) {
+			errors.publishAt = `Articles can be scheduled up to ${MAX_SCHEDULE_DAYS} days ahead`;
+		} else {
+			publishAt = at.toISOString();
+		}
+	}
+
+	if (Object.keys(errors).length > 0) {
+		return { article: null, errors };
+	}
+
+	return {
+		article: {
+			title: input.title,
+			excerpt: input.excerpt,
+			content: input.content,
+			coverImage: input.coverImage || null,
+			tags,
+			community: input.community,
+			publishAt
+		},
+		errors
+	};
+}
+
+// ============================================
+// AUTOSAVE
+// ============================================
+
+/**
+ * Save a draft through `/articles/drafts`, creating it when `id` is null.
+ * @returns The saved draft's id and slug, or a user-facing error message
+ */
+export async function requestAutosave(
+	id: string | null,
+	input: ArticleInput
+): Promise<{ saved: AutosavedArticle } | { error: string }> {
+	try {
+		const response = await fetch('/articles/drafts', {
+			method: 'PUT',
+			headers: { 'content-type': 'application/json' },
+			body: JSON.stringify({ id, ...input })
+		});
+		const payload = await response.json().catch(() => null);
+		if (response.ok && payload) return { saved: payload as AutosavedArticle };
+		return { error: payload?.message ?? `Autosave failed (${response.status})` };
+	} catch {
+		return { error: 'Network error: your latest changes aren’t saved yet' };
+	}
+}
@@ -0,0 +1,166 @@
+/**
+ * Article Reactions State
+ * =======================
+ *
+ * The reader's hearts, unicorns and saves on an article, with optimistic
+ * updates. The button flips and the count moves immediately, the write
+ * goes to `/articles/[id]/reactions/[type]`, and both are rolled back
+ * (with an error message) if the server rejects it.
+ *
+ * Articles from the mock feed aren't in the database; for them (no
+ * `articleId`) reactions only change on the page.
+ *
+ * Create one instance per page from server-loaded data, never at module
+ * level, so reaction state is not shared between users during SSR.
+ *
+ * Usage:
+ * ```svelte
+ * <script lang="ts">
+ *   import { ArticleReactions } from '$lib/articles/reactions.svelte';
+ *
+ *   const reactions = new ArticleReactions(() => ({
+ *     articleId: data.article?.id ?? null,
+ *     counts: article.reactions,
+ *     mine: data.reactions
+ *   }));
+ * </script>
+ *
+ * <button onclick={() => reactions.toggle('heart')}>{reactions.count('heart')}</button>
+ * ```
+ */
+
+import { SvelteSet } from 'svelte/reactivity';
+import type { Article, ReactionType } from '$lib/types';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** The `Article.reactions` count of each reaction type */
+const COUNT_KEYS: Record<ReactionType, keyof Article['reactions']> = {
+	heart: 'hearts',
+	unicorn: 'unicorns',
+	save: 'saves'
+};
+
+// ============================================
+// REQUESTS
+// ============================================
+
+/**
+ * Add (PUT) or remove (DELETE) one of the reader's reactions.
+ * @returns null on success, otherwise a user-facing error message
+ */
+export async function requestReaction(
+	method: 'PUT' | 'DELETE',
+	articleId: string,
+	type: ReactionType
+): Promise<string | null> {
+	try {
+		const response = await fetch(`/articles/${encodeURIComponent(articleId)}/reactions/${type}`, { method });
+		if (response.ok) return null;
+
+		const payload = await response.json().catch(() => null);
+		return payload?.message ?? `Request failed (${response.status})`;
+	} catch {
+		return 'Network error, please try again';
+	}
+}
+
+// ============================================
+// REACTIONS STATE
+// ============================================
+
+interface ReactionsSource {
+	/** Null for articles that aren't in the database */
+	articleId: string | null;
+	/** Counts as loaded, including the reader's own reactions */
+	counts: Article['reactions'];
+	/** The reader's reactions as loaded */
+	mine: ReactionType[];
+}
+
+export class ArticleReactions {
+	#articleId = $state<string | null>(null);
+	#counts = $state<Article['reactions']>({ hearts: 0, unicorns: 0, saves: 0 });
+	/** Reactions currently shown as made (including optimistic changes) */
+	#mine = new SvelteSet<ReactionType>();
+	/** Reaction types with a write in flight */
+	#pending = new SvelteSet<ReactionType>();
+
+	/** Last failed write, cleared on the next successful one */
+	error = $state<string | null>(null);
+
+	/**
+	 * @param source - Getter for the server-loaded article id, counts and
+	 *   reactions; re-read whenever it changes (e.g. after navigating to
+	 *   another article)
+	 */
+	constructor(source: () => ReactionsSource) {
+		$effect.pre(() => {
+			const { articleId, counts, mine } = source();
+			this.#articleId = articleId;
+			this.#counts = { ...counts };
+			this.#mine.clear();
+			for (const type of mine) this.#mine.add(type);
+			this.error = null;
+		});
+	}
+
+	/** Whether the reader has (optimistically) made the reaction */
+	has(type: ReactionType): boolean {
+		return this.#mine.has(type);
+	}
+
+	/** The article's count for the reaction, with the reader's change */
+	count(type: ReactionType): number {
+		return this.#counts[COUNT_KEYS[type]];
+	}
+
+	/** Whether a write for the reaction is still in flight */
+	isPending(type: ReactionType): boolean {
+		return this.#pending.has(type);
+	}
+
+	/**
+	 * Make or take back a reaction. The UI updates immediately and rolls
+	 * back if the request fails. Clicks while a write is in flight are
+	 * ignored.
+	 * @returns Whether the write succeeded
+	 */
+	async toggle(type: ReactionType): Promise<boolean> {
+		if (this.#pending.has(type)) return false;
+
+		const had = this.#mine.has(type);
+		this.#set(type, !had);
+
+		const articleId = this.#articleId;
+		if (!articleId) return true;
+
+		this.#pending.add(type);
+		const failure = await requestReaction(had ? 'DELETE' : 'PUT', articleId, type);
+		this.#pending.delete(type);
+
+		// Navigated to another article meanwhile; its state came fresh from the server
+		if (this.#articleId !== articleId) return !failure;
+
+		if (failure) {
+			this.#set(type, had);
+			this.error = failure;
+			return false;
+		}
+
+		this.error = null;
+		return true;
+	}
+
+	#set(type: ReactionType, made: boolean) {
+		if (made === this.#mine.has(type)) return;
+
+		if (made) this.#mine.add(type);
+		else this.#mine.delete(type);
+
+		const key = COUNT_KEYS[type];
+		this.#counts[key] = Math.max(this.#counts[key] + (made ? 1 : -1), 0);
+	}
+}
@@ -0,0 +1,24 @@
+/**
+ * Article Reaction Types
+ * ======================
+ *
+ * The reactions a reader can leave on an article. Kept apart from the
+ * reaction buttons' state (`reactions.svelte.ts`) so server code can
+ * check route parameters against them without loading a runes module.
+ *
+ * Usage:
+ * ```typescript
+ * import { REACTION_TYPES } from '$lib/articles/reactions';
+ *
+ * const valid = (REACTION_TYPES as string[]).includes(params.type);
+ * ```
+ */
+
+import type { ReactionType } from '$lib/types';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Matches the article_reaction_type enum (017_article_reactions.sql) */
+export const REACTION_TYPES: ReactionType[] = ['heart', 'unicorn', 'save'];
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import type { Article, ReadingListItem } from '$lib/types';
+import { articles } from '$lib/data/articles';
+import {
+	describeReadingListFilters,
+	filterReadingList,
+	parseReadingListQuery,
+	readingListFacets,
+	renderReadingListMarkdown,
+	renderReadingListOpml,
+	toReadingListSearchParams,
+	type ReadingListExportMeta,
+	type ReadingListQuery
+} from './readinglist';
+
+const author = { ...articles[0].author, name: 'Ada Lovelace', username: 'ada' };
+
+function saved(slug: string, overrides: Partial<Article>, archivedAt: string | null = null): ReadingListItem {
+	return {
+		article: {
+			...articles[0],
+			id: slug,
+			slug,
+			author,
+			excerpt: '',
+			content: '',
+			readingTime: 5,
+			...overrides
+		},
+		savedAt: '2026-10-18T09:00:00Z',
+		archivedAt
+	};
+}
+
+const retros = saved('retros', { title: 'Running [better] retros', tags: ['agile', 'Scrum'], community: 'dev' });
+const figma = saved('figma', { title: 'Figma tokens', tags: ['design'], community: 'design', content: 'Retro styles' });
+const archived = saved('okrs', { title: 'OKRs', tags: ['agile'], community: 'dev' }, '2026-10-19T09:00:00Z');
+const items = [retros, figma, archived];
+
+function query(overrides: Partial<ReadingListQuery>): ReadingListQuery {
+	return { q: '', tag: '', community: '', view: 'saved', ...overrides };
+}
+
+const ids = (list: ReadingListItem[]) => list.map((item) => item.article.id);
+
+// MARK: - Query
+
+describe('parseReadingListQuery', () => {
+	it('round-trips through the URL, leaving out defaults', () => {
+		const original = query({ q: 'retro', tag: 'agile', community: 'dev', view: 'archived' });
+
+		expect(parseReadingListQuery(toReadingListSearchParams(original))).toEqual(original);
+		expect(toReadingListSearchParams(query({})).toString()).toBe('');
+	});
+
+	it('lowercases tags and reads unknown views as saved', () => {
+		expect(parseReadingListQuery(new URLSearchParams('tag=Agile&view=trash'))).toEqual(query({ tag: 'agile' }));
+	});
+});
+
+describe('describeReadingListFilters', () => {
+	it('names the filters that are set', () => {
+		expect(describeReadingListFilters(query({ tag: 'agile', community: 'dev', q: 'retro' }))).toBe(
+			'#agile, DEV, "retro"'
+		);
+		expect(describeReadingListFilters(query({}))).toBe('');
+	});
+});
+
+// MARK: - Filtering
+
+describe('filterReadingList', () => {
+	it('shows saved and archived articles in their own views', () => {
+		expect(ids(filterReadingList(items, query({})))).toEqual(['retros', 'figma']);
+		expect(ids(filterReadingList(items, query({ view: 'archived' })))).toEqual(['okrs']);
+	});
+
+	it('filters by tag, in any case, and by community', () => {
+		expect(ids(filterReadingList(items, query({ tag: 'scrum' })))).toEqual(['retros']);
+		expect(ids(filterReadingList(items, query({ community: 'design' })))).toEqual(['figma']);
+	});
+
+	it('needs every word of the search somewhere in the article', () => {
+		expect(ids(filterReadingList(items, query({ q: 'RETRO' })))).toEqual(['retros', 'figma']);
+		expect(ids(filterReadingList(items, query({ q: 'retro ada' })))).toEqual(['retros', 'figma']);
+		expect(ids(filterReadingList(items, query({ q: 'retro figma' })))).toEqual(['figma']);
+	});
+});
+
+describe('readingListFacets', () => {
+	it('counts the tags and communities in the view, most common first', () => {
+		const facets = readingListFacets([...items, saved('daily', { tags: ['AGILE'], community: 'dev' })], 'saved');
+
+		expect(facets.tags).toEqual([
+			{ value: 'agile', label: '#agile', count: 2 },
+			{ value: 'design', label: '#design', count: 1 },
+			{ value: 'scrum', label: '#scrum', count: 1 }
+		]);
+		expect(facets.communities).toEqual([
+			{ value: 'dev', label: 'DEV', count: 2 },
+			{ value: 'design', label: 'Design', count: 1 }
+		]);
+	});
+});
+
+// MARK: - Export
+
+describe('reading list exports', () => {
+	const meta: ReadingListExportMeta = {
+		title: 'Reading list & notes',
+		origin: new URL('https://scrum.example'),
+		exportedAt: new Date('2026-10-19T12:00:00Z')
+	};
+
+	it('writes Markdown links with escaped titles', () => {
+		expect(renderReadingListMarkdown([retros], meta)).toBe(
+			[
+				'# Reading list & notes',
+				'',
+				'Exported from scrum.example on Oct 19, 2026.',
+				'',
+				'- [Running \\[better\\] retros](https://scrum.example/ada/retros) · ' +
+					'by Ada Lovelace · 5 min read · #agile #Scrum',
+				''
+			].join('\n')
+		);
+	});
+
+	it('writes OPML outlines with escaped attributes', () => {
+		const opml = renderReadingListOpml([retros], meta);
+
+		expect(opml).toContain('<title>Reading list &amp; notes</title>');
+		expect(opml).toContain(
+			'<outline text="Running [better] retros" type="link" url="https://scrum.example/ada/retros" ' +
+				'created="Sun, 18 Oct 2026 09:00:00 GMT" category="/agile,/Scrum"/>'
+		);
+	});
+});
@@ -0,0 +1,262 @@
+/**
+ * Reading List
+ * ============
+ *
+ * Filters and exports for the reader's saved articles (/readinglist).
+ * The list is the reader's `save` reactions; archived saves have been
+ * read and sit in their own view until unarchived.
+ *
+ * Filters live in the URL (`?q=&tag=&community=&view=archived`), so a
+ * filtered view can be linked to and exported as it is shown:
+ * /readinglist/export/markdown and /readinglist/export/opml take the
+ * same params.
+ *
+ * Usage:
+ * ```typescript
+ * import { filterReadingList, parseReadingListQuery } from '$lib/articles/readinglist';
+ *
+ * const query = parseReadingListQuery(url.searchParams);
+ * const shown = filterReadingList(items, query);
+ * ```
+ */
+
+import type { ReadingListItem } from '$lib/types';
+import { getCommunityById } from '$lib/data/communities';
+import { escapeXml } from '$lib/jobs/feeds';
+import { articlePath } from './editor';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/** Saved articles still to read, or the archived ones */
+export type ReadingListView = 'saved' | 'archived';
+
+export interface ReadingListQuery {
+	/** Words that must all appear in the article's title, excerpt, body, tags or author */
+	q: string;
+	tag: string;
+	community: string;
+	view: ReadingListView;
+}
+
+/** A tag or community to filter by, with how many articles in the view have it */
+export interface ReadingListFacet {
+	value: string;
+	label: string;
+	count: number;
+}
+
+export type ReadingListExportFormat = 'markdown' | 'opml';
+
+/**
+ * Document-level details of an export.
+ */
+export interface ReadingListExportMeta {
+	title: string;
+	/** Site origin, for article links */
+	origin: URL;
+	exportedAt: Date;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const READING_LIST_EXPORT_FORMATS: ReadingListExportFormat[] = ['markdown', 'opml'];
+
+export const EXPORT_CONTENT_TYPES: Record<ReadingListExportFormat, string> = {
+	markdown: 'text/markdown; charset=utf-8',
+	opml: 'text/x-opml; charset=utf-8'
+};
+
+export const EXPORT_EXTENSIONS: Record<ReadingListExportFormat, string> = {
+	markdown: 'md',
+	opml: 'opml'
+};
+
+// ============================================
+// QUERY
+// ============================================
+
+export function isReadingListExportFormat(value: string): value is ReadingListExportFormat {
+	return (READING_LIST_EXPORT_FORMATS as string[]).includes(value);
+}
+
+export function parseReadingListQuery(params: URLSearchParams): ReadingListQuery {
+	return {
+		q: params.get('q')?.trim() ?? '',
+		tag: params.get('tag')?.trim().toLowerCase() ?? '',
+		community: params.get('community')?.trim() ?? '',
+		view: params.get('view') === 'archived' ? 'archived' : 'saved'
+	};
+}
+
+/**
+ * URL params for a query, leaving out the defaults.
+ */
+export function toReadingListSearchParams(query: Partial<ReadingListQuery>): URLSearchParams {
+	const params = new URLSearchParams();
+
+	if (query.q) params.set('q', query.q);
+	if (query.tag) params.set('tag', query.tag);
+	if (query.community) params.set('community', query.community);
+	if (query.view === 'archived') params.set('view', 'archived');
+
+	return params;
+}
+
+/**
+ * The filters in words, e.g. `#agile, Scrum Masters, "retro"`; empty
+ * when none are set.
+ */
+export function describeReadingListFilters(query: ReadingListQuery): string {
+	return [
+		query.tag && `#${query.tag}`,
+		query.community && (getCommunityById(query.community)?.name ?? query.community),
+		query.q && `"${query.q}"`
+	]
+		.filter(Boolean)
+		.join(', ');
+}
+
+// ============================================
+// FILTERING
+// ============================================
+
+function searchText(item: ReadingListItem): string {
+	const { article } = item;
+	return [article.title, article.excerpt, article.content, article.tags.join(' '), article.author.name, article.author.username]
+		.join('\n')
+		.toLowerCase();
+}
+
+/**
+ * Whether a saved article is in the query's view and matches its filters.
+ * Every word of `q` must appear somewhere in the article's text.
+ */
+export function matchesReadingListQuery(item: ReadingListItem, query: ReadingListQuery): boolean {
+	if ((item.archivedAt !== null) !== (query.view === 'archived')) return false;
+	if (query.tag && !item.article.tags.some((tag) => tag.toLowerCase() === query.tag)) return false;
+	if (query.community && item.article.community !== query.community) return false;
+
+	const words = query.q.toLowerCase().split(/\s+/).filter(Boolean);
+	if (words.length > 0) {
+		const text = searchText(item);
+		return words.every((word) => text.includes(word));
+	}
+
+	return true;
+}
+
+/**
+ * The saved articles a query shows, in list order (newest save first).
+ */
+export function filterReadingList(items: ReadingListItem[], query: ReadingListQuery): ReadingListItem[] {
+	return items.filter((item) => matchesReadingListQuery(item, query));
+}
+
+/**
+ * Tags and communities of the articles in a view, most common first, for
+ * the filter menus.
+ */
+export function readingListFacets(
+	items: ReadingListItem[],
+	view: ReadingListView
+): { tags: ReadingListFacet[]; communities: ReadingListFacet[] } {
+	const tags = new Map<string, number>();
+	const communities = new Map<string, number>();
+
+	for (const item of items) {
+		if ((item.archivedAt !== null) !== (view === 'archived')) continue;
+		for (const tag of new Set(item.article.tags.map((tag) => tag.toLowerCase()))) {
+			tags.set(tag, (tags.get(tag) ?? 0) + 1);
+		}
+		communities.set(item.article.community, (communities.get(item.article.community) ?? 0) + 1);
+	}
+
+	const byCount = (a: ReadingListFacet, b: ReadingListFacet) => b.count - a.count || a.label.localeCompare(b.label);
+	return {
+		tags: [...tags].map(([value, count]) => ({ value, label: `#${value}`, count })).sort(byCount),
+		communities: [...communities]
+			.map(([value, count]) => ({ value, label: getCommunityById(value)?.name ?? value, count }))
+			.sort(byCount)
+	};
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+function articleUrl(item: ReadingListItem, origin: URL): string {
+	return new URL(articlePath(item.article.author.username, item.article.slug), origin).href;
+}
+
+/** Square brackets would end the link text early */
+function escapeMarkdownLinkText(text: string): string {
+	return text.replace(/([\\[\]])/g, '\\$1');
+}
+
+/**
+ * The list as a Markdown bullet list of links, one article per line.
+ */
+export function renderReadingListMarkdown(items: ReadingListItem[], meta: ReadingListExportMeta): string {
+	const exported = meta.exportedAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+	const lines = items.map((item) => {
+		const { article } = item;
+		const details = [
+			`by ${article.author.name}`,
+			`${article.readingTime} min read`,
+			...(article.tags.length > 0 ? [article.tags.map((tag) => `#${tag}`).join(' ')] : [])
+		];
+		return `- [${escapeMarkdownLinkText(article.title)}](${articleUrl(item, meta.origin)}) · ${details.join(' · ')}`;
+	});
+
+	return [`# ${meta.title}`, '', `Exported from ${meta.origin.host} on ${exported}.`, '', ...lines, ''].join('\n');
+}
+
+/**
+ * The list as an OPML 2.0 outline of links, which read-later apps and
+ * outliners import.
+ */
+export function renderReadingListOpml(items: ReadingListItem[], meta: ReadingListExportMeta): string {
+	const outlines = items.map((item) => {
+		const attributes = [
+			`text="${escapeXml(item.article.title)}"`,
+			'type="link"',
+			`url="${escapeXml(articleUrl(item, meta.origin))}"`,
+			`created="${new Date(item.savedAt).toUTCString()}"`,
+			...(item.article.tags.length > 0
+				? [`category="${escapeXml(item.article.tags.map((tag) => `/${tag}`).join(','))}"`]
+				: [])
+		];
+		return `    <outline ${attributes.join(' ')}/>`;
+	});
+
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<opml version="2.0">',
+		'  <head>',
+		`    <title>${escapeXml(meta.title)}</title>`,
+		`    <dateCreated>${meta.exportedAt.toUTCString()}</dateCreated>`,
+		'  </head>',
+		'  <body>',
+		...outlines,
+		'  </body>',
+		'</opml>',
+		''
+	].join('\n');
+}
+
+export function renderReadingList(
+	format: ReadingListExportFormat,
+	items: ReadingListItem[],
+	meta: ReadingListExportMeta
+): string {
+	switch (format) {
+		case 'markdown':
+			return renderReadingListMarkdown(items, meta);
+		case 'opml':
+			return renderReadingListOpml(items, meta);
+	}
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import type { Article } from '$lib/types';
+import { articles } from '$lib/data/articles';
+import {
+	TAG_ALIASES,
+	TAG_PATTERN,
+	canonicalTag,
+	countArticleTags,
+	hasFollowedTag,
+	hasTag,
+	parseTagSort,
+	sortTagFeed,
+	summarizeTags,
+	tagAliases,
+	tagPath
+} from './tags';
+
+function article(id: string, overrides: Partial<Article>): Article {
+	return { ...articles[0], id, slug: id, ...overrides };
+}
+
+// MARK: - Names
+
+describe('canonicalTag', () => {
+	it('lowercases, drops the hash and resolves aliases', () => {
+		expect(canonicalTag('JS')).toBe('javascript');
+		expect(canonicalTag(' #K8s ')).toBe('kubernetes');
+		expect(canonicalTag('Svelte')).toBe('svelte');
+	});
+
+	it('leaves tags that only look like object keys alone', () => {
+		expect(canonicalTag('constructor')).toBe('constructor');
+		expect(canonicalTag('toString')).toBe('tostring');
+	});
+
+	it('maps every alias to a canonical tag that is not itself an alias', () => {
+		for (const [alias, tag] of Object.entries(TAG_ALIASES)) {
+			expect(canonicalTag(alias)).toBe(tag);
+			expect(TAG_ALIASES).not.toHaveProperty(tag);
+			expect(tag).toMatch(TAG_PATTERN);
+		}
+	});
+});
+
+describe('tagAliases', () => {
+	it('lists the other names of a tag', () => {
+		expect(tagAliases('javascript')).toEqual(['js']);
+		expect(tagAliases('rust')).toEqual([]);
+	});
+});
+
+describe('tagPath', () => {
+	it('links to the canonical tag', () => {
+		expect(tagPath('#JS')).toBe('/t/javascript');
+	});
+});
+
+describe('hasTag', () => {
+	it('matches a tag under any of its names', () => {
+		const post = article('post-1', { tags: ['js', 'WebDev'] });
+
+		expect(hasTag(post, 'javascript')).toBe(true);
+		expect(hasTag(post, 'JS')).toBe(true);
+		expect(hasTag(post, 'webdev')).toBe(true);
+		expect(hasTag(post, 'typescript')).toBe(false);
+	});
+});
+
+describe('hasFollowedTag', () => {
+	it('matches aliases against the canonical followed tags', () => {
+		const post = article('post-1', { tags: ['golang'] });
+
+		expect(hasFollowedTag(post, new Set(['go']))).toBe(true);
+		expect(hasFollowedTag(post, new Set(['rust']))).toBe(false);
+		expect(hasFollowedTag(post, new Set())).toBe(false);
+	});
+});
+
+// MARK: - Feeds
+
+describe('sortTagFeed', () => {
+	const reactions = (hearts: number, unicorns: number) => ({ hearts, unicorns, saves: 100 });
+	const old = article('old', { publishedAt: '2026-01-01T00:00:00Z', reactions: reactions(10, 2) });
+	const popular = article('popular', { publishedAt: '2026-02-01T00:00:00Z', reactions: reactions(30, 0) });
+	const fresh = article('fresh', { publishedAt: '2026-03-01T00:00:00Z', reactions: reactions(8, 4) });
+
+	it('puts the newest first', () => {
+		expect(sortTagFeed([old, popular, fresh], 'latest').map((post) => post.id)).toEqual(['fresh', 'popular', 'old']);
+	});
+
+	it('puts the most reacted to first, newest first among equals', () => {
+		expect(sortTagFeed([old, popular, fresh], 'top').map((post) => post.id)).toEqual(['popular', 'fresh', 'old']);
+	});
+
+	it('reads unknown sorts as latest', () => {
+		expect(parseTagSort('top')).toBe('top');
+		expect(parseTagSort('oldest')).toBe('latest');
+		expect(parseTagSort(null)).toBe('latest');
+	});
+});
+
+// MARK: - Directory
+
+describe('countArticleTags', () => {
+	it('counts an article once per canonical tag', () => {
+		const counts = countArticleTags([{ tags: ['js', 'javascript', 'svelte'] }, { tags: ['JavaScript'] }]);
+
+		expect(Object.fromEntries(counts)).toEqual({ javascript: 2, svelte: 1 });
+	});
+});
+
+describe('summarizeTags', () => {
+	it('adds up sources under canonical names, most used first', () => {
+		const summary = summarizeTags(
+			countArticleTags([{ tags: ['svelte'] }, { tags: ['ts'] }]),
+			[
+				['js', 2],
+				['typescript', 1],
+				['rust', 2]
+			]
+		);
+
+		expect(summary).toEqual([
+			{ tag: 'javascript', articles: 2, aliases: ['js'] },
+			{ tag: 'rust', articles: 2, aliases: [] },
+			{ tag: 'typescript', articles: 2, aliases: ['ts'] },
+			{ tag: 'svelte', articles: 1, aliases: ['sveltejs'] }
+		]);
+	});
+});
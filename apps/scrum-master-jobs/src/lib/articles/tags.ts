@@ -0,0 +1,170 @@
+/**
+ * Article Tags
+ * ============
+ *
+ * Tag names, the tag directory (/tags) and per-tag feeds (/t/[tag]).
+ *
+ * Some tags go by several names; TAG_ALIASES maps each alias to its
+ * canonical tag, so `js` and `javascript` are one tag. Tags are written
+ * (articles, follows) and linked by their canonical name, and /t/js
+ * redirects to /t/javascript. Older articles may still carry an alias,
+ * so counts and feeds match every name of a tag.
+ *
+ * Followed tags lift their posts in the home feed's Relevant order
+ * (FOLLOWED_TAG_BOOST).
+ *
+ * Usage:
+ * ```typescript
+ * import { canonicalTag, hasTag, sortTagFeed } from '$lib/articles/tags';
+ *
+ * canonicalTag('JS'); // 'javascript'
+ * const feed = sortTagFeed(articles.filter((article) => hasTag(article, 'javascript')), 'top');
+ * ```
+ */
+
+import type { Article } from '$lib/types';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/** Order of a tag feed */
+export type TagSort = 'latest' | 'top';
+
+/** A tag in the directory with its article count */
+export interface TagSummary {
+	tag: string;
+	articles: number;
+	/** Other names that lead to this tag */
+	aliases: string[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Alias -> canonical tag */
+export const TAG_ALIASES: Record<string, string> = {
+	js: 'javascript',
+	ts: 'typescript',
+	py: 'python',
+	node: 'nodejs',
+	reactjs: 'react',
+	vuejs: 'vue',
+	sveltejs: 'svelte',
+	golang: 'go',
+	k8s: 'kubernetes',
+	postgres: 'postgresql',
+	ml: 'machinelearning',
+	a11y: 'accessibility',
+	tailwind: 'tailwindcss',
+	beginner: 'beginners',
+	tutorials: 'tutorial'
+};
+
+export const TAG_SORTS: { value: TagSort; label: string }[] = [
+	{ value: 'latest', label: 'Latest' },
+	{ value: 'top', label: 'Top' }
+];
+
+/** Matches the tag_follows.tag check: letters, numbers and dashes, up to 30 characters */
+export const TAG_PATTERN = /^[a-z0-9][a-z0-9-]{0,29}$/;
+
+/** How much a followed tag multiplies a post's Relevant score on the home feed (engagement + 1 over age) */
+export const FOLLOWED_TAG_BOOST = 3;
+
+// ============================================
+// NAMES
+// ============================================
+
+/**
+ * The canonical name of a tag: lowercase, without '#', aliases resolved.
+ */
+export function canonicalTag(tag: string): string {
+	const name = tag.trim().replace(/^#+/, '').toLowerCase();
+	return Object.hasOwn(TAG_ALIASES, name) ? TAG_ALIASES[name] : name;
+}
+
+/**
+ * Every alias of a canonical tag.
+ */
+export function tagAliases(tag: string): string[] {
+	return Object.keys(TAG_ALIASES).filter((alias) => TAG_ALIASES[alias] === tag);
+}
+
+export function tagPath(tag: string): string {
+	return `/t/${encodeURIComponent(canonicalTag(tag))}`;
+}
+
+/**
+ * Whether the article carries the tag under any of its names.
+ */
+export function hasTag(article: Pick<Article, 'tags'>, tag: string): boolean {
+	const canonical = canonicalTag(tag);
+	return article.tags.some((name) => canonicalTag(name) === canonical);
+}
+
+/**
+ * Whether the article carries any of the (canonical) followed tags.
+ */
+export function hasFollowedTag(article: Pick<Article, 'tags'>, followed: ReadonlySet<string>): boolean {
+	return followed.size > 0 && article.tags.some((name) => followed.has(canonicalTag(name)));
+}
+
+// ============================================
+// FEEDS
+// ============================================
+
+export function parseTagSort(value: string | null): TagSort {
+	return value === 'top' ? 'top' : 'latest';
+}
+
+/** Reactions a post has collected, the "Top" order */
+export function articleScore(article: Pick<Article, 'reactions'>): number {
+	return article.reactions.hearts + article.reactions.unicorns;
+}
+
+/**
+ * A tag's posts newest first, or most reacted to first (newest first
+ * among equals).
+ */
+export function sortTagFeed(articles: Article[], sort: TagSort): Article[] {
+	const newest = (a: Article, b: Article) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime();
+	return [...articles].sort(sort === 'top' ? (a, b) => articleScore(b) - articleScore(a) || newest(a, b) : newest);
+}
+
+// ============================================
+// DIRECTORY
+// ============================================
+
+/**
+ * Article counts per tag from separate sets of articles (e.g. the mock
+ * feed and `article_tag_counts()`), added up, most used first. Each source
+ * must already count an article once per canonical tag.
+ */
+export function summarizeTags(...sources: Iterable<[tag: string, articles: number]>[]): TagSummary[] {
+	const counts = new Map<string, number>();
+	for (const source of sources) {
+		for (const [tag, articles] of source) {
+			const canonical = canonicalTag(tag);
+			counts.set(canonical, (counts.get(canonical) ?? 0) + articles);
+		}
+	}
+
+	return [...counts]
+		.map(([tag, articles]) => ({ tag, articles, aliases: tagAliases(tag) }))
+		.sort((a, b) => b.articles - a.articles || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Article counts per canonical tag, for `summarizeTags`.
+ */
+export function countArticleTags(articles: Pick<Article, 'tags'>[]): Map<string, number> {
+	const counts = new Map<string, number>();
+	for (const article of articles) {
+		for (const tag of new Set(article.tags.map(canonicalTag))) {
+			counts.set(tag, (counts.get(tag) ?? 0) + 1);
+		}
+	}
+	return counts;
+}
@@ -23,6 +23,7 @@
  */
 
 import { users } from './users';
+import { hasTag } from '$lib/articles/tags';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -2362,6 +2363,7 @@ export function getArticlesByAuthor(username: string): Article[] {
 	return articles.filter((a) => a.author.username === username);
 }
 
+/** Matches the tag under any of its names (see `$lib/articles/tags`) */
 export function getArticlesByTag(tag: string): Article[] {
-	return articles.filter((a) => a.tags.includes(tag));
+	return articles.filter((a) => hasTag(a, tag));
 }
@@ -47,6 +47,16 @@ function daysAgo(days: number): string {
 	return date.toISOString();
 }
 
+/**
+ * Generate ISO date string for N days from now.
+ * Used for closing dates, so some listings show as closing soon.
+ * @param days - Number of days in the future
+ * @returns ISO date string
+ */
+function daysFromNow(days: number): string {
+	return daysAgo(-days);
+}
+
 // ============================================
 // COMPANY DATA
 // ============================================
@@ -59,123 +69,203 @@ function daysAgo(days: number): string {
 const companies: Record<string, Company> = {
 	stripe: {
 		name: 'Stripe',
+		slug: 'stripe',
 		logo: 'https://logo.clearbit.com/stripe.com',
 		location: 'San Francisco, CA',
-		industry: 'Fintech'
+		industry: 'Fintech',
+		employeeCount: '5000+',
+		foundedYear: 2010,
+		isVerified: true
 	},
 	vercel: {
 		name: 'Vercel',
+		slug: 'vercel',
 		logo: 'https://logo.clearbit.com/vercel.com',
 		location: 'San Francisco, CA',
-		industry: 'Developer Tools'
+		industry: 'Developer Tools',
+		employeeCount: '500-1000',
+		foundedYear: 2015,
+		isVerified: true
 	},
 	netflix: {
 		name: 'Netflix',
+		slug: 'netflix',
 		logo: 'https://logo.clearbit.com/netflix.com',
 		location: 'Los Gatos, CA',
-		industry: 'Entertainment'
+		industry: 'Entertainment',
+		employeeCount: '10000+',
+		foundedYear: 1997,
+		isVerified: true
 	},
 	spotify: {
 		name: 'Spotify',
+		slug: 'spotify',
 		logo: 'https://logo.clearbit.com/spotify.com',
 		location: 'Stockholm, Sweden',
-		industry: 'Music & Entertainment'
+		industry: 'Music & Entertainment',
+		employeeCount: '5000+',
+		foundedYear: 2006,
+		isVerified: true
 	},
 	airbnb: {
 		name: 'Airbnb',
+		slug: 'airbnb',
 		logo: 'https://logo.clearbit.com/airbnb.com',
 		location: 'San Francisco, CA',
-		industry: 'Travel & Hospitality'
+		industry: 'Travel & Hospitality',
+		employeeCount: '5000+',
+		foundedYear: 2008,
+		isVerified: true
 	},
 	notion: {
 		name: 'Notion',
+		slug: 'notion',
 		logo: 'https://logo.clearbit.com/notion.so',
 		location: 'San Francisco, CA',
-		industry: 'Productivity'
+		industry: 'Productivity',
+		employeeCount: '500-1000',
+		foundedYear: 2013,
+		isVerified: true
 	},
 	figma: {
 		name: 'Figma',
+		slug: 'figma',
 		logo: 'https://logo.clearbit.com/figma.com',
 		location: 'San Francisco, CA',
-		industry: 'Design Tools'
+		industry: 'Design Tools',
+		employeeCount: '1000-5000',
+		foundedYear: 2012,
+		isVerified: true
 	},
 	linear: {
 		name: 'Linear',
+		slug: 'linear',
 		logo: 'https://logo.clearbit.com/linear.app',
 		location: 'San Francisco, CA',
-		industry: 'Developer Tools'
+		industry: 'Developer Tools',
+		employeeCount: '50-200',
+		foundedYear: 2019,
+		isVerified: false
 	},
 	supabase: {
 		name: 'Supabase',
+		slug: 'supabase',
 		logo: 'https://logo.clearbit.com/supabase.com',
 		location: 'San Francisco, CA',
-		industry: 'Developer Tools'
+		industry: 'Developer Tools',
+		employeeCount: '200-500',
+		foundedYear: 2020,
+		isVerified: true
 	},
 	planetscale: {
 		name: 'PlanetScale',
+		slug: 'planetscale',
 		logo: 'https://logo.clearbit.com/planetscale.com',
 		location: 'San Francisco, CA',
-		industry: 'Database'
+		industry: 'Database',
+		employeeCount: '200-500',
+		foundedYear: 2018,
+		isVerified: false
 	},
 	discord: {
 		name: 'Discord',
+		slug: 'discord',
 		logo: 'https://logo.clearbit.com/discord.com',
 		location: 'San Francisco, CA',
-		industry: 'Social & Communication'
+		industry: 'Social & Communication',
+		employeeCount: '500-1000',
+		foundedYear: 2015,
+		isVerified: false
 	},
 	shopify: {
 		name: 'Shopify',
+		slug: 'shopify',
 		logo: 'https://logo.clearbit.com/shopify.com',
 		location: 'Ottawa, Canada',
-		industry: 'E-commerce'
+		industry: 'E-commerce',
+		employeeCount: '10000+',
+		foundedYear: 2006,
+		isVerified: true
 	},
 	github: {
 		name: 'GitHub',
+		slug: 'github',
 		logo: 'https://logo.clearbit.com/github.com',
 		location: 'San Francisco, CA',
-		industry: 'Developer Tools'
+		industry: 'Developer Tools',
+		employeeCount: '1000-5000',
+		foundedYear: 2008,
+		isVerified: true
 	},
 	twilio: {
 		name: 'Twilio',
+		slug: 'twilio',
 		logo: 'https://logo.clearbit.com/twilio.com',
 		location: 'San Francisco, CA',
-		industry: 'Communications'
+		industry: 'Communications',
+		employeeCount: '5000+',
+		foundedYear: 2008,
+		isVerified: true
 	},
 	datadog: {
 		name: 'Datadog',
+		slug: 'datadog',
 		logo: 'https://logo.clearbit.com/datadoghq.com',
 		location: 'New York, NY',
-		industry: 'Monitoring & Analytics'
+		industry: 'Monitoring & Analytics',
+		employeeCount: '5000+',
+		foundedYear: 2010,
+		isVerified: true
 	},
 	plaid: {
 		name: 'Plaid',
+		slug: 'plaid',
 		logo: 'https://logo.clearbit.com/plaid.com',
 		location: 'San Francisco, CA',
-		industry: 'Fintech'
+		industry: 'Fintech',
+		employeeCount: '1000-5000',
+		foundedYear: 2013,
+		isVerified: true
 	},
 	coinbase: {
 		name: 'Coinbase',
+		slug: 'coinbase',
 		logo: 'https://logo.clearbit.com/coinbase.com',
 		location: 'San Francisco, CA',
-		industry: 'Crypto & Web3'
+		industry: 'Crypto & Web3',
+		employeeCount: '1000-5000',
+		foundedYear: 2012,
+		isVerified: true
 	},
 	openai: {
 		name: 'OpenAI',
+		slug: 'openai',
 		logo: 'https://logo.clearbit.com/openai.com',
 		location: 'San Francisco, CA',
-		industry: 'AI & Machine Learning'
+		industry: 'AI & Machine Learning',
+		employeeCount: '1000-5000',
+		foundedYear: 2015,
+		isVerified: true
 	},
 	anthropic: {
 		name: 'Anthropic',
+		slug: 'anthropic',
 		logo: 'https://logo.clearbit.com/anthropic.com',
 		location: 'San Francisco, CA',
-		industry: 'AI & Machine Learning'
+		industry: 'AI & Machine Learning',
+		employeeCount: '1000-5000',
+		foundedYear: 2021,
+		isVerified: true
 	},
 	meta: {
 		name: 'Meta',
+		slug: 'meta',
 		logo: 'https://logo.clearbit.com/meta.com',
 		location: 'Menlo Park, CA',
-		industry: 'Social Media'
+		industry: 'Social Media',
+		employeeCount: '10000+',
+		foundedYear: 2004,
+		isVerified: true
 	}
 };
 
@@ -229,6 +319,7 @@ As part of our frontend team, you'll have the opportunity to shape how businesse
 		employmentType: 'Full-time',
 		experienceLevel: 'Mid',
 		salary: { min: 150000, max: 200000, currency: 'USD' },
+		remote: { regions: ['americas'], countries: [], overlap: { startHour: 16, endHour: 20 } },
 		description: `Join Vercel and help us build the best developer experience for frontend teams. You'll work on Next.js, our deployment platform, and various internal tools.
 
 We're a remote-first company with a strong culture of ownership and autonomy. You'll have the freedom to make impactful decisions while working alongside some of the best engineers in the industry.`,
@@ -279,6 +370,7 @@ This is a high-impact role where you'll define technical strategy, mentor engine
 		],
 		skills: ['Java', 'Python', 'AWS', 'Kafka', 'Microservices'],
 		postedAt: daysAgo(5),
+		expiresAt: daysFromNow(2),
 		applicants: 156,
 		isEasyApply: false
 	},
@@ -415,6 +507,7 @@ This role is perfect for someone who's equally comfortable in Figma and code, an
 		employmentType: 'Full-time',
 		experienceLevel: 'Lead',
 		salary: { min: 200000, max: 280000, currency: 'USD' },
+		remote: { regions: ['americas', 'europe'], countries: [], overlap: { startHour: 15, endHour: 18 } },
 		description: `Linear is seeking an Engineering Manager to lead one of our product teams. You'll manage a team of talented engineers, drive technical decisions, and help us build the best issue tracking tool in the world.
 
 We're a small, high-performing team that values quality, speed, and craft. You'll have significant impact on our product and culture.`,
@@ -465,6 +558,7 @@ You'll work on challenging distributed systems problems, contribute to open-sour
 		],
 		skills: ['PostgreSQL', 'Go', 'Rust', 'Distributed Systems', 'Kubernetes'],
 		postedAt: daysAgo(7),
+		expiresAt: daysFromNow(5),
 		applicants: 45,
 		isEasyApply: true
 	},
@@ -477,6 +571,7 @@ You'll work on challenging distributed systems problems, contribute to open-sour
 		employmentType: 'Full-time',
 		experienceLevel: 'Senior',
 		salary: { min: 180000, max: 240000, currency: 'USD' },
+		remote: { regions: [], countries: ['US', 'CA'] },
 		description: `PlanetScale is revolutionizing how developers work with databases. We're looking for a Senior Backend Engineer to help build our serverless database platform powered by Vitess.
 
 You'll tackle complex distributed systems challenges and work with cutting-edge database technology used by some of the largest companies in the world.`,
@@ -539,6 +634,7 @@ Join us in building the future of communication for gaming communities and beyon
 		employmentType: 'Full-time',
 		experienceLevel: 'Mid',
 		salary: { min: 120000, max: 160000, currency: 'CAD' },
+		remote: { regions: [], countries: ['CA'], overlap: { startHour: 14, endHour: 21 } },
 		description: `Shopify is looking for a Frontend Developer to help empower entrepreneurs worldwide. You'll work on our merchant-facing products, helping business owners build and scale their online stores.
 
 We believe in making commerce better for everyone, and you'll be part of that mission.`,
@@ -558,6 +654,7 @@ We believe in making commerce better for everyone, and you'll be part of that mi
 		],
 		skills: ['React', 'TypeScript', 'GraphQL', 'Ruby', 'Accessibility'],
 		postedAt: daysAgo(5),
+		originalPostedAt: daysAgo(40),
 		applicants: 124,
 		isEasyApply: true
 	},
@@ -570,6 +667,7 @@ We believe in making commerce better for everyone, and you'll be part of that mi
 		employmentType: 'Full-time',
 		experienceLevel: 'Senior',
 		salary: { min: 170000, max: 230000, currency: 'USD' },
+		remote: { regions: ['europe', 'africa', 'middle-east'], countries: [], overlap: { startHour: 8, endHour: 12 } },
 		description: `GitHub is looking for a DevOps Engineer to help us scale the world's largest developer platform. You'll work on CI/CD infrastructure, deployment automation, and developer tooling.
 
 Join a team that's passionate about making developers' lives easier and more productive.`,
@@ -682,6 +780,7 @@ You'll work on everything from security architecture to incident response, with
 		],
 		skills: ['AWS Security', 'Python', 'Kubernetes', 'SOC2', 'Cryptography'],
 		postedAt: daysAgo(8),
+		expiresAt: daysFromNow(1),
 		applicants: 31,
 		isEasyApply: false
 	},
@@ -694,6 +793,7 @@ You'll work on everything from security architecture to incident response, with
 		employmentType: 'Full-time',
 		experienceLevel: 'Senior',
 		salary: { min: 200000, max: 280000, currency: 'USD' },
+		remote: { regions: ['americas'], countries: [] },
 		description: `Coinbase is looking for a Blockchain Engineer to help build the future of finance. You'll work on our wallet infrastructure, smart contracts, and blockchain integrations.
 
 Join us in creating an open financial system for the world.`,
@@ -880,6 +980,7 @@ You'll build data pipelines that enable data scientists and analysts to make bet
 		employmentType: 'Full-time',
 		experienceLevel: 'Mid',
 		salary: { min: 120000, max: 160000, currency: 'USD' },
+		remote: { regions: ['asia-pacific'], countries: [], overlap: { startHour: 23, endHour: 27 } },
 		description: `Stripe is looking for a Technical Writer to help create world-class documentation for our APIs and developer tools. Our docs are a key part of the developer experience, and you'll help make them even better.
 
 You'll work closely with engineers to understand complex systems and translate them into clear, helpful content.`,
@@ -899,6 +1000,7 @@ You'll work closely with engineers to understand complex systems and translate t
 		],
 		skills: ['Technical Writing', 'API Documentation', 'Markdown', 'Git', 'Developer Experience'],
 		postedAt: daysAgo(9),
+		expiresAt: daysFromNow(21),
 		applicants: 56,
 		isEasyApply: true
 	},
@@ -961,6 +1063,8 @@ We're looking for someone who's passionate about design and deeply understands t
 		],
 		skills: ['Product Strategy', 'User Research', 'Data Analysis', 'Agile', 'Figma'],
 		postedAt: daysAgo(7),
+		originalPostedAt: daysAgo(52),
+		expiresAt: daysFromNow(23),
 		applicants: 167,
 		isEasyApply: false
 	},
@@ -1035,6 +1139,7 @@ This is a great role for someone who loves both coding and working with customer
 		employmentType: 'Full-time',
 		experienceLevel: 'Senior',
 		salary: { min: 180000, max: 250000, currency: 'USD' },
+		remote: { regions: ['europe'], countries: ['IL'], overlap: { startHour: 9, endHour: 13 } },
 		description: `Linear is looking for an Infrastructure Engineer to help us build and scale our platform. You'll work on database infrastructure, deployment pipelines, and performance optimization.
 
 We're a small team that values simplicity, speed, and craft.`,
@@ -1096,7 +1201,8 @@ We're an open-source company with a developer-first approach to marketing.`,
 		locationType: 'Remote',
 		employmentType: 'Internship',
 		experienceLevel: 'Entry',
-		salary: { min: 8000, max: 10000, currency: 'USD' },
+		salary: { min: 45, max: 55, currency: 'USD', period: 'hour' },
+		remote: { regions: [], countries: ['US'], overlap: { startHour: 14, endHour: 22 } },
 		description: `GitHub is looking for Software Engineering Interns to join us for a summer internship. You'll work on real projects with experienced engineers and learn how we build tools for developers worldwide.
 
 This is a great opportunity to kickstart your career in software engineering.`,
@@ -1169,6 +1275,8 @@ export function getSkills(): string[] {
 
 /**
  * Get unique companies from all job listings.
+ * The company directory reads the `companies` table and only falls back
+ * to these when it is unavailable (see `$lib/server/jobs/companies`).
  * @returns Sorted array of Company objects
  */
 export function getCompanies(): Company[] {
@@ -1197,16 +1305,18 @@ export function getJobById(id: string): Job | undefined {
 /**
  * Format salary range for display.
  * Uses Intl.NumberFormat for locale-aware formatting.
- * @param salary - Salary object with min, max, currency
- * @returns Formatted string like "$150,000 - $200,000"
+ * @param salary - Salary object with min, max, currency and period
+ * @returns Formatted string like "$150,000 - $200,000" or "$45 - $55/hr"
  */
 export function formatSalary(salary: Salary): string {
+	const hourly = salary.period === 'hour';
 	const formatter = new Intl.NumberFormat('en-US', {
 		style: 'currency',
 		currency: salary.currency,
-		maximumFractionDigits: 0
+		minimumFractionDigits: 0,
+		maximumFractionDigits: hourly ? 2 : 0
 	});
-	return `${formatter.format(salary.min)} - ${formatter.format(salary.max)}`;
+	return `${formatter.format(salary.min)} - ${formatter.format(salary.max)}${hourly ? '/hr' : ''}`;
 }
 
 /**
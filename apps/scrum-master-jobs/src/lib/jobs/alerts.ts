@@ -0,0 +1,136 @@
+/**
+ * Job Alerts
+ * ==========
+ *
+ * Shared helpers for saved searches ("alerts"). An alert stores the same
+ * filters as a /jobs URL, so any view of the board can be saved as-is and
+ * the matcher can reuse the board's query parsing and matching.
+ *
+ * Filters are persisted in `job_alerts.filters` as the URL params object
+ * (e.g. `{ "q": "react", "locationType": "Remote" }`).
+ *
+ * Usage:
+ * ```typescript
+ * import { toAlertFilters, parseAlertFilters, describeAlertFilters } from '$lib/jobs/alerts';
+ *
+ * const stored = toAlertFilters(parseJobQuery(url.searchParams));
+ * const query = parseAlertFilters(alert.filters);
+ * describeAlertFilters(query); // "“react” · Remote · Senior"
+ * ```
+ */
+
+import type { AlertFrequency } from '$lib/supabase/types';
+import { EMPTY_JOB_QUERY, parseJobQuery, toJobSearchParams, type JobQuery } from './query';
+import { DEFAULT_RATE_TABLE, formatMinSalary } from './currency';
+import { countryName } from './remote';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export type { AlertFrequency };
+
+/**
+ * Alert frequency option for pickers.
+ */
+export interface AlertFrequencyOption {
+	value: AlertFrequency;
+	label: string;
+	description: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const ALERT_FREQUENCIES: AlertFrequencyOption[] = [
+	{ value: 'instant', label: 'Instant', description: 'As soon as matching jobs are posted' },
+	{ value: 'daily', label: 'Daily', description: 'One digest per day' },
+	{ value: 'weekly', label: 'Weekly', description: 'One digest per week' }
+];
+
+/** Longest alert name accepted by the form */
+export const MAX_ALERT_NAME_LENGTH = 80;
+
+/** Most alerts one user can keep */
+export const MAX_ALERTS_PER_USER = 20;
+
+/**
+ * Minimum time between digests for each frequency.
+ * Slightly under a day/week so a scheduler that drifts by a few minutes
+ * doesn't push a digest to the next run.
+ */
+export const ALERT_INTERVAL_MS: Record<AlertFrequency, number> = {
+	instant: 0,
+	daily: 24 * 60 * 60 * 1000 - 10 * 60 * 1000,
+	weekly: 7 * 24 * 60 * 60 * 1000 - 10 * 60 * 1000
+};
+
+// ============================================
+// FILTER SERIALIZATION
+// ============================================
+
+/**
+ * Whether a string is a known alert frequency.
+ */
+export function isAlertFrequency(value: unknown): value is AlertFrequency {
+	return ALERT_FREQUENCIES.some((option) => option.value === value);
+}
+
+/**
+ * Filters to store for an alert: the /jobs URL params without pagination
+ * or sort.
+ */
+export function toAlertFilters(query: JobQuery): Record<string, string> {
+	return Object.fromEntries(toJobSearchParams({ ...query, sort: 'recent', page: 1, perPage: EMPTY_JOB_QUERY.perPage }));
+}
+
+/**
+ * Read stored alert filters back into a JobQuery.
+ * Unknown keys and invalid values are dropped, as they are for URLs.
+ */
+export function parseAlertFilters(filters: unknown): JobQuery {
+	const params = new URLSearchParams();
+
+	if (filters && typeof filters === 'object') {
+		for (const [key, value] of Object.entries(filters)) {
+			if (typeof value === 'string') params.set(key, value);
+		}
+	}
+
+	return { ...parseJobQuery(params), page: 1, perPage: EMPTY_JOB_QUERY.perPage };
+}
+
+/**
+ * Short human description of an alert's filters.
+ */
+export function describeAlertFilters(query: JobQuery): string {
+	const parts = [
+		query.q && `“${query.q}”`,
+		query.location,
+		query.locationType,
+		query.employmentType,
+		query.experienceLevel && `${query.experienceLevel} level`,
+		query.minSalary && `${formatMinSalary(query.minSalary, query.currency || DEFAULT_RATE_TABLE.base)} a year`,
+		query.country && `Open to ${countryName(query.country)}`,
+		query.timezone && `${query.timezone.replace(/_/g, ' ')} hours`
+	].filter(Boolean);
+
+	return parts.length > 0 ? parts.join(' · ') : 'All new jobs';
+}
+
+/**
+ * Link to the /jobs view an alert was saved from.
+ */
+export function alertJobsHref(query: JobQuery): string {
+	const params = toJobSearchParams(query).toString();
+	return params ? `/jobs?${params}` : '/jobs';
+}
+
+/**
+ * Default alert name for a set of filters.
+ */
+export function suggestAlertName(query: JobQuery): string {
+	const name = query.q || [query.experienceLevel, query.locationType].filter(Boolean).join(' ');
+	return (name ? `${name} jobs` : 'New jobs').slice(0, MAX_ALERT_NAME_LENGTH);
+}
@@ -0,0 +1,204 @@
+/**
+ * Job Posting Analytics
+ * =====================
+ *
+ * How employers' listings perform: views on /jobs, detail opens, apply
+ * clicks, bookmarks and Easy Apply submissions, recorded per visitor in
+ * `job_events` (013_job_events.sql) and summed here into the daily trend,
+ * funnel and per-job table on /jobs/postings/analytics.
+ *
+ * Most events are recorded by the server where they happen (see
+ * `$lib/server/jobs/analytics`). Detail opens in the /jobs side panel and
+ * clicks through to an employer's apply page happen in the browser, so
+ * they are sent with `trackJobEvent()`.
+ *
+ * Usage:
+ * ```typescript
+ * import { summarizeJobEvents, trackJobEvent } from '$lib/jobs/analytics';
+ *
+ * trackJobEvent('apply_click', job.id);
+ * const summary = summarizeJobEvents(counts, { days: 30 });
+ * summary.funnel; // [{ label: 'Views', count: 1200, rate: null }, ...]
+ * ```
+ */
+
+import type { JobEventType } from '$lib/types';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Every event, in funnel order, with the label the dashboard shows */
+export const JOB_EVENTS: { value: JobEventType; label: string }[] = [
+	{ value: 'view', label: 'Views' },
+	{ value: 'detail_open', label: 'Detail opens' },
+	{ value: 'apply_click', label: 'Apply clicks' },
+	{ value: 'easy_apply', label: 'Easy Apply' },
+	{ value: 'bookmark', label: 'Bookmarks' }
+];
+
+/** Events the browser may report; the rest are only recorded by the server */
+export const CLIENT_JOB_EVENTS: JobEventType[] = ['detail_open', 'apply_click'];
+
+/** Date ranges the dashboard offers, in days */
+export const ANALYTICS_RANGES = [7, 30, 90] as const;
+
+export type AnalyticsRange = (typeof ANALYTICS_RANGES)[number];
+
+const DEFAULT_RANGE: AnalyticsRange = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/** Events of one type on one job on one UTC day */
+export interface JobEventCount {
+	jobId: string;
+	/** YYYY-MM-DD (UTC) */
+	day: string;
+	type: JobEventType;
+	events: number;
+}
+
+export type JobEventTotals = Record<JobEventType, number>;
+
+export interface DailyJobEvents {
+	/** YYYY-MM-DD (UTC) */
+	day: string;
+	totals: JobEventTotals;
+}
+
+export interface FunnelStep {
+	label: string;
+	count: number;
+	/** Percent of the previous step that reached this one; null for the first step or when it had none */
+	rate: number | null;
+}
+
+export interface JobPerformance {
+	jobId: string;
+	totals: JobEventTotals;
+	/** Percent of detail opens that led to an application */
+	applyRate: number | null;
+}
+
+export interface JobEventSummary {
+	totals: JobEventTotals;
+	/** One entry per day of the range, oldest first, days without events included */
+	daily: DailyJobEvents[];
+	funnel: FunnelStep[];
+	/** Jobs with any events, most viewed first */
+	jobs: JobPerformance[];
+}
+
+// ============================================
+// DATE RANGE
+// ============================================
+
+/**
+ * Range from the `days` URL parameter, falling back to 30 days.
+ */
+export function parseAnalyticsRange(value: string | null): AnalyticsRange {
+	const days = Number(value);
+	return ANALYTICS_RANGES.find((range) => range === days) ?? DEFAULT_RANGE;
+}
+
+/**
+ * First day (YYYY-MM-DD, UTC) of a range ending today.
+ */
+export function rangeStart(days: number, now = new Date()): string {
+	return new Date(now.getTime() - (days - 1) * DAY_MS).toISOString().slice(0, 10);
+}
+
+// ============================================
+// SUMMARIES
+// ============================================
+
+function emptyTotals(): JobEventTotals {
+	return { view: 0, detail_open: 0, apply_click: 0, bookmark: 0, easy_apply: 0 };
+}
+
+/** Applications of either kind: clicks out to the employer and Easy Apply */
+export function applications(totals: JobEventTotals): number {
+	return totals.apply_click + totals.easy_apply;
+}
+
+function percent(part: number, whole: number): number | null {
+	return whole > 0 ? Math.round((part / whole) * 100) : null;
+}
+
+/**
+ * Sum daily counts into totals, a gap-free daily series, the
+ * view → open → apply funnel and per-job figures.
+ */
+export function summarizeJobEvents(
+	counts: JobEventCount[],
+	{ days, now = new Date() }: { days: number; now?: Date }
+): JobEventSummary {
+	const totals = emptyTotals();
+	const byDay = new Map<string, JobEventTotals>();
+	const byJob = new Map<string, JobEventTotals>();
+
+	const start = rangeStart(days, now);
+	for (let i = 0; i < days; i++) {
+		byDay.set(new Date(Date.parse(start) + i * DAY_MS).toISOString().slice(0, 10), emptyTotals());
+	}
+
+	for (const count of counts) {
+		totals[count.type] += count.events;
+
+		const day = byDay.get(count.day);
+		if (day) day[count.type] += count.events;
+
+		const job = byJob.get(count.jobId) ?? emptyTotals();
+		job[count.type] += count.events;
+		byJob.set(count.jobId, job);
+	}
+
+	const steps = [
+		{ label: 'Views', count: totals.view },
+		{ label: 'Detail opens', count: totals.detail_open },
+		{ label: 'Applications', count: applications(totals) }
+	];
+
+	return {
+		totals,
+		daily: [...byDay].map(([day, dayTotals]) => ({ day, totals: dayTotals })),
+		funnel: steps.map((step, i) => ({ ...step, rate: i === 0 ? null : percent(step.count, steps[i - 1].count) })),
+		jobs: [...byJob]
+			.map(([jobId, jobTotals]) => ({
+				jobId,
+				totals: jobTotals,
+				applyRate: percent(applications(jobTotals), jobTotals.detail_open)
+			}))
+			.sort((a, b) => b.totals.view - a.totals.view || b.totals.detail_open - a.totals.detail_open)
+	};
+}
+
+// ============================================
+// CLIENT TRACKING
+// ============================================
+
+/**
+ * Report a browser-side event on a job to `/jobs/events`. Fire and
+ * forget: uses a beacon so it survives the page navigating away, and
+ * never throws.
+ */
+export function trackJobEvent(type: JobEventType, jobId: string): void {
+	if (typeof navigator === 'undefined' || !CLIENT_JOB_EVENTS.includes(type)) return;
+
+	const body = JSON.stringify({ type, jobId });
+	try {
+		if (navigator.sendBeacon?.('/jobs/events', new Blob([body], { type: 'application/json' }))) return;
+		void fetch('/jobs/events', {
+			method: 'POST',
+			headers: { 'content-type': 'application/json' },
+			body,
+			keepalive: true
+		}).catch(() => {});
+	} catch {
+		// Analytics never get in the way of the page
+	}
+}
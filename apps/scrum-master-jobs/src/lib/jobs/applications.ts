@@ -0,0 +1,170 @@
+/**
+ * Easy Apply Applications
+ * =======================
+ *
+ * Shared rules for the Easy Apply form, the candidate's application
+ * tracker and the company's applicant inbox: status labels, résumé
+ * limits, screening question parsing and answer validation.
+ *
+ * The server re-validates everything the form sends with the same
+ * functions the form uses, so the rules live in one place.
+ *
+ * Usage:
+ * ```typescript
+ * import { parseScreeningQuestions, collectAnswers } from '$lib/jobs/applications';
+ *
+ * const questions = parseScreeningQuestions(job.screening_questions);
+ * const { answers, error } = collectAnswers(questions, formData);
+ * ```
+ */
+
+import type { ApplicationStatus, ScreeningQuestion } from '$lib/types';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Matches the `resumes` bucket's file_size_limit (006_job_applications.sql) */
+export const MAX_RESUME_BYTES = 5 * 1024 * 1024;
+
+/** Matches the `resumes` bucket's allowed_mime_types */
+export const RESUME_TYPES: Record<string, string> = {
+	'application/pdf': 'PDF',
+	'application/msword': 'Word',
+	'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'Word'
+};
+
+export const MAX_COVER_LETTER_LENGTH = 5000;
+export const MAX_ANSWER_LENGTH = 1000;
+
+/** Kinds of screening question an employer can ask, as offered in the posting form */
+export const SCREENING_QUESTION_TYPES: { value: ScreeningQuestion['type']; label: string }[] = [
+	{ value: 'text', label: 'Text answer' },
+	{ value: 'yes_no', label: 'Yes or no' },
+	{ value: 'choice', label: 'Multiple choice' }
+];
+
+/**
+ * Every status in pipeline order, with the label and description shown
+ * to candidates.
+ */
+export const APPLICATION_STATUSES: { value: ApplicationStatus; label: string; description: string }[] = [
+	{ value: 'submitted', label: 'Submitted', description: 'Your application was sent to the company.' },
+	{ value: 'reviewing', label: 'In review', description: 'The company is reviewing your application.' },
+	{ value: 'interviewing', label: 'Interviewing', description: 'You are in the interview process.' },
+	{ value: 'offered', label: 'Offer', description: 'The company made you an offer.' },
+	{ value: 'hired', label: 'Hired', description: 'Congratulations on the new role!' },
+	{ value: 'rejected', label: 'Not selected', description: 'The company decided not to move forward.' },
+	{ value: 'withdrawn', label: 'Withdrawn', description: 'You withdrew this application.' }
+];
+
+/** Statuses the company can move an application to (withdrawing is the candidate's call) */
+export const EMPLOYER_STATUSES: ApplicationStatus[] = ['submitted', 'reviewing', 'interviewing', 'offered', 'hired', 'rejected'];
+
+/** Statuses after which nothing more happens */
+export const FINAL_STATUSES: ApplicationStatus[] = ['hired', 'rejected', 'withdrawn'];
+
+// ============================================
+// STATUS HELPERS
+// ============================================
+
+export function isApplicationStatus(value: unknown): value is ApplicationStatus {
+	return APPLICATION_STATUSES.some((status) => status.value === value);
+}
+
+export function applicationStatusLabel(status: ApplicationStatus): string {
+	return APPLICATION_STATUSES.find((option) => option.value === status)?.label ?? status;
+}
+
+/**
+ * Whether the candidate can still withdraw.
+ */
+export function canWithdraw(status: ApplicationStatus): boolean {
+	return !FINAL_STATUSES.includes(status);
+}
+
+// ============================================
+// SCREENING QUESTIONS
+// ============================================
+
+/**
+ * Read screening questions from the `jobs.screening_questions` JSON,
+ * dropping malformed entries instead of failing the whole form.
+ */
+export function parseScreeningQuestions(value: unknown): ScreeningQuestion[] {
+	if (!Array.isArray(value)) return [];
+
+	return value.flatMap((entry): ScreeningQuestion[] => {
+		if (!entry || typeof entry !== 'object') return [];
+		const { id, label, type, options, required } = entry as Record<string, unknown>;
+
+		if (typeof id !== 'string' || !id || typeof label !== 'string' || !label.trim()) return [];
+		if (type !== 'text' && type !== 'yes_no' && type !== 'choice') return [];
+
+		const choices = Array.isArray(options) ? options.filter((o): o is string => typeof o === 'string' && o !== '') : [];
+		if (type === 'choice' && choices.length === 0) return [];
+
+		return [
+			{
+				id,
+				label: label.trim(),
+				type,
+				...(type === 'choice' ? { options: choices } : {}),
+				required: required === true
+			}
+		];
+	});
+}
+
+/** Form field name for a screening question's answer */
+export function answerFieldName(question: ScreeningQuestion): string {
+	return `answer-${question.id}`;
+}
+
+/**
+ * Pull and validate answers from a submitted form.
+ * @returns Answers keyed by question id, or the first problem found
+ */
+export function collectAnswers(
+	questions: ScreeningQuestion[],
+	form: FormData
+): { answers: Record<string, string>; error: string | null } {
+	const answers: Record<string, string> = {};
+
+	for (const question of questions) {
+		const answer = String(form.get(answerFieldName(question)) ?? '').trim();
+
+		if (!answer) {
+			if (question.required) return { answers, error: `Please answer “${question.label}”` };
+			continue;
+		}
+		if (question.type === 'yes_no' && answer !== 'Yes' && answer !== 'No') {
+			return { answers, error: `Answer “${question.label}” with yes or no` };
+		}
+		if (question.type === 'choice' && !question.options?.includes(answer)) {
+			return { answers, error: `Pick one of the options for “${question.label}”` };
+		}
+		if (answer.length > MAX_ANSWER_LENGTH) {
+			return { answers, error: `Answers must be ${MAX_ANSWER_LENGTH} characters or fewer` };
+		}
+
+		answers[question.id] = answer;
+	}
+
+	return { answers, error: null };
+}
+
+// ============================================
+// RÉSUMÉ
+// ============================================
+
+/**
+ * Check an uploaded résumé against the bucket's limits.
+ * @returns A message for the form, or null when the file is acceptable
+ */
+export function validateResume(file: { size: number; type: string } | null): string | null {
+	if (!file || file.size === 0) return 'Attach your résumé';
+	if (!Object.hasOwn(RESUME_TYPES, file.type)) return 'Résumés must be a PDF or Word document';
+	if (file.size > MAX_RESUME_BYTES) return `Résumés must be ${MAX_RESUME_BYTES / 1024 / 1024} MB or smaller`;
+	return null;
+}
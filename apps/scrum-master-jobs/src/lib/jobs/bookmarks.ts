@@ -0,0 +1,22 @@
+/**
+ * Bookmark Limits
+ * ===============
+ *
+ * Limits on saved jobs shared by the notes form and the bookmarks API.
+ * Kept apart from the bookmark state (`saved.svelte.ts`) so server code
+ * can validate notes without loading a runes module.
+ *
+ * Usage:
+ * ```typescript
+ * import { MAX_BOOKMARK_NOTES_LENGTH } from '$lib/jobs/bookmarks';
+ *
+ * if (notes.length > MAX_BOOKMARK_NOTES_LENGTH) throw new BookmarkError('Notes are too long', 400);
+ * ```
+ */
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Longest note a user can keep on a bookmark (enforced server-side too) */
+export const MAX_BOOKMARK_NOTES_LENGTH = 2000;
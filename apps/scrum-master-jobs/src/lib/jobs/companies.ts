@@ -0,0 +1,184 @@
+/**
+ * Company Directory
+ * =================
+ *
+ * Shared helpers for /jobs/companies: slugs, headcount buckets, the
+ * directory's URL filters and per-company salary ranges.
+ *
+ * `employee_count` is free text as published by the company ("50-200",
+ * "5000+", "1,200"), so the size filter works on buckets derived from it
+ * rather than on the raw value.
+ *
+ * Usage:
+ * ```typescript
+ * import { parseCompanyQuery, matchesCompanyQuery } from '$lib/jobs/companies';
+ *
+ * const query = parseCompanyQuery(url.searchParams);
+ * const visible = listings.filter((listing) => matchesCompanyQuery(listing, query));
+ * ```
+ */
+
+import type { Company, Salary } from '$lib/types';
+import { convertAmount, toAnnualAmount, type RateTable } from './currency';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export type CompanySize = 'startup' | 'small' | 'mid' | 'large' | 'enterprise';
+
+/**
+ * Directory filters as they appear in the URL (?industry=Fintech&size=small).
+ */
+export interface CompanyQuery {
+	/** Exact industry name, or '' for all */
+	industry: string;
+	size: CompanySize | null;
+}
+
+/**
+ * Salary range across a company's open roles, in one currency.
+ */
+export interface CompanySalaryRange extends Salary {
+	/** True when some roles were converted from another currency */
+	isEstimate: boolean;
+}
+
+/**
+ * A company in the directory with a summary of its open roles.
+ */
+export interface CompanyListing {
+	company: Company & { slug: string };
+	openRoles: number;
+	salaryRange: CompanySalaryRange | null;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Headcount buckets; `max` is inclusive, the last bucket is open-ended */
+export const COMPANY_SIZES: { value: CompanySize; label: string; max: number }[] = [
+	{ value: 'startup', label: '1–50', max: 50 },
+	{ value: 'small', label: '51–200', max: 200 },
+	{ value: 'mid', label: '201–1,000', max: 1000 },
+	{ value: 'large', label: '1,001–5,000', max: 5000 },
+	{ value: 'enterprise', label: '5,000+', max: Infinity }
+];
+
+export const EMPTY_COMPANY_QUERY: CompanyQuery = { industry: '', size: null };
+
+// ============================================
+// SLUGS
+// ============================================
+
+/**
+ * URL slug for a company name ("Hello & Co." → "hello-co").
+ * Only used when a source doesn't supply its own slug.
+ */
+export function companySlug(name: string): string {
+	return name
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-+|-+$/g, '');
+}
+
+// ============================================
+// COMPANY SIZE
+// ============================================
+
+/**
+ * Bucket for a published headcount.
+ * A range is placed by its midpoint and "N+" counts as more than N.
+ * @returns The bucket, or null when the value has no number in it
+ */
+export function companySizeOf(employeeCount: string | null | undefined): CompanySize | null {
+	const text = (employeeCount ?? '').replace(/,/g, '');
+	const numbers = text.match(/\d+/g)?.map(Number) ?? [];
+	if (numbers.length === 0) return null;
+
+	const estimate =
+		numbers.length >= 2
+			? (numbers[0] + numbers[1]) / 2
+			: numbers[0] + (text.includes('+') ? 1 : 0);
+
+	return COMPANY_SIZES.find((size) => estimate <= size.max)?.value ?? null;
+}
+
+export function isCompanySize(value: unknown): value is CompanySize {
+	return COMPANY_SIZES.some((size) => size.value === value);
+}
+
+/**
+ * Display label for a size bucket, e.g. "51–200 employees".
+ */
+export function companySizeLabel(size: CompanySize): string {
+	return `${COMPANY_SIZES.find((option) => option.value === size)?.label} employees`;
+}
+
+// ============================================
+// URL FILTERS
+// ============================================
+
+/**
+ * Read directory filters from the URL; unknown sizes are ignored.
+ */
+export function parseCompanyQuery(params: URLSearchParams): CompanyQuery {
+	const size = params.get('size');
+	return {
+		industry: params.get('industry')?.trim() ?? '',
+		size: isCompanySize(size) ? size : null
+	};
+}
+
+/**
+ * Inverse of `parseCompanyQuery`; empty filters are left out.
+ */
+export function toCompanySearchParams(query: CompanyQuery): URLSearchParams {
+	const params = new URLSearchParams();
+	if (query.industry) params.set('industry', query.industry);
+	if (query.size) params.set('size', query.size);
+	return params;
+}
+
+export function matchesCompanyQuery(listing: CompanyListing, query: CompanyQuery): boolean {
+	const { company } = listing;
+	if (query.industry && company.industry !== query.industry) return false;
+	if (query.size && companySizeOf(company.employeeCount) !== query.size) return false;
+	return true;
+}
+
+// ============================================
+// SALARY RANGE
+// ============================================
+
+/**
+ * Lowest and highest posted salary across roles, annualized and converted
+ * to `currency`. Roles in currencies the rate table doesn't know are left
+ * out; annualized hourly rates make the range an estimate too.
+ * @returns The range, or null when no role lists a convertible salary
+ */
+export function companySalaryRange(
+	salaries: Salary[],
+	currency: string,
+	table: RateTable
+): CompanySalaryRange | null {
+	let min = Infinity;
+	let max = -Infinity;
+	let isEstimate = false;
+
+	for (const salary of salaries) {
+		const low = convertAmount(toAnnualAmount(salary.min, salary.period), salary.currency, currency, table);
+		const high = convertAmount(toAnnualAmount(salary.max, salary.period), salary.currency, currency, table);
+		if (low === null || high === null) continue;
+
+		min = Math.min(min, low);
+		max = Math.max(max, high);
+		if (salary.currency.toUpperCase() !== currency.toUpperCase() || salary.period === 'hour') isEstimate = true;
+	}
+
+	if (!Number.isFinite(min)) return null;
+	return { min: Math.round(min), max: Math.round(max), currency, isEstimate };
+}
@@ -0,0 +1,192 @@
+/**
+ * Job Comparison
+ * ==============
+ *
+ * Side-by-side comparison of up to MAX_COMPARED_JOBS jobs on
+ * /jobs/compare. The compared set lives in the URL (`?jobs=id,id`) so a
+ * shortlist can be shared; the compare tray on /jobs builds that URL.
+ *
+ * Salaries are compared as annual amounts in one currency, benefits by
+ * whether every job offers them, and skills by their overlap with the
+ * viewer's own skills (from their profile). Matching is case-insensitive
+ * throughout.
+ *
+ * Usage:
+ * ```typescript
+ * import { compareJobs, parseCompareIds } from '$lib/jobs/compare';
+ *
+ * const ids = parseCompareIds(url.searchParams.get('jobs'));
+ * const comparison = compareJobs(jobs, { skills: ['TypeScript'], currency: 'USD' });
+ * comparison.differs.salary; // true when the annual ranges differ
+ * ```
+ */
+
+import type { Job, Salary } from '$lib/types';
+import { DEFAULT_RATE_TABLE, toAnnualSalary, type RateTable } from './currency';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Most jobs that can be compared at once */
+export const MAX_COMPARED_JOBS = 4;
+
+/** Most skills a profile can list (matches profiles_skills_length_check) */
+export const MAX_PROFILE_SKILLS = 30;
+
+/** Longest single skill name */
+export const MAX_SKILL_LENGTH = 40;
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/** Rows of the comparison table that can differ between jobs */
+export type ComparisonRow = 'salary' | 'experienceLevel' | 'locationType' | 'benefits' | 'skills';
+
+/** How a job's skills line up with the viewer's */
+export interface SkillOverlap {
+	/** Job skills the viewer has, as the job lists them */
+	matched: string[];
+	/** Job skills the viewer doesn't list */
+	missing: string[];
+	/** Share of the job's skills the viewer has (0-100), null when the job lists none */
+	percent: number | null;
+}
+
+/** A benefit of one job, and whether every compared job offers it */
+export interface ComparedBenefit {
+	label: string;
+	shared: boolean;
+}
+
+/** Per-job comparison data, in the order the jobs were given */
+export interface ComparedJob {
+	job: Job;
+	/** Salary as annual amounts in the comparison currency, if it has one */
+	annualSalary: Salary | null;
+	/** Highest annual maximum among the compared jobs */
+	topSalary: boolean;
+	benefits: ComparedBenefit[];
+	skills: SkillOverlap;
+}
+
+export interface JobComparison {
+	jobs: ComparedJob[];
+	/** Rows whose values are not the same for every job */
+	differs: Record<ComparisonRow, boolean>;
+}
+
+// ============================================
+// URL STATE
+// ============================================
+
+/**
+ * Job ids from the `jobs` URL param: comma-separated, de-duplicated, and
+ * capped at MAX_COMPARED_JOBS.
+ */
+export function parseCompareIds(value: string | null | undefined): string[] {
+	const ids = (value ?? '')
+		.split(',')
+		.map((id) => id.trim())
+		.filter(Boolean);
+	return [...new Set(ids)].slice(0, MAX_COMPARED_JOBS);
+}
+
+/** Href of the comparison page for a set of jobs */
+export function compareHref(ids: string[]): string {
+	const list = parseCompareIds(ids.join(','));
+	return list.length > 0 ? `/jobs/compare?jobs=${list.map(encodeURIComponent).join(',')}` : '/jobs/compare';
+}
+
+// ============================================
+// SKILLS
+// ============================================
+
+/**
+ * A skill list as typed by the user ("TypeScript, react,  Go"): trimmed,
+ * de-duplicated case-insensitively (first spelling wins), capped at
+ * MAX_PROFILE_SKILLS.
+ * @returns The skills, or an error message for a skill that is too long
+ */
+export function parseSkillList(value: string): { skills: string[] } | { error: string } {
+	const seen = new Set<string>();
+	const skills: string[] = [];
+
+	for (const part of value.split(/[,\n]/)) {
+		const skill = part.trim().replace(/\s+/g, ' ');
+		if (!skill) continue;
+		if (skill.length > MAX_SKILL_LENGTH) {
+			return { error: `"${skill.slice(0, 20)}…" is longer than ${MAX_SKILL_LENGTH} characters.` };
+		}
+
+		const key = skill.toLowerCase();
+		if (seen.has(key)) continue;
+		seen.add(key);
+		skills.push(skill);
+	}
+
+	if (skills.length > MAX_PROFILE_SKILLS) {
+		return { error: `List at most ${MAX_PROFILE_SKILLS} skills.` };
+	}
+	return { skills };
+}
+
+/** How a job's skills overlap with `skills` */
+export function skillOverlap(job: Job, skills: string[]): SkillOverlap {
+	const mine = new Set(skills.map((skill) => skill.toLowerCase()));
+	const matched = job.skills.filter((skill) => mine.has(skill.toLowerCase()));
+	const missing = job.skills.filter((skill) => !mine.has(skill.toLowerCase()));
+
+	return {
+		matched,
+		missing,
+		percent: job.skills.length > 0 ? Math.round((matched.length / job.skills.length) * 100) : null
+	};
+}
+
+// ============================================
+// COMPARISON
+// ============================================
+
+/** Whether a list has more than one distinct value */
+function hasDifferences(values: string[]): boolean {
+	return new Set(values).size > 1;
+}
+
+/**
+ * Compare jobs row by row.
+ * @param options.skills - The viewer's skills (empty when signed out or unset)
+ * @param options.currency - Currency the salaries are compared in
+ */
+export function compareJobs(
+	jobs: Job[],
+	options: { skills: string[]; currency: string; table?: RateTable }
+): JobComparison {
+	const table = options.table ?? DEFAULT_RATE_TABLE;
+	const annual = jobs.map((job) => (job.salary ? toAnnualSalary(job.salary, options.currency, table) : null));
+	const topMax = Math.max(...annual.map((salary) => salary?.max ?? 0));
+
+	// Benefits every job offers; the rest are what sets a job apart
+	const benefitKeys = jobs.map((job) => new Set(job.benefits.map((benefit) => benefit.toLowerCase())));
+	const isShared = (benefit: string) => benefitKeys.every((keys) => keys.has(benefit.toLowerCase()));
+
+	const compared = jobs.map((job, index) => ({
+		job,
+		annualSalary: annual[index],
+		topSalary: jobs.length > 1 && topMax > 0 && annual[index]?.max === topMax,
+		benefits: job.benefits.map((label) => ({ label, shared: isShared(label) })),
+		skills: skillOverlap(job, options.skills)
+	}));
+
+	return {
+		jobs: compared,
+		differs: {
+			salary: hasDifferences(annual.map((salary) => (salary ? `${salary.min}-${salary.max}` : ''))),
+			experienceLevel: hasDifferences(jobs.map((job) => job.experienceLevel)),
+			locationType: hasDifferences(jobs.map((job) => job.locationType)),
+			benefits: compared.some((entry) => entry.benefits.some((benefit) => !benefit.shared)),
+			skills: hasDifferences(compared.map((entry) => `${entry.skills.percent}`))
+		}
+	};
+}
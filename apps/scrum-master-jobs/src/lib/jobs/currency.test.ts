@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import type { Salary } from '$lib/types';
+import {
+	DEFAULT_RATE_TABLE,
+	HOURS_PER_YEAR,
+	convertAmount,
+	meetsMinSalary,
+	minSalaryOptions,
+	parseRateTable,
+	salaryEstimate,
+	salaryThresholds,
+	toAnnualSalary
+} from './currency';
+
+const hourlyEuros: Salary = { min: 40, max: 50, currency: 'EUR', period: 'hour' };
+
+// MARK: - Conversion
+
+describe('convertAmount', () => {
+	it('converts through the base currency', () => {
+		expect(convertAmount(92, 'eur', 'USD')).toBeCloseTo(100);
+		expect(convertAmount(100, 'GBP', 'EUR')).toBeCloseTo((100 / 0.79) * 0.92);
+	});
+
+	it('returns null for unknown currencies', () => {
+		expect(convertAmount(100, 'XYZ', 'USD')).toBeNull();
+		expect(convertAmount(100, 'USD', 'XYZ')).toBeNull();
+	});
+});
+
+describe('toAnnualSalary', () => {
+	it('annualizes hourly pay and rounds to whole amounts', () => {
+		expect(toAnnualSalary(hourlyEuros, 'usd')).toEqual({
+			min: Math.round((40 * HOURS_PER_YEAR) / 0.92),
+			max: Math.round((50 * HOURS_PER_YEAR) / 0.92),
+			currency: 'USD',
+			period: 'year'
+		});
+	});
+});
+
+describe('salaryEstimate', () => {
+	it('keeps the period and rounds by it', () => {
+		expect(salaryEstimate(hourlyEuros, 'USD')).toEqual({ min: 43.48, max: 54.35, currency: 'USD', period: 'hour' });
+		expect(salaryEstimate({ min: 70000, max: 80000, currency: 'EUR', period: 'year' }, 'USD')).toMatchObject({
+			min: 76100,
+			max: 87000
+		});
+	});
+
+	it('has nothing to add when the salary is already in the currency', () => {
+		expect(salaryEstimate(hourlyEuros, 'eur')).toBeNull();
+	});
+});
+
+// MARK: - Minimum Salary
+
+describe('meetsMinSalary', () => {
+	it('compares the annualized top of the range', () => {
+		// 50 EUR an hour is about 113,000 USD a year
+		expect(meetsMinSalary(hourlyEuros, 110000, 'USD')).toBe(true);
+		expect(meetsMinSalary(hourlyEuros, 120000, 'USD')).toBe(false);
+	});
+
+	it('leaves out jobs without a convertible salary', () => {
+		expect(meetsMinSalary(undefined, 1, 'USD')).toBe(false);
+		expect(meetsMinSalary({ ...hourlyEuros, currency: 'XYZ' }, 1, 'USD')).toBe(false);
+	});
+});
+
+describe('minSalaryOptions', () => {
+	it('rounds the USD steps to two significant figures', () => {
+		expect(minSalaryOptions('USD')).toEqual([50000, 75000, 100000, 150000, 200000]);
+		expect(minSalaryOptions('EUR')).toEqual([46000, 69000, 92000, 140000, 180000]);
+		expect(minSalaryOptions('XYZ')).toEqual([]);
+	});
+});
+
+describe('salaryThresholds', () => {
+	it('expresses the minimum in every currency, per year and per hour', () => {
+		const thresholds = salaryThresholds(100000, 'usd');
+
+		expect(Object.keys(thresholds).sort()).toEqual(Object.keys(DEFAULT_RATE_TABLE.rates).sort());
+		expect(thresholds.USD).toEqual({ year: 100000, hour: 48.07 });
+		expect(thresholds.EUR).toEqual({ year: 92000, hour: 44.23 });
+		expect(thresholds.JPY.year).toBe(14900000);
+	});
+
+	it('rounds down so a salary right at the minimum matches', () => {
+		const { EUR } = salaryThresholds(100000, 'USD');
+		const atThreshold: Salary = { min: EUR.year, max: EUR.year, currency: 'EUR', period: 'year' };
+
+		expect(meetsMinSalary(atThreshold, 99999, 'USD')).toBe(true);
+		expect(EUR.hour * HOURS_PER_YEAR).toBeLessThanOrEqual(92000);
+	});
+
+	it('is empty for a currency the table lacks', () => {
+		expect(salaryThresholds(100000, 'XYZ')).toEqual({});
+	});
+});
+
+// MARK: - Configuration
+
+describe('parseRateTable', () => {
+	it('overrides and adds rates, ignoring malformed entries', () => {
+		const table = parseRateTable('eur=0.9, MXN=17.1, GBP=abc, TOOLONG=2, CHF=-1');
+
+		expect(table.rates.EUR).toBe(0.9);
+		expect(table.rates.MXN).toBe(17.1);
+		expect(table.rates.GBP).toBe(0.79);
+		expect(table.rates.CHF).toBe(0.88);
+		expect(table.rates).not.toHaveProperty('TOOLONG');
+	});
+
+	it('returns the defaults when there is no override', () => {
+		expect(parseRateTable(undefined)).toBe(DEFAULT_RATE_TABLE);
+		expect(parseRateTable('  ')).toBe(DEFAULT_RATE_TABLE);
+	});
+});
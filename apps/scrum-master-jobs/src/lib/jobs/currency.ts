@@ -0,0 +1,273 @@
+/**
+ * Currency Conversion
+ * ===================
+ *
+ * Converts salary amounts between currencies with a local rate table, so
+ * salaries posted in different currencies can be compared. Rates are
+ * expressed as units of each currency per 1 USD and are approximate;
+ * converted amounts should be presented as estimates.
+ *
+ * The server can override or extend the defaults with CURRENCY_RATES
+ * (see `parseRateTable`), e.g. "EUR=0.92,GBP=0.79,INR=83.1".
+ *
+ * Salaries may be posted per hour or per year. Comparisons (the minimum
+ * salary filter, salary insights, company ranges) use annual amounts,
+ * counting HOURS_PER_YEAR hours in a working year.
+ *
+ * Usage:
+ * ```typescript
+ * import { convertAmount, DEFAULT_RATE_TABLE } from '$lib/jobs/currency';
+ *
+ * convertAmount(70000, 'EUR', 'USD', DEFAULT_RATE_TABLE); // ≈ 76087
+ * toAnnualSalary({ min: 40, max: 50, currency: 'EUR', period: 'hour' }, 'USD'); // ≈ $90k - $113k
+ * ```
+ */
+
+import type { Salary, SalaryPeriod } from '$lib/types';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export interface RateTable {
+	/** Currency all rates are quoted against */
+	base: string;
+	/** Units of each currency per 1 unit of `base` */
+	rates: Record<string, number>;
+	/** When the rates were last updated (ISO date) */
+	asOf: string;
+}
+
+// ============================================
+// DEFAULT RATES
+// ============================================
+
+/**
+ * Approximate mid-market rates. Good enough for salary comparisons;
+ * not for anything that moves money.
+ */
+export const DEFAULT_RATE_TABLE: RateTable = {
+	base: 'USD',
+	asOf: '2026-10-01',
+	rates: {
+		USD: 1,
+		EUR: 0.92,
+		GBP: 0.79,
+		CAD: 1.37,
+		AUD: 1.52,
+		CHF: 0.88,
+		SEK: 10.6,
+		NOK: 10.8,
+		DKK: 6.87,
+		PLN: 3.98,
+		INR: 83.1,
+		JPY: 149,
+		SGD: 1.35,
+		BRL: 5.0
+	}
+};
+
+// ============================================
+// CONVERSION
+// ============================================
+
+/**
+ * Whether the table can convert from/to a currency code.
+ */
+export function isSupportedCurrency(code: string, table: RateTable = DEFAULT_RATE_TABLE): boolean {
+	return code.toUpperCase() in table.rates;
+}
+
+/**
+ * Currencies in the table, base first then alphabetical.
+ */
+export function supportedCurrencies(table: RateTable = DEFAULT_RATE_TABLE): string[] {
+	return Object.keys(table.rates).sort((a, b) =>
+		a === table.base ? -1 : b === table.base ? 1 : a.localeCompare(b)
+	);
+}
+
+/**
+ * Convert an amount between currencies via the table's base currency.
+ * @returns The converted amount, or null when either currency is unknown
+ */
+export function convertAmount(
+	amount: number,
+	from: string,
+	to: string,
+	table: RateTable = DEFAULT_RATE_TABLE
+): number | null {
+	const fromRate = table.rates[from.toUpperCase()];
+	const toRate = table.rates[to.toUpperCase()];
+	if (!fromRate || !toRate) return null;
+	if (from.toUpperCase() === to.toUpperCase()) return amount;
+
+	return (amount / fromRate) * toRate;
+}
+
+// ============================================
+// SALARY PERIODS
+// ============================================
+
+/** 40 hours a week, 52 weeks a year */
+export const HOURS_PER_YEAR = 2080;
+
+export interface SalaryPeriodOption {
+	value: SalaryPeriod;
+	label: string;
+}
+
+export const SALARY_PERIODS: SalaryPeriodOption[] = [
+	{ value: 'year', label: 'Per year' },
+	{ value: 'hour', label: 'Per hour' }
+];
+
+/**
+ * Whether a string is a known salary period.
+ */
+export function isSalaryPeriod(value: unknown): value is SalaryPeriod {
+	return SALARY_PERIODS.some((option) => option.value === value);
+}
+
+/**
+ * An amount paid per `period`, as an annual amount.
+ */
+export function toAnnualAmount(amount: number, period: SalaryPeriod = 'year'): number {
+	return period === 'hour' ? amount * HOURS_PER_YEAR : amount;
+}
+
+// ============================================
+// SALARY CONVERSION
+// ============================================
+
+/**
+ * A salary as whole annual amounts in `currency`.
+ * @returns The annual salary, or null when the currency can't be converted
+ */
+export function toAnnualSalary(salary: Salary, currency: string, table: RateTable = DEFAULT_RATE_TABLE): Salary | null {
+	const min = convertAmount(toAnnualAmount(salary.min, salary.period), salary.currency, currency, table);
+	const max = convertAmount(toAnnualAmount(salary.max, salary.period), salary.currency, currency, table);
+	if (min === null || max === null) return null;
+
+	return { min: Math.round(min), max: Math.round(max), currency: currency.toUpperCase(), period: 'year' };
+}
+
+/**
+ * A salary converted to the viewer's display currency, keeping its period.
+ * Shown next to the posted amount and labelled as an estimate.
+ * @returns The estimate, or null when the salary is already in `currency`
+ *          or can't be converted
+ */
+export function salaryEstimate(salary: Salary, currency: string, table: RateTable = DEFAULT_RATE_TABLE): Salary | null {
+	if (salary.currency.toUpperCase() === currency.toUpperCase()) return null;
+
+	const min = convertAmount(salary.min, salary.currency, currency, table);
+	const max = convertAmount(salary.max, salary.currency, currency, table);
+	if (min === null || max === null) return null;
+
+	// Hourly estimates keep cents; annual ones are rounded to the hundred
+	const round = (amount: number) =>
+		salary.period === 'hour' ? Math.round(amount * 100) / 100 : Math.round(amount / 100) * 100;
+	return { min: round(min), max: round(max), currency: currency.toUpperCase(), period: salary.period };
+}
+
+// ============================================
+// MINIMUM SALARY FILTER
+// ============================================
+
+/**
+ * Whether a salary can reach `minAnnual` a year (in `currency`): the top of
+ * its range, annualized and converted, is at least the minimum. Jobs
+ * without a salary, or in a currency the table can't convert, don't match.
+ */
+export function meetsMinSalary(
+	salary: Salary | undefined,
+	minAnnual: number,
+	currency: string,
+	table: RateTable = DEFAULT_RATE_TABLE
+): boolean {
+	if (!salary) return false;
+	const annual = toAnnualSalary(salary, currency, table);
+	return annual !== null && annual.max >= minAnnual;
+}
+
+/** Minimum salary choices offered in filters, in USD a year */
+const MIN_SALARY_STEPS_USD = [50_000, 75_000, 100_000, 150_000, 200_000];
+
+/**
+ * Minimum salary choices in `currency`: the USD steps converted and
+ * rounded to two significant figures (e.g. 92,000 EUR, 8,300,000 INR).
+ */
+export function minSalaryOptions(currency: string, table: RateTable = DEFAULT_RATE_TABLE): number[] {
+	return MIN_SALARY_STEPS_USD.flatMap((step) => {
+		const amount = convertAmount(step, 'USD', currency, table);
+		if (amount === null) return [];
+		const magnitude = 10 ** Math.max(0, Math.floor(Math.log10(amount)) - 1);
+		return [Math.round(amount / magnitude) * magnitude];
+	});
+}
+
+/**
+ * Compact label for a minimum salary: "$100K+".
+ */
+export function formatMinSalary(amount: number, currency: string): string {
+	const formatter = new Intl.NumberFormat('en-US', {
+		style: 'currency',
+		currency,
+		notation: 'compact',
+		maximumFractionDigits: 0
+	});
+	return `${formatter.format(amount)}+`;
+}
+
+/**
+ * The minimum salary expressed in every currency and period of the table:
+ * the lowest `salary_max` (or `salary_min`, when that is all it lists) a
+ * posting may list to match. Lets the database filter with plain
+ * comparisons while the rates stay in the app.
+ * @returns Thresholds by currency code, then period; empty when `currency`
+ *          isn't in the table
+ */
+export function salaryThresholds(
+	minAnnual: number,
+	currency: string,
+	table: RateTable = DEFAULT_RATE_TABLE
+): Record<string, Record<SalaryPeriod, number>> {
+	const thresholds: Record<string, Record<SalaryPeriod, number>> = {};
+	if (!isSupportedCurrency(currency, table)) return thresholds;
+
+	for (const code of Object.keys(table.rates)) {
+		const annual = convertAmount(minAnnual, currency, code, table);
+		if (annual === null) continue;
+		// Round down so amounts right at the minimum still match
+		thresholds[code] = {
+			year: Math.floor(annual),
+			hour: Math.floor((annual / HOURS_PER_YEAR) * 100) / 100
+		};
+	}
+
+	return thresholds;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/**
+ * Merge a "CODE=rate,CODE=rate" override string into a rate table.
+ * Malformed entries are ignored so a typo can't take the page down.
+ */
+export function parseRateTable(override: string | undefined, base: RateTable = DEFAULT_RATE_TABLE): RateTable {
+	if (!override?.trim()) return base;
+
+	const rates = { ...base.rates };
+	for (const entry of override.split(',')) {
+		const [code, value] = entry.split('=').map((part) => part.trim());
+		const rate = Number(value);
+		if (/^[A-Za-z]{3}$/.test(code ?? '') && Number.isFinite(rate) && rate > 0) {
+			rates[code.toUpperCase()] = rate;
+		}
+	}
+
+	return { ...base, rates };
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import type { Job } from '$lib/types';
+import { getJobById } from '$lib/data/jobs';
+import {
+	collapseDuplicateJobs,
+	dedupeSignature,
+	groupDuplicates,
+	isNearDuplicate,
+	jaccard,
+	normalizeWords,
+	shingles,
+	sourceLabel,
+	type DedupeFields
+} from './dedupe';
+
+function fixture(id: string): Job {
+	const job = getJobById(id);
+	if (!job) throw new Error(`No fixture job ${id}`);
+	return job;
+}
+
+const description =
+	'We are hiring a backend engineer to build the payments ledger, own reconciliation jobs and keep settlement fast.';
+
+const listing: DedupeFields = {
+	company: 'Northwind',
+	title: 'Senior Backend Engineer',
+	location: 'Remote, US',
+	description
+};
+
+function duplicates(a: DedupeFields, b: DedupeFields): boolean {
+	return isNearDuplicate(dedupeSignature(a), dedupeSignature(b));
+}
+
+// MARK: - Normalization
+
+describe('normalizeWords', () => {
+	it('drops markup, accents and punctuation', () => {
+		expect(normalizeWords('<p>Développeur C++ / C#, Zürich!</p>')).toEqual(['developpeur', 'c++', 'c#', 'zurich']);
+		expect(normalizeWords(null)).toEqual([]);
+	});
+});
+
+describe('shingles', () => {
+	it('takes runs of three words', () => {
+		expect([...shingles('one two three four')]).toEqual(['one two three', 'two three four']);
+	});
+
+	it('keeps short texts as one shingle', () => {
+		expect([...shingles('Build APIs')]).toEqual(['build apis']);
+		expect(shingles('').size).toBe(0);
+	});
+});
+
+describe('jaccard', () => {
+	it('compares shared items with all items', () => {
+		expect(jaccard(new Set(['a', 'b']), new Set(['b', 'c']))).toBeCloseTo(1 / 3);
+		expect(jaccard(new Set(), new Set())).toBe(1);
+	});
+});
+
+describe('dedupeSignature', () => {
+	it('spells out abbreviations and drops location words from titles', () => {
+		const signature = dedupeSignature({ company: 'North Wind', title: 'Sr. Backend Eng (Remote, m/f/d)' });
+
+		expect(signature.company).toBe('north-wind');
+		expect([...signature.titleWords]).toEqual(['senior', 'backend', 'engineer']);
+	});
+
+	it('reads title words that look like object keys as plain words', () => {
+		const signature = dedupeSignature({ company: 'Northwind', title: 'Constructor Toolkit Engineer' });
+
+		expect([...signature.titleWords]).toEqual(['constructor', 'toolkit', 'engineer']);
+	});
+});
+
+// MARK: - Matching
+
+describe('isNearDuplicate', () => {
+	it('matches the same opening with a reworded title and location', () => {
+		const reworded = { ...listing, title: 'Sr Backend Engineer - Remote', location: 'Remote (US)' };
+		expect(duplicates(listing, reworded)).toBe(true);
+	});
+
+	it('matches on company, title and location when a description is missing', () => {
+		expect(duplicates(listing, { ...listing, description: null })).toBe(true);
+		expect(duplicates(listing, { ...listing, location: null })).toBe(true);
+	});
+
+	it('tells apart other companies, titles and places', () => {
+		expect(duplicates(listing, { ...listing, company: 'Contoso' })).toBe(false);
+		expect(duplicates(listing, { ...listing, title: 'Senior Frontend Engineer' })).toBe(false);
+		expect(duplicates(listing, { ...listing, location: 'Berlin, Germany' })).toBe(false);
+	});
+
+	it('tells apart openings with different descriptions', () => {
+		const other = 'Join the growth team to run pricing experiments and ship onboarding flows for small businesses.';
+		expect(duplicates(listing, { ...listing, description: other })).toBe(false);
+	});
+
+	it('never matches listings without a company', () => {
+		expect(duplicates({ ...listing, company: '' }, { ...listing, company: '' })).toBe(false);
+	});
+});
+
+describe('groupDuplicates', () => {
+	it('groups in input order with the first listing first', () => {
+		const items = [
+			{ id: 1, ...listing },
+			{ id: 2, ...listing, company: 'Contoso' },
+			{ id: 3, ...listing, title: 'Sr. Backend Engineer' }
+		];
+
+		expect(groupDuplicates(items, (item) => item).map((group) => group.map((item) => item.id))).toEqual([
+			[1, 3],
+			[2]
+		]);
+	});
+});
+
+// MARK: - Job Listings
+
+describe('collapseDuplicateJobs', () => {
+	it('folds copies into the first job as other listings', () => {
+		const job = fixture('job-001');
+		const copy: Job = { ...job, id: 'copy-1', slug: 'copy-1', source: 'greenhouse', applyUrl: 'https://ats.example/1' };
+		const other = fixture('job-002');
+
+		const collapsed = collapseDuplicateJobs([job, other, copy]);
+
+		expect(collapsed.map((entry) => entry.id)).toEqual([job.id, other.id]);
+		expect(collapsed[0].alsoPostedOn).toEqual([
+			{ id: 'copy-1', slug: 'copy-1', source: 'greenhouse', applyUrl: 'https://ats.example/1' }
+		]);
+		expect(collapsed[1]).toBe(other);
+	});
+});
+
+describe('sourceLabel', () => {
+	it('names known sources and capitalizes the rest', () => {
+		expect(sourceLabel(null)).toBe('This board');
+		expect(sourceLabel('lever')).toBe('Lever');
+		expect(sourceLabel('workable')).toBe('Workable');
+	});
+});
@@ -0,0 +1,239 @@
+/**
+ * Near-Duplicate Jobs
+ * ===================
+ *
+ * Finds listings that are the same opening posted more than once: the
+ * board's own posting and its Greenhouse copy, or one role picked up by
+ * two feeds. `content_hash` only catches exact company/title/location
+ * matches; this compares normalized text instead.
+ *
+ * Two listings are near-duplicates when they have the same company,
+ * nearly the same title words, locations that share a word (or one of
+ * them has none), and descriptions that share most of their word
+ * shingles (runs of SHINGLE_SIZE words). A listing without a description
+ * is matched on company, title and location alone.
+ *
+ * Used by the job pipeline to collapse duplicates on /jobs into one card
+ * with "also posted on" links, and by the importer to skip duplicates
+ * before insert. Works on any record through a `DedupeFields` accessor.
+ *
+ * Usage:
+ * ```typescript
+ * import { collapseDuplicateJobs, groupDuplicates } from '$lib/jobs/dedupe';
+ *
+ * const jobs = collapseDuplicateJobs(page); // duplicates folded into `alsoPostedOn`
+ * const groups = groupDuplicates(rows, (row) => ({ company: row.company_id, title: row.title }));
+ * ```
+ */
+
+import type { DuplicateListing, Job } from '$lib/types';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Words per description shingle */
+export const SHINGLE_SIZE = 3;
+
+/** Share of title words two listings must have in common */
+const TITLE_SIMILARITY = 0.8;
+
+/** Share of description shingles two listings must have in common */
+const DESCRIPTION_SIMILARITY = 0.6;
+
+/** Title words that say where or how, not what the role is */
+const TITLE_NOISE = new Set(['remote', 'hybrid', 'onsite', 'on', 'site', 'm', 'f', 'd', 'w', 'x', 'all', 'genders']);
+
+/** Abbreviations spelled out so "Sr." and "Senior" match */
+const TITLE_ALIASES: Record<string, string> = {
+	sr: 'senior',
+	jr: 'junior',
+	eng: 'engineer',
+	dev: 'developer',
+	mgr: 'manager'
+};
+
+/** Display names of listing sources (`jobs.source`) */
+const SOURCE_LABELS: Record<string, string> = {
+	direct: 'This board',
+	greenhouse: 'Greenhouse',
+	lever: 'Lever',
+	ashby: 'Ashby',
+	json: 'JSON feed',
+	rss: 'RSS feed'
+};
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/** The text a listing is compared on */
+export interface DedupeFields {
+	/** Company key: a name, slug or id, as long as both sides use the same kind */
+	company: string;
+	title: string;
+	location?: string | null;
+	description?: string | null;
+}
+
+/** Normalized form of a listing, computed once per listing */
+export interface DedupeSignature {
+	company: string;
+	titleWords: Set<string>;
+	locationWords: Set<string>;
+	shingles: Set<string>;
+}
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+/**
+ * Lowercase words without accents, markup or punctuation.
+ */
+export function normalizeWords(text: string | null | undefined): string[] {
+	return (text ?? '')
+		.replace(/<[^>]+>/g, ' ')
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.split(/[^a-z0-9+#]+/)
+		.filter(Boolean);
+}
+
+/**
+ * Word shingles of a text. Texts shorter than `size` words are one shingle.
+ */
+export function shingles(text: string | null | undefined, size = SHINGLE_SIZE): Set<string> {
+	const words = normalizeWords(text);
+	if (words.length === 0) return new Set();
+	if (words.length <= size) return new Set([words.join(' ')]);
+
+	const result = new Set<string>();
+	for (let i = 0; i + size <= words.length; i++) {
+		result.add(words.slice(i, i + size).join(' '));
+	}
+	return result;
+}
+
+/**
+ * Jaccard similarity of two sets (1 when both are empty).
+ */
+export function jaccard(a: Set<string>, b: Set<string>): number {
+	if (a.size === 0 && b.size === 0) return 1;
+	let shared = 0;
+	for (const item of a) {
+		if (b.has(item)) shared++;
+	}
+	return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Normalize a listing for comparison.
+ */
+export function dedupeSignature(fields: DedupeFields): DedupeSignature {
+	const titleWords = normalizeWords(fields.title)
+		.map((word) => (Object.hasOwn(TITLE_ALIASES, word) ? TITLE_ALIASES[word] : word))
+		.filter((word) => !TITLE_NOISE.has(word));
+
+	return {
+		company: normalizeWords(fields.company).join('-'),
+		titleWords: new Set(titleWords),
+		locationWords: new Set(normalizeWords(fields.location)),
+		shingles: shingles(fields.description)
+	};
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+/**
+ * Whether two listings are the same opening.
+ */
+export function isNearDuplicate(a: DedupeSignature, b: DedupeSignature): boolean {
+	if (!a.company || a.company !== b.company) return false;
+	if (jaccard(a.titleWords, b.titleWords) < TITLE_SIMILARITY) return false;
+
+	// Same title in two places is two openings
+	if (a.locationWords.size > 0 && b.locationWords.size > 0 && jaccard(a.locationWords, b.locationWords) === 0) {
+		return false;
+	}
+
+	if (a.shingles.size === 0 || b.shingles.size === 0) return true;
+	return jaccard(a.shingles, b.shingles) >= DESCRIPTION_SIMILARITY;
+}
+
+/**
+ * Group items that are near-duplicates of each other. Groups keep the
+ * input order, and each item joins the first group whose first item it
+ * duplicates, so the first listing of a group is its representative.
+ * Items without duplicates come back as groups of one.
+ */
+export function groupDuplicates<T>(items: T[], fields: (item: T) => DedupeFields): T[][] {
+	const groups: { signature: DedupeSignature; items: T[] }[] = [];
+	const byCompany = new Map<string, typeof groups>();
+
+	for (const item of items) {
+		const signature = dedupeSignature(fields(item));
+		const candidates = byCompany.get(signature.company) ?? [];
+		const group = candidates.find((candidate) => isNearDuplicate(candidate.signature, signature));
+
+		if (group) {
+			group.items.push(item);
+			continue;
+		}
+
+		const created = { signature, items: [item] };
+		groups.push(created);
+		byCompany.set(signature.company, [...candidates, created]);
+	}
+
+	return groups.map((group) => group.items);
+}
+
+// ============================================
+// JOB LISTINGS
+// ============================================
+
+/** Comparison fields of a frontend job */
+export function jobDedupeFields(job: Job): DedupeFields {
+	return {
+		company: job.company.name,
+		title: job.title,
+		location: job.location,
+		description: job.description
+	};
+}
+
+/**
+ * Fold near-duplicate jobs into the first of each group, listing the
+ * others under `alsoPostedOn`.
+ */
+export function collapseDuplicateJobs(jobs: Job[]): Job[] {
+	return groupDuplicates(jobs, jobDedupeFields).map(([first, ...others]) =>
+		others.length === 0
+			? first
+			: {
+					...first,
+					alsoPostedOn: [...(first.alsoPostedOn ?? []), ...others.map(toDuplicateListing)]
+				}
+	);
+}
+
+function toDuplicateListing(job: Job): DuplicateListing {
+	return {
+		id: job.id,
+		slug: job.slug,
+		source: job.source ?? null,
+		applyUrl: job.applyUrl
+	};
+}
+
+/**
+ * Display name of a listing source ("Greenhouse", "This board").
+ */
+export function sourceLabel(source: string | null | undefined): string {
+	if (!source) return SOURCE_LABELS.direct;
+	return SOURCE_LABELS[source] ?? source.charAt(0).toUpperCase() + source.slice(1);
+}
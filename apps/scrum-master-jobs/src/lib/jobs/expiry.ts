@@ -0,0 +1,88 @@
+/**
+ * Job Expiry
+ * ==========
+ *
+ * Shared rules for when a listing leaves the board: the "closing soon"
+ * and "reposted" markers on /jobs, and the close reasons shown on the
+ * employer dashboard. The scheduled reaper (`$lib/server/expiry`) closes
+ * listings in the database; these helpers only read a `Job`, so they
+ * work for mock data too.
+ *
+ * Usage:
+ * ```typescript
+ * import { isClosingSoon, isReposted } from '$lib/jobs/expiry';
+ *
+ * const badges = { closingSoon: isClosingSoon(job), reposted: isReposted(job) };
+ * ```
+ */
+
+import type { Job, JobCloseReason } from '$lib/types';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Listings closing within this many days get the "closing soon" marker */
+export const CLOSING_SOON_DAYS = 7;
+
+/** A later posted date only counts as a repost when it's at least this far from the first */
+const REPOST_MIN_GAP_MS = DAY_MS;
+
+/** Labels and descriptions for the reasons a listing was closed */
+export const JOB_CLOSE_REASONS: { value: JobCloseReason; label: string; description: string }[] = [
+	{ value: 'expired', label: 'Expired', description: 'The closing date passed.' },
+	{ value: 'stale', label: 'Stale', description: 'The listing was not refreshed for a long time.' },
+	{ value: 'unreachable', label: 'Link broken', description: 'The application link stopped working.' },
+	{ value: 'reported', label: 'Reported', description: 'Hidden after reports from job seekers, pending moderator review.' },
+	{ value: 'removed', label: 'Removed', description: 'Taken down by a moderator after reports from job seekers.' }
+];
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Whole days left until `iso` (0 on its last day and once it has passed).
+ */
+export function daysUntil(iso: string, now: Date = new Date()): number {
+	return Math.max(0, Math.floor((Date.parse(iso) - now.getTime()) / DAY_MS));
+}
+
+/**
+ * Whether the job's closing date has passed.
+ */
+export function isExpired(job: Pick<Job, 'expiresAt'>, now: Date = new Date()): boolean {
+	return !!job.expiresAt && Date.parse(job.expiresAt) <= now.getTime();
+}
+
+/**
+ * Whether the job is still open but closes within `CLOSING_SOON_DAYS`.
+ */
+export function isClosingSoon(job: Pick<Job, 'expiresAt'>, now: Date = new Date()): boolean {
+	if (!job.expiresAt || isExpired(job, now)) return false;
+	return Date.parse(job.expiresAt) - now.getTime() <= CLOSING_SOON_DAYS * DAY_MS;
+}
+
+/**
+ * Whether the job was published again after it first went live.
+ */
+export function isReposted(job: Pick<Job, 'postedAt' | 'originalPostedAt'>): boolean {
+	if (!job.originalPostedAt) return false;
+	return Date.parse(job.postedAt) - Date.parse(job.originalPostedAt) >= REPOST_MIN_GAP_MS;
+}
+
+/**
+ * "Closes today", "Closes tomorrow" or "Closes in N days".
+ */
+export function closingLabel(expiresAt: string, now: Date = new Date()): string {
+	const days = daysUntil(expiresAt, now);
+	if (days <= 0) return 'Closes today';
+	if (days === 1) return 'Closes tomorrow';
+	return `Closes in ${days} days`;
+}
+
+export function jobCloseReasonLabel(reason: JobCloseReason): string {
+	return JOB_CLOSE_REASONS.find((option) => option.value === reason)?.label ?? reason;
+}
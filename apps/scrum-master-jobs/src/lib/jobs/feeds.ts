@@ -0,0 +1,338 @@
+/**
+ * Job Feeds
+ * =========
+ *
+ * Renders job lists as subscribable feeds: RSS 2.0, Atom and JSON Feed 1.1
+ * for filtered searches (/jobs/feed/[format]), and an iCalendar feed of
+ * application deadlines for saved jobs (/jobs/saved/calendar/[token].ics).
+ *
+ * Items carry the same one-line summary as the job cards (salary via
+ * `formatSalary`, age via `formatPostedDate`) and the job's description
+ * as HTML.
+ *
+ * Usage:
+ * ```typescript
+ * import { renderJobFeed, FEED_CONTENT_TYPES } from '$lib/jobs/feeds';
+ *
+ * const body = renderJobFeed('atom', jobs, meta);
+ * return new Response(body, { headers: { 'Content-Type': FEED_CONTENT_TYPES.atom } });
+ * ```
+ */
+
+import type { Job } from '$lib/types';
+import { formatSalary, formatPostedDate } from '$lib/data/jobs';
+import { jobDescriptionHtml, jobPath } from './seo';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export type JobFeedFormat = 'rss' | 'atom' | 'json';
+
+/**
+ * Channel-level details of a job feed.
+ */
+export interface JobFeedMeta {
+	title: string;
+	description: string;
+	/** The /jobs view the feed mirrors */
+	homeUrl: URL;
+	/** The feed's own URL */
+	feedUrl: URL;
+	/** Build time of the feed */
+	updatedAt: Date;
+}
+
+/**
+ * Calendar-level details of a deadline feed.
+ */
+export interface DeadlineCalendarMeta {
+	name: string;
+	/** Site origin, for job links and event UIDs */
+	origin: URL;
+	/** DTSTAMP of every event */
+	now: Date;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const JOB_FEED_FORMATS: JobFeedFormat[] = ['rss', 'atom', 'json'];
+
+export const FEED_CONTENT_TYPES: Record<JobFeedFormat | 'ics', string> = {
+	rss: 'application/rss+xml; charset=utf-8',
+	atom: 'application/atom+xml; charset=utf-8',
+	json: 'application/feed+json; charset=utf-8',
+	ics: 'text/calendar; charset=utf-8'
+};
+
+/** Jobs per feed; readers only show recent items */
+export const JOB_FEED_SIZE = 50;
+
+/** How often calendar apps should refetch the deadline feed */
+const CALENDAR_REFRESH_INTERVAL = 'PT6H';
+
+// ============================================
+// ITEM CONTENT
+// ============================================
+
+/**
+ * Check if a string is one of the feed formats.
+ */
+export function isJobFeedFormat(value: string): value is JobFeedFormat {
+	return (JOB_FEED_FORMATS as string[]).includes(value);
+}
+
+/**
+ * One-line summary of a job: company, location, type, salary and age.
+ */
+export function jobFeedSummary(job: Job): string {
+	return [
+		job.company.name,
+		job.location,
+		job.locationType,
+		job.employmentType,
+		job.salary ? formatSalary(job.salary) : null,
+		`Posted ${formatPostedDate(job.postedAt).toLowerCase()}`
+	]
+		.filter(Boolean)
+		.join(' · ');
+}
+
+function itemTitle(job: Job): string {
+	return `${job.title} at ${job.company.name}`;
+}
+
+function itemHtml(job: Job): string {
+	return `<p><strong>${escapeXml(jobFeedSummary(job))}</strong></p>${jobDescriptionHtml(job)}`;
+}
+
+// ============================================
+// XML FEEDS
+// ============================================
+
+/**
+ * Escape text for XML content and attribute values (also used by the
+ * reading list's OPML export).
+ */
+export function escapeXml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;');
+}
+
+/**
+ * RSS 2.0 feed of jobs.
+ */
+export function renderRssFeed(jobs: Job[], meta: JobFeedMeta): string {
+	const items = jobs.map((job) => {
+		const link = new URL(jobPath(job), meta.homeUrl).href;
+		return [
+			'<item>',
+			`<title>${escapeXml(itemTitle(job))}</title>`,
+			`<link>${escapeXml(link)}</link>`,
+			`<guid isPermaLink="true">${escapeXml(link)}</guid>`,
+			`<pubDate>${new Date(job.postedAt).toUTCString()}</pubDate>`,
+			`<description>${escapeXml(itemHtml(job))}</description>`,
+			...job.skills.map((skill) => `<category>${escapeXml(skill)}</category>`),
+			'</item>'
+		].join('\n');
+	});
+
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+		'<channel>',
+		`<title>${escapeXml(meta.title)}</title>`,
+		`<link>${escapeXml(meta.homeUrl.href)}</link>`,
+		`<description>${escapeXml(meta.description)}</description>`,
+		'<language>en</language>',
+		`<lastBuildDate>${meta.updatedAt.toUTCString()}</lastBuildDate>`,
+		`<atom:link href="${escapeXml(meta.feedUrl.href)}" rel="self" type="application/rss+xml" />`,
+		...items,
+		'</channel>',
+		'</rss>'
+	].join('\n');
+}
+
+/**
+ * Atom 1.0 feed of jobs.
+ */
+export function renderAtomFeed(jobs: Job[], meta: JobFeedMeta): string {
+	const entries = jobs.map((job) => {
+		const link = new URL(jobPath(job), meta.homeUrl).href;
+		const posted = new Date(job.postedAt).toISOString();
+		return [
+			'<entry>',
+			`<id>${escapeXml(link)}</id>`,
+			`<title>${escapeXml(itemTitle(job))}</title>`,
+			`<link rel="alternate" type="text/html" href="${escapeXml(link)}" />`,
+			`<published>${posted}</published>`,
+			`<updated>${posted}</updated>`,
+			`<author><name>${escapeXml(job.company.name)}</name></author>`,
+			`<summary>${escapeXml(jobFeedSummary(job))}</summary>`,
+			`<content type="html">${escapeXml(itemHtml(job))}</content>`,
+			...job.skills.map((skill) => `<category term="${escapeXml(skill)}" />`),
+			'</entry>'
+		].join('\n');
+	});
+
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">',
+		`<id>${escapeXml(meta.feedUrl.href)}</id>`,
+		`<title>${escapeXml(meta.title)}</title>`,
+		`<subtitle>${escapeXml(meta.description)}</subtitle>`,
+		`<link rel="self" type="application/atom+xml" href="${escapeXml(meta.feedUrl.href)}" />`,
+		`<link rel="alternate" type="text/html" href="${escapeXml(meta.homeUrl.href)}" />`,
+		`<updated>${meta.updatedAt.toISOString()}</updated>`,
+		...entries,
+		'</feed>'
+	].join('\n');
+}
+
+// ============================================
+// JSON FEED
+// ============================================
+
+/**
+ * JSON Feed 1.1 of jobs. Structured job fields go in a `_job` extension
+ * object on each item, for readers and scripts that want more than text.
+ */
+export function renderJsonFeed(jobs: Job[], meta: JobFeedMeta): string {
+	return JSON.stringify({
+		version: 'https://jsonfeed.org/version/1.1',
+		title: meta.title,
+		description: meta.description,
+		home_page_url: meta.homeUrl.href,
+		feed_url: meta.feedUrl.href,
+		language: 'en',
+		items: jobs.map((job) => ({
+			id: job.id,
+			url: new URL(jobPath(job), meta.homeUrl).href,
+			...(job.applyUrl ? { external_url: job.applyUrl } : {}),
+			title: itemTitle(job),
+			summary: jobFeedSummary(job),
+			content_html: itemHtml(job),
+			date_published: new Date(job.postedAt).toISOString(),
+			authors: [{ name: job.company.name, ...(job.company.website ? { url: job.company.website } : {}) }],
+			tags: job.skills,
+			_job: {
+				company: job.company.name,
+				location: job.location,
+				location_type: job.locationType,
+				employment_type: job.employmentType,
+				experience_level: job.experienceLevel,
+				salary: job.salary ?? null,
+				expires_at: job.expiresAt ?? null
+			}
+		}))
+	});
+}
+
+/**
+ * Render jobs in the given feed format.
+ */
+export function renderJobFeed(format: JobFeedFormat, jobs: Job[], meta: JobFeedMeta): string {
+	switch (format) {
+		case 'rss':
+			return renderRssFeed(jobs, meta);
+		case 'atom':
+			return renderAtomFeed(jobs, meta);
+		case 'json':
+			return renderJsonFeed(jobs, meta);
+	}
+}
+
+// ============================================
+// ICALENDAR
+// ============================================
+
+/** TEXT values escape backslashes, separators and newlines (RFC 5545 §3.3.11) */
+function escapeIcsText(text: string): string {
+	return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** Content lines longer than 75 octets are folded onto continuation lines */
+function foldIcsLine(line: string): string {
+	const encoder = new TextEncoder();
+	const parts: string[] = [];
+	let current = '';
+	let octets = 0;
+
+	for (const char of line) {
+		const size = encoder.encode(char).length;
+		// Continuation lines start with a space, which counts toward their 75
+		if (octets + size > (parts.length === 0 ? 75 : 74)) {
+			parts.push(current);
+			current = '';
+			octets = 0;
+		}
+		current += char;
+		octets += size;
+	}
+	parts.push(current);
+
+	return parts.join('\r\n ');
+}
+
+/** UTC timestamp in iCalendar form: 20261019T083000Z */
+function icsDateTime(date: Date): string {
+	return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** Calendar date in iCalendar form: 20261019 */
+function icsDate(date: Date): string {
+	return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * iCalendar feed with an all-day event on each job's closing date (UTC)
+ * and a reminder the day before. Jobs without a closing date are left out.
+ */
+export function renderDeadlineCalendar(jobs: Job[], meta: DeadlineCalendarMeta): string {
+	const events = jobs.flatMap((job) => {
+		if (!job.expiresAt) return [];
+
+		const closes = new Date(job.expiresAt);
+		const nextDay = new Date(closes.getTime() + 24 * 60 * 60 * 1000);
+		const link = new URL(jobPath(job), meta.origin).href;
+
+		return [
+			'BEGIN:VEVENT',
+			`UID:job-${job.id}@${meta.origin.host}`,
+			`DTSTAMP:${icsDateTime(meta.now)}`,
+			`DTSTART;VALUE=DATE:${icsDate(closes)}`,
+			`DTEND;VALUE=DATE:${icsDate(nextDay)}`,
+			`SUMMARY:${escapeIcsText(`Applications close: ${itemTitle(job)}`)}`,
+			`DESCRIPTION:${escapeIcsText(`${jobFeedSummary(job)}\n\n${link}`)}`,
+			`URL:${link}`,
+			'TRANSP:TRANSPARENT',
+			'BEGIN:VALARM',
+			'ACTION:DISPLAY',
+			'TRIGGER:-P1D',
+			`DESCRIPTION:${escapeIcsText(`Applications for ${itemTitle(job)} close tomorrow`)}`,
+			'END:VALARM',
+			'END:VEVENT'
+		];
+	});
+
+	const lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		'PRODID:-//Community//Job Deadlines//EN',
+		'CALSCALE:GREGORIAN',
+		'METHOD:PUBLISH',
+		`X-WR-CALNAME:${escapeIcsText(meta.name)}`,
+		`REFRESH-INTERVAL;VALUE=DURATION:${CALENDAR_REFRESH_INTERVAL}`,
+		`X-PUBLISHED-TTL:${CALENDAR_REFRESH_INTERVAL}`,
+		...events,
+		'END:VCALENDAR'
+	];
+
+	return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,575 @@
+/**
+ * Employer Job Posting
+ * ====================
+ *
+ * Form model, validation and live preview for the employer portal at
+ * /jobs/post. The form edits a `JobPostInput` (plain strings, as typed);
+ * `validateJobPost` turns it into a `ValidJobPost` the server writes as a
+ * `JobInsert`, and `toPreviewJob` turns it into a `Job` for `JobCard` and
+ * `JobDetail` while the employer is still typing.
+ *
+ * Drafts only need a title; submitting for review needs a complete
+ * posting. Enum fields are checked strictly in both cases, because they
+ * are Postgres enums. Screening questions for Easy Apply travel as one
+ * JSON field and are checked with the same `parseScreeningQuestions`
+ * the application form reads them with.
+ *
+ * Usage:
+ * ```typescript
+ * import { readJobPostForm, validateJobPost } from '$lib/jobs/posting';
+ *
+ * const input = readJobPostForm(await request.formData());
+ * const { post, errors } = validateJobPost(input, 'review');
+ * ```
+ */
+
+import type { JobReviewStatus } from '$lib/supabase/types';
+import type {
+	Company,
+	EmploymentType,
+	ExperienceLevel,
+	Job,
+	JobPostStatus,
+	LocationType,
+	RemoteEligibility,
+	RemoteOverlap,
+	Salary,
+	SalaryPeriod,
+	ScreeningQuestion
+} from '$lib/types';
+import { getEmploymentTypes, getExperienceLevels, getLocationTypes } from '$lib/data/jobs';
+import { parseScreeningQuestions } from './applications';
+import { HOURS_PER_YEAR, isSalaryPeriod, isSupportedCurrency } from './currency';
+import { isRemoteRegion } from './remote';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * A screening question as edited in the posting form. Choice options
+ * are one per line.
+ */
+export interface ScreeningQuestionInput {
+	id: string;
+	label: string;
+	type: string;
+	options: string;
+	required: boolean;
+}
+
+/**
+ * The posting form's fields, as typed. Requirements and benefits are one
+ * per line; skills are comma separated.
+ */
+export interface JobPostInput {
+	title: string;
+	description: string;
+	location: string;
+	locationType: string;
+	employmentType: string;
+	experienceLevel: string;
+	salaryMin: string;
+	salaryMax: string;
+	salaryCurrency: string;
+	/** 'year' or 'hour' */
+	salaryPeriod: string;
+	/** Remote roles only: region codes (checkboxes) */
+	remoteRegions: string[];
+	/** Remote roles only: ISO country codes, comma separated */
+	remoteCountries: string;
+	/** Remote roles only: overlap window in UTC hours (0-23), both or neither */
+	overlapStart: string;
+	overlapEnd: string;
+	requirements: string;
+	benefits: string;
+	skills: string;
+	applyUrl: string;
+	isEasyApply: boolean;
+	/** Questions asked on the Easy Apply form */
+	screeningQuestions: ScreeningQuestionInput[];
+	/** Closing date as YYYY-MM-DD, empty for the default */
+	expiresAt: string;
+}
+
+/** Field-level messages, keyed by form field */
+export type JobPostErrors = Partial<Record<keyof JobPostInput, string>>;
+
+/**
+ * A posting that passed validation, ready to be written to `jobs`.
+ */
+export interface ValidJobPost {
+	title: string;
+	description: string;
+	location: string;
+	locationType: LocationType;
+	employmentType: EmploymentType;
+	experienceLevel: ExperienceLevel;
+	salary: Salary | null;
+	/** Null for on-site and hybrid roles, and remote roles open anywhere at any hours */
+	remote: RemoteEligibility | null;
+	requirements: string[];
+	benefits: string[];
+	skills: string[];
+	applyUrl: string | null;
+	isEasyApply: boolean;
+	screeningQuestions: ScreeningQuestion[];
+	/** ISO timestamp, null to use the default on approval */
+	expiresAt: string | null;
+}
+
+/** Saving keeps a draft; submitting sends it to the review queue */
+export type JobPostMode = 'draft' | 'review';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const MAX_TITLE_LENGTH = 120;
+export const MIN_DESCRIPTION_LENGTH = 100;
+export const MAX_DESCRIPTION_LENGTH = 10000;
+export const MAX_LOCATION_LENGTH = 120;
+export const MAX_LIST_ITEMS = 20;
+export const MAX_LIST_ITEM_LENGTH = 300;
+export const MAX_SKILLS = 15;
+export const MAX_SKILL_LENGTH = 40;
+export const MAX_SALARY = 10_000_000;
+export const MAX_SCREENING_QUESTIONS = 10;
+export const MAX_QUESTION_LENGTH = 200;
+export const MAX_QUESTION_OPTIONS = 10;
+export const MAX_QUESTION_OPTION_LENGTH = 100;
+
+/** How long a posting stays up when no closing date is picked (see 007_job_posting.sql) */
+export const DEFAULT_POSTING_DAYS = 30;
+
+/** Latest closing date an employer can pick, in days from now */
+export const MAX_POSTING_DAYS = 90;
+
+export const JOB_POST_STATUSES: { value: JobPostStatus; label: string; description: string }[] = [
+	{ value: 'draft', label: 'Draft', description: 'Only people at your company can see it.' },
+	{ value: 'pending_review', label: 'In review', description: 'Waiting for an admin to approve it.' },
+	{ value: 'published', label: 'Published', description: 'Live on the job board.' },
+	{ value: 'expired', label: 'Expired', description: 'Closed and no longer shown on the board.' }
+];
+
+export const EMPTY_JOB_POST: JobPostInput = {
+	title: '',
+	description: '',
+	location: '',
+	locationType: 'Remote',
+	employmentType: 'Full-time',
+	experienceLevel: 'Mid',
+	salaryMin: '',
+	salaryMax: '',
+	salaryCurrency: 'USD',
+	salaryPeriod: 'year',
+	remoteRegions: [],
+	remoteCountries: '',
+	overlapStart: '',
+	overlapEnd: '',
+	requirements: '',
+	benefits: '',
+	skills: '',
+	applyUrl: '',
+	isEasyApply: false,
+	screeningQuestions: [],
+	expiresAt: ''
+};
+
+// ============================================
+// ENUM GUARDS
+// ============================================
+
+export function isLocationType(value: unknown): value is LocationType {
+	return (getLocationTypes() as unknown[]).includes(value);
+}
+
+export function isEmploymentType(value: unknown): value is EmploymentType {
+	return (getEmploymentTypes() as unknown[]).includes(value);
+}
+
+export function isExperienceLevel(value: unknown): value is ExperienceLevel {
+	return (getExperienceLevels() as unknown[]).includes(value);
+}
+
+// ============================================
+// STATUS
+// ============================================
+
+/**
+ * Where a posting is in its lifecycle. Approved postings count as
+ * expired once they are deactivated or their closing date has passed.
+ */
+export function jobPostStatus(
+	row: { review_status: JobReviewStatus; is_active: boolean; expires_at: string | null },
+	now: Date = new Date()
+): JobPostStatus {
+	if (row.review_status !== 'approved') return row.review_status;
+	if (!row.is_active) return 'expired';
+	if (row.expires_at && new Date(row.expires_at).getTime() <= now.getTime()) return 'expired';
+	return 'published';
+}
+
+export function jobPostStatusLabel(status: JobPostStatus): string {
+	return JOB_POST_STATUSES.find((option) => option.value === status)?.label ?? status;
+}
+
+// ============================================
+// FORM PARSING
+// ============================================
+
+/**
+ * Split a list field into trimmed, non-empty, de-duplicated items.
+ */
+export function splitList(text: string, separator: RegExp = /\r?\n/): string[] {
+	const seen = new Set<string>();
+	const items: string[] = [];
+	for (const raw of text.split(separator)) {
+		const item = raw.replace(/^\s*[-*•]\s*/, '').trim();
+		if (!item || seen.has(item.toLowerCase())) continue;
+		seen.add(item.toLowerCase());
+		items.push(item);
+	}
+	return items;
+}
+
+/**
+ * Read the screening questions field (a JSON array). Anything that isn't
+ * a list of objects reads as no questions.
+ */
+function readScreeningQuestions(value: FormDataEntryValue | null): ScreeningQuestionInput[] {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(String(value ?? '[]'));
+	} catch {
+		return [];
+	}
+	if (!Array.isArray(parsed)) return [];
+
+	return parsed.flatMap((entry): ScreeningQuestionInput[] => {
+		if (!entry || typeof entry !== 'object') return [];
+		const { id, label, type, options, required } = entry as Record<string, unknown>;
+		return [
+			{
+				id: String(id ?? ''),
+				label: String(label ?? '').trim(),
+				type: String(type ?? ''),
+				options: String(options ?? ''),
+				required: required === true
+			}
+		];
+	});
+}
+
+/**
+ * Read the posting fields from a submitted form.
+ */
+export function readJobPostForm(form: FormData): JobPostInput {
+	const text = (key: keyof JobPostInput) => String(form.get(key) ?? '').trim();
+
+	return {
+		title: text('title'),
+		description: text('description'),
+		location: text('location'),
+		locationType: text('locationType'),
+		employmentType: text('employmentType'),
+		experienceLevel: text('experienceLevel'),
+		salaryMin: text('salaryMin'),
+		salaryMax: text('salaryMax'),
+		salaryCurrency: text('salaryCurrency').toUpperCase(),
+		salaryPeriod: text('salaryPeriod') || 'year',
+		remoteRegions: form.getAll('remoteRegions').map(String),
+		remoteCountries: text('remoteCountries'),
+		overlapStart: text('overlapStart'),
+		overlapEnd: text('overlapEnd'),
+		requirements: text('requirements'),
+		benefits: text('benefits'),
+		skills: text('skills'),
+		applyUrl: text('applyUrl'),
+		isEasyApply: form.get('isEasyApply') === 'on' || form.get('isEasyApply') === 'true',
+		screeningQuestions: readScreeningQuestions(form.get('screeningQuestions')),
+		expiresAt: text('expiresAt')
+	};
+}
+
+/**
+ * Turn a job back into form fields, for editing a saved posting.
+ */
+export function toJobPostInput(job: Job): JobPostInput {
+	return {
+		title: job.title,
+		description: job.description,
+		location: job.location,
+		locationType: job.locationType,
+		employmentType: job.employmentType,
+		experienceLevel: job.experienceLevel,
+		salaryMin: job.salary ? String(job.salary.min) : '',
+		salaryMax: job.salary ? String(job.salary.max) : '',
+		salaryCurrency: job.salary?.currency ?? 'USD',
+		salaryPeriod: job.salary?.period ?? 'year',
+		remoteRegions: job.remote?.regions ?? [],
+		remoteCountries: job.remote?.countries.join(', ') ?? '',
+		overlapStart: job.remote?.overlap ? String(job.remote.overlap.startHour) : '',
+		overlapEnd: job.remote?.overlap ? String(job.remote.overlap.endHour % 24) : '',
+		requirements: job.requirements.join('\n'),
+		benefits: job.benefits.join('\n'),
+		skills: job.skills.join(', '),
+		applyUrl: job.applyUrl ?? '',
+		isEasyApply: job.isEasyApply ?? false,
+		screeningQuestions: (job.screeningQuestions ?? []).map((question) => ({
+			id: question.id,
+			label: question.label,
+			type: question.type,
+			options: question.options?.join('\n') ?? '',
+			required: question.required
+		})),
+		expiresAt: job.expiresAt?.slice(0, 10) ?? ''
+	};
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+function parseWholeNumber(value: string): number | null {
+	const digits = value.replace(/[,\s_]/g, '');
+	return /^\d+$/.test(digits) ? Number(digits) : null;
+}
+
+/**
+ * Overlap window from start and end hours (UTC, 0-23). An end at or
+ * before the start runs past midnight UTC, so 22 to 2 is 22 to 26.
+ * @returns The window, null when both are empty, undefined when invalid
+ */
+function parseOverlap(start: string, end: string): RemoteOverlap | null | undefined {
+	if (!start && !end) return null;
+	const hour = (value: string) => (/^\d{1,2}$/.test(value) && Number(value) < 24 ? Number(value) : null);
+	const startHour = hour(start);
+	const endHour = hour(end);
+	if (startHour === null || endHour === null || startHour === endHour) return undefined;
+	return { startHour, endHour: endHour > startHour ? endHour : endHour + 24 };
+}
+
+function parseCountryCodes(value: string): string[] {
+	return splitList(value, /[,\s]+/).map((code) => code.toUpperCase());
+}
+
+function isHttpUrl(value: string): boolean {
+	try {
+		const url = new URL(value);
+		return url.protocol === 'https:' || url.protocol === 'http:';
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Check a posting. Drafts only need a title; `review` also requires a
+ * full description, a location for non-remote roles and a way to apply.
+ * @returns The cleaned posting when there are no errors, otherwise null
+ */
+export function validateJobPost(
+	input: JobPostInput,
+	mode: JobPostMode,
+	now: Date = new Date()
+): { post: ValidJobPost | null; errors: JobPostErrors } {
+	const errors: JobPostErrors = {};
+	const forReview = mode === 'review';
+
+	if (!input.title) errors.title = 'Enter a job title';
+	else if (input.title.length > MAX_TITLE_LENGTH) errors.title = `Titles must be ${MAX_TITLE_LENGTH} characters or fewer`;
+
+	if (input.description.length > MAX_DESCRIPTION_LENGTH) {
+		errors.description = `Descriptions must be ${MAX_DESCRIPTION_LENGTH} characters or fewer`;
+	} else if (forReview && input.description.length < MIN_DESCRIPTION_LENGTH) {
+		errors.description = `Describe the role in at least ${MIN_DESCRIPTION_LENGTH} characters`;
+	}
+
+	if (!isLocationType(input.locationType)) errors.locationType = 'Choose remote, hybrid or on-site';
+	if (!isEmploymentType(input.employmentType)) errors.employmentType = 'Choose an employment type';
+	if (!isExperienceLevel(input.experienceLevel)) errors.experienceLevel = 'Choose an experience level';
+
+	if (input.location.length > MAX_LOCATION_LENGTH) {
+		errors.location = `Locations must be ${MAX_LOCATION_LENGTH} characters or fewer`;
+	} else if (forReview && !input.location && input.locationType !== 'Remote') {
+		errors.location = 'Enter where the role is based';
+	}
+
+	// Salary is optional, but a range needs both ends
+	let salary: Salary | null = null;
+	if (input.salaryMin || input.salaryMax) {
+		const min = parseWholeNumber(input.salaryMin);
+		const max = parseWholeNumber(input.salaryMax);
+		const period: SalaryPeriod = input.salaryPeriod === 'hour' ? 'hour' : 'year';
+		const maxForPeriod = period === 'hour' ? Math.round(MAX_SALARY / HOURS_PER_YEAR) : MAX_SALARY;
+		if (!isSalaryPeriod(input.salaryPeriod)) {
+			errors.salaryPeriod = 'Choose per year or per hour';
+		} else if (min === null || max === null) {
+			errors.salaryMin = 'Enter the salary range as whole numbers, or leave both empty';
+		} else if (min <= 0 || max > maxForPeriod) {
+			errors.salaryMin = period === 'hour' ? 'Enter a realistic hourly rate' : 'Enter a realistic annual salary range';
+		} else if (max < min) {
+			errors.salaryMax = 'The maximum must be at least the minimum';
+		} else if (!isSupportedCurrency(input.salaryCurrency)) {
+			errors.salaryCurrency = 'Choose a supported currency';
+		} else {
+			salary = { min, max, currency: input.salaryCurrency, period };
+		}
+	}
+
+	// Where and when a remote role can be worked; ignored for other workplaces
+	let remote: RemoteEligibility | null = null;
+	if (input.locationType === 'Remote') {
+		const countries = parseCountryCodes(input.remoteCountries);
+		const overlap = parseOverlap(input.overlapStart, input.overlapEnd);
+		if (!input.remoteRegions.every(isRemoteRegion)) {
+			errors.remoteRegions = 'Choose regions from the list';
+		} else if (!countries.every((code) => /^[A-Z]{2}$/.test(code))) {
+			errors.remoteCountries = 'Use two-letter country codes, e.g. DE, US';
+		} else if (overlap === undefined) {
+			errors.overlapStart = 'Pick both a start and an end hour, or neither';
+		} else if (input.remoteRegions.length > 0 || countries.length > 0 || overlap) {
+			remote = {
+				regions: input.remoteRegions.filter(isRemoteRegion),
+				countries,
+				...(overlap ? { overlap } : {})
+			};
+		}
+	}
+
+	const requirements = splitList(input.requirements);
+	const benefits = splitList(input.benefits);
+	const skills = splitList(input.skills, /[,\n]/);
+	if (requirements.length > MAX_LIST_ITEMS || requirements.some((item) => item.length > MAX_LIST_ITEM_LENGTH)) {
+		errors.requirements = `List up to ${MAX_LIST_ITEMS} requirements of ${MAX_LIST_ITEM_LENGTH} characters or fewer`;
+	}
+	if (benefits.length > MAX_LIST_ITEMS || benefits.some((item) => item.length > MAX_LIST_ITEM_LENGTH)) {
+		errors.benefits = `List up to ${MAX_LIST_ITEMS} benefits of ${MAX_LIST_ITEM_LENGTH} characters or fewer`;
+	}
+	if (skills.length > MAX_SKILLS || skills.some((skill) => skill.length > MAX_SKILL_LENGTH)) {
+		errors.skills = `List up to ${MAX_SKILLS} skills of ${MAX_SKILL_LENGTH} characters or fewer`;
+	}
+
+	if (input.applyUrl && !isHttpUrl(input.applyUrl)) {
+		errors.applyUrl = 'Enter a full link starting with https://';
+	} else if (forReview && !input.applyUrl && !input.isEasyApply) {
+		errors.applyUrl = 'Add a link to apply, or turn on Easy Apply';
+	}
+
+	// Screening questions: every entry must survive parsing, so none is dropped silently
+	const screeningQuestions = parseScreeningQuestions(
+		input.screeningQuestions.map((question) => ({ ...question, options: splitList(question.options) }))
+	);
+	const questionIds = new Set(screeningQuestions.map((question) => question.id));
+	if (input.screeningQuestions.length > MAX_SCREENING_QUESTIONS) {
+		errors.screeningQuestions = `Ask up to ${MAX_SCREENING_QUESTIONS} questions`;
+	} else if (
+		screeningQuestions.length < input.screeningQuestions.length ||
+		questionIds.size < screeningQuestions.length
+	) {
+		errors.screeningQuestions = 'Give every question a label, and multiple choice questions at least one option';
+	} else if (
+		screeningQuestions.some(
+			(question) =>
+				question.label.length > MAX_QUESTION_LENGTH ||
+				(question.options ?? []).length > MAX_QUESTION_OPTIONS ||
+				(question.options ?? []).some((option) => option.length > MAX_QUESTION_OPTION_LENGTH)
+		)
+	) {
+		errors.screeningQuestions =
+			`Keep questions to ${MAX_QUESTION_LENGTH} characters, with up to ${MAX_QUESTION_OPTIONS} options ` +
+			`of ${MAX_QUESTION_OPTION_LENGTH} characters`;
+	}
+
+	// Closing date: end of the chosen day (UTC), tomorrow at the earliest
+	let expiresAt: string | null = null;
+	if (input.expiresAt) {
+		const date = /^\d{4}-\d{2}-\d{2}$/.test(input.expiresAt) ? new Date(`${input.expiresAt}T23:59:59Z`) : null;
+		const latest = now.getTime() + MAX_POSTING_DAYS * 24 * 60 * 60 * 1000;
+		if (!date || Number.isNaN(date.getTime())) {
+			errors.expiresAt = 'Enter a valid closing date';
+		} else if (date.getTime() <= now.getTime() || date.getTime() > latest) {
+			errors.expiresAt = `Pick a closing date within the next ${MAX_POSTING_DAYS} days`;
+		} else {
+			expiresAt = date.toISOString();
+		}
+	}
+
+	if (Object.keys(errors).length > 0) {
+		return { post: null, errors };
+	}
+
+	return {
+		post: {
+			title: input.title,
+			description: input.description,
+			location: input.location || (input.locationType === 'Remote' ? 'Remote' : ''),
+			locationType: input.locationType as LocationType,
+			employmentType: input.employmentType as EmploymentType,
+			experienceLevel: input.experienceLevel as ExperienceLevel,
+			salary,
+			remote,
+			requirements,
+			benefits,
+			skills,
+			applyUrl: input.applyUrl || null,
+			isEasyApply: input.isEasyApply,
+			screeningQuestions,
+			expiresAt
+		},
+		errors
+	};
+}
+
+// ============================================
+// PREVIEW
+// ============================================
+
+/**
+ * Build the `Job` the board would show for the form as it stands.
+ * Invalid or missing fields fall back to placeholders instead of failing,
+ * so the preview keeps up while the employer types.
+ */
+export function toPreviewJob(input: JobPostInput, company: Company, now: Date = new Date()): Job {
+	const min = parseWholeNumber(input.salaryMin);
+	const max = parseWholeNumber(input.salaryMax);
+	const regions = input.remoteRegions.filter(isRemoteRegion);
+	const countries = parseCountryCodes(input.remoteCountries).filter((code) => /^[A-Z]{2}$/.test(code));
+	const overlap = parseOverlap(input.overlapStart, input.overlapEnd) ?? undefined;
+
+	return {
+		id: 'preview',
+		title: input.title || 'Job title',
+		company,
+		location: input.location || (input.locationType === 'Remote' ? 'Remote' : 'Location'),
+		locationType: isLocationType(input.locationType)
+			? input.locationType
+			: (EMPTY_JOB_POST.locationType as LocationType),
+		employmentType: isEmploymentType(input.employmentType)
+			? input.employmentType
+			: (EMPTY_JOB_POST.employmentType as EmploymentType),
+		experienceLevel: isExperienceLevel(input.experienceLevel)
+			? input.experienceLevel
+			: (EMPTY_JOB_POST.experienceLevel as ExperienceLevel),
+		salary:
+			min !== null && max !== null && max >= min
+				? {
+						min,
+						max,
+						currency: input.salaryCurrency || 'USD',
+						period: input.salaryPeriod === 'hour' ? 'hour' : 'year'
+					}
+				: undefined,
+		remote:
+			input.locationType === 'Remote' && (regions.length > 0 || countries.length > 0 || overlap)
+				? { regions, countries, ...(overlap ? { overlap } : {}) }
+				: undefined,
+		description: input.description || 'Describe the role, the team and what success looks like.',
+		requirements: splitList(input.requirements),
+		benefits: splitList(input.benefits),
+		skills: splitList(input.skills, /[,\n]/),
+		postedAt: now.toISOString(),
+		applyUrl: input.applyUrl || undefined,
+		isEasyApply: input.isEasyApply
+	};
+}
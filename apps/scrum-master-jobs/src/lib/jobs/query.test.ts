@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import type { Job } from '$lib/types';
+import { getJobById } from '$lib/data/jobs';
+import {
+	EMPTY_JOB_QUERY,
+	MAX_PER_PAGE,
+	hasJobFilters,
+	matchesJobQuery,
+	paginate,
+	parseJobQuery,
+	toJobSearchParams,
+	type JobQuery
+} from './query';
+
+function fixture(id: string): Job {
+	const job = getJobById(id);
+	if (!job) throw new Error(`No fixture job ${id}`);
+	return job;
+}
+
+function query(overrides: Partial<JobQuery>): JobQuery {
+	return { ...EMPTY_JOB_QUERY, ...overrides };
+}
+
+// MARK: - Parsing
+
+describe('parseJobQuery', () => {
+	it('reads every filter from the URL', () => {
+		const params = new URLSearchParams(
+			'q=+react+&locationType=Remote&employmentType=Full-time&experienceLevel=Senior' +
+				'&minSalary=120000&currency=eur&country=de&tz=Europe/Berlin&sort=recommended&page=3&perPage=50'
+		);
+
+		expect(parseJobQuery(params)).toEqual({
+			q: 'react',
+			location: '',
+			locationType: 'Remote',
+			employmentType: 'Full-time',
+			experienceLevel: 'Senior',
+			minSalary: 120000,
+			currency: 'EUR',
+			country: 'DE',
+			timezone: 'Europe/Berlin',
+			sort: 'recommended',
+			page: 3,
+			perPage: 50
+		});
+	});
+
+	it('ignores values it does not know', () => {
+		const params = new URLSearchParams(
+			'locationType=Moon&minSalary=-5&currency=euro&country=DEU&tz=Mars/Olympus&sort=oldest&page=0&perPage=abc'
+		);
+
+		expect(parseJobQuery(params)).toEqual(EMPTY_JOB_QUERY);
+	});
+
+	it('caps the page size', () => {
+		expect(parseJobQuery(new URLSearchParams('perPage=1000')).perPage).toBe(MAX_PER_PAGE);
+	});
+});
+
+describe('toJobSearchParams', () => {
+	it('round-trips through parseJobQuery', () => {
+		const original = query({ q: 'go', locationType: 'Remote', minSalary: 90000, currency: 'GBP', page: 2 });
+
+		expect(parseJobQuery(toJobSearchParams(original))).toEqual(original);
+	});
+
+	it('leaves out defaults, and a currency without a minimum salary', () => {
+		expect(toJobSearchParams(EMPTY_JOB_QUERY).toString()).toBe('');
+		expect(toJobSearchParams(query({ currency: 'EUR', sort: 'recent', page: 1 })).toString()).toBe('');
+		expect(toJobSearchParams(query({ timezone: 'Asia/Tokyo' })).toString()).toBe('tz=Asia%2FTokyo');
+	});
+});
+
+describe('hasJobFilters', () => {
+	it('ignores sort and pagination', () => {
+		expect(hasJobFilters(query({ sort: 'recommended', page: 4, currency: 'EUR' }))).toBe(false);
+		expect(hasJobFilters(query({ country: 'US' }))).toBe(true);
+		expect(hasJobFilters(query({ minSalary: 1 }))).toBe(true);
+	});
+});
+
+// MARK: - Matching
+
+describe('matchesJobQuery', () => {
+	// Stripe, Senior, Hybrid in San Francisco, $180k-$250k
+	const stripe = fixture('job-001');
+	// Spotify, Mid, Hybrid in Stockholm, €70k-€95k
+	const spotify = fixture('job-004');
+
+	it('matches on every set filter', () => {
+		const seniorReact = query({ q: 'react', locationType: 'Hybrid', experienceLevel: 'Senior' });
+
+		expect(matchesJobQuery(stripe, EMPTY_JOB_QUERY)).toBe(true);
+		expect(matchesJobQuery(stripe, seniorReact)).toBe(true);
+		expect(matchesJobQuery(stripe, query({ location: 'San Francisco, CA', employmentType: 'Full-time' }))).toBe(true);
+	});
+
+	it('leaves out jobs that miss any filter', () => {
+		expect(matchesJobQuery(stripe, query({ q: 'kubernetes' }))).toBe(false);
+		expect(matchesJobQuery(stripe, query({ locationType: 'Remote' }))).toBe(false);
+		expect(matchesJobQuery(stripe, query({ location: 'Remote' }))).toBe(false);
+		expect(matchesJobQuery(stripe, query({ experienceLevel: 'Mid' }))).toBe(false);
+	});
+
+	it('compares the minimum salary across currencies', () => {
+		expect(matchesJobQuery(spotify, query({ minSalary: 100000 }))).toBe(true);
+		expect(matchesJobQuery(spotify, query({ minSalary: 100000, currency: 'EUR' }))).toBe(false);
+		expect(matchesJobQuery(spotify, query({ minSalary: 90000, currency: 'EUR' }))).toBe(true);
+	});
+
+	it('limits the remote filters to remote jobs', () => {
+		expect(matchesJobQuery(stripe, query({ country: 'US' }))).toBe(false);
+		expect(matchesJobQuery(fixture('job-010'), query({ country: 'US' }))).toBe(true);
+		expect(matchesJobQuery(fixture('job-010'), query({ country: 'DE' }))).toBe(false);
+	});
+});
+
+describe('paginate', () => {
+	it('slices out the requested page', () => {
+		const items = Array.from({ length: 45 }, (_, index) => index);
+
+		expect(paginate(items, { page: 1, perPage: 20 })).toEqual(items.slice(0, 20));
+		expect(paginate(items, { page: 3, perPage: 20 })).toEqual([40, 41, 42, 43, 44]);
+		expect(paginate(items, { page: 4, perPage: 20 })).toEqual([]);
+	});
+});
@@ -0,0 +1,248 @@
+/**
+ * Job Query
+ * =========
+ *
+ * The filter, search and pagination state for job listings, and its
+ * round-trip through URL search params. Shared by the /jobs page (to
+ * build links) and the job sources (to run the query server-side), so a
+ * filtered view is just a URL that can be bookmarked or shared.
+ *
+ * Param names match the Vapor API's `JobFilters` so the query can be
+ * forwarded as-is:
+ *
+ *   /jobs?q=react&locationType=Remote&experienceLevel=Senior&page=2
+ *
+ * `minSalary` and `currency` (the minimum annual salary and the currency
+ * it is given in) are this app's own; see currency.ts for how salaries in
+ * other currencies and periods are compared. `country` and `tz` (where
+ * and when the viewer would work from) limit results to remote jobs they
+ * are eligible for; see remote.ts. `sort=recommended` orders the results
+ * for the signed-in user (see recommend.ts); it is applied by the /jobs
+ * page, not by the sources, and is not a filter.
+ *
+ * Usage:
+ * ```typescript
+ * import { parseJobQuery, toJobSearchParams } from '$lib/jobs/query';
+ *
+ * const query = parseJobQuery(url.searchParams);
+ * const href = `/jobs?${toJobSearchParams({ ...query, page: 1 })}`;
+ * ```
+ */
+
+import type { Job, LocationType, EmploymentType, ExperienceLevel } from '$lib/types';
+import { getLocationTypes, getEmploymentTypes, getExperienceLevels } from '$lib/data/jobs';
+import { matchesSearch } from './search';
+import { DEFAULT_RATE_TABLE, meetsMinSalary, type RateTable } from './currency';
+import { canWorkFromCountry, canWorkFromTimeZone, isValidTimeZone } from './remote';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/** Result order: newest first, or best match for the signed-in user */
+export type JobSort = 'recent' | 'recommended';
+
+export interface JobQuery {
+	/** Free-text search over title, skills, company, requirements and description */
+	q: string;
+	/** Exact location match (e.g. "San Francisco, CA") */
+	location: string;
+	locationType: LocationType | null;
+	employmentType: EmploymentType | null;
+	experienceLevel: ExperienceLevel | null;
+	/** Minimum annual salary, in `currency` */
+	minSalary: number | null;
+	/** Currency of `minSalary` (empty: the rate table's base currency) */
+	currency: string;
+	/** Remote jobs open to this ISO country code (empty: any) */
+	country: string;
+	/** Remote jobs whose overlap hours suit this IANA timezone (empty: any) */
+	timezone: string;
+	sort: JobSort;
+	/** 1-based page number */
+	page: number;
+	perPage: number;
+}
+
+/**
+ * One page of query results.
+ */
+export interface JobPage {
+	jobs: Job[];
+	/**
+	 * Total matching listings across all pages. One opening listed twice
+	 * counts twice, even when the page shows it collapsed.
+	 */
+	total: number;
+	page: number;
+	perPage: number;
+	totalPages: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Page size when none is given (matches the Vapor API default) */
+export const DEFAULT_PER_PAGE = 20;
+
+/** Largest page size a client may request (matches the Vapor API limit) */
+export const MAX_PER_PAGE = 100;
+
+/** Sort choices, in the order they are offered */
+export const JOB_SORTS: { value: JobSort; label: string }[] = [
+	{ value: 'recent', label: 'Most recent' },
+	{ value: 'recommended', label: 'Recommended' }
+];
+
+/** A query with no filters, on the first page */
+export const EMPTY_JOB_QUERY: JobQuery = {
+	q: '',
+	location: '',
+	locationType: null,
+	employmentType: null,
+	experienceLevel: null,
+	minSalary: null,
+	currency: '',
+	country: '',
+	timezone: '',
+	sort: 'recent',
+	page: 1,
+	perPage: DEFAULT_PER_PAGE
+};
+
+// ============================================
+// PARSING & SERIALIZATION
+// ============================================
+
+/**
+ * Return `value` if it is one of `allowed`, otherwise null.
+ * Unknown enum values in the URL are ignored rather than rejected.
+ */
+function pickEnum<T extends string>(value: string | null, allowed: readonly T[]): T | null {
+	return value !== null && (allowed as readonly string[]).includes(value) ? (value as T) : null;
+}
+
+/**
+ * Parse a positive integer param, falling back when missing or invalid.
+ */
+function pickInt(value: string | null, fallback: number, max = Number.MAX_SAFE_INTEGER): number {
+	const parsed = Number.parseInt(value ?? '', 10);
+	if (!Number.isFinite(parsed) || parsed < 1) return fallback;
+	return Math.min(parsed, max);
+}
+
+/**
+ * Uppercase a three-letter currency code, or '' when it isn't one.
+ * Whether the rate table knows the code is checked when filtering.
+ */
+function pickCurrency(value: string | null): string {
+	const code = value?.trim().toUpperCase() ?? '';
+	return /^[A-Z]{3}$/.test(code) ? code : '';
+}
+
+/**
+ * Uppercase a two-letter country code, or '' when it isn't one.
+ */
+function pickCountry(value: string | null): string {
+	const code = value?.trim().toUpperCase() ?? '';
+	return /^[A-Z]{2}$/.test(code) ? code : '';
+}
+
+/**
+ * Read a JobQuery from URL search params.
+ * Missing or invalid values fall back to EMPTY_JOB_QUERY.
+ */
+export function parseJobQuery(params: URLSearchParams): JobQuery {
+	return {
+		q: params.get('q')?.trim() ?? '',
+		location: params.get('location')?.trim() ?? '',
+		locationType: pickEnum(params.get('locationType'), getLocationTypes()),
+		employmentType: pickEnum(params.get('employmentType'), getEmploymentTypes()),
+		experienceLevel: pickEnum(params.get('experienceLevel'), getExperienceLevels()),
+		minSalary: pickInt(params.get('minSalary'), 0) || null,
+		currency: pickCurrency(params.get('currency')),
+		country: pickCountry(params.get('country')),
+		timezone: isValidTimeZone(params.get('tz') ?? '') ? (params.get('tz') as string) : '',
+		sort: pickEnum(params.get('sort'), JOB_SORTS.map((option) => option.value)) ?? 'recent',
+		page: pickInt(params.get('page'), 1),
+		perPage: pickInt(params.get('perPage'), DEFAULT_PER_PAGE, MAX_PER_PAGE)
+	};
+}
+
+/**
+ * Write a JobQuery to URL search params.
+ * Values equal to their defaults are omitted to keep URLs short.
+ */
+export function toJobSearchParams(query: Partial<JobQuery>): URLSearchParams {
+	const params = new URLSearchParams();
+
+	if (query.q) params.set('q', query.q);
+	if (query.location) params.set('location', query.location);
+	if (query.locationType) params.set('locationType', query.locationType);
+	if (query.employmentType) params.set('employmentType', query.employmentType);
+	if (query.experienceLevel) params.set('experienceLevel', query.experienceLevel);
+	if (query.minSalary) {
+		params.set('minSalary', String(query.minSalary));
+		if (query.currency) params.set('currency', query.currency);
+	}
+	if (query.country) params.set('country', query.country);
+	if (query.timezone) params.set('tz', query.timezone);
+	if (query.sort && query.sort !== 'recent') params.set('sort', query.sort);
+	if (query.page && query.page > 1) params.set('page', String(query.page));
+	if (query.perPage && query.perPage !== DEFAULT_PER_PAGE) {
+		params.set('perPage', String(query.perPage));
+	}
+
+	return params;
+}
+
+/**
+ * Whether any filter or search term is set (pagination and sort are ignored).
+ */
+export function hasJobFilters(query: JobQuery): boolean {
+	return (
+		query.q !== '' ||
+		query.location !== '' ||
+		query.locationType !== null ||
+		query.employmentType !== null ||
+		query.experienceLevel !== null ||
+		query.minSalary !== null ||
+		query.country !== '' ||
+		query.timezone !== ''
+	);
+}
+
+// ============================================
+// IN-MEMORY MATCHING
+// ============================================
+
+/**
+ * Test a job against the filters of a query.
+ * Used by sources that hold their listings in memory (e.g. mock data).
+ * Free text uses the same stemming, synonyms and typo tolerance as
+ * ranked search (see search.ts).
+ * @param table - Rates for the minimum salary filter
+ */
+export function matchesJobQuery(job: Job, query: JobQuery, table: RateTable = DEFAULT_RATE_TABLE): boolean {
+	if (query.q && !matchesSearch(job, query.q)) return false;
+	if (query.location && job.location !== query.location) return false;
+	if (query.locationType && job.locationType !== query.locationType) return false;
+	if (query.employmentType && job.employmentType !== query.employmentType) return false;
+	if (query.experienceLevel && job.experienceLevel !== query.experienceLevel) return false;
+	if (query.minSalary && !meetsMinSalary(job.salary, query.minSalary, query.currency || table.base, table)) {
+		return false;
+	}
+	if (query.country && !canWorkFromCountry(job, query.country)) return false;
+	if (query.timezone && !canWorkFromTimeZone(job, query.timezone)) return false;
+
+	return true;
+}
+
+/**
+ * Slice an already-filtered list down to the requested page.
+ */
+export function paginate<T>(items: T[], query: Pick<JobQuery, 'page' | 'perPage'>): T[] {
+	const start = (query.page - 1) * query.perPage;
+	return items.slice(start, start + query.perPage);
+}
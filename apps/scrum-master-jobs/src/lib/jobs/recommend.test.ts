@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import type { Job } from '$lib/types';
+import { getJobById, jobs } from '$lib/data/jobs';
+import { buildPreferences, hasPreferences, recommendJobs, scoreJob } from './recommend';
+
+function fixture(id: string): Job {
+	const job = getJobById(id);
+	if (!job) throw new Error(`No fixture job ${id}`);
+	return job;
+}
+
+const byNewest = (a: Job, b: Job) => Date.parse(b.postedAt) - Date.parse(a.postedAt);
+
+// MARK: - Preferences
+
+describe('buildPreferences', () => {
+	it('weights profile skills above skills seen only in saved jobs', () => {
+		const preferences = buildPreferences({
+			skills: ['React', 'Svelte'],
+			savedJobs: [fixture('job-001')],
+			currency: 'USD'
+		});
+
+		expect(preferences.skills.get('react')).toBe(1);
+		expect(preferences.skills.get('svelte')).toBe(1);
+		expect(preferences.skills.get('graphql')).toBe(0.5);
+		expect([...preferences.profileSkills]).toEqual(['react', 'svelte']);
+	});
+
+	it('learns seniority, location types and a salary floor from saved jobs', () => {
+		// Senior/Hybrid at $180k and Mid/Remote at $150k
+		const preferences = buildPreferences({
+			skills: [],
+			savedJobs: [fixture('job-001'), fixture('job-002')],
+			currency: 'USD'
+		});
+
+		expect(preferences.seniority).toBe('Senior');
+		expect(Object.fromEntries(preferences.locationTypes)).toEqual({ Hybrid: 0.5, Remote: 0.5 });
+		expect(preferences.salaryFloor).toBe(150000);
+	});
+
+	it('prefers the minimum salary filter over saved salaries', () => {
+		const preferences = buildPreferences({
+			skills: [],
+			savedJobs: [fixture('job-001')],
+			minSalary: 200000,
+			currency: 'USD'
+		});
+
+		expect(preferences.salaryFloor).toBe(200000);
+	});
+});
+
+// MARK: - Scoring
+
+describe('recommendJobs', () => {
+	const preferences = buildPreferences({
+		skills: ['Go', 'Kubernetes'],
+		savedJobs: [fixture('job-010')],
+		currency: 'USD'
+	});
+
+	it('orders jobs best first, newer postings first on a tie', () => {
+		const ranked = recommendJobs(jobs, preferences);
+
+		expect(ranked).toHaveLength(jobs.length);
+		for (let i = 1; i < ranked.length; i++) {
+			const [previous, current] = [ranked[i - 1], ranked[i]];
+			expect(previous.score).toBeGreaterThanOrEqual(current.score);
+			if (previous.score === current.score) {
+				expect(byNewest(previous.job, current.job)).toBeLessThanOrEqual(0);
+			}
+		}
+	});
+
+	it('ranks the saved job above an unrelated one and explains why', () => {
+		const ranked = recommendJobs(jobs, preferences);
+		const saved = ranked.findIndex((entry) => entry.job.id === 'job-010');
+		const design = ranked.findIndex((entry) => entry.job.id === 'job-005');
+
+		expect(saved).toBeLessThan(design);
+		// Two profile skills and three half-weight saved skills of five: 35 of 50
+		expect(ranked[saved].score).toBe(85);
+		expect(ranked[saved].reasons).toEqual([
+			'Matches your skills: Go, Kubernetes',
+			'Skills from jobs you saved: MySQL, Vitess, AWS',
+			'Senior level, like the jobs you saved',
+			'Remote, like most jobs you saved',
+			'Pays $180K+ a year'
+		]);
+	});
+
+	it('falls back to newest first when the user has no history', () => {
+		const empty = buildPreferences({ skills: [], savedJobs: [], currency: 'USD' });
+		const ranked = recommendJobs(jobs, empty);
+
+		expect(hasPreferences(empty)).toBe(false);
+		expect(ranked.every((entry) => entry.score === 0 && entry.reasons.length === 0)).toBe(true);
+		expect(ranked.map((entry) => entry.job.id)).toEqual([...jobs].sort(byNewest).map((job) => job.id));
+	});
+
+	it('leaves out signals the user has not given', () => {
+		// Only skills: a full skill match scores 100 whatever the seniority or salary
+		const skillsOnly = buildPreferences({
+			skills: ['Go', 'MySQL', 'Vitess', 'Kubernetes', 'AWS'],
+			savedJobs: [],
+			currency: 'USD'
+		});
+
+		expect(scoreJob(fixture('job-010'), skillsOnly).score).toBe(100);
+	});
+});
@@ -0,0 +1,242 @@
+/**
+ * Job Recommendations
+ * ===================
+ *
+ * Scores listings for one user from what we know about them: the skills
+ * on their profile and the jobs they bookmarked. Pure functions over
+ * `Job`, so they run the same on mock data and on any source.
+ *
+ * A score is the weighted share of four signals the user has given us:
+ *
+ * | Signal        | Weight | From                                        |
+ * |---------------|--------|---------------------------------------------|
+ * | Skills        | 50     | Profile skills, then skills of saved jobs   |
+ * | Seniority     | 20     | Typical experience level of saved jobs      |
+ * | Location type | 15     | How often saved jobs are Remote/Hybrid/...  |
+ * | Salary floor  | 15     | The minimum salary filter, else saved jobs  |
+ *
+ * Signals the user hasn't given (no saved jobs, no salaries) are left out
+ * rather than counted as a miss, so scores stay comparable between users.
+ * Every signal that adds points also adds a short reason, which /jobs
+ * shows under the card.
+ *
+ * Usage:
+ * ```typescript
+ * import { buildPreferences, recommendJobs } from '$lib/jobs/recommend';
+ *
+ * const preferences = buildPreferences({ skills: ['Svelte'], savedJobs, currency: 'USD' });
+ * const ranked = recommendJobs(jobs, preferences);
+ * ranked[0].reasons; // ["Matches your skills: Svelte, TypeScript", "Remote, like most jobs you saved"]
+ * ```
+ */
+
+import type { ExperienceLevel, Job, LocationType } from '$lib/types';
+import { getExperienceLevels } from '$lib/data/jobs';
+import { DEFAULT_RATE_TABLE, formatMinSalary, toAnnualSalary, type RateTable } from './currency';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Points each signal is worth when fully met */
+const WEIGHTS = {
+	skills: 50,
+	seniority: 20,
+	locationType: 15,
+	salary: 15
+} as const;
+
+/** A skill seen only in saved jobs counts this much of a profile skill */
+const SAVED_SKILL_WEIGHT = 0.5;
+
+/** Most matched skills named in a reason */
+const MAX_REASON_SKILLS = 3;
+
+/** Jobs below this score aren't called a match in the UI */
+export const MIN_RECOMMENDED_SCORE = 40;
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/** What the scorer is given about a user */
+export interface RecommendationInput {
+	/** Skills from the user's profile */
+	skills: string[];
+	/** Jobs the user bookmarked */
+	savedJobs: Job[];
+	/** Minimum annual salary the user is filtering by, if any */
+	minSalary?: number | null;
+	/** Currency salaries are compared in */
+	currency: string;
+	table?: RateTable;
+}
+
+/** What the scorer learned from the input */
+export interface RecommendationPreferences {
+	/** Lowercased skill → weight (1 for profile skills, less for saved-job skills) */
+	skills: Map<string, number>;
+	/** Lowercased skills from the profile itself (the rest came from saved jobs) */
+	profileSkills: Set<string>;
+	/** Typical experience level of saved jobs */
+	seniority: ExperienceLevel | null;
+	/** Share of saved jobs per location type (0-1) */
+	locationTypes: Map<LocationType, number>;
+	/** Lowest annual salary the user is after, in `currency` */
+	salaryFloor: number | null;
+	currency: string;
+	table: RateTable;
+}
+
+/** A job with its score for the user and why */
+export interface JobRecommendation {
+	job: Job;
+	/** 0-100; 0 when the user has given no signals at all */
+	score: number;
+	reasons: string[];
+}
+
+// ============================================
+// PREFERENCES
+// ============================================
+
+/**
+ * Work out a user's preferences from their profile and bookmarks.
+ */
+export function buildPreferences(input: RecommendationInput): RecommendationPreferences {
+	const table = input.table ?? DEFAULT_RATE_TABLE;
+	const skills = new Map<string, number>();
+	const profileSkills = new Set<string>();
+
+	for (const skill of input.skills) {
+		const key = skill.toLowerCase();
+		skills.set(key, 1);
+		profileSkills.add(key);
+	}
+	for (const job of input.savedJobs) {
+		for (const skill of job.skills) {
+			const key = skill.toLowerCase();
+			if (!skills.has(key)) skills.set(key, SAVED_SKILL_WEIGHT);
+		}
+	}
+
+	return {
+		skills,
+		profileSkills,
+		seniority: typicalLevel(input.savedJobs),
+		locationTypes: locationTypeShares(input.savedJobs),
+		salaryFloor: input.minSalary ?? savedSalaryFloor(input.savedJobs, input.currency, table),
+		currency: input.currency,
+		table
+	};
+}
+
+/** Whether the preferences hold any signal to rank by */
+export function hasPreferences(preferences: RecommendationPreferences): boolean {
+	return (
+		preferences.skills.size > 0 ||
+		preferences.seniority !== null ||
+		preferences.locationTypes.size > 0 ||
+		preferences.salaryFloor !== null
+	);
+}
+
+/** The experience level nearest the average of the saved jobs */
+function typicalLevel(jobs: Job[]): ExperienceLevel | null {
+	if (jobs.length === 0) return null;
+	const levels = getExperienceLevels();
+	const mean = jobs.reduce((sum, job) => sum + levels.indexOf(job.experienceLevel), 0) / jobs.length;
+	return levels[Math.round(mean)] ?? null;
+}
+
+function locationTypeShares(jobs: Job[]): Map<LocationType, number> {
+	const shares = new Map<LocationType, number>();
+	for (const job of jobs) {
+		shares.set(job.locationType, (shares.get(job.locationType) ?? 0) + 1 / jobs.length);
+	}
+	return shares;
+}
+
+/**
+ * The lowest annual minimum among saved jobs with a salary: the user has
+ * shown interest at that level, so jobs paying less are a worse fit.
+ */
+function savedSalaryFloor(jobs: Job[], currency: string, table: RateTable): number | null {
+	const minimums = jobs
+		.map((job) => (job.salary ? toAnnualSalary(job.salary, currency, table)?.min : undefined))
+		.filter((min): min is number => typeof min === 'number' && min > 0);
+	return minimums.length > 0 ? Math.min(...minimums) : null;
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+/**
+ * Score one job for the user.
+ */
+export function scoreJob(job: Job, preferences: RecommendationPreferences): JobRecommendation {
+	let points = 0;
+	let possible = 0;
+	const reasons: string[] = [];
+
+	// Skills: weighted share of the job's skills the user has
+	if (preferences.skills.size > 0) {
+		possible += WEIGHTS.skills;
+		const matched = job.skills.filter((skill) => preferences.skills.has(skill.toLowerCase()));
+		const weight = matched.reduce((sum, skill) => sum + (preferences.skills.get(skill.toLowerCase()) ?? 0), 0);
+		points += WEIGHTS.skills * Math.min(1, weight / Math.max(1, job.skills.length));
+
+		const fromProfile = matched.filter((skill) => preferences.profileSkills.has(skill.toLowerCase()));
+		const fromSaved = matched.filter((skill) => !preferences.profileSkills.has(skill.toLowerCase()));
+		if (fromProfile.length > 0) reasons.push(`Matches your skills: ${listSkills(fromProfile)}`);
+		if (fromSaved.length > 0) reasons.push(`Skills from jobs you saved: ${listSkills(fromSaved)}`);
+	}
+
+	// Seniority: full points at the typical level, half one level away
+	if (preferences.seniority) {
+		possible += WEIGHTS.seniority;
+		const levels = getExperienceLevels();
+		const distance = Math.abs(levels.indexOf(job.experienceLevel) - levels.indexOf(preferences.seniority));
+		if (distance === 0) {
+			points += WEIGHTS.seniority;
+			reasons.push(`${job.experienceLevel} level, like the jobs you saved`);
+		} else if (distance === 1) {
+			points += WEIGHTS.seniority / 2;
+		}
+	}
+
+	// Location type: in proportion to how often the user saved it
+	if (preferences.locationTypes.size > 0) {
+		possible += WEIGHTS.locationType;
+		const share = preferences.locationTypes.get(job.locationType) ?? 0;
+		points += WEIGHTS.locationType * share;
+		if (share >= 0.5) reasons.push(`${job.locationType}, like most jobs you saved`);
+	}
+
+	// Salary floor: the top of the range reaches it
+	if (preferences.salaryFloor !== null) {
+		possible += WEIGHTS.salary;
+		const annual = job.salary ? toAnnualSalary(job.salary, preferences.currency, preferences.table) : null;
+		if (annual && annual.max >= preferences.salaryFloor) {
+			points += WEIGHTS.salary;
+			reasons.push(`Pays ${formatMinSalary(preferences.salaryFloor, preferences.currency)} a year`);
+		}
+	}
+
+	return { job, score: possible > 0 ? Math.round((points / possible) * 100) : 0, reasons };
+}
+
+/**
+ * Score jobs and order them best first. Ties go to the newer posting.
+ */
+export function recommendJobs(jobs: Job[], preferences: RecommendationPreferences): JobRecommendation[] {
+	return jobs
+		.map((job) => scoreJob(job, preferences))
+		.sort((a, b) => b.score - a.score || Date.parse(b.job.postedAt) - Date.parse(a.job.postedAt));
+}
+
+function listSkills(skills: string[]): string {
+	const shown = skills.slice(0, MAX_REASON_SKILLS).join(', ');
+	return skills.length > MAX_REASON_SKILLS ? `${shown} +${skills.length - MAX_REASON_SKILLS}` : shown;
+}
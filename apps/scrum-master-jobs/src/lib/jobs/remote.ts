@@ -0,0 +1,333 @@
+/**
+ * Remote Eligibility
+ * ==================
+ *
+ * Where a remote job can be worked from and when, and the checks behind
+ * the /jobs/remote hub: "can I take this job from my country, in my
+ * timezone?"
+ *
+ * A remote job lists regions and/or countries it is open to (none means
+ * anywhere) and, optionally, the hours it needs to overlap with the team
+ * as a window in UTC. A window fits a timezone when it falls inside that
+ * timezone's working day, LOCAL_WORKDAY_START to LOCAL_WORKDAY_END local
+ * time, on the current date (so daylight saving is taken into account).
+ *
+ * Usage:
+ * ```typescript
+ * import { canWorkFromCountry, canWorkFromTimeZone, describeEligibility } from '$lib/jobs/remote';
+ *
+ * canWorkFromCountry(job, 'DE');                  // open to Germany or Europe?
+ * canWorkFromTimeZone(job, 'America/New_York');   // overlap within 7:00-22:00 there?
+ * describeEligibility(job.remote);                // "Europe, Canada"
+ * ```
+ */
+
+import type { Job, RemoteEligibility, RemoteOverlap, RemoteRegion } from '$lib/types';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export interface RemoteRegionOption {
+	value: RemoteRegion;
+	label: string;
+}
+
+export interface CountryOption {
+	/** ISO 3166-1 alpha-2 */
+	code: string;
+	name: string;
+	region: RemoteRegion;
+}
+
+export interface TimeZoneOption {
+	/** IANA name, e.g. "Europe/Berlin" */
+	value: string;
+	/** "(UTC+01:00) Europe/Berlin" */
+	label: string;
+	/** Hours ahead of UTC right now */
+	offset: number;
+}
+
+/**
+ * A span of UTC hours. Unlike an overlap window it may start below 0 or
+ * end past 24, e.g. a working day in Tokyo is -2 to 13.
+ */
+export interface UtcWindow {
+	start: number;
+	end: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const REMOTE_REGIONS: RemoteRegionOption[] = [
+	{ value: 'americas', label: 'Americas' },
+	{ value: 'europe', label: 'Europe' },
+	{ value: 'middle-east', label: 'Middle East' },
+	{ value: 'africa', label: 'Africa' },
+	{ value: 'asia-pacific', label: 'Asia-Pacific' }
+];
+
+/** Countries offered in pickers, by name */
+export const COUNTRIES: CountryOption[] = [
+	{ code: 'AR', name: 'Argentina', region: 'americas' },
+	{ code: 'AU', name: 'Australia', region: 'asia-pacific' },
+	{ code: 'AT', name: 'Austria', region: 'europe' },
+	{ code: 'BE', name: 'Belgium', region: 'europe' },
+	{ code: 'BR', name: 'Brazil', region: 'americas' },
+	{ code: 'BG', name: 'Bulgaria', region: 'europe' },
+	{ code: 'CA', name: 'Canada', region: 'americas' },
+	{ code: 'CL', name: 'Chile', region: 'americas' },
+	{ code: 'CN', name: 'China', region: 'asia-pacific' },
+	{ code: 'CO', name: 'Colombia', region: 'americas' },
+	{ code: 'HR', name: 'Croatia', region: 'europe' },
+	{ code: 'CZ', name: 'Czechia', region: 'europe' },
+	{ code: 'DK', name: 'Denmark', region: 'europe' },
+	{ code: 'EG', name: 'Egypt', region: 'africa' },
+	{ code: 'EE', name: 'Estonia', region: 'europe' },
+	{ code: 'FI', name: 'Finland', region: 'europe' },
+	{ code: 'FR', name: 'France', region: 'europe' },
+	{ code: 'DE', name: 'Germany', region: 'europe' },
+	{ code: 'GH', name: 'Ghana', region: 'africa' },
+	{ code: 'GR', name: 'Greece', region: 'europe' },
+	{ code: 'HK', name: 'Hong Kong', region: 'asia-pacific' },
+	{ code: 'HU', name: 'Hungary', region: 'europe' },
+	{ code: 'IN', name: 'India', region: 'asia-pacific' },
+	{ code: 'ID', name: 'Indonesia', region: 'asia-pacific' },
+	{ code: 'IE', name: 'Ireland', region: 'europe' },
+	{ code: 'IL', name: 'Israel', region: 'middle-east' },
+	{ code: 'IT', name: 'Italy', region: 'europe' },
+	{ code: 'JP', name: 'Japan', region: 'asia-pacific' },
+	{ code: 'KE', name: 'Kenya', region: 'africa' },
+	{ code: 'LV', name: 'Latvia', region: 'europe' },
+	{ code: 'LT', name: 'Lithuania', region: 'europe' },
+	{ code: 'MY', name: 'Malaysia', region: 'asia-pacific' },
+	{ code: 'MX', name: 'Mexico', region: 'americas' },
+	{ code: 'MA', name: 'Morocco', region: 'africa' },
+	{ code: 'NL', name: 'Netherlands', region: 'europe' },
+	{ code: 'NZ', name: 'New Zealand', region: 'asia-pacific' },
+	{ code: 'NG', name: 'Nigeria', region: 'africa' },
+	{ code: 'NO', name: 'Norway', region: 'europe' },
+	{ code: 'PK', name: 'Pakistan', region: 'asia-pacific' },
+	{ code: 'PE', name: 'Peru', region: 'americas' },
+	{ code: 'PH', name: 'Philippines', region: 'asia-pacific' },
+	{ code: 'PL', name: 'Poland', region: 'europe' },
+	{ code: 'PT', name: 'Portugal', region: 'europe' },
+	{ code: 'RO', name: 'Romania', region: 'europe' },
+	{ code: 'SA', name: 'Saudi Arabia', region: 'middle-east' },
+	{ code: 'RS', name: 'Serbia', region: 'europe' },
+	{ code: 'SG', name: 'Singapore', region: 'asia-pacific' },
+	{ code: 'SK', name: 'Slovakia', region: 'europe' },
+	{ code: 'SI', name: 'Slovenia', region: 'europe' },
+	{ code: 'ZA', name: 'South Africa', region: 'africa' },
+	{ code: 'KR', name: 'South Korea', region: 'asia-pacific' },
+	{ code: 'ES', name: 'Spain', region: 'europe' },
+	{ code: 'SE', name: 'Sweden', region: 'europe' },
+	{ code: 'CH', name: 'Switzerland', region: 'europe' },
+	{ code: 'TW', name: 'Taiwan', region: 'asia-pacific' },
+	{ code: 'TH', name: 'Thailand', region: 'asia-pacific' },
+	{ code: 'TR', name: 'Türkiye', region: 'middle-east' },
+	{ code: 'UA', name: 'Ukraine', region: 'europe' },
+	{ code: 'AE', name: 'United Arab Emirates', region: 'middle-east' },
+	{ code: 'GB', name: 'United Kingdom', region: 'europe' },
+	{ code: 'US', name: 'United States', region: 'americas' },
+	{ code: 'UY', name: 'Uruguay', region: 'americas' },
+	{ code: 'VN', name: 'Vietnam', region: 'asia-pacific' }
+];
+
+/** Earliest local hour a remote worker is expected to be online */
+export const LOCAL_WORKDAY_START = 7;
+
+/** Latest local hour a remote worker is expected to be online */
+export const LOCAL_WORKDAY_END = 22;
+
+/** Used when the runtime can't list its timezones */
+const FALLBACK_TIME_ZONES = [
+	'America/Los_Angeles',
+	'America/Denver',
+	'America/Chicago',
+	'America/New_York',
+	'America/Sao_Paulo',
+	'Europe/London',
+	'Europe/Berlin',
+	'Europe/Helsinki',
+	'Africa/Lagos',
+	'Asia/Dubai',
+	'Asia/Kolkata',
+	'Asia/Singapore',
+	'Asia/Tokyo',
+	'Australia/Sydney',
+	'Pacific/Auckland'
+];
+
+// ============================================
+// COUNTRIES & REGIONS
+// ============================================
+
+/**
+ * Check if a string is one of the region codes.
+ */
+export function isRemoteRegion(value: string): value is RemoteRegion {
+	return REMOTE_REGIONS.some((region) => region.value === value);
+}
+
+export function findCountry(code: string): CountryOption | undefined {
+	const upper = code.toUpperCase();
+	return COUNTRIES.find((country) => country.code === upper);
+}
+
+export function regionLabel(region: RemoteRegion): string {
+	return REMOTE_REGIONS.find((option) => option.value === region)?.label ?? region;
+}
+
+/**
+ * Country name for a code; unknown codes are shown as given.
+ */
+export function countryName(code: string): string {
+	return findCountry(code)?.name ?? code.toUpperCase();
+}
+
+// ============================================
+// TIMEZONES
+// ============================================
+
+export function isValidTimeZone(timeZone: string): boolean {
+	if (!timeZone) return false;
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Hours `timeZone` is ahead of UTC at `at` (negative when behind),
+ * e.g. 5.5 for Asia/Kolkata.
+ */
+export function utcOffsetHours(timeZone: string, at: Date = new Date()): number {
+	const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' })
+		.formatToParts(at)
+		.find((part) => part.type === 'timeZoneName')?.value;
+	const match = name?.match(/GMT([+-])(\d{2}):(\d{2})/);
+	if (!match) return 0;
+
+	const hours = Number(match[2]) + Number(match[3]) / 60;
+	return match[1] === '-' ? -hours : hours;
+}
+
+/**
+ * "UTC+05:30" for an offset in hours.
+ */
+export function formatUtcOffset(offset: number): string {
+	const sign = offset < 0 ? '-' : '+';
+	const minutes = Math.round(Math.abs(offset) * 60);
+	const hh = String(Math.floor(minutes / 60)).padStart(2, '0');
+	const mm = String(minutes % 60).padStart(2, '0');
+	return `UTC${sign}${hh}:${mm}`;
+}
+
+/**
+ * Every timezone the runtime knows, ordered west to east, for pickers.
+ */
+export function timeZoneOptions(at: Date = new Date()): TimeZoneOption[] {
+	const names =
+		typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : FALLBACK_TIME_ZONES;
+
+	return ['UTC', ...names.filter((name) => name !== 'UTC')]
+		.map((value) => {
+			const offset = utcOffsetHours(value, at);
+			return { value, offset, label: `(${formatUtcOffset(offset)}) ${value.replace(/_/g, ' ')}` };
+		})
+		.sort((a, b) => a.offset - b.offset || a.value.localeCompare(b.value));
+}
+
+// ============================================
+// ELIGIBILITY
+// ============================================
+
+/**
+ * Whether a remote job is open to any country.
+ */
+export function isOpenWorldwide(remote: RemoteEligibility | undefined): boolean {
+	return !remote || (remote.regions.length === 0 && remote.countries.length === 0);
+}
+
+/**
+ * Whether a remote job can be worked from `country`: it is open
+ * worldwide, to the country, or to the country's region.
+ * Jobs that aren't remote never match.
+ */
+export function canWorkFromCountry(job: Job, country: string): boolean {
+	if (job.locationType !== 'Remote') return false;
+	const remote = job.remote;
+	if (!remote || isOpenWorldwide(remote)) return true;
+
+	const code = country.toUpperCase();
+	const region = findCountry(code)?.region;
+	return remote.countries.includes(code) || (region !== undefined && remote.regions.includes(region));
+}
+
+/**
+ * The working day of `timeZone`, in UTC hours.
+ */
+export function workdayWindowUtc(timeZone: string, at: Date = new Date()): UtcWindow {
+	const offset = utcOffsetHours(timeZone, at);
+	return { start: LOCAL_WORKDAY_START - offset, end: LOCAL_WORKDAY_END - offset };
+}
+
+/**
+ * Whether an overlap window falls inside a working day, trying the day
+ * before and after so windows that wrap around midnight UTC line up.
+ * No window (no fixed hours) always fits.
+ */
+export function fitsWorkday(overlap: RemoteOverlap | undefined, workday: UtcWindow): boolean {
+	if (!overlap) return true;
+	return [-24, 0, 24].some(
+		(shift) => overlap.startHour + shift >= workday.start && overlap.endHour + shift <= workday.end
+	);
+}
+
+/**
+ * Whether a remote job's overlap hours are within the working day of
+ * `timeZone`. Jobs that aren't remote never match.
+ */
+export function canWorkFromTimeZone(job: Job, timeZone: string, at: Date = new Date()): boolean {
+	return job.locationType === 'Remote' && fitsWorkday(job.remote?.overlap, workdayWindowUtc(timeZone, at));
+}
+
+// ============================================
+// LABELS
+// ============================================
+
+/**
+ * Where a remote job can be worked from: "Anywhere", or its regions and
+ * countries ("Europe, Canada").
+ */
+export function describeEligibility(remote: RemoteEligibility | undefined): string {
+	if (!remote || isOpenWorldwide(remote)) return 'Anywhere';
+	return [...remote.regions.map(regionLabel), ...remote.countries.map(countryName)].join(', ');
+}
+
+/**
+ * Clock time of an hour that may be outside 0-24: 25.5 is "01:30".
+ */
+export function formatHour(hour: number): string {
+	const minutes = Math.round((((hour % 24) + 24) % 24) * 60);
+	return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * An overlap window in UTC, and in `timeZone` when given:
+ * "14:00–18:00 UTC (16:00–20:00 Europe/Berlin)".
+ */
+export function describeOverlap(overlap: RemoteOverlap, timeZone?: string, at: Date = new Date()): string {
+	const utc = `${formatHour(overlap.startHour)}–${formatHour(overlap.endHour)} UTC`;
+	if (!timeZone || timeZone === 'UTC') return utc;
+
+	const offset = utcOffsetHours(timeZone, at);
+	const local = `${formatHour(overlap.startHour + offset)}–${formatHour(overlap.endHour + offset)}`;
+	return `${utc} (${local} ${timeZone.replace(/_/g, ' ')})`;
+}
@@ -0,0 +1,124 @@
+/**
+ * Job Reports
+ * ===========
+ *
+ * Shared rules for reporting a listing and moderating the reports:
+ * reason codes, the details limit, report validation and the labels the
+ * moderation queue shows. The report endpoint validates with the same
+ * function the report dialog uses.
+ *
+ * Once a listing collects enough open reports it is hidden from the
+ * board until a moderator dismisses the reports or takes the job down
+ * (014_job_reports.sql).
+ *
+ * Usage:
+ * ```typescript
+ * import { requestJobReport, validateJobReport } from '$lib/jobs/reports';
+ *
+ * const error = await requestJobReport(job.id, { reason: 'scam', details: '' });
+ * const parsed = validateJobReport(body); // { report } or { error }
+ * ```
+ */
+
+import type { JobModerationAction, JobReportReason } from '$lib/types';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Matches the job_reports.details check */
+export const MAX_REPORT_DETAILS_LENGTH = 1000;
+
+/** Bounds of the report count that hides a job (moderation_settings check) */
+export const MIN_REPORT_THRESHOLD = 1;
+export const MAX_REPORT_THRESHOLD = 100;
+
+/** Every reason a listing can be reported for, with the label and hint the dialog shows */
+export const JOB_REPORT_REASONS: { value: JobReportReason; label: string; description: string }[] = [
+	{ value: 'scam', label: 'Scam or fraud', description: 'Asks for money or personal details, or the company isn’t real.' },
+	{ value: 'expired', label: 'No longer open', description: 'The role is filled or the apply link is dead.' },
+	{ value: 'misleading', label: 'Misleading', description: 'Salary, location or role differ from what’s advertised.' },
+	{ value: 'duplicate', label: 'Duplicate', description: 'The same opening is listed more than once.' },
+	{ value: 'offensive', label: 'Offensive or discriminatory', description: 'Contains hateful or discriminatory content.' },
+	{ value: 'other', label: 'Something else', description: 'Tell us what’s wrong below.' }
+];
+
+/** Labels for the moderation audit trail */
+export const MODERATION_ACTIONS: { value: JobModerationAction; label: string }[] = [
+	{ value: 'auto_hidden', label: 'Hidden after reports' },
+	{ value: 'dismissed', label: 'Reports dismissed' },
+	{ value: 'deactivated', label: 'Job deactivated' }
+];
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export interface JobReportInput {
+	reason: JobReportReason;
+	details: string;
+}
+
+// ============================================
+// LABELS
+// ============================================
+
+export function jobReportReasonLabel(reason: JobReportReason): string {
+	return JOB_REPORT_REASONS.find((option) => option.value === reason)?.label ?? reason;
+}
+
+export function moderationActionLabel(action: JobModerationAction): string {
+	return MODERATION_ACTIONS.find((option) => option.value === action)?.label ?? action;
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Check a report from the dialog or the request body. "Something else"
+ * needs details; other reasons can go without.
+ */
+export function validateJobReport(input: {
+	reason?: unknown;
+	details?: unknown;
+}): { report: JobReportInput } | { error: string } {
+	const reason = JOB_REPORT_REASONS.find((option) => option.value === input.reason)?.value;
+	if (!reason) {
+		return { error: 'Choose a reason for your report' };
+	}
+
+	const details = typeof input.details === 'string' ? input.details.trim() : '';
+	if (details.length > MAX_REPORT_DETAILS_LENGTH) {
+		return { error: `Details must be ${MAX_REPORT_DETAILS_LENGTH} characters or fewer` };
+	}
+	if (reason === 'other' && !details) {
+		return { error: 'Tell us what’s wrong with this listing' };
+	}
+
+	return { report: { reason, details } };
+}
+
+// ============================================
+// REQUESTS
+// ============================================
+
+/**
+ * Send a report on a job to `/jobs/reports`.
+ * @returns null on success, otherwise a user-facing error message
+ */
+export async function requestJobReport(jobId: string, report: JobReportInput): Promise<string | null> {
+	try {
+		const response = await fetch('/jobs/reports', {
+			method: 'POST',
+			headers: { 'content-type': 'application/json' },
+			body: JSON.stringify({ jobId, ...report })
+		});
+		if (response.ok) return null;
+
+		const payload = await response.json().catch(() => null);
+		return payload?.message ?? `Request failed (${response.status})`;
+	} catch {
+		return 'Network error, please try again';
+	}
+}
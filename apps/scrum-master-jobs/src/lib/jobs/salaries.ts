@@ -0,0 +1,186 @@
+/**
+ * Salary Statistics
+ * =================
+ *
+ * Percentile breakdowns of posted salary ranges. Each posting contributes
+ * one sample, the midpoint of its range, annualized and converted to a
+ * single currency so hourly and yearly postings in different currencies
+ * can be compared.
+ *
+ * Groups with fewer than THIN_SAMPLE_SIZE postings are flagged so the UI
+ * can warn against over-reading them.
+ *
+ * Usage:
+ * ```typescript
+ * import { groupSalaries, summarizeSalaries } from '$lib/jobs/salaries';
+ *
+ * const overall = summarizeSalaries(samples, 'USD', rates);
+ * const bySkill = groupSalaries(samples, 'skill', 'USD', rates);
+ * ```
+ */
+
+import type { ExperienceLevel, LocationType, SalaryPeriod } from '$lib/types';
+import { getExperienceLevels, getLocationTypes } from '$lib/data/jobs';
+import { convertAmount, toAnnualAmount, type RateTable } from './currency';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * One posting's salary range and the attributes it can be grouped by.
+ */
+export interface SalarySample {
+	min: number;
+	max: number;
+	currency: string;
+	/** Hourly ranges are annualized; defaults to 'year' */
+	period?: SalaryPeriod;
+	experienceLevel: ExperienceLevel;
+	locationType: LocationType;
+	skills: string[];
+	company: string;
+}
+
+export type SalaryDimension = 'experienceLevel' | 'locationType' | 'skill' | 'company';
+
+export interface SalaryStats {
+	/** Postings in the group (after dropping unconvertible currencies) */
+	count: number;
+	p25: number;
+	median: number;
+	p75: number;
+	/** Lowest and highest posted bound in the group */
+	min: number;
+	max: number;
+	/** True when `count` is below THIN_SAMPLE_SIZE */
+	isThin: boolean;
+}
+
+export interface SalaryGroup {
+	key: string;
+	stats: SalaryStats;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Groups smaller than this are flagged as a small sample */
+export const THIN_SAMPLE_SIZE = 5;
+
+export const SALARY_DIMENSIONS: { value: SalaryDimension; label: string }[] = [
+	{ value: 'experienceLevel', label: 'Experience level' },
+	{ value: 'locationType', label: 'Work type' },
+	{ value: 'skill', label: 'Skill' },
+	{ value: 'company', label: 'Company' }
+];
+
+// ============================================
+// STATISTICS
+// ============================================
+
+/**
+ * Percentile of an ascending list using linear interpolation
+ * between closest ranks (the same method as PERCENTILE_CONT).
+ */
+export function percentile(sorted: number[], p: number): number {
+	if (sorted.length === 0) return 0;
+	const rank = (sorted.length - 1) * p;
+	const lower = Math.floor(rank);
+	const upper = Math.ceil(rank);
+	return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+interface ConvertedSample {
+	sample: SalarySample;
+	midpoint: number;
+	min: number;
+	max: number;
+}
+
+/**
+ * Annualize samples and convert them to one currency, dropping any the
+ * rate table can't convert.
+ */
+function convertSamples(samples: SalarySample[], currency: string, table: RateTable): ConvertedSample[] {
+	return samples.flatMap((sample) => {
+		const min = convertAmount(toAnnualAmount(sample.min, sample.period), sample.currency, currency, table);
+		const max = convertAmount(toAnnualAmount(sample.max, sample.period), sample.currency, currency, table);
+		if (min === null || max === null) return [];
+		return [{ sample, min, max, midpoint: (min + max) / 2 }];
+	});
+}
+
+function statsFor(converted: ConvertedSample[]): SalaryStats {
+	const midpoints = converted.map((c) => c.midpoint).sort((a, b) => a - b);
+
+	return {
+		count: midpoints.length,
+		p25: percentile(midpoints, 0.25),
+		median: percentile(midpoints, 0.5),
+		p75: percentile(midpoints, 0.75),
+		min: converted.length ? Math.min(...converted.map((c) => c.min)) : 0,
+		max: converted.length ? Math.max(...converted.map((c) => c.max)) : 0,
+		isThin: midpoints.length < THIN_SAMPLE_SIZE
+	};
+}
+
+/**
+ * Percentiles across every sample.
+ */
+export function summarizeSalaries(samples: SalarySample[], currency: string, table: RateTable): SalaryStats {
+	return statsFor(convertSamples(samples, currency, table));
+}
+
+/**
+ * Keys a sample belongs to for a dimension (a posting counts once for
+ * each of its skills).
+ */
+function keysFor(sample: SalarySample, dimension: SalaryDimension): string[] {
+	switch (dimension) {
+		case 'experienceLevel':
+			return [sample.experienceLevel];
+		case 'locationType':
+			return [sample.locationType];
+		case 'skill':
+			return [...new Set(sample.skills)];
+		case 'company':
+			return [sample.company];
+	}
+}
+
+/**
+ * Percentiles per group of a dimension.
+ * Experience levels and work types keep their natural order; skills and
+ * companies are sorted by sample size, then median.
+ */
+export function groupSalaries(
+	samples: SalarySample[],
+	dimension: SalaryDimension,
+	currency: string,
+	table: RateTable
+): SalaryGroup[] {
+	const groups = new Map<string, ConvertedSample[]>();
+
+	for (const converted of convertSamples(samples, currency, table)) {
+		for (const key of keysFor(converted.sample, dimension)) {
+			const group = groups.get(key);
+			if (group) group.push(converted);
+			else groups.set(key, [converted]);
+		}
+	}
+
+	const result = [...groups].map(([key, converted]) => ({ key, stats: statsFor(converted) }));
+
+	const order: readonly string[] | null =
+		dimension === 'experienceLevel'
+			? getExperienceLevels()
+			: dimension === 'locationType'
+				? getLocationTypes()
+				: null;
+
+	return order
+		? result.sort((a, b) => order.indexOf(a.key) - order.indexOf(b.key))
+		: result.sort((a, b) => b.stats.count - a.stats.count || b.stats.median - a.stats.median);
+}
@@ -0,0 +1,123 @@
+/**
+ * Saved Jobs State
+ * ================
+ *
+ * Client-side bookmark state with optimistic updates. The UI flips
+ * immediately, the write goes to `/jobs/saved/[jobId]`, and the change is
+ * rolled back (with an error message) if the server rejects it.
+ *
+ * Create one instance per page from server-loaded ids, never at module
+ * level, so bookmark state is not shared between users during SSR.
+ *
+ * Usage:
+ * ```svelte
+ * <script lang="ts">
+ *   import { SavedJobs } from '$lib/jobs/saved.svelte';
+ *
+ *   const saved = new SavedJobs(() => data.savedJobIds);
+ * </script>
+ *
+ * <JobCard {job} isSaved={saved.has(job.id)} onToggleSave={() => saved.toggle(job.id)} />
+ * ```
+ */
+
+import { SvelteSet } from 'svelte/reactivity';
+
+// ============================================
+// REQUESTS
+// ============================================
+
+/**
+ * Send a bookmark write for a job.
+ * @returns null on success, otherwise a user-facing error message
+ */
+export async function requestBookmark(
+	method: 'PUT' | 'DELETE' | 'PATCH',
+	jobId: string,
+	body?: { notes: string }
+): Promise<string | null> {
+	try {
+		const response = await fetch(`/jobs/saved/${encodeURIComponent(jobId)}`, {
+			method,
+			headers: body ? { 'content-type': 'application/json' } : undefined,
+			body: body ? JSON.stringify(body) : undefined
+		});
+		if (response.ok) return null;
+
+		const payload = await response.json().catch(() => null);
+		return payload?.message ?? `Request failed (${response.status})`;
+	} catch {
+		return 'Network error, please try again';
+	}
+}
+
+// ============================================
+// SAVED JOBS STATE
+// ============================================
+
+export class SavedJobs {
+	/** Job ids currently shown as saved (including optimistic changes) */
+	#ids = new SvelteSet<string>();
+	/** Job ids with a write in flight */
+	#pending = new SvelteSet<string>();
+
+	/** Last failed write, cleared on the next successful one */
+	error = $state<string | null>(null);
+
+	/**
+	 * @param initialIds - Getter for the server-loaded saved ids; re-read
+	 *   whenever it changes (e.g. after navigation invalidates page data)
+	 */
+	constructor(initialIds: () => string[]) {
+		$effect.pre(() => {
+			const ids = initialIds();
+			this.#ids.clear();
+			for (const id of ids) this.#ids.add(id);
+		});
+	}
+
+	/** Whether the job is (optimistically) saved */
+	has(jobId: string): boolean {
+		return this.#ids.has(jobId);
+	}
+
+	/** Whether a save/unsave for the job is still in flight */
+	isPending(jobId: string): boolean {
+		return this.#pending.has(jobId);
+	}
+
+	/** Number of saved jobs */
+	get size(): number {
+		return this.#ids.size;
+	}
+
+	/**
+	 * Save or unsave a job. The UI updates immediately and rolls back if
+	 * the request fails. Clicks while a write is in flight are ignored.
+	 * @returns Whether the write succeeded
+	 */
+	async toggle(jobId: string): Promise<boolean> {
+		if (this.#pending.has(jobId)) return false;
+
+		const wasSaved = this.#ids.has(jobId);
+		this.#set(jobId, !wasSaved);
+		this.#pending.add(jobId);
+
+		const failure = await requestBookmark(wasSaved ? 'DELETE' : 'PUT', jobId);
+		this.#pending.delete(jobId);
+
+		if (failure) {
+			this.#set(jobId, wasSaved);
+			this.error = failure;
+			return false;
+		}
+
+		this.error = null;
+		return true;
+	}
+
+	#set(jobId: string, saved: boolean) {
+		if (saved) this.#ids.add(jobId);
+		else this.#ids.delete(jobId);
+	}
+}
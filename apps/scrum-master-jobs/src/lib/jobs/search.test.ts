@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import type { Job } from '$lib/types';
+import { getJobById, jobs } from '$lib/data/jobs';
+import {
+	analyzeQuery,
+	highlightJob,
+	matchesSearch,
+	parseHeadline,
+	searchJobs,
+	stem,
+	toSearchTermGroups
+} from './search';
+
+function fixture(id: string): Job {
+	const job = getJobById(id);
+	if (!job) throw new Error(`No fixture job ${id}`);
+	return job;
+}
+
+// Senior Backend Engineer at PlanetScale: Go, MySQL, Vitess, Kubernetes, AWS
+const planetScale = fixture('job-010');
+
+// MARK: - Query Analysis
+
+describe('stem', () => {
+	it('folds plurals and verb forms', () => {
+		expect(stem('engineers')).toBe('engineer');
+		expect(stem('engineering')).toBe('engineer');
+		expect(stem('companies')).toBe('company');
+		expect(stem('classes')).toBe('class');
+	});
+
+	it('leaves short words and tech names alone', () => {
+		expect(stem('aws')).toBe('aws');
+		expect(stem('node.js')).toBe('node.js');
+		expect(stem('class')).toBe('class');
+	});
+});
+
+describe('analyzeQuery', () => {
+	it('drops stopwords and resolves synonyms once', () => {
+		expect(analyzeQuery('The K8s engineers and k8s')).toEqual(['kubernetes', 'engineer']);
+		expect(analyzeQuery('front-end')).toEqual(['frontend']);
+	});
+});
+
+describe('toSearchTermGroups', () => {
+	it('expands each word into its synonyms', () => {
+		expect(toSearchTermGroups('k8s engineer')).toEqual(['kubernetes or k8s', 'engineer']);
+	});
+
+	it('turns punctuation into spaces for Postgres', () => {
+		expect(toSearchTermGroups('node.js and ci/cd')).toEqual(['node js or nodejs or node', 'ci cd or cicd']);
+		expect(toSearchTermGroups('the a')).toEqual([]);
+	});
+});
+
+// MARK: - Matching & Ranking
+
+describe('matchesSearch', () => {
+	it('needs every term to match somewhere', () => {
+		expect(matchesSearch(planetScale, 'golang kubernetes')).toBe(true);
+		expect(matchesSearch(planetScale, 'kubernetes figma')).toBe(false);
+	});
+
+	it('tolerates typos in longer terms only', () => {
+		expect(matchesSearch(planetScale, 'kubernets')).toBe(true);
+		expect(matchesSearch(planetScale, 'enginer')).toBe(true);
+		expect(matchesSearch(planetScale, 'aws')).toBe(true);
+		expect(matchesSearch(planetScale, 'awz')).toBe(false);
+	});
+
+	it('matches everything for an empty query', () => {
+		expect(matchesSearch(planetScale, ' the ')).toBe(true);
+	});
+});
+
+describe('searchJobs', () => {
+	it('returns only matching jobs, best first', () => {
+		const results = searchJobs(jobs, 'kubernetes');
+
+		expect(results.length).toBeGreaterThan(0);
+		expect(results.length).toBeLessThan(jobs.length);
+		expect(results.every((result) => matchesSearch(result.job, 'kubernetes'))).toBe(true);
+		for (let i = 1; i < results.length; i++) {
+			expect(results[i - 1].score).toBeGreaterThanOrEqual(results[i].score);
+		}
+	});
+
+	it('ranks a title match above a mention in the description', () => {
+		const mention: Job = { ...planetScale, id: 'mention', title: 'Site Reliability Engineer' };
+		const ranked = searchJobs([mention, planetScale], 'backend');
+
+		expect(ranked.map((result) => result.job.id)).toEqual(['job-010', 'mention']);
+	});
+
+	it('keeps every job, unscored, for an empty query', () => {
+		const results = searchJobs(jobs, '');
+
+		expect(results.map((result) => result.job)).toEqual(jobs);
+		expect(results.every((result) => result.score === 0)).toBe(true);
+	});
+});
+
+// MARK: - Highlighting
+
+describe('highlightJob', () => {
+	it('marks matches in the title', () => {
+		expect(highlightJob(planetScale, 'backend engineers').title).toEqual([
+			{ text: 'Senior ', match: false },
+			{ text: 'Backend', match: true },
+			{ text: ' ', match: false },
+			{ text: 'Engineer', match: true }
+		]);
+	});
+
+	it('cuts a snippet around the first match in the description', () => {
+		const description = `${'Intro words here. '.repeat(20)}We run Vitess at scale.${' More words.'.repeat(30)}`;
+		const { snippet } = highlightJob({ ...planetScale, description }, 'vitess');
+
+		expect(snippet[0]).toEqual({ text: '…', match: false });
+		expect(snippet.at(-1)).toEqual({ text: '…', match: false });
+		expect(snippet.filter((segment) => segment.match)).toEqual([{ text: 'Vitess', match: true }]);
+	});
+});
+
+describe('parseHeadline', () => {
+	it('reads ts_headline markers as matches', () => {
+		expect(parseHeadline('Senior ⟦Backend⟧ Engineer, ⟦backend⟧')).toEqual([
+			{ text: 'Senior ', match: false },
+			{ text: 'Backend', match: true },
+			{ text: ' Engineer, ', match: false },
+			{ text: 'backend', match: true }
+		]);
+		expect(parseHeadline('No matches')).toEqual([{ text: 'No matches', match: false }]);
+	});
+});
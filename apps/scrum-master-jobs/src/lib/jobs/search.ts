@@ -0,0 +1,411 @@
+/**
+ * Job Search
+ * ==========
+ *
+ * Query analysis, ranking and highlighting for free-text job search.
+ *
+ * Two backends share this module:
+ * - Supabase runs Postgres full-text search (002_job_search.sql) and
+ *   only needs `toSearchTermGroups()` to expand skill synonyms.
+ * - Sources that hold listings in memory (mock data) rank with
+ *   `searchJobs()`, which mirrors the SQL behaviour: stemmed terms,
+ *   synonym groups, typo tolerance and weighted fields.
+ *
+ * Highlights are returned as text segments rather than HTML, so they can
+ * be rendered without `{@html}`.
+ *
+ * Usage:
+ * ```typescript
+ * import { searchJobs } from '$lib/jobs/search';
+ *
+ * const results = searchJobs(jobs, 'k8s enginer');
+ * // -> jobs mentioning Kubernetes and engineer/engineering, best first
+ * ```
+ */
+
+import type { Job, HighlightSegment, JobHighlight } from '$lib/types';
+
+// ============================================
+// SYNONYMS & STOPWORDS
+// ============================================
+
+/**
+ * Skill synonym groups. The first entry is the canonical term.
+ * Only single-token aliases are listed; tokens are lowercased.
+ */
+const SYNONYM_GROUPS: string[][] = [
+	['kubernetes', 'k8s'],
+	['javascript', 'js', 'ecmascript'],
+	['typescript', 'ts'],
+	['postgresql', 'postgres', 'psql'],
+	['golang', 'go'],
+	['react', 'reactjs', 'react.js'],
+	['node.js', 'nodejs', 'node'],
+	['next.js', 'nextjs'],
+	['vue', 'vuejs', 'vue.js'],
+	['python', 'py'],
+	['ci/cd', 'cicd'],
+	['frontend', 'front-end'],
+	['backend', 'back-end'],
+	['fullstack', 'full-stack'],
+	['devops', 'dev-ops'],
+	['graphql', 'gql']
+];
+
+const SYNONYMS = new Map<string, string[]>();
+const CANONICAL = new Map<string, string>();
+for (const group of SYNONYM_GROUPS) {
+	for (const term of group) {
+		SYNONYMS.set(term, group);
+		CANONICAL.set(term, group[0]);
+	}
+}
+
+/** Words too common to be worth matching on */
+const STOPWORDS = new Set([
+	'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+	'of', 'on', 'or', 'the', 'to', 'with', 'we', 'you', 'our', 'your', 'will'
+]);
+
+// ============================================
+// TOKENIZING & STEMMING
+// ============================================
+
+/**
+ * Matches word-like tokens, keeping characters that matter in tech names
+ * (c++, c#, node.js, ci/cd). Trailing dots and slashes are trimmed later.
+ */
+const TOKEN_PATTERN = /[a-z0-9][a-z0-9+#./-]*/gi;
+
+interface Token {
+	/** Canonical term used for matching */
+	term: string;
+	/** Offset of the token in the original text */
+	start: number;
+	end: number;
+}
+
+/**
+ * Light English suffix stripper.
+ * Not a full Porter stemmer, but it folds the common plural and verb
+ * forms ("engineers", "engineering", "managed") onto one term, which is
+ * what the 'english' Postgres config does for job text in practice.
+ */
+export function stem(word: string): string {
+	if (word.length <= 3 || /[^a-z]/.test(word)) return word;
+
+	const rules: [RegExp, string][] = [
+		[/ies$/, 'y'],
+		[/(ss|sh|ch|x)es$/, '$1'],
+		[/([^s])s$/, '$1'],
+		[/ing$/, ''],
+		[/ed$/, ''],
+		[/ment$/, '']
+	];
+
+	for (const [pattern, replacement] of rules) {
+		if (pattern.test(word)) {
+			const stemmed = word.replace(pattern, replacement);
+			return stemmed.length >= 3 ? stemmed : word;
+		}
+	}
+	return word;
+}
+
+/**
+ * Map a raw lowercased token to the term used for matching:
+ * the synonym group's canonical name, or the stemmed word.
+ */
+function toTerm(raw: string): string {
+	return CANONICAL.get(raw) ?? stem(raw);
+}
+
+/**
+ * Split text into tokens with their canonical terms and offsets.
+ * Hyphenated words yield both the whole word and its parts, so
+ * "front-end" matches "frontend" and "end".
+ */
+function tokenize(text: string): Token[] {
+	const tokens: Token[] = [];
+
+	for (const match of text.matchAll(TOKEN_PATTERN)) {
+		const raw = match[0].replace(/[./-]+$/, '').toLowerCase();
+		if (!raw || STOPWORDS.has(raw)) continue;
+
+		const start = match.index ?? 0;
+		const end = start + raw.length;
+		tokens.push({ term: toTerm(raw), start, end });
+
+		if (raw.includes('-') && !CANONICAL.has(raw)) {
+			for (const part of raw.split('-')) {
+				if (part && !STOPWORDS.has(part)) tokens.push({ term: toTerm(part), start, end });
+			}
+		}
+	}
+
+	return tokens;
+}
+
+// ============================================
+// QUERY ANALYSIS
+// ============================================
+
+/**
+ * Canonical query terms, deduplicated, in the order typed.
+ */
+export function analyzeQuery(query: string): string[] {
+	return [...new Set(tokenize(query).map((token) => token.term))];
+}
+
+/**
+ * Expand a query into per-word synonym groups for Postgres
+ * `websearch_to_tsquery`, one group per word:
+ *
+ *   "k8s engineer" -> ["kubernetes or k8s", "engineer"]
+ *
+ * Hyphens and dots become spaces so the Postgres parser sees plain words.
+ */
+export function toSearchTermGroups(query: string): string[] {
+	const groups: string[] = [];
+
+	for (const match of query.matchAll(TOKEN_PATTERN)) {
+		const raw = match[0].replace(/[./-]+$/, '').toLowerCase();
+		if (!raw || STOPWORDS.has(raw)) continue;
+
+		const alternatives = (SYNONYMS.get(raw) ?? [raw]).map((term) =>
+			term.replace(/[^a-z0-9+#]+/g, ' ').trim()
+		);
+		groups.push([...new Set(alternatives)].filter(Boolean).join(' or '));
+	}
+
+	return groups.filter(Boolean);
+}
+
+// ============================================
+// FUZZY MATCHING
+// ============================================
+
+/**
+ * Damerau-Levenshtein distance (optimal string alignment), capped:
+ * returns `max + 1` as soon as the distance is known to exceed `max`.
+ */
+function editDistance(a: string, b: string, max: number): number {
+	if (Math.abs(a.length - b.length) > max) return max + 1;
+
+	const rows: number[][] = [];
+	for (let i = 0; i <= a.length; i++) rows.push([i]);
+	for (let j = 0; j <= b.length; j++) rows[0][j] = j;
+
+	for (let i = 1; i <= a.length; i++) {
+		let rowMin = Infinity;
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			let value = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+				value = Math.min(value, rows[i - 2][j - 2] + 1);
+			}
+			rows[i][j] = value;
+			rowMin = Math.min(rowMin, value);
+		}
+		if (rowMin > max) return max + 1;
+	}
+
+	return rows[a.length][b.length];
+}
+
+/**
+ * How well a document term matches a query term:
+ * 1 for an exact match, 0.7 for a typo within tolerance, 0 otherwise.
+ * Short terms must match exactly so "go" doesn't match "to".
+ */
+function matchQuality(queryTerm: string, docTerm: string): number {
+	if (queryTerm === docTerm) return 1;
+	if (queryTerm.length < 4) return 0;
+
+	const allowed = queryTerm.length >= 8 ? 2 : 1;
+	return editDistance(queryTerm, docTerm, allowed) <= allowed ? 0.7 : 0;
+}
+
+// ============================================
+// RANKING
+// ============================================
+
+/** Relative importance of each searchable field */
+const FIELD_WEIGHTS = {
+	title: 3,
+	skills: 3,
+	company: 2,
+	requirements: 1.5,
+	description: 1
+} as const;
+
+type Field = keyof typeof FIELD_WEIGHTS;
+
+function fieldText(job: Job, field: Field): string {
+	switch (field) {
+		case 'title':
+			return job.title;
+		case 'skills':
+			return job.skills.join(' , ');
+		case 'company':
+			return job.company.name;
+		case 'requirements':
+			return job.requirements.join(' . ');
+		case 'description':
+			return job.description;
+	}
+}
+
+export interface JobSearchResult {
+	job: Job;
+	score: number;
+	highlight: JobHighlight;
+}
+
+/**
+ * Score one job against analyzed query terms.
+ * Every query term must match somewhere (AND semantics, like the SQL
+ * search); returns 0 when one doesn't.
+ */
+function scoreJob(job: Job, terms: string[]): number {
+	const fields = (Object.keys(FIELD_WEIGHTS) as Field[]).map((field) => ({
+		weight: FIELD_WEIGHTS[field],
+		tokens: tokenize(fieldText(job, field))
+	}));
+	let score = 0;
+
+	for (const term of terms) {
+		let best = 0;
+
+		for (const { weight, tokens } of fields) {
+			if (tokens.length === 0) continue;
+
+			let hits = 0;
+			for (const token of tokens) hits += matchQuality(term, token.term);
+			if (hits === 0) continue;
+
+			// Dampen long fields so one mention in a title beats three in a description
+			const fieldScore = (weight * (1 + Math.log(hits))) / Math.sqrt(1 + tokens.length / 25);
+			best = Math.max(best, fieldScore);
+		}
+
+		if (best === 0) return 0;
+		score += best;
+	}
+
+	return score;
+}
+
+/**
+ * Whether a job matches every term of a free-text query.
+ */
+export function matchesSearch(job: Job, query: string): boolean {
+	const terms = analyzeQuery(query);
+	return terms.length === 0 || scoreJob(job, terms) > 0;
+}
+
+/**
+ * Rank jobs against a free-text query, best match first.
+ * Jobs that don't match every term are dropped.
+ */
+export function searchJobs(jobs: Job[], query: string): JobSearchResult[] {
+	const terms = analyzeQuery(query);
+	if (terms.length === 0) {
+		return jobs.map((job) => ({ job, score: 0, highlight: highlightJob(job, query) }));
+	}
+
+	return jobs
+		.map((job) => ({ job, score: scoreJob(job, terms) }))
+		.filter((result) => result.score > 0)
+		.sort((a, b) => b.score - a.score)
+		.map((result) => ({ ...result, highlight: highlightJob(result.job, query) }));
+}
+
+// ============================================
+// HIGHLIGHTING
+// ============================================
+
+/** Approximate snippet length in characters */
+const SNIPPET_LENGTH = 180;
+
+/** Delimiters used by the search_jobs() RPC's ts_headline output */
+const HEADLINE_START = '⟦';
+const HEADLINE_STOP = '⟧';
+
+/**
+ * Split `text` into segments, marking the character ranges given.
+ */
+function toSegments(text: string, ranges: { start: number; end: number }[]): HighlightSegment[] {
+	const segments: HighlightSegment[] = [];
+	let cursor = 0;
+
+	for (const { start, end } of [...ranges].sort((a, b) => a.start - b.start)) {
+		if (start < cursor) continue;
+		if (start > cursor) segments.push({ text: text.slice(cursor, start), match: false });
+		segments.push({ text: text.slice(start, end), match: true });
+		cursor = end;
+	}
+
+	if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+	return segments;
+}
+
+/**
+ * Character ranges in `text` whose terms match any query term.
+ */
+function matchRanges(text: string, terms: string[]): { start: number; end: number }[] {
+	return tokenize(text).filter((token) => terms.some((term) => matchQuality(term, token.term) > 0));
+}
+
+/**
+ * Highlight query matches in a job's title and pick a description
+ * snippet centred on the first match.
+ */
+export function highlightJob(job: Job, query: string): JobHighlight {
+	const terms = analyzeQuery(query);
+	const title = toSegments(job.title, matchRanges(job.title, terms));
+
+	const text = job.description.replace(/\s+/g, ' ').trim();
+	const ranges = matchRanges(text, terms);
+
+	let start = 0;
+	if (ranges.length > 0) {
+		start = Math.max(0, ranges[0].start - SNIPPET_LENGTH / 3);
+		// Start on a word boundary
+		const space = text.lastIndexOf(' ', start);
+		start = start === 0 || space < 0 ? start : space + 1;
+	}
+	let end = Math.min(text.length, start + SNIPPET_LENGTH);
+	const space = text.indexOf(' ', end);
+	end = end === text.length || space < 0 ? end : space;
+
+	const window = ranges
+		.filter((range) => range.start >= start && range.end <= end)
+		.map((range) => ({ start: range.start - start, end: range.end - start }));
+
+	const snippet = toSegments(text.slice(start, end), window);
+	if (start > 0) snippet.unshift({ text: '…', match: false });
+	if (end < text.length) snippet.push({ text: '…', match: false });
+
+	return { title, snippet };
+}
+
+/**
+ * Parse a Postgres `ts_headline` result (matches wrapped in ⟦ ⟧)
+ * into highlight segments.
+ */
+export function parseHeadline(headline: string): HighlightSegment[] {
+	const segments: HighlightSegment[] = [];
+	const pattern = new RegExp(`${HEADLINE_START}(.*?)${HEADLINE_STOP}`, 'g');
+	let cursor = 0;
+
+	for (const match of headline.matchAll(pattern)) {
+		const index = match.index ?? 0;
+		if (index > cursor) segments.push({ text: headline.slice(cursor, index), match: false });
+		segments.push({ text: match[1], match: true });
+		cursor = index + match[0].length;
+	}
+
+	if (cursor < headline.length) segments.push({ text: headline.slice(cursor), match: false });
+	return segments;
+}
@@ -0,0 +1,178 @@
+/**
+ * Job Page Metadata
+ * =================
+ *
+ * Permalinks, meta descriptions and schema.org `JobPosting` structured
+ * data for /jobs/[slug], so listings can be shared and indexed by job
+ * search engines (Google for Jobs and similar).
+ *
+ * Usage:
+ * ```typescript
+ * import { jobPath, toJobPosting, serializeJsonLd } from '$lib/jobs/seo';
+ *
+ * const canonical = new URL(jobPath(job), origin);
+ * const jsonLd = serializeJsonLd(toJobPosting(job, canonical));
+ * ```
+ */
+
+import type { EmploymentType, Job } from '$lib/types';
+import { countryName } from './remote';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Longest meta/Open Graph description, in characters */
+const META_DESCRIPTION_LENGTH = 160;
+
+/** schema.org employmentType values */
+const SCHEMA_EMPLOYMENT_TYPES: Record<EmploymentType, string> = {
+	'Full-time': 'FULL_TIME',
+	'Part-time': 'PART_TIME',
+	Contract: 'CONTRACTOR',
+	Internship: 'INTERN'
+};
+
+// ============================================
+// PERMALINKS
+// ============================================
+
+/**
+ * Path of a job's detail page. Jobs from sources without slugs (the mock
+ * listings) fall back to their id.
+ */
+export function jobPath(job: Pick<Job, 'id' | 'slug'>): string {
+	return `/jobs/${encodeURIComponent(job.slug || job.id)}`;
+}
+
+/**
+ * Plain-text summary of a job for meta and Open Graph descriptions,
+ * cut at a word boundary.
+ */
+export function jobMetaDescription(job: Job): string {
+	const text = `${job.company.name} is hiring: ${job.description}`.replace(/\s+/g, ' ').trim();
+	if (text.length <= META_DESCRIPTION_LENGTH) return text;
+
+	const cut = text.slice(0, META_DESCRIPTION_LENGTH - 1);
+	return `${cut.slice(0, cut.lastIndexOf(' ')) || cut}…`;
+}
+
+// ============================================
+// STRUCTURED DATA
+// ============================================
+
+/**
+ * Escape text for HTML content and attribute values (also used by the
+ * alert digest and expiry notice emails).
+ */
+export function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+/**
+ * JobPosting descriptions are HTML; rebuild one from the plain-text
+ * description, requirements and benefits. Also used for the HTML content
+ * of job feeds (see feeds.ts).
+ */
+export function jobDescriptionHtml(job: Job): string {
+	const paragraphs = job.description
+		.split(/\n\s*\n/)
+		.map((paragraph) => paragraph.trim())
+		.filter(Boolean)
+		.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`);
+
+	const list = (title: string, items: string[]) =>
+		items.length > 0
+			? [`<h3>${title}</h3>`, `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`]
+			: [];
+
+	return [...paragraphs, ...list('Requirements', job.requirements), ...list('Benefits', job.benefits)].join('');
+}
+
+/**
+ * Postal address from a free-form "City, Region" location.
+ */
+function postalAddress(location: string): Record<string, string> {
+	const [locality, region] = location.split(',').map((part) => part.trim());
+	return {
+		'@type': 'PostalAddress',
+		addressLocality: locality,
+		...(region ? { addressRegion: region } : {})
+	};
+}
+
+/**
+ * schema.org `JobPosting` for a job.
+ * Remote jobs are marked TELECOMMUTE; hybrid and on-site jobs carry
+ * their office location.
+ * @param url - Canonical URL of the job's detail page
+ */
+export function toJobPosting(job: Job, url: URL): Record<string, unknown> {
+	const isRemote = job.locationType === 'Remote';
+	const hasOffice = !isRemote && job.location.trim() !== '' && job.location !== 'Remote';
+
+	return {
+		'@context': 'https://schema.org',
+		'@type': 'JobPosting',
+		title: job.title,
+		description: jobDescriptionHtml(job),
+		url: url.href,
+		datePosted: job.postedAt,
+		...(job.expiresAt ? { validThrough: job.expiresAt } : {}),
+		employmentType: SCHEMA_EMPLOYMENT_TYPES[job.employmentType],
+		identifier: {
+			'@type': 'PropertyValue',
+			name: job.company.name,
+			value: job.id
+		},
+		hiringOrganization: {
+			'@type': 'Organization',
+			name: job.company.name,
+			...(job.company.website ? { sameAs: job.company.website } : {}),
+			logo: new URL(job.company.logo, url).href
+		},
+		...(isRemote ? { jobLocationType: 'TELECOMMUTE' } : {}),
+		// Region-wide eligibility has no schema.org form; countries do
+		...(isRemote && job.remote && job.remote.countries.length > 0
+			? {
+					applicantLocationRequirements: job.remote.countries.map((code) => ({
+						'@type': 'Country',
+						name: countryName(code)
+					}))
+				}
+			: {}),
+		...(hasOffice ? { jobLocation: { '@type': 'Place', address: postalAddress(job.location) } } : {}),
+		...(job.salary
+			? {
+					baseSalary: {
+						'@type': 'MonetaryAmount',
+						currency: job.salary.currency,
+						value: {
+							'@type': 'QuantitativeValue',
+							minValue: job.salary.min,
+							maxValue: job.salary.max,
+							unitText: job.salary.period === 'hour' ? 'HOUR' : 'YEAR'
+						}
+					}
+				}
+			: {}),
+		...(job.skills.length > 0 ? { skills: job.skills.join(', ') } : {}),
+		directApply: job.isEasyApply ?? false
+	};
+}
+
+/**
+ * Serialize structured data for an inline <script type="application/ld+json">.
+ * `<` is escaped so text in the data can't close the script element.
+ */
+export function serializeJsonLd(data: Record<string, unknown>): string {
+	return JSON.stringify(data)
+		.replace(/</g, '\\u003c')
+		.replace(/\u2028/g, '\\u2028')
+		.replace(/\u2029/g, '\\u2029');
+}
@@ -0,0 +1,149 @@
+/**
+ * Job Alert Delivery
+ * ==================
+ *
+ * Drains the `job_alert_deliveries` queue: renders each pending digest
+ * and hands it to the configured mail transport. Failed sends stay
+ * pending and are retried on later runs, up to MAX_DELIVERY_ATTEMPTS.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { JobAlert, JobAlertDelivery, JobWithCompany } from '$lib/supabase/types';
+import type { MailAddress, MailTransport } from '$lib/server/mail';
+import { normalizeJob } from '$lib/server/jobs';
+import { toRawJob } from '$lib/server/jobs/sources/supabase';
+import { renderAlertDigest } from './digest';
+
+// MARK: - Configuration
+
+/** Sends per digest before it is marked failed */
+export const MAX_DELIVERY_ATTEMPTS = 3;
+
+/** Digests sent per run, to stay inside serverless time limits */
+const DEFAULT_BATCH_SIZE = 50;
+
+// MARK: - Types
+
+export interface DeliveryOptions {
+	transport: MailTransport;
+	from: MailAddress;
+	/** Site origin for links in the email */
+	baseUrl: string;
+	batchSize?: number;
+}
+
+export interface DeliverySummary {
+	sent: number;
+	failed: number;
+	skipped: number;
+}
+
+type QueuedDelivery = JobAlertDelivery & { alert: JobAlert | null };
+
+// MARK: - Delivery
+
+/**
+ * Send pending digests, oldest first.
+ * Requires a service-role client (the queue has no RLS policies).
+ */
+export async function sendQueuedDigests(
+	supabase: SupabaseClient,
+	{ transport, from, baseUrl, batchSize = DEFAULT_BATCH_SIZE }: DeliveryOptions
+): Promise<DeliverySummary> {
+	const { data, error } = await supabase
+		.from('job_alert_deliveries')
+		.select('*, alert:job_alerts(*)')
+		.eq('status', 'pending')
+		.order('created_at', { ascending: true })
+		.limit(batchSize);
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	const summary: DeliverySummary = { sent: 0, failed: 0, skipped: 0 };
+
+	for (const delivery of (data ?? []) as QueuedDelivery[]) {
+		const { alert } = delivery;
+
+		// Unsubscribed since the digest was queued
+		if (!alert || !alert.is_active) {
+			await markDelivery(supabase, delivery.id, { status: 'failed', last_error: 'Alert is inactive' });
+			summary.skipped++;
+			continue;
+		}
+
+		const { data: jobRows, error: jobsError } = await supabase
+			.from('jobs')
+			.select(
+				`
+				*,
+				company:companies(*)
+			`
+			)
+			.in('id', delivery.job_ids)
+			.eq('is_active', true)
+			.order('created_at', { ascending: false });
+
+		if (jobsError) {
+			await recordFailure(supabase, delivery, jobsError.message);
+			summary.failed++;
+			continue;
+		}
+
+		// Every job was closed before the digest went out
+		const jobs = ((jobRows ?? []) as JobWithCompany[]).map((row) => normalizeJob(toRawJob(row)));
+		if (jobs.length === 0) {
+			await markDelivery(supabase, delivery.id, { status: 'failed', last_error: 'No active jobs left' });
+			summary.skipped++;
+			continue;
+		}
+
+		const digest = renderAlertDigest({ alert, jobs, baseUrl });
+
+		try {
+			await transport.send({ from, to: { email: alert.email }, ...digest });
+		} catch (err) {
+			const reason = err instanceof Error ? err.message : String(err);
+			console.error(`[Alerts] Failed to send digest ${delivery.id}:`, reason);
+			await recordFailure(supabase, delivery, reason);
+			summary.failed++;
+			continue;
+		}
+
+		const sentAt = new Date().toISOString();
+		await markDelivery(supabase, delivery.id, {
+			status: 'sent',
+			sent_at: sentAt,
+			attempts: delivery.attempts + 1,
+			last_error: null
+		});
+		await supabase.from('job_alerts').update({ last_sent_at: sentAt }).eq('id', alert.id);
+		summary.sent++;
+	}
+
+	return summary;
+}
+
+// MARK: - Queue Updates
+
+async function markDelivery(
+	supabase: SupabaseClient,
+	id: string,
+	changes: Partial<Pick<JobAlertDelivery, 'status' | 'attempts' | 'last_error' | 'sent_at'>>
+): Promise<void> {
+	const { error } = await supabase.from('job_alert_deliveries').update(changes).eq('id', id);
+	if (error) {
+		console.error(`[Alerts] Failed to update delivery ${id}:`, error.message);
+	}
+}
+
+/** Count a failed attempt, giving up after MAX_DELIVERY_ATTEMPTS */
+function recordFailure(supabase: SupabaseClient, delivery: JobAlertDelivery, reason: string): Promise<void> {
+	const attempts = delivery.attempts + 1;
+	return markDelivery(supabase, delivery.id, {
+		status: attempts >= MAX_DELIVERY_ATTEMPTS ? 'failed' : 'pending',
+		attempts,
+		last_error: reason
+	});
+}
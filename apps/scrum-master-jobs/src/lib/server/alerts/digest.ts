@@ -0,0 +1,123 @@
+/**
+ * Job Alert Digest
+ * ================
+ *
+ * Renders the email for one queued digest: a plain-text body, an HTML
+ * alternative, and `List-Unsubscribe` pointing at the alert's
+ * unsubscribe link (which is also in the footer of both bodies).
+ */
+
+import type { Job } from '$lib/types';
+import type { JobAlert } from '$lib/supabase/types';
+import { formatSalary, formatPostedDate } from '$lib/data/jobs';
+import { alertJobsHref, describeAlertFilters, parseAlertFilters } from '$lib/jobs/alerts';
+import { escapeHtml } from '$lib/jobs/seo';
+
+// MARK: - Types
+
+export interface AlertDigestInput {
+	alert: Pick<JobAlert, 'name' | 'filters' | 'frequency' | 'unsubscribe_token'>;
+	jobs: Job[];
+	/** Site origin for absolute links, e.g. "https://jobs.example.com" */
+	baseUrl: string;
+}
+
+export interface AlertDigest {
+	subject: string;
+	text: string;
+	html: string;
+	headers: Record<string, string>;
+}
+
+// MARK: - Links
+
+/**
+ * Absolute unsubscribe link for an alert.
+ */
+export function unsubscribeUrl(baseUrl: string, token: string): string {
+	return `${baseUrl}/jobs/alerts/unsubscribe/${encodeURIComponent(token)}`;
+}
+
+// MARK: - Rendering
+
+/** One-line summary under each job title */
+function jobMeta(job: Job): string {
+	return [
+		job.company.name,
+		`${job.location} (${job.locationType})`,
+		job.salary ? formatSalary(job.salary) : null,
+		formatPostedDate(job.postedAt)
+	]
+		.filter(Boolean)
+		.join(' · ');
+}
+
+/**
+ * Build the digest email for an alert and its matching jobs.
+ */
+export function renderAlertDigest({ alert, jobs, baseUrl }: AlertDigestInput): AlertDigest {
+	const query = parseAlertFilters(alert.filters);
+	const searchUrl = `${baseUrl}${alertJobsHref(query)}`;
+	const manageUrl = `${baseUrl}/jobs/alerts`;
+	const unsubscribe = unsubscribeUrl(baseUrl, alert.unsubscribe_token);
+	const jobUrl = (job: Job) => job.applyUrl || searchUrl;
+
+	const count = `${jobs.length} new job${jobs.length !== 1 ? 's' : ''}`;
+	const subject = `${count} for “${alert.name}”`;
+	const filters = describeAlertFilters(query);
+
+	const text = [
+		`${count} matching your alert “${alert.name}” (${filters}).`,
+		'',
+		...jobs.flatMap((job) => [job.title, `  ${jobMeta(job)}`, `  ${jobUrl(job)}`, '']),
+		`See all matches: ${searchUrl}`,
+		'',
+		'--',
+		`You get this ${alert.frequency} email because you created the alert “${alert.name}”.`,
+		`Manage alerts: ${manageUrl}`,
+		`Unsubscribe: ${unsubscribe}`
+	].join('\n');
+
+	const jobItems = jobs
+		.map(
+			(job) => `
+			<tr>
+				<td style="padding:12px 0;border-bottom:1px solid #e5e7eb;">
+					<a href="${escapeHtml(jobUrl(job))}" style="font-weight:600;color:#111827;text-decoration:none;">${escapeHtml(job.title)}</a>
+					<div style="margin-top:4px;font-size:13px;color:#6b7280;">${escapeHtml(jobMeta(job))}</div>
+				</td>
+			</tr>`
+		)
+		.join('');
+
+	const html = `<!doctype html>
+<html>
+	<body style="margin:0;padding:24px;background:#f9fafb;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;">
+		<table role="presentation" width="100%" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:24px;">
+			<tr>
+				<td>
+					<h1 style="margin:0 0 4px;font-size:20px;color:#111827;">${escapeHtml(count)}</h1>
+					<p style="margin:0 0 16px;font-size:14px;color:#6b7280;">${escapeHtml(alert.name)} · ${escapeHtml(filters)}</p>
+				</td>
+			</tr>${jobItems}
+			<tr>
+				<td style="padding-top:16px;">
+					<a href="${escapeHtml(searchUrl)}" style="font-size:14px;color:#2563eb;">See all matches</a>
+				</td>
+			</tr>
+		</table>
+		<p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#9ca3af;text-align:center;">
+			You get this ${escapeHtml(alert.frequency)} email because you created the alert “${escapeHtml(alert.name)}”.<br />
+			<a href="${escapeHtml(manageUrl)}" style="color:#9ca3af;">Manage alerts</a> ·
+			<a href="${escapeHtml(unsubscribe)}" style="color:#9ca3af;">Unsubscribe</a>
+		</p>
+	</body>
+</html>`;
+
+	return {
+		subject,
+		text,
+		html,
+		headers: { 'List-Unsubscribe': `<${unsubscribe}>` }
+	};
+}
@@ -0,0 +1,56 @@
+/**
+ * Job Alerts Module
+ * =================
+ *
+ * Server side of saved-search alerts: match new jobs, queue digests, and
+ * send them through the configured mail transport.
+ *
+ * Usage (from a scheduled endpoint):
+ * ```typescript
+ * import { runJobAlerts } from '$lib/server/alerts';
+ *
+ * const summary = await runJobAlerts({ baseUrl: url.origin });
+ * ```
+ */
+
+import { createServiceClient } from '$lib/server/supabase';
+import { getMailSender, getMailTransport } from '$lib/server/mail';
+import { queueAlertDigests, type AlertMatchSummary } from './matcher';
+import { sendQueuedDigests, type DeliverySummary } from './delivery';
+
+export { queueAlertDigests, isAlertDue, MAX_JOBS_PER_DIGEST } from './matcher';
+export type { AlertMatchSummary } from './matcher';
+export { sendQueuedDigests, MAX_DELIVERY_ATTEMPTS } from './delivery';
+export type { DeliveryOptions, DeliverySummary } from './delivery';
+export { renderAlertDigest, unsubscribeUrl } from './digest';
+export type { AlertDigest, AlertDigestInput } from './digest';
+
+// MARK: - Scheduled Run
+
+export interface JobAlertRunSummary {
+	matched: AlertMatchSummary;
+	delivered: DeliverySummary;
+}
+
+/**
+ * One scheduler tick: queue digests for due alerts, then drain the queue.
+ * Digests that fail to send stay queued for the next tick.
+ */
+export async function runJobAlerts({
+	baseUrl,
+	now = new Date()
+}: {
+	baseUrl: string;
+	now?: Date;
+}): Promise<JobAlertRunSummary> {
+	const supabase = createServiceClient();
+
+	const matched = await queueAlertDigests(supabase, now);
+	const delivered = await sendQueuedDigests(supabase, {
+		transport: getMailTransport(),
+		from: getMailSender(),
+		baseUrl
+	});
+
+	return { matched, delivered };
+}
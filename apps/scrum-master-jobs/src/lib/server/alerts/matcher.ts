@@ -0,0 +1,166 @@
+/**
+ * Job Alert Matcher
+ * =================
+ *
+ * Finds newly listed `jobs` rows that match each due alert and queues
+ * one digest per alert in `job_alert_deliveries`.
+ *
+ * An alert is due when its frequency interval has passed since it was
+ * last checked (instant alerts are due on every run). A job is listed
+ * when it is created, or, for employer postings that start as drafts,
+ * when an admin approves it (`reviewed_at`). Only jobs listed after the
+ * alert's `last_checked_at` count as new, and the check time advances
+ * even when nothing matched, so no job is ever sent twice. The whole
+ * window is read page by page, so nothing in it is skipped.
+ *
+ * Matching reuses `matchesJobQuery`, so an alert matches exactly what
+ * the same filters show on /jobs (including synonyms and typo tolerance).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Job } from '$lib/types';
+import type { JobAlert, JobWithCompany } from '$lib/supabase/types';
+import { matchesJobQuery } from '$lib/jobs/query';
+import { getRateTable } from '$lib/server/currency';
+import { ALERT_INTERVAL_MS, parseAlertFilters } from '$lib/jobs/alerts';
+import { normalizeJob } from '$lib/server/jobs';
+import { notExpiredFilter, toRawJob } from '$lib/server/jobs/sources/supabase';
+
+// MARK: - Configuration
+
+/** New jobs read per request while scanning the window */
+const SCAN_PAGE_SIZE = 1000;
+
+/** Most jobs listed in one digest */
+export const MAX_JOBS_PER_DIGEST = 25;
+
+// MARK: - Types
+
+export interface AlertMatchSummary {
+	alertsChecked: number;
+	digestsQueued: number;
+	jobsScanned: number;
+}
+
+interface NewJob {
+	job: Job;
+	listedAt: number;
+}
+
+// MARK: - Matcher
+
+/**
+ * Whether an alert should be checked at `now`.
+ */
+export function isAlertDue(alert: Pick<JobAlert, 'frequency' | 'last_checked_at'>, now: Date): boolean {
+	return now.getTime() - Date.parse(alert.last_checked_at) >= ALERT_INTERVAL_MS[alert.frequency];
+}
+
+/**
+ * Match new jobs against every due alert and queue digests.
+ * Requires a service-role client (alerts of all users are read).
+ */
+export async function queueAlertDigests(
+	supabase: SupabaseClient,
+	now: Date = new Date()
+): Promise<AlertMatchSummary> {
+	const { data: alertRows, error: alertsError } = await supabase
+		.from('job_alerts')
+		.select('*')
+		.eq('is_active', true);
+
+	if (alertsError) {
+		throw new Error(alertsError.message);
+	}
+
+	const due = ((alertRows ?? []) as JobAlert[]).filter((alert) => isAlertDue(alert, now));
+	if (due.length === 0) {
+		return { alertsChecked: 0, digestsQueued: 0, jobsScanned: 0 };
+	}
+
+	// One scan covers every due alert: from the oldest check up to `now`.
+	// Jobs listed during this run fall after `now` and are left for the next.
+	const since = new Date(Math.min(...due.map((alert) => Date.parse(alert.last_checked_at))));
+	const newJobs: NewJob[] = (await scanListedJobs(supabase, since, now)).map((row) => ({
+		job: normalizeJob(toRawJob(row)),
+		listedAt: listedAt(row)
+	}));
+
+	const table = getRateTable();
+	let digestsQueued = 0;
+
+	for (const alert of due) {
+		const query = parseAlertFilters(alert.filters);
+		const checkedAt = Date.parse(alert.last_checked_at);
+		const matches = newJobs
+			.filter(({ job, listedAt }) => listedAt > checkedAt && matchesJobQuery(job, query, table))
+			.slice(0, MAX_JOBS_PER_DIGEST);
+
+		if (matches.length > 0) {
+			const { error } = await supabase
+				.from('job_alert_deliveries')
+				.insert({ alert_id: alert.id, job_ids: matches.map(({ job }) => job.id) });
+
+			if (error) {
+				// Leave last_checked_at alone so the next run retries this alert
+				console.error(`[Alerts] Failed to queue digest for alert ${alert.id}:`, error.message);
+				continue;
+			}
+			digestsQueued++;
+		}
+
+		const { error } = await supabase
+			.from('job_alerts')
+			.update({ last_checked_at: now.toISOString() })
+			.eq('id', alert.id);
+
+		if (error) {
+			console.error(`[Alerts] Failed to advance alert ${alert.id}:`, error.message);
+		}
+	}
+
+	return { alertsChecked: due.length, digestsQueued, jobsScanned: newJobs.length };
+}
+
+// MARK: - Helpers
+
+/**
+ * When a job went up on the board: its approval for employer postings,
+ * otherwise its insert time (not posted_at, which imports may backdate).
+ */
+function listedAt(row: Pick<JobWithCompany, 'created_at' | 'reviewed_at'>): number {
+	return Math.max(Date.parse(row.created_at), row.reviewed_at ? Date.parse(row.reviewed_at) : 0);
+}
+
+/**
+ * Every live job created or approved in (since, until], newest first.
+ */
+async function scanListedJobs(supabase: SupabaseClient, since: Date, until: Date): Promise<JobWithCompany[]> {
+	const between = (column: string) => `and(${column}.gt.${since.toISOString()},${column}.lte.${until.toISOString()})`;
+	const rows: JobWithCompany[] = [];
+
+	for (let from = 0; ; from += SCAN_PAGE_SIZE) {
+		const { data, error } = await supabase
+			.from('jobs')
+			.select(
+				`
+				*,
+				company:companies(*)
+			`
+			)
+			.eq('is_active', true)
+			.or(notExpiredFilter(until))
+			.or(`${between('created_at')},${between('reviewed_at')}`)
+			.order('created_at', { ascending: false })
+			.order('id', { ascending: true })
+			.range(from, from + SCAN_PAGE_SIZE - 1);
+
+		if (error) {
+			throw new Error(error.message);
+		}
+
+		const page = (data ?? []) as JobWithCompany[];
+		rows.push(...page);
+		if (page.length < SCAN_PAGE_SIZE) return rows;
+	}
+}
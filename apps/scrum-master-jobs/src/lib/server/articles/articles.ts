@@ -0,0 +1,225 @@
+/**
+ * Community Articles
+ * ==================
+ *
+ * Reads articles from Supabase for the article pages, mapped onto the
+ * same `Article` type as the mock feed in `$lib/data/articles`, so pages
+ * can fall back to the mock data for articles that aren't in the table.
+ * Every query runs with the signed-in user's client, so RLS decides what
+ * is visible: live articles to everyone, drafts and scheduled articles
+ * to their author only (015_article_editor.sql).
+ *
+ * Usage:
+ * ```typescript
+ * import { getArticleByPath } from '$lib/server/articles';
+ *
+ * const found = await getArticleByPath(locals.supabase, params.username, params.slug);
+ * if (found?.status === 'draft') { ... }
+ * ```
+ */
+
+import type { SupabaseClient, PostgrestError } from '@supabase/supabase-js';
+import type { Article, ArticleDraft, ArticleStatus, User } from '$lib/types';
+import type { Article as ArticleRow, Profile } from '$lib/supabase/types';
+import { articleStatus } from '$lib/articles/editor';
+
+// MARK: - Configuration
+
+/** Most published articles loaded into a feed, newest first */
+const MAX_FEED_ARTICLES = 200;
+
+// MARK: - Errors
+
+/**
+ * An article read or write that failed, with the HTTP status to report.
+ */
+export class ArticleError extends Error {
+	constructor(
+		message: string,
+		readonly status: number
+	) {
+		super(message);
+		this.name = 'ArticleError';
+	}
+}
+
+/**
+ * Map a PostgREST error onto an ArticleError.
+ */
+export function toArticleError(error: PostgrestError): ArticleError {
+	switch (error.code) {
+		// foreign_key_violation / invalid_text_representation (bad uuid)
+		case '23503':
+		case '22P02':
+			return new ArticleError('Article not found', 404);
+		// insufficient_privilege: RLS rejected the write
+		case '42501':
+			return new ArticleError('You can only edit your own articles', 403);
+		// check_violation / not_null_violation
+		case '23514':
+		case '23502':
+			return new ArticleError('Some fields have invalid values', 400);
+		default:
+			return new ArticleError(error.message, 500);
+	}
+}
+
+// MARK: - Mapping
+
+/**
+ * The author card data for a profile. Profiles don't store the mock
+ * users' follower counts or work history, so those start empty.
+ */
+export function toArticleAuthor(profile: Profile): User {
+	return {
+		id: profile.id,
+		name: profile.name || profile.username,
+		username: profile.username,
+		avatar: profile.avatar_url ?? '',
+		bio: profile.bio ?? '',
+		location: profile.location ?? '',
+		education: '',
+		work: '',
+		website: profile.website ?? '',
+		github: profile.github ?? '',
+		twitter: profile.twitter ?? '',
+		joinedAt: profile.created_at,
+		followers: 0,
+		following: 0,
+		postsCount: 0
+	};
+}
+
+export function toArticle(row: ArticleRow, author: User): Article {
+	return {
+		id: row.id,
+		title: row.title,
+		slug: row.slug,
+		excerpt: row.excerpt ?? '',
+		content: row.content,
+		coverImage: row.cover_image_url,
+		author,
+		tags: row.tags ?? [],
+		reactions: {
+			hearts: row.hearts_count,
+			unicorns: row.unicorns_count,
+			saves: row.saves_count
+		},
+		commentsCount: row.comments_count,
+		readingTime: row.reading_time,
+		// Drafts have no publication date yet; show them as of their last edit
+		publishedAt: row.published_at ?? row.updated_at,
+		community: row.community
+	};
+}
+
+export function toArticleDraft(row: ArticleRow): ArticleDraft {
+	return {
+		id: row.id,
+		slug: row.slug,
+		status: articleStatus(row),
+		title: row.title,
+		excerpt: row.excerpt ?? '',
+		content: row.content,
+		coverImage: row.cover_image_url,
+		tags: row.tags ?? [],
+		community: row.community,
+		readingTime: row.reading_time,
+		publishedAt: row.published_at,
+		updatedAt: row.updated_at
+	};
+}
+
+// MARK: - Reads
+
+/**
+ * A profile by its username, or null when nobody has it.
+ */
+export async function getProfileByUsername(supabase: SupabaseClient, username: string): Promise<Profile | null> {
+	const { data, error } = await supabase.from('profiles').select('*').eq('username', username).maybeSingle();
+
+	if (error) {
+		throw toArticleError(error);
+	}
+
+	return (data as Profile | null) ?? null;
+}
+
+/**
+ * Author card data for articles by author id. Articles whose author has
+ * no profile can't be linked (no username), so callers leave them out.
+ */
+export async function getArticleAuthors(supabase: SupabaseClient, authorIds: string[]): Promise<Map<string, User>> {
+	if (authorIds.length === 0) return new Map();
+
+	const { data, error } = await supabase.from('profiles').select('*').in('id', [...new Set(authorIds)]);
+
+	if (error) {
+		throw toArticleError(error);
+	}
+
+	return new Map(((data ?? []) as Profile[]).map((profile) => [profile.id, toArticleAuthor(profile)]));
+}
+
+/**
+ * The article at /[username]/[slug], if the viewer may see it.
+ * @returns The article with its status, or null when there is none
+ */
+export async function getArticleByPath(
+	supabase: SupabaseClient,
+	username: string,
+	slug: string
+): Promise<{ article: Article; authorId: string; status: ArticleStatus } | null> {
+	const profile = await getProfileByUsername(supabase, username);
+	if (!profile) return null;
+
+	const { data, error } = await supabase
+		.from('articles')
+		.select('*')
+		.eq('author_id', profile.id)
+		.eq('slug', slug)
+		.maybeSingle();
+
+	if (error) {
+		throw toArticleError(error);
+	}
+	if (!data) return null;
+
+	const row = data as ArticleRow;
+	return {
+		article: toArticle(row, toArticleAuthor(profile)),
+		authorId: row.author_id,
+		status: articleStatus(row)
+	};
+}
+
+/**
+ * Live articles, newest first, optionally only those carrying any of
+ * `tags` (as written). Drafts and scheduled articles are left out even
+ * for their author.
+ */
+export async function getPublishedArticles(
+	supabase: SupabaseClient,
+	options: { tags?: string[] } = {}
+): Promise<Article[]> {
+	let request = supabase
+		.from('articles')
+		.select('*')
+		.eq('is_published', true)
+		.lte('published_at', new Date().toISOString());
+
+	if (options.tags) request = request.overlaps('tags', options.tags);
+
+	const { data, error } = await request.order('published_at', { ascending: false }).limit(MAX_FEED_ARTICLES);
+
+	if (error) {
+		throw toArticleError(error);
+	}
+
+	const rows = (data ?? []) as ArticleRow[];
+	const authors = await getArticleAuthors(supabase, rows.map((row) => row.author_id));
+	return rows.flatMap((row) => {
+		const author = authors.get(row.author_id);
+		return author ? [toArticle(row, author)] : [];
+	});
+}
@@ -0,0 +1,234 @@
+/**
+ * Article Comments
+ * ================
+ *
+ * Reads an article's discussion and writes comments, replies, edits and
+ * deletes. Every query runs with the signed-in user's client, so RLS and
+ * the triggers in 016_article_comments.sql decide what each user can do:
+ * - comments are as visible as their article, and only live articles
+ *   take new ones
+ * - users edit and delete only their own comments; every edit keeps the
+ *   previous version, and deletes are soft and final
+ * - `articles.comments_count` is maintained by `count_article_comments()`
+ *
+ * Usage:
+ * ```typescript
+ * import { addComment, getArticleComments } from '$lib/server/articles';
+ *
+ * await addComment(locals.supabase, locals.user.id, articleId, null, body);
+ * const threads = await getArticleComments(locals.supabase, articleId, authorId);
+ * ```
+ */
+
+import type { SupabaseClient, PostgrestError } from '@supabase/supabase-js';
+import type { ArticleComment } from '$lib/types';
+import type {
+	Comment as CommentRow,
+	CommentInsert,
+	CommentRevision as CommentRevisionRow,
+	CommentUpdate,
+	Profile
+} from '$lib/supabase/types';
+import { UUID_PATTERN } from '$lib/server/jobs/detail';
+import { buildCommentThreads } from '$lib/articles/comments';
+import { ArticleError } from './articles';
+
+// MARK: - Configuration
+
+/** Most comments loaded under an article */
+const MAX_ARTICLE_COMMENTS = 1000;
+
+// MARK: - Errors
+
+/**
+ * Map a PostgREST error from a comment write onto an ArticleError.
+ */
+function toCommentError(error: PostgrestError): ArticleError {
+	switch (error.code) {
+		// foreign_key_violation: the article or the comment replied to is gone
+		// invalid_text_representation: bad uuid
+		case '23503':
+		case '22P02':
+			return new ArticleError('That comment or article no longer exists', 404);
+		// insufficient_privilege: RLS or the update guard rejected the write
+		case '42501':
+			return new ArticleError('This comment can’t be changed', 403);
+		// check_violation: empty or too long
+		case '23514':
+			return new ArticleError('Comments must be 1 to 10,000 characters', 400);
+		default:
+			return new ArticleError(error.message, 500);
+	}
+}
+
+// MARK: - Reads
+
+/**
+ * An article's comments as reply threads, with each comment's earlier
+ * versions. Comments by `articleAuthorId` are flagged for highlighting.
+ */
+export async function getArticleComments(
+	supabase: SupabaseClient,
+	articleId: string,
+	articleAuthorId: string
+): Promise<ArticleComment[]> {
+	if (!UUID_PATTERN.test(articleId)) return [];
+
+	const { data, error } = await supabase
+		.from('comments')
+		.select('*')
+		.eq('article_id', articleId)
+		.order('created_at', { ascending: true })
+		.limit(MAX_ARTICLE_COMMENTS);
+
+	if (error) {
+		throw toCommentError(error);
+	}
+
+	const rows = (data ?? []) as CommentRow[];
+	const [authors, revisions] = await Promise.all([
+		getCommentAuthors(supabase, [...new Set(rows.map((row) => row.author_id))]),
+		getCommentRevisions(
+			supabase,
+			rows.filter((row) => row.edited_at && !row.is_deleted).map((row) => row.id)
+		)
+	]);
+
+	return buildCommentThreads(
+		rows.map((row) => ({
+			id: row.id,
+			parentId: row.parent_id,
+			author: authors.get(row.author_id) ?? { id: row.author_id, name: 'Deleted user', username: '', avatar: '' },
+			body: row.is_deleted ? '' : row.body,
+			createdAt: row.created_at,
+			editedAt: row.edited_at,
+			deleted: row.is_deleted,
+			byArticleAuthor: row.author_id === articleAuthorId,
+			revisions: revisions.get(row.id) ?? [],
+			replies: []
+		}))
+	);
+}
+
+/**
+ * Names and avatars of comment authors by id. Profiles are public, so a
+ * failure here only costs the names and is logged.
+ */
+async function getCommentAuthors(
+	supabase: SupabaseClient,
+	ids: string[]
+): Promise<Map<string, ArticleComment['author']>> {
+	if (ids.length === 0) return new Map();
+
+	const { data, error } = await supabase.from('profiles').select('id, username, name, avatar_url').in('id', ids);
+	if (error) {
+		console.error('[Articles] Failed to load comment authors:', error.message);
+		return new Map();
+	}
+
+	return new Map(
+		((data ?? []) as Pick<Profile, 'id' | 'username' | 'name' | 'avatar_url'>[]).map((profile) => [
+			profile.id,
+			{
+				id: profile.id,
+				name: profile.name || profile.username,
+				username: profile.username,
+				avatar: profile.avatar_url ?? ''
+			}
+		])
+	);
+}
+
+/**
+ * Earlier versions of edited comments, oldest first. The history is
+ * extra, so a failure here is logged and the comments show without it.
+ */
+async function getCommentRevisions(
+	supabase: SupabaseClient,
+	commentIds: string[]
+): Promise<Map<string, ArticleComment['revisions']>> {
+	if (commentIds.length === 0) return new Map();
+
+	const { data, error } = await supabase
+		.from('comment_revisions')
+		.select('comment_id, body, created_at')
+		.in('comment_id', commentIds)
+		.order('created_at', { ascending: true });
+
+	if (error) {
+		console.error('[Articles] Failed to load comment history:', error.message);
+		return new Map();
+	}
+
+	const revisions = new Map<string, ArticleComment['revisions']>();
+	for (const row of (data ?? []) as Pick<CommentRevisionRow, 'comment_id' | 'body' | 'created_at'>[]) {
+		const list = revisions.get(row.comment_id) ?? [];
+		list.push({ body: row.body, replacedAt: row.created_at });
+		revisions.set(row.comment_id, list);
+	}
+	return revisions;
+}
+
+// MARK: - Writes
+
+/**
+ * Comment on a live article, or reply to one of its comments.
+ * @throws ArticleError 403 when the article isn't live, 404 when the
+ * comment replied to is gone
+ */
+export async function addComment(
+	supabase: SupabaseClient,
+	userId: string,
+	articleId: string,
+	parentId: string | null,
+	body: string
+): Promise<void> {
+	if (!UUID_PATTERN.test(articleId) || (parentId !== null && !UUID_PATTERN.test(parentId))) {
+		throw new ArticleError('That comment or article no longer exists', 404);
+	}
+
+	const row: CommentInsert = { article_id: articleId, parent_id: parentId, author_id: userId, body };
+	const { error } = await supabase.from('comments').insert(row);
+
+	if (error) {
+		throw toCommentError(error);
+	}
+}
+
+/**
+ * Change the body of one of the user's comments; the previous body goes
+ * to its history.
+ * @throws ArticleError 404 when it isn't the user's comment or is deleted
+ */
+export async function editComment(supabase: SupabaseClient, userId: string, id: string, body: string): Promise<void> {
+	await updateOwnComment(supabase, userId, id, { body });
+}
+
+/**
+ * Soft-delete one of the user's comments.
+ * @throws ArticleError 404 when it isn't the user's comment or is already deleted
+ */
+export async function deleteComment(supabase: SupabaseClient, userId: string, id: string): Promise<void> {
+	await updateOwnComment(supabase, userId, id, { is_deleted: true });
+}
+
+async function updateOwnComment(supabase: SupabaseClient, userId: string, id: string, update: CommentUpdate) {
+	if (!UUID_PATTERN.test(id)) {
+		throw new ArticleError('Comment not found', 404);
+	}
+
+	const { data, error } = await supabase
+		.from('comments')
+		.update(update)
+		.eq('id', id)
+		.eq('author_id', userId)
+		.eq('is_deleted', false)
+		.select('id');
+
+	if (error) {
+		throw toCommentError(error);
+	}
+	if (!data || data.length === 0) {
+		throw new ArticleError('Comment not found', 404);
+	}
+}
@@ -0,0 +1,257 @@
+/**
+ * Article Editor Writes
+ * =====================
+ *
+ * Creates, saves, autosaves and deletes articles from the editor at /new
+ * and /[username]/[slug]/edit. Every write is scoped to the signed-in
+ * author and runs with their client, so RLS only lets authors touch their
+ * own articles. The server derives what the editor doesn't send:
+ * - `reading_time`, recomputed from the body on every save
+ * - the slug, from the title, until the article goes live
+ * - an excerpt from the body when the author didn't write one
+ * The `stamp_article_publication()` trigger (015_article_editor.sql)
+ * keeps the publication date consistent with the published flag.
+ *
+ * Usage:
+ * ```typescript
+ * import { autosaveArticle, saveArticle } from '$lib/server/articles';
+ *
+ * const draft = await autosaveArticle(locals.supabase, locals.user.id, id, article);
+ * const saved = await saveArticle(locals.supabase, locals.user.id, id, article, 'publish');
+ * ```
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ArticleDraft } from '$lib/types';
+import type { Article as ArticleRow, ArticleInsert } from '$lib/supabase/types';
+import { UUID_PATTERN } from '$lib/server/jobs/detail';
+import {
+	articleSlug,
+	excerptFrom,
+	readingTime,
+	type ArticleSaveMode,
+	type ValidArticle
+} from '$lib/articles/editor';
+import { ArticleError, toArticleDraft, toArticleError } from './articles';
+
+// MARK: - Configuration
+
+/** Most articles listed beside the editor */
+const MAX_AUTHOR_ARTICLES = 50;
+
+// MARK: - Mapping
+
+/** Columns written by every save */
+type ArticleColumns = Pick<
+	ArticleInsert,
+	| 'title'
+	| 'excerpt'
+	| 'content'
+	| 'cover_image_url'
+	| 'tags'
+	| 'community'
+	| 'reading_time'
+	| 'is_published'
+	| 'published_at'
+> &
+	Partial<Pick<ArticleInsert, 'slug'>>;
+
+/**
+ * The row for a save. A live article keeps its slug and publication
+ * date; the trigger enforces the same.
+ */
+function toArticleColumns(article: ValidArticle, mode: ArticleSaveMode, existing: ArticleDraft | null): ArticleColumns {
+	const live = existing?.status === 'published';
+	const publishing = mode === 'publish';
+
+	let publishedAt: string | null = null;
+	if (publishing) {
+		publishedAt = live ? (existing?.publishedAt ?? null) : (article.publishAt ?? new Date().toISOString());
+	}
+
+	return {
+		title: article.title || 'Untitled',
+		...(live ? {} : { slug: articleSlug(article.title) }),
+		excerpt: article.excerpt || excerptFrom(article.content) || null,
+		content: article.content,
+		cover_image_url: article.coverImage,
+		tags: article.tags,
+		community: article.community,
+		reading_time: readingTime(article.content),
+		is_published: publishing,
+		published_at: publishedAt
+	};
+}
+
+// MARK: - Reads
+
+/**
+ * The signed-in user's username, for building article addresses.
+ */
+export async function getAuthorUsername(supabase: SupabaseClient, authorId: string): Promise<string | null> {
+	const { data, error } = await supabase.from('profiles').select('username').eq('id', authorId).maybeSingle();
+
+	if (error) {
+		throw toArticleError(error);
+	}
+
+	return (data as { username: string } | null)?.username ?? null;
+}
+
+/**
+ * One of the author's articles by id, or null when it isn't theirs.
+ */
+export async function getAuthorArticle(
+	supabase: SupabaseClient,
+	authorId: string,
+	id: string
+): Promise<ArticleDraft | null> {
+	if (!UUID_PATTERN.test(id)) return null;
+
+	const { data, error } = await supabase
+		.from('articles')
+		.select('*')
+		.eq('id', id)
+		.eq('author_id', authorId)
+		.maybeSingle();
+
+	if (error) {
+		throw toArticleError(error);
+	}
+
+	return data ? toArticleDraft(data as ArticleRow) : null;
+}
+
+/**
+ * One of the author's articles by slug, or null when it isn't theirs.
+ */
+export async function getAuthorArticleBySlug(
+	supabase: SupabaseClient,
+	authorId: string,
+	slug: string
+): Promise<ArticleDraft | null> {
+	const { data, error } = await supabase
+		.from('articles')
+		.select('*')
+		.eq('author_id', authorId)
+		.eq('slug', slug)
+		.maybeSingle();
+
+	if (error) {
+		throw toArticleError(error);
+	}
+
+	return data ? toArticleDraft(data as ArticleRow) : null;
+}
+
+/**
+ * The author's articles in every state, most recently edited first.
+ */
+export async function getAuthorArticles(supabase: SupabaseClient, authorId: string): Promise<ArticleDraft[]> {
+	const { data, error } = await supabase
+		.from('articles')
+		.select('*')
+		.eq('author_id', authorId)
+		.order('updated_at', { ascending: false })
+		.limit(MAX_AUTHOR_ARTICLES);
+
+	if (error) {
+		throw toArticleError(error);
+	}
+
+	return ((data ?? []) as ArticleRow[]).map(toArticleDraft);
+}
+
+// MARK: - Writes
+
+/**
+ * Write a save over `existing`, or insert a new article when it is null.
+ */
+async function writeArticle(
+	supabase: SupabaseClient,
+	authorId: string,
+	existing: ArticleDraft | null,
+	article: ValidArticle,
+	mode: ArticleSaveMode
+): Promise<ArticleDraft> {
+	const columns = toArticleColumns(article, mode, existing);
+	const query = existing
+		? supabase.from('articles').update(columns).eq('id', existing.id).eq('author_id', authorId)
+		: supabase.from('articles').insert({ ...columns, slug: columns.slug ?? 'untitled', author_id: authorId });
+
+	const { data, error } = await query.select('*').single();
+
+	if (error) {
+		throw toArticleError(error);
+	}
+
+	return toArticleDraft(data as ArticleRow);
+}
+
+/**
+ * Create an article, or save changes to one of the author's articles.
+ * Saving as a draft unpublishes a published or scheduled article.
+ * @throws ArticleError 404 when `id` isn't one of the author's articles
+ */
+export async function saveArticle(
+	supabase: SupabaseClient,
+	authorId: string,
+	id: string | null,
+	article: ValidArticle,
+	mode: ArticleSaveMode
+): Promise<ArticleDraft> {
+	const existing = id ? await getAuthorArticle(supabase, authorId, id) : null;
+	if (id && !existing) {
+		throw new ArticleError('Article not found', 404);
+	}
+
+	return writeArticle(supabase, authorId, existing, article, mode);
+}
+
+/**
+ * Autosave a draft from the editor, creating it when `id` is null.
+ * Published and scheduled articles are only saved on purpose, so half
+ * finished edits never reach readers.
+ * @throws ArticleError 409 when the article isn't a draft
+ */
+export async function autosaveArticle(
+	supabase: SupabaseClient,
+	authorId: string,
+	id: string | null,
+	article: ValidArticle
+): Promise<ArticleDraft> {
+	const existing = id ? await getAuthorArticle(supabase, authorId, id) : null;
+	if (id && !existing) {
+		throw new ArticleError('Article not found', 404);
+	}
+	if (existing && existing.status !== 'draft') {
+		throw new ArticleError('Published and scheduled articles are saved with Update', 409);
+	}
+
+	return writeArticle(supabase, authorId, existing, article, 'draft');
+}
+
+/**
+ * Delete one of the author's drafts.
+ * @throws ArticleError 404 when it isn't one of the author's drafts
+ */
+export async function deleteArticleDraft(supabase: SupabaseClient, authorId: string, id: string): Promise<void> {
+	if (!UUID_PATTERN.test(id)) {
+		throw new ArticleError('Article not found', 404);
+	}
+
+	const { data, error } = await supabase
+		.from('articles')
+		.delete()
+		.eq('id', id)
+		.eq('author_id', authorId)
+		.eq('is_published', false)
+		.select('id');
+
+	if (error) {
+		throw toArticleError(error);
+	}
+	if (!data || data.length === 0) {
+		throw new ArticleError('Article not found', 404);
+	}
+}
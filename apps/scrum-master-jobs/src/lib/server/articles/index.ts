@@ -0,0 +1,39 @@
+/**
+ * Articles Module
+ * ===============
+ *
+ * Re-exports the community article reads, the editor's writes, the
+ * comment threads, the readers' reactions and reading lists, and tags
+ * from a single entry point.
+ *
+ * Usage:
+ * ```typescript
+ * import { getArticleByPath, saveArticle } from '$lib/server/articles';
+ *
+ * const found = await getArticleByPath(locals.supabase, params.username, params.slug);
+ * ```
+ */
+
+export {
+	ArticleError,
+	getArticleAuthors,
+	getArticleByPath,
+	getProfileByUsername,
+	getPublishedArticles,
+	toArticle,
+	toArticleAuthor,
+	toArticleDraft
+} from './articles';
+export {
+	getAuthorUsername,
+	getAuthorArticle,
+	getAuthorArticleBySlug,
+	getAuthorArticles,
+	saveArticle,
+	autosaveArticle,
+	deleteArticleDraft
+} from './editor';
+export { getArticleComments, addComment, editComment, deleteComment } from './comments';
+export { isReactionType, getUserReactions, addReaction, removeReaction } from './reactions';
+export { getReadingList, setSaveArchived } from './readinglist';
+export { getTagArticles, getTagCounts, getFollowedTags, followTag, unfollowTag } from './tags';
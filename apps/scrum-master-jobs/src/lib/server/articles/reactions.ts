@@ -0,0 +1,130 @@
+/**
+ * Article Reactions
+ * =================
+ *
+ * Reads and writes the signed-in user's hearts, unicorns and saves in the
+ * `reactions` table. RLS scopes every query to `auth.uid()` and only lets
+ * live articles take new reactions; the article's counts are kept by
+ * `count_article_reactions()` (017_article_reactions.sql).
+ *
+ * Both writes are idempotent: reacting twice or removing a missing
+ * reaction changes nothing, so retries can't skew the counts.
+ *
+ * Usage:
+ * ```typescript
+ * import { addReaction, getUserReactions } from '$lib/server/articles';
+ *
+ * await addReaction(locals.supabase, locals.user.id, articleId, 'heart');
+ * const mine = await getUserReactions(locals.supabase, locals.user.id, articleId);
+ * ```
+ */
+
+import type { SupabaseClient, PostgrestError } from '@supabase/supabase-js';
+import type { ReactionType } from '$lib/types';
+import type { Reaction, ReactionInsert } from '$lib/supabase/types';
+import { UUID_PATTERN } from '$lib/server/jobs/detail';
+import { REACTION_TYPES } from '$lib/articles/reactions';
+import { ArticleError } from './articles';
+
+// MARK: - Errors
+
+/**
+ * Map a PostgREST error from a reaction write onto an ArticleError.
+ */
+function toReactionError(error: PostgrestError): ArticleError {
+	switch (error.code) {
+		// foreign_key_violation: the article is gone
+		// invalid_text_representation: bad uuid
+		case '23503':
+		case '22P02':
+			return new ArticleError('Article not found', 404);
+		// insufficient_privilege: RLS rejected it, the article isn't live
+		case '42501':
+			return new ArticleError('This article can’t take reactions yet', 403);
+		default:
+			return new ArticleError(error.message, 500);
+	}
+}
+
+/**
+ * Whether a route parameter names a reaction type.
+ */
+export function isReactionType(value: string): value is ReactionType {
+	return (REACTION_TYPES as string[]).includes(value);
+}
+
+// MARK: - Reads
+
+/**
+ * The reactions the user has made on an article.
+ */
+export async function getUserReactions(
+	supabase: SupabaseClient,
+	userId: string,
+	articleId: string
+): Promise<ReactionType[]> {
+	if (!UUID_PATTERN.test(articleId)) return [];
+
+	const { data, error } = await supabase
+		.from('reactions')
+		.select('type')
+		.eq('user_id', userId)
+		.eq('article_id', articleId);
+
+	if (error) {
+		throw toReactionError(error);
+	}
+
+	return ((data ?? []) as Pick<Reaction, 'type'>[]).map((row) => row.type);
+}
+
+// MARK: - Writes
+
+/**
+ * React to a live article. Reacting again is a no-op.
+ * @throws ArticleError 404 for unknown articles, 403 when it isn't live
+ */
+export async function addReaction(
+	supabase: SupabaseClient,
+	userId: string,
+	articleId: string,
+	type: ReactionType
+): Promise<void> {
+	if (!UUID_PATTERN.test(articleId)) {
+		throw new ArticleError('Article not found', 404);
+	}
+
+	const reaction: ReactionInsert = { user_id: userId, article_id: articleId, type };
+	const { error } = await supabase
+		.from('reactions')
+		.upsert(reaction, { onConflict: 'user_id,article_id,type', ignoreDuplicates: true });
+
+	if (error) {
+		throw toReactionError(error);
+	}
+}
+
+/**
+ * Take back a reaction. Removing a missing reaction is a no-op.
+ */
+export async function removeReaction(
+	supabase: SupabaseClient,
+	userId: string,
+	articleId: string,
+	type: ReactionType
+): Promise<void> {
+	if (!UUID_PATTERN.test(articleId)) {
+		throw new ArticleError('Article not found', 404);
+	}
+
+	const { error } = await supabase
+		.from('reactions')
+		.delete()
+		.eq('user_id', userId)
+		.eq('article_id', articleId)
+		.eq('type', type);
+
+	if (error) {
+		throw toReactionError(error);
+	}
+}
@@ -0,0 +1,98 @@
+/**
+ * Reading List
+ * ============
+ *
+ * Reads the signed-in user's saved articles (their `save` reactions) and
+ * archives or unarchives them. RLS scopes every query to `auth.uid()`;
+ * saves of articles that have since been unpublished are hidden by the
+ * articles policies and skipped.
+ *
+ * Usage:
+ * ```typescript
+ * import { getReadingList, setSaveArchived } from '$lib/server/articles';
+ *
+ * const items = await getReadingList(locals.supabase, locals.user.id);
+ * await setSaveArchived(locals.supabase, locals.user.id, articleId, true);
+ * ```
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ReadingListItem } from '$lib/types';
+import type { Article as ArticleRow, Reaction, ReactionUpdate } from '$lib/supabase/types';
+import { UUID_PATTERN } from '$lib/server/jobs/detail';
+import { ArticleError, getArticleAuthors, toArticle, toArticleError } from './articles';
+
+// MARK: - Configuration
+
+/** Most saves loaded onto the reading list, newest first */
+const MAX_READING_LIST = 500;
+
+// MARK: - Types
+
+/** A save with its article, as selected below */
+type SaveRow = Pick<Reaction, 'created_at' | 'archived_at'> & { article: ArticleRow | null };
+
+// MARK: - Reads
+
+/**
+ * The user's saved articles, newest save first, archived ones included.
+ * Article bodies come along so the list can be searched.
+ */
+export async function getReadingList(supabase: SupabaseClient, userId: string): Promise<ReadingListItem[]> {
+	const { data, error } = await supabase
+		.from('reactions')
+		.select('created_at, archived_at, article:articles(*)')
+		.eq('user_id', userId)
+		.eq('type', 'save')
+		.order('created_at', { ascending: false })
+		.limit(MAX_READING_LIST)
+		.overrideTypes<SaveRow[], { merge: false }>();
+
+	if (error) {
+		throw toArticleError(error);
+	}
+
+	const saved = (data ?? []).flatMap((row) => (row.article ? [{ ...row, article: row.article }] : []));
+	if (saved.length === 0) return [];
+
+	const authors = await getArticleAuthors(supabase, saved.map((row) => row.article.author_id));
+	return saved.flatMap((row) => {
+		const author = authors.get(row.article.author_id);
+		return author
+			? [{ article: toArticle(row.article, author), savedAt: row.created_at, archivedAt: row.archived_at }]
+			: [];
+	});
+}
+
+// MARK: - Writes
+
+/**
+ * Archive a saved article once read, or bring it back to the list.
+ * @throws ArticleError 404 when the article isn't saved
+ */
+export async function setSaveArchived(
+	supabase: SupabaseClient,
+	userId: string,
+	articleId: string,
+	archived: boolean
+): Promise<void> {
+	if (!UUID_PATTERN.test(articleId)) {
+		throw new ArticleError('Article is not on your reading list', 404);
+	}
+
+	const update: ReactionUpdate = { archived_at: archived ? new Date().toISOString() : null };
+	const { data, error } = await supabase
+		.from('reactions')
+		.update(update)
+		.eq('user_id', userId)
+		.eq('article_id', articleId)
+		.eq('type', 'save')
+		.select('id');
+
+	if (error) {
+		throw toArticleError(error);
+	}
+	if (!data || data.length === 0) {
+		throw new ArticleError('Article is not on your reading list', 404);
+	}
+}
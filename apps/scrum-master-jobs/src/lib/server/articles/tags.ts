@@ -0,0 +1,99 @@
+/**
+ * Article Tags
+ * ============
+ *
+ * Published articles by tag, article counts for the tag directory, and
+ * the signed-in user's followed tags (`tag_follows`, 019_tags.sql). Tags
+ * go in and come out by their canonical name (see `$lib/articles/tags`);
+ * articles that still carry an alias are found under every name.
+ *
+ * Usage:
+ * ```typescript
+ * import { followTag, getTagArticles } from '$lib/server/articles';
+ *
+ * const articles = await getTagArticles(locals.supabase, 'javascript');
+ * await followTag(locals.supabase, locals.user.id, 'javascript');
+ * ```
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Article } from '$lib/types';
+import type { ArticleTagCountRow, TagFollow, TagFollowInsert } from '$lib/supabase/types';
+import { TAG_ALIASES, TAG_PATTERN, canonicalTag, tagAliases } from '$lib/articles/tags';
+import { ArticleError, getPublishedArticles, toArticleError } from './articles';
+
+// MARK: - Reads
+
+/**
+ * Live articles carrying the tag under any of its names, newest first.
+ */
+export async function getTagArticles(supabase: SupabaseClient, tag: string): Promise<Article[]> {
+	const canonical = canonicalTag(tag);
+	return getPublishedArticles(supabase, { tags: [canonical, ...tagAliases(canonical)] });
+}
+
+/**
+ * Live articles per canonical tag; an article carrying both `js` and
+ * `javascript` counts once.
+ */
+export async function getTagCounts(supabase: SupabaseClient): Promise<Map<string, number>> {
+	const { data, error } = await supabase.rpc('article_tag_counts', { p_aliases: TAG_ALIASES });
+
+	if (error) {
+		throw toArticleError(error);
+	}
+
+	return new Map(((data ?? []) as ArticleTagCountRow[]).map((row) => [row.tag, Number(row.articles)]));
+}
+
+/**
+ * The tags the user follows, by canonical name.
+ */
+export async function getFollowedTags(supabase: SupabaseClient, userId: string): Promise<string[]> {
+	const { data, error } = await supabase
+		.from('tag_follows')
+		.select('tag')
+		.eq('user_id', userId)
+		.order('tag', { ascending: true });
+
+	if (error) {
+		throw toArticleError(error);
+	}
+
+	return ((data ?? []) as Pick<TagFollow, 'tag'>[]).map((row) => row.tag);
+}
+
+// MARK: - Writes
+
+/**
+ * Follow a tag (stored by its canonical name). Following again is a no-op.
+ * @throws ArticleError 400 for names that aren't valid tags
+ */
+export async function followTag(supabase: SupabaseClient, userId: string, tag: string): Promise<void> {
+	const canonical = canonicalTag(tag);
+	if (!TAG_PATTERN.test(canonical)) {
+		throw new ArticleError('That isn’t a valid tag', 400);
+	}
+
+	const follow: TagFollowInsert = { user_id: userId, tag: canonical };
+	const { error } = await supabase.from('tag_follows').upsert(follow, { onConflict: 'user_id,tag', ignoreDuplicates: true });
+
+	if (error) {
+		throw toArticleError(error);
+	}
+}
+
+/**
+ * Stop following a tag. Unfollowing a tag that isn't followed is a no-op.
+ */
+export async function unfollowTag(supabase: SupabaseClient, userId: string, tag: string): Promise<void> {
+	const { error } = await supabase
+		.from('tag_follows')
+		.delete()
+		.eq('user_id', userId)
+		.eq('tag', canonicalTag(tag));
+
+	if (error) {
+		throw toArticleError(error);
+	}
+}
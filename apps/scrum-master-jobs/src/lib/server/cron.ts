@@ -0,0 +1,25 @@
+/**
+ * Scheduled Endpoints
+ * ===================
+ *
+ * Shared auth for endpoints that a scheduler calls (Vercel Cron or any
+ * scheduler that can send a bearer token).
+ *
+ * Usage:
+ * ```typescript
+ * import { isCronAuthorized } from '$lib/server/cron';
+ *
+ * if (!isCronAuthorized(request, env.CRON_SECRET)) error(401, 'Unauthorized');
+ * ```
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+
+/**
+ * Constant-time check of the bearer token against CRON_SECRET.
+ */
+export function isCronAuthorized(request: Request, secret: string): boolean {
+	const expected = Buffer.from(`Bearer ${secret}`);
+	const actual = Buffer.from(request.headers.get('authorization') ?? '');
+	return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
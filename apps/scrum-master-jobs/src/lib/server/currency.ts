@@ -0,0 +1,21 @@
+/**
+ * Currency Configuration
+ * ======================
+ *
+ * The server's rate table: the defaults from `$lib/jobs/currency` with
+ * any overrides from the environment.
+ *
+ * - CURRENCY_RATES        "CODE=rate,..." per 1 USD (e.g. "EUR=0.91,MXN=17.2")
+ * - CURRENCY_RATES_AS_OF  ISO date the overrides were taken (shown in the UI)
+ */
+
+import { env } from '$env/dynamic/private';
+import { parseRateTable, type RateTable } from '$lib/jobs/currency';
+
+/**
+ * Resolve the active rate table.
+ */
+export function getRateTable(): RateTable {
+	const table = parseRateTable(env.CURRENCY_RATES);
+	return env.CURRENCY_RATES_AS_OF ? { ...table, asOf: env.CURRENCY_RATES_AS_OF } : table;
+}
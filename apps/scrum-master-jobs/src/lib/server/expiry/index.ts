@@ -0,0 +1,64 @@
+/**
+ * Job Expiry Module
+ * =================
+ *
+ * Server side of listing expiry: close expired and stale listings, close
+ * listings whose apply link stopped working, and remind posters before
+ * their listing closes.
+ *
+ * Usage (from a scheduled endpoint):
+ * ```typescript
+ * import { runJobExpiry } from '$lib/server/expiry';
+ *
+ * const summary = await runJobExpiry({ baseUrl: url.origin, fetcher: fetch });
+ * ```
+ */
+
+import { createServiceClient } from '$lib/server/supabase';
+import { getMailSender, getMailTransport } from '$lib/server/mail';
+import { reapJobs, type ReaperSummary } from './reaper';
+import { checkApplyLinks, type LinkCheckSummary, type LinkFetcher } from './links';
+import { sendExpiryNotices, type NoticeSummary } from './notices';
+
+export { reapJobs, closeExpiredJobs, closeStaleJobs, STALE_AFTER_DAYS } from './reaper';
+export type { ReaperSummary } from './reaper';
+export { checkApplyLinks, checkApplyUrl, isCheckableUrl, MAX_LINK_FAILURES } from './links';
+export type { LinkCheckOptions, LinkCheckResult, LinkCheckSummary, LinkFetcher } from './links';
+export { sendExpiryNotices, renderExpiryNotice, NOTICE_DAYS } from './notices';
+export type { ExpiryNotice, ExpiryNoticeInput, NoticeOptions, NoticeSummary } from './notices';
+
+// MARK: - Scheduled Run
+
+export interface JobExpiryRunSummary {
+	closed: ReaperSummary;
+	links: LinkCheckSummary;
+	notices: NoticeSummary;
+}
+
+/**
+ * One scheduler tick: close expired and stale listings, check a batch of
+ * apply links, then remind posters of listings closing soon.
+ */
+export async function runJobExpiry({
+	baseUrl,
+	fetcher,
+	now = new Date()
+}: {
+	baseUrl: string;
+	/** HTTP client for apply link checks */
+	fetcher: LinkFetcher;
+	now?: Date;
+}): Promise<JobExpiryRunSummary> {
+	const supabase = createServiceClient();
+
+	const closed = await reapJobs(supabase, now);
+	const links = await checkApplyLinks(supabase, { fetcher, now });
+	const notices = await sendExpiryNotices(supabase, {
+		transport: getMailTransport(),
+		from: getMailSender(),
+		baseUrl,
+		now
+	});
+
+	return { closed, links, notices };
+}
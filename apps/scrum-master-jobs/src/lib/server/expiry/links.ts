@@ -0,0 +1,217 @@
+/**
+ * Apply Link Checker
+ * ==================
+ *
+ * Checks that the `apply_url` of live listings still answers, and closes
+ * a listing as `unreachable` after MAX_LINK_FAILURES failed checks in a
+ * row (one check per CHECK_INTERVAL_HOURS, so a short outage doesn't
+ * take a job down).
+ *
+ * The HTTP client is injected, so the scheduled endpoint can pass its own
+ * `fetch` and scripts can check links without network access.
+ *
+ * Security:
+ * - Only http(s) URLs on public hostnames are requested; localhost,
+ *   private-range IP literals and internal names are skipped
+ * - Redirects are not followed (a redirect counts as reachable), so a
+ *   listing can't bounce the checker onto an internal address
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Job, JobUpdate } from '$lib/supabase/types';
+
+// MARK: - Configuration
+
+/** Consecutive failed checks before a listing is closed */
+export const MAX_LINK_FAILURES = 3;
+
+/** Minimum time between two checks of the same listing */
+const CHECK_INTERVAL_HOURS = 24;
+
+/** Links checked per run, to stay inside serverless time limits */
+const DEFAULT_BATCH_SIZE = 40;
+
+/** Links requested at the same time */
+const CONCURRENCY = 5;
+
+const REQUEST_TIMEOUT_MS = 8000;
+
+/** Responses that mean the site is up but turned the checker away */
+const BLOCKED_STATUSES = new Set([401, 403, 429]);
+
+/** Responses to HEAD that mean "ask again with GET" */
+const HEAD_UNSUPPORTED_STATUSES = new Set([405, 501]);
+
+// MARK: - Types
+
+/** An HTTP client with the signature of the global `fetch` */
+export type LinkFetcher = typeof fetch;
+
+export interface LinkCheckResult {
+	reachable: boolean;
+	/** HTTP status, or null when the request failed or was skipped */
+	status: number | null;
+}
+
+export interface LinkCheckOptions {
+	fetcher: LinkFetcher;
+	now?: Date;
+	batchSize?: number;
+}
+
+export interface LinkCheckSummary {
+	checked: number;
+	failed: number;
+	/** Listings closed as unreachable */
+	closed: number;
+	/** Apply URLs that aren't public http(s) links */
+	skipped: number;
+}
+
+type LinkCheckJob = Pick<Job, 'id' | 'apply_url' | 'apply_url_failures'>;
+
+// MARK: - URL Guard
+
+/** Loopback, private, link-local and carrier-grade NAT ranges */
+const PRIVATE_IPV4 = [
+	/^0\./,
+	/^10\./,
+	/^127\./,
+	/^169\.254\./,
+	/^172\.(1[6-9]|2\d|3[01])\./,
+	/^192\.168\./,
+	/^100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\./
+];
+
+/**
+ * Whether a URL is safe to request from the server: http(s) on a
+ * public-looking host.
+ */
+export function isCheckableUrl(value: string): boolean {
+	let url: URL;
+	try {
+		url = new URL(value);
+	} catch {
+		return false;
+	}
+
+	if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+
+	const host = url.hostname.toLowerCase();
+	if (!host.includes('.') || host.startsWith('[')) return false;
+	if (/\.(localhost|local|internal|lan|home)$/.test(host)) return false;
+	if (/^\d+\.\d+\.\d+\.\d+$/.test(host) && PRIVATE_IPV4.some((range) => range.test(host))) return false;
+
+	return true;
+}
+
+// MARK: - Checking
+
+async function request(fetcher: LinkFetcher, url: string, method: 'HEAD' | 'GET'): Promise<Response> {
+	const response = await fetcher(url, {
+		method,
+		redirect: 'manual',
+		signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+		headers: { 'User-Agent': 'JobBoardLinkChecker/1.0' }
+	});
+	// Only the status matters; don't download the page
+	await response.body?.cancel().catch(() => {});
+	return response;
+}
+
+/**
+ * Check one apply link: HEAD first, GET when the server doesn't allow
+ * HEAD. Success, redirects and bot walls count as reachable.
+ */
+export async function checkApplyUrl(url: string, fetcher: LinkFetcher): Promise<LinkCheckResult> {
+	try {
+		let response = await request(fetcher, url, 'HEAD');
+		if (HEAD_UNSUPPORTED_STATUSES.has(response.status)) {
+			response = await request(fetcher, url, 'GET');
+		}
+
+		const reachable =
+			response.type === 'opaqueredirect' || response.status < 400 || BLOCKED_STATUSES.has(response.status);
+		return { reachable, status: response.status };
+	} catch {
+		return { reachable: false, status: null };
+	}
+}
+
+/**
+ * Record a check on the listing, closing it once it failed
+ * MAX_LINK_FAILURES times in a row.
+ * @returns Whether the listing was closed
+ */
+async function recordCheck(
+	supabase: SupabaseClient,
+	job: LinkCheckJob,
+	result: LinkCheckResult,
+	now: Date
+): Promise<boolean> {
+	const failures = result.reachable ? 0 : job.apply_url_failures + 1;
+	const close = failures >= MAX_LINK_FAILURES;
+
+	const changes: JobUpdate = {
+		apply_url_checked_at: now.toISOString(),
+		apply_url_failures: failures,
+		...(close ? { is_active: false, closed_reason: 'unreachable' as const } : {})
+	};
+
+	const { error } = await supabase.from('jobs').update(changes).eq('id', job.id);
+	if (error) {
+		console.error(`[Expiry] Failed to record link check for job ${job.id}:`, error.message);
+		return false;
+	}
+	return close;
+}
+
+/**
+ * Check the apply links of live, non-Easy Apply listings that are due,
+ * least recently checked first.
+ * Requires a service-role client.
+ */
+export async function checkApplyLinks(
+	supabase: SupabaseClient,
+	{ fetcher, now = new Date(), batchSize = DEFAULT_BATCH_SIZE }: LinkCheckOptions
+): Promise<LinkCheckSummary> {
+	const dueBefore = new Date(now.getTime() - CHECK_INTERVAL_HOURS * 60 * 60 * 1000);
+
+	const { data, error } = await supabase
+		.from('jobs')
+		.select('id, apply_url, apply_url_failures')
+		.eq('is_active', true)
+		.eq('is_easy_apply', false)
+		.not('apply_url', 'is', null)
+		.or(`apply_url_checked_at.is.null,apply_url_checked_at.lt.${dueBefore.toISOString()}`)
+		.order('apply_url_checked_at', { ascending: true, nullsFirst: true })
+		.limit(batchSize);
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	const summary: LinkCheckSummary = { checked: 0, failed: 0, closed: 0, skipped: 0 };
+	const jobs = (data ?? []) as LinkCheckJob[];
+
+	for (let start = 0; start < jobs.length; start += CONCURRENCY) {
+		await Promise.all(
+			jobs.slice(start, start + CONCURRENCY).map(async (job) => {
+				const url = job.apply_url ?? '';
+				if (!isCheckableUrl(url)) {
+					// Stamp it anyway so the batch moves on to other listings
+					await supabase.from('jobs').update({ apply_url_checked_at: now.toISOString() }).eq('id', job.id);
+					summary.skipped++;
+					return;
+				}
+
+				const result = await checkApplyUrl(url, fetcher);
+				summary.checked++;
+				if (!result.reachable) summary.failed++;
+				if (await recordCheck(supabase, job, result, now)) summary.closed++;
+			})
+		);
+	}
+
+	return summary;
+}
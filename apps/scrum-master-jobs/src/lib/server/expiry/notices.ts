@@ -0,0 +1,160 @@
+/**
+ * Closing Reminders
+ * =================
+ *
+ * Emails the employer who wrote a posting NOTICE_DAYS before it closes,
+ * once per closing date. `expiry_notified_at` records the reminder; the
+ * lifecycle trigger (008_job_expiry.sql) clears it when the posting gets
+ * a new closing date, so a reposted job is reminded again.
+ *
+ * Imported jobs have no `created_by` and get no reminder.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Job } from '$lib/types';
+import type { JobWithCompany } from '$lib/supabase/types';
+import { escapeHtml } from '$lib/jobs/seo';
+import type { MailAddress, MailTransport } from '$lib/server/mail';
+import { normalizeJob } from '$lib/server/jobs';
+import { toRawJob } from '$lib/server/jobs/sources/supabase';
+import { closingLabel } from '$lib/jobs/expiry';
+import { jobPath } from '$lib/jobs/seo';
+
+// MARK: - Configuration
+
+/** Days before the closing date that the reminder goes out */
+export const NOTICE_DAYS = 3;
+
+/** Reminders sent per run, to stay inside serverless time limits */
+const DEFAULT_BATCH_SIZE = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// MARK: - Types
+
+export interface NoticeOptions {
+	transport: MailTransport;
+	from: MailAddress;
+	/** Site origin for links in the email */
+	baseUrl: string;
+	now?: Date;
+	batchSize?: number;
+}
+
+export interface NoticeSummary {
+	sent: number;
+	failed: number;
+	/** Posters without an email address */
+	skipped: number;
+}
+
+export interface ExpiryNoticeInput {
+	job: Job;
+	/** Site origin for absolute links, e.g. "https://jobs.example.com" */
+	baseUrl: string;
+	now?: Date;
+}
+
+export interface ExpiryNotice {
+	subject: string;
+	text: string;
+	html: string;
+}
+
+// MARK: - Rendering
+
+/**
+ * Build the reminder email for a posting that closes soon.
+ */
+export function renderExpiryNotice({ job, baseUrl, now = new Date() }: ExpiryNoticeInput): ExpiryNotice {
+	const closes = job.expiresAt ? closingLabel(job.expiresAt, now) : 'Closes soon';
+	const jobUrl = `${baseUrl}${jobPath(job)}`;
+	const postingsUrl = `${baseUrl}/jobs/postings`;
+	const closingDate = job.expiresAt
+		? new Date(job.expiresAt).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
+		: '';
+
+	const subject = `Your listing “${job.title}” ${closes.toLowerCase()}`;
+	const summary = `Your ${job.company.name} listing “${job.title}” ${closes.toLowerCase()}${closingDate ? ` (${closingDate})` : ''}.`;
+	const next = 'Once it closes you can repost it from Your Postings. It goes live again after review.';
+
+	const text = [summary, '', `View the listing: ${jobUrl}`, '', next, `Your postings: ${postingsUrl}`].join('\n');
+
+	const html = `<!doctype html>
+<html>
+	<body style="margin:0;padding:24px;background:#f9fafb;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;">
+		<table role="presentation" width="100%" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:24px;">
+			<tr>
+				<td>
+					<h1 style="margin:0 0 12px;font-size:20px;color:#111827;">${escapeHtml(closes)}</h1>
+					<p style="margin:0 0 16px;font-size:14px;color:#374151;">${escapeHtml(summary)}</p>
+					<p style="margin:0 0 16px;font-size:14px;color:#6b7280;">${escapeHtml(next)}</p>
+					<a href="${escapeHtml(jobUrl)}" style="font-size:14px;color:#2563eb;">View the listing</a> ·
+					<a href="${escapeHtml(postingsUrl)}" style="font-size:14px;color:#2563eb;">Your postings</a>
+				</td>
+			</tr>
+		</table>
+	</body>
+</html>`;
+
+	return { subject, text, html };
+}
+
+// MARK: - Delivery
+
+/**
+ * Email the posters of listings that close within NOTICE_DAYS and
+ * haven't been reminded yet. Failed sends are retried on the next run.
+ * Requires a service-role client (posters' emails come from auth.users).
+ */
+export async function sendExpiryNotices(
+	supabase: SupabaseClient,
+	{ transport, from, baseUrl, now = new Date(), batchSize = DEFAULT_BATCH_SIZE }: NoticeOptions
+): Promise<NoticeSummary> {
+	const { data, error } = await supabase
+		.from('jobs')
+		.select('*, company:companies(*)')
+		.eq('is_active', true)
+		.not('created_by', 'is', null)
+		.is('expiry_notified_at', null)
+		.gt('expires_at', now.toISOString())
+		.lte('expires_at', new Date(now.getTime() + NOTICE_DAYS * DAY_MS).toISOString())
+		.order('expires_at', { ascending: true })
+		.limit(batchSize);
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	const summary: NoticeSummary = { sent: 0, failed: 0, skipped: 0 };
+
+	for (const row of (data ?? []) as JobWithCompany[]) {
+		const { data: poster } = await supabase.auth.admin.getUserById(row.created_by as string);
+		const email = poster?.user?.email;
+
+		if (email) {
+			const notice = renderExpiryNotice({ job: normalizeJob(toRawJob(row)), baseUrl, now });
+			try {
+				await transport.send({ from, to: { email }, ...notice });
+			} catch (err) {
+				const reason = err instanceof Error ? err.message : String(err);
+				console.error(`[Expiry] Failed to send closing reminder for job ${row.id}:`, reason);
+				summary.failed++;
+				continue;
+			}
+			summary.sent++;
+		} else {
+			summary.skipped++;
+		}
+
+		const { error: markError } = await supabase
+			.from('jobs')
+			.update({ expiry_notified_at: now.toISOString() })
+			.eq('id', row.id);
+		if (markError) {
+			console.error(`[Expiry] Failed to mark job ${row.id} as reminded:`, markError.message);
+		}
+	}
+
+	return summary;
+}
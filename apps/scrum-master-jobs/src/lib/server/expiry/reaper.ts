@@ -0,0 +1,86 @@
+/**
+ * Job Reaper
+ * ==========
+ *
+ * Takes listings off the board once they are past their closing date, or
+ * when they have no closing date and nobody refreshed them for
+ * STALE_AFTER_DAYS. Closing only flips `is_active` and records the
+ * reason; the lifecycle trigger (008_job_expiry.sql) stamps `closed_at`.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { JobCloseReason, JobUpdate } from '$lib/supabase/types';
+
+// MARK: - Configuration
+
+/** Days without a refresh before a listing with no closing date is closed */
+export const STALE_AFTER_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// MARK: - Types
+
+export interface ReaperSummary {
+	expired: number;
+	stale: number;
+}
+
+// MARK: - Reaping
+
+function closeJobs(reason: JobCloseReason): JobUpdate {
+	return { is_active: false, closed_reason: reason };
+}
+
+/**
+ * Close live jobs whose `expires_at` has passed.
+ * Requires a service-role client.
+ * @returns How many jobs were closed
+ */
+export async function closeExpiredJobs(supabase: SupabaseClient, now: Date = new Date()): Promise<number> {
+	const { data, error } = await supabase
+		.from('jobs')
+		.update(closeJobs('expired'))
+		.eq('is_active', true)
+		.lte('expires_at', now.toISOString())
+		.select('id');
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	return data?.length ?? 0;
+}
+
+/**
+ * Close live jobs without a closing date that weren't refreshed for
+ * STALE_AFTER_DAYS.
+ * Requires a service-role client.
+ * @returns How many jobs were closed
+ */
+export async function closeStaleJobs(supabase: SupabaseClient, now: Date = new Date()): Promise<number> {
+	const cutoff = new Date(now.getTime() - STALE_AFTER_DAYS * DAY_MS);
+
+	const { data, error } = await supabase
+		.from('jobs')
+		.update(closeJobs('stale'))
+		.eq('is_active', true)
+		.is('expires_at', null)
+		.lt('refreshed_at', cutoff.toISOString())
+		.select('id');
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	return data?.length ?? 0;
+}
+
+/**
+ * Close every expired and stale listing.
+ */
+export async function reapJobs(supabase: SupabaseClient, now: Date = new Date()): Promise<ReaperSummary> {
+	return {
+		expired: await closeExpiredJobs(supabase, now),
+		stale: await closeStaleJobs(supabase, now)
+	};
+}
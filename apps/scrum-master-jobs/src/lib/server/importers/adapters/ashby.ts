@@ -0,0 +1,87 @@
+/**
+ * Ashby Feed Adapter
+ * ==================
+ *
+ * Reads a company's public Ashby job board
+ * (`api.ashbyhq.com/posting-api/job-board/<board>?includeCompensation=true`).
+ * Unlisted jobs are skipped. Only yearly and hourly salary components
+ * are imported.
+ */
+
+import type { FeedAdapter, ImportedJob } from '../types';
+
+// MARK: - Ashby API Types
+
+interface AshbyCompensationComponent {
+	compensationType: string;
+	interval: string;
+	currencyCode?: string | null;
+	minValue?: number | null;
+	maxValue?: number | null;
+}
+
+interface AshbyJob {
+	id: string;
+	title: string;
+	location?: string;
+	employmentType?: string;
+	workplaceType?: string | null;
+	isRemote?: boolean;
+	isListed?: boolean;
+	descriptionHtml?: string;
+	publishedAt: string;
+	jobUrl: string;
+	applyUrl?: string;
+	compensation?: {
+		summaryComponents?: AshbyCompensationComponent[];
+	} | null;
+}
+
+interface AshbyResponse {
+	jobs: AshbyJob[];
+}
+
+// MARK: - Mapping
+
+function toImportedJob(job: AshbyJob): ImportedJob {
+	const salary = job.compensation?.summaryComponents?.find(
+		(component) =>
+			component.compensationType === 'Salary' && (component.interval === '1 YEAR' || component.interval === '1 HOUR')
+	);
+
+	return {
+		externalId: job.id,
+		title: job.title,
+		description: job.descriptionHtml,
+		location: job.location,
+		locationType: job.workplaceType,
+		isRemote: job.isRemote,
+		employmentType: job.employmentType,
+		salaryMin: salary?.minValue,
+		salaryMax: salary?.maxValue,
+		salaryCurrency: salary?.currencyCode,
+		salaryPeriod: salary?.interval,
+		sourceUrl: job.jobUrl,
+		applyUrl: job.applyUrl,
+		postedAt: job.publishedAt
+	};
+}
+
+// MARK: - Adapter
+
+export const ashbyAdapter: FeedAdapter = {
+	id: 'ashby',
+	label: 'Ashby',
+
+	feedUrl(feed) {
+		return `https://api.ashbyhq.com/posting-api/job-board/${encodeURIComponent(feed.board ?? '')}?includeCompensation=true`;
+	},
+
+	parse(body) {
+		const payload = JSON.parse(body) as Partial<AshbyResponse>;
+		if (!Array.isArray(payload.jobs)) {
+			throw new Error('Ashby response has no jobs array');
+		}
+		return payload.jobs.filter((job) => job.isListed !== false).map(toImportedJob);
+	}
+};
@@ -0,0 +1,76 @@
+/**
+ * Greenhouse Feed Adapter
+ * =======================
+ *
+ * Reads a company's public Greenhouse job board
+ * (`boards-api.greenhouse.io/v1/boards/<board>/jobs?content=true`).
+ * Greenhouse sends the description as escaped HTML and has no
+ * structured employment type, salary or workplace fields, so those are
+ * inferred from metadata and text during normalization.
+ */
+
+import type { FeedAdapter, ImportedJob } from '../types';
+
+// MARK: - Greenhouse API Types
+
+interface GreenhouseMetadata {
+	name: string;
+	value: string | string[] | null;
+}
+
+interface GreenhouseJob {
+	id: number;
+	title: string;
+	updated_at: string;
+	first_published?: string;
+	absolute_url: string;
+	location?: { name: string } | null;
+	content?: string;
+	metadata?: GreenhouseMetadata[] | null;
+}
+
+interface GreenhouseResponse {
+	jobs: GreenhouseJob[];
+}
+
+// MARK: - Mapping
+
+/** A custom field whose name matches, e.g. "Employment Type" */
+function metadataValue(job: GreenhouseJob, pattern: RegExp): string | null {
+	const field = job.metadata?.find((entry) => pattern.test(entry.name));
+	if (!field?.value) return null;
+	return Array.isArray(field.value) ? field.value.join(', ') : field.value;
+}
+
+function toImportedJob(job: GreenhouseJob): ImportedJob {
+	return {
+		externalId: String(job.id),
+		title: job.title,
+		description: job.content,
+		location: job.location?.name,
+		locationType: metadataValue(job, /workplace|remote/i),
+		employmentType: metadataValue(job, /employment|job type/i),
+		experienceLevel: metadataValue(job, /level|seniority/i),
+		sourceUrl: job.absolute_url,
+		postedAt: job.first_published ?? job.updated_at
+	};
+}
+
+// MARK: - Adapter
+
+export const greenhouseAdapter: FeedAdapter = {
+	id: 'greenhouse',
+	label: 'Greenhouse',
+
+	feedUrl(feed) {
+		return `https://boards-api.greenhouse.io/v1/boards/${encodeURIComponent(feed.board ?? '')}/jobs?content=true`;
+	},
+
+	parse(body) {
+		const payload = JSON.parse(body) as Partial<GreenhouseResponse>;
+		if (!Array.isArray(payload.jobs)) {
+			throw new Error('Greenhouse response has no jobs array');
+		}
+		return payload.jobs.map(toImportedJob);
+	}
+};
@@ -0,0 +1,123 @@
+/**
+ * Generic JSON Feed Adapter
+ * =========================
+ *
+ * Reads job feeds that aren't tied to one ATS: a bare array of jobs, an
+ * object with a `jobs`, `items` or `data` array, or a JSON Feed
+ * (jsonfeed.org). Each field is looked up under the names such feeds
+ * commonly use, in snake_case or camelCase (`apply_url` / `applyUrl` /
+ * `url`, `posted_at` / `date_published`, …).
+ *
+ * Items may name their own company (`company` as a string or object);
+ * otherwise the feed's configured company is used.
+ */
+
+import type { FeedAdapter, ImportCompany, ImportedJob } from '../types';
+
+// MARK: - Field Lookup
+
+type FeedItem = Record<string, unknown>;
+
+/** The first of `keys` that holds a non-empty string or a number, as a string */
+function text(item: FeedItem, ...keys: string[]): string | null {
+	for (const key of keys) {
+		const value = item[key];
+		if (typeof value === 'string' && value.trim()) return value.trim();
+		if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+	}
+	return null;
+}
+
+/** The first of `keys` that holds a number (or a numeric string) */
+function number(item: FeedItem, ...keys: string[]): number | null {
+	for (const key of keys) {
+		const value = typeof item[key] === 'string' ? Number((item[key] as string).replace(/[^\d.]/g, '')) : item[key];
+		if (typeof value === 'number' && Number.isFinite(value) && value > 0) return value;
+	}
+	return null;
+}
+
+function strings(item: FeedItem, ...keys: string[]): string[] | null {
+	for (const key of keys) {
+		const value = item[key];
+		if (Array.isArray(value)) return value.filter((entry): entry is string => typeof entry === 'string');
+	}
+	return null;
+}
+
+function record(value: unknown): FeedItem | null {
+	return value && typeof value === 'object' && !Array.isArray(value) ? (value as FeedItem) : null;
+}
+
+// MARK: - Mapping
+
+function toCompany(value: unknown): ImportCompany | null {
+	if (typeof value === 'string' && value.trim()) return { name: value.trim() };
+
+	const company = record(value);
+	const name = company && text(company, 'name', 'title');
+	if (!company || !name) return null;
+	return {
+		name,
+		website: text(company, 'website', 'url', 'homepage'),
+		logoUrl: text(company, 'logo', 'logo_url', 'logoUrl', 'image')
+	};
+}
+
+function toImportedJob(item: FeedItem): ImportedJob | null {
+	const title = text(item, 'title', 'name', 'position');
+	const url = text(item, 'url', 'link', 'source_url', 'sourceUrl');
+	const applyUrl = text(item, 'apply_url', 'applyUrl', 'application_url', 'external_url');
+	const externalId = text(item, 'id', 'guid', 'slug') ?? url ?? applyUrl;
+	if (!title || !externalId) return null;
+
+	const salary = record(item.salary) ?? {};
+	const remote = item.remote ?? item.is_remote ?? item.isRemote;
+
+	return {
+		externalId,
+		title,
+		description: text(item, 'description', 'content_html', 'content', 'content_text', 'summary'),
+		requirements: strings(item, 'requirements', 'qualifications'),
+		benefits: strings(item, 'benefits', 'perks'),
+		skills: strings(item, 'skills', 'tags'),
+		location: text(item, 'location', 'city', 'candidate_required_location'),
+		locationType: text(item, 'location_type', 'locationType', 'workplace_type', 'workplaceType'),
+		isRemote: typeof remote === 'boolean' ? remote : null,
+		employmentType: text(item, 'employment_type', 'employmentType', 'job_type', 'jobType', 'type'),
+		experienceLevel: text(item, 'experience_level', 'experienceLevel', 'seniority', 'level'),
+		salaryMin: number(item, 'salary_min', 'salaryMin') ?? number(salary, 'min', 'minValue'),
+		salaryMax: number(item, 'salary_max', 'salaryMax') ?? number(salary, 'max', 'maxValue'),
+		salaryCurrency: text(item, 'salary_currency', 'salaryCurrency', 'currency') ?? text(salary, 'currency'),
+		salaryPeriod: text(item, 'salary_period', 'salaryPeriod') ?? text(salary, 'period', 'interval', 'unit'),
+		sourceUrl: url,
+		applyUrl,
+		postedAt: text(item, 'posted_at', 'postedAt', 'date_published', 'published_at', 'publication_date', 'date'),
+		expiresAt: text(item, 'expires_at', 'expiresAt', 'valid_through', 'validThrough'),
+		company: toCompany(item.company ?? item.company_name ?? item.companyName ?? item.hiringOrganization)
+	};
+}
+
+// MARK: - Adapter
+
+export const jsonFeedAdapter: FeedAdapter = {
+	id: 'json',
+	label: 'JSON feed',
+
+	feedUrl(feed) {
+		return feed.url ?? '';
+	},
+
+	parse(body) {
+		const payload = JSON.parse(body) as unknown;
+		const wrapper = record(payload);
+		const items = Array.isArray(payload) ? payload : (wrapper?.jobs ?? wrapper?.items ?? wrapper?.data);
+		if (!Array.isArray(items)) {
+			throw new Error('JSON feed has no list of jobs');
+		}
+		return items.flatMap((item) => {
+			const job = record(item) && toImportedJob(item as FeedItem);
+			return job ? [job] : [];
+		});
+	}
+};
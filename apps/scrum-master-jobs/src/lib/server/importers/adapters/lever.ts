@@ -0,0 +1,107 @@
+/**
+ * Lever Feed Adapter
+ * ==================
+ *
+ * Reads a company's public Lever postings
+ * (`api.lever.co/v0/postings/<site>?mode=json`). Lever splits a posting
+ * into an intro and titled lists; lists titled like "Requirements" or
+ * "Benefits" become those fields, the rest stays in the description.
+ * Only yearly and hourly salary ranges are imported.
+ */
+
+import type { FeedAdapter, ImportedJob } from '../types';
+
+// MARK: - Lever API Types
+
+interface LeverList {
+	text: string;
+	/** `<li>` items as HTML */
+	content: string;
+}
+
+interface LeverPosting {
+	id: string;
+	text: string;
+	createdAt: number;
+	hostedUrl: string;
+	applyUrl?: string;
+	workplaceType?: 'remote' | 'hybrid' | 'onsite' | 'unspecified';
+	categories?: {
+		commitment?: string;
+		location?: string;
+		team?: string;
+		level?: string;
+	};
+	description?: string;
+	lists?: LeverList[];
+	additional?: string;
+	salaryRange?: {
+		min: number;
+		max: number;
+		currency: string;
+		interval: string;
+	};
+}
+
+// MARK: - Mapping
+
+const REQUIREMENT_LIST = /requirement|qualification|you have|what you.?ll bring|about you/i;
+const BENEFIT_LIST = /benefit|perk|we offer/i;
+
+/** The `<li>` items of a list, as HTML */
+function listItems(list: LeverList): string[] {
+	return [...list.content.matchAll(/<li[^>]*>([\s\S]*?)<\/li>/gi)].map((match) => match[1]);
+}
+
+function toImportedJob(posting: LeverPosting): ImportedJob {
+	const lists = posting.lists ?? [];
+	const requirements = lists.filter((list) => REQUIREMENT_LIST.test(list.text));
+	const benefits = lists.filter((list) => BENEFIT_LIST.test(list.text));
+	const other = lists.filter((list) => !requirements.includes(list) && !benefits.includes(list));
+	const salary =
+		posting.salaryRange?.interval === 'per-year-salary' || posting.salaryRange?.interval === 'per-hour-wage'
+			? posting.salaryRange
+			: null;
+
+	return {
+		externalId: posting.id,
+		title: posting.text,
+		description: [
+			posting.description ?? '',
+			...other.map((list) => `<h3>${list.text}</h3><ul>${list.content}</ul>`),
+			posting.additional ?? ''
+		].join('\n'),
+		requirements: requirements.flatMap(listItems),
+		benefits: benefits.flatMap(listItems),
+		location: posting.categories?.location,
+		locationType: posting.workplaceType === 'unspecified' ? null : posting.workplaceType,
+		employmentType: posting.categories?.commitment,
+		experienceLevel: posting.categories?.level,
+		salaryMin: salary?.min,
+		salaryMax: salary?.max,
+		salaryCurrency: salary?.currency,
+		salaryPeriod: salary?.interval,
+		sourceUrl: posting.hostedUrl,
+		applyUrl: posting.applyUrl,
+		postedAt: new Date(posting.createdAt).toISOString()
+	};
+}
+
+// MARK: - Adapter
+
+export const leverAdapter: FeedAdapter = {
+	id: 'lever',
+	label: 'Lever',
+
+	feedUrl(feed) {
+		return `https://api.lever.co/v0/postings/${encodeURIComponent(feed.board ?? '')}?mode=json`;
+	},
+
+	parse(body) {
+		const payload = JSON.parse(body) as unknown;
+		if (!Array.isArray(payload)) {
+			throw new Error('Lever response is not a list of postings');
+		}
+		return (payload as LeverPosting[]).map(toImportedJob);
+	}
+};
@@ -0,0 +1,114 @@
+/**
+ * RSS Feed Adapter
+ * ================
+ *
+ * Reads job boards that publish RSS 2.0 (or Atom) feeds. Besides the
+ * standard item fields, it picks up the extension elements job feeds
+ * tend to add, with or without a namespace prefix: `company`,
+ * `location` / `region`, `type` / `job_type`, `salary_min`, `salary_max`, `salary_period`,
+ * `skills` / `category`.
+ *
+ * Feeds that fold the company into the title ("Acme: Backend Engineer")
+ * are split when the item names no company of its own.
+ *
+ * The parser is deliberately small: it reads elements by name with
+ * regular expressions, which is enough for flat feed items and avoids
+ * an XML dependency.
+ */
+
+import { decodeEntities } from '../normalize';
+import type { FeedAdapter, ImportedJob } from '../types';
+
+// MARK: - XML
+
+function elementPattern(tag: string, flags = 'i'): RegExp {
+	return new RegExp(`<(?:[\\w-]+:)?${tag}\\b[^>]*>([\\s\\S]*?)<\\/(?:[\\w-]+:)?${tag}>`, flags);
+}
+
+/** Character data of an element, CDATA unwrapped and entities decoded */
+function unwrap(inner: string): string {
+	const cdata = inner.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+	return (cdata ? cdata[1] : decodeEntities(inner)).trim();
+}
+
+/** Text of the first of `tags` present in `xml` */
+function field(xml: string, ...tags: string[]): string | null {
+	for (const tag of tags) {
+		const match = xml.match(elementPattern(tag));
+		if (match && unwrap(match[1])) return unwrap(match[1]);
+	}
+	return null;
+}
+
+/** Text of every `tag` element in `xml` */
+function fields(xml: string, tag: string): string[] {
+	return [...xml.matchAll(elementPattern(tag, 'gi'))].map((match) => unwrap(match[1])).filter(Boolean);
+}
+
+/** Atom links are attributes: <link rel="alternate" href="…"/> */
+function atomLink(xml: string): string | null {
+	const match = xml.match(/<link\b[^>]*\bhref="([^"]+)"[^>]*\/?>/i);
+	return match ? decodeEntities(match[1]) : null;
+}
+
+// MARK: - Mapping
+
+function toImportedJob(item: string, hasFeedCompany: boolean): ImportedJob | null {
+	let title = field(item, 'title');
+	const url = field(item, 'link') ?? atomLink(item);
+	const externalId = field(item, 'guid', 'id') ?? url;
+	if (!title || !externalId) return null;
+
+	let company = field(item, 'company', 'company_name', 'author_name');
+	if (!company && !hasFeedCompany) {
+		const split = title.match(/^([^:|]{2,60})\s*[:|]\s+(.+)$/);
+		if (split) {
+			company = split[1].trim();
+			title = split[2].trim();
+		}
+	}
+
+	const skills = fields(item, 'skills').flatMap((value) => value.split(/\s*,\s*/));
+
+	return {
+		externalId,
+		title,
+		description: field(item, 'encoded', 'description', 'content', 'summary'),
+		skills: skills.length > 0 ? skills : fields(item, 'category'),
+		location: field(item, 'location', 'region', 'country'),
+		locationType: field(item, 'location_type', 'workplace_type', 'remote'),
+		employmentType: field(item, 'job_type', 'employment_type', 'type'),
+		experienceLevel: field(item, 'experience_level', 'seniority', 'level'),
+		salaryMin: Number(field(item, 'salary_min')) || null,
+		salaryMax: Number(field(item, 'salary_max')) || null,
+		salaryCurrency: field(item, 'salary_currency', 'currency'),
+		salaryPeriod: field(item, 'salary_period'),
+		sourceUrl: url,
+		applyUrl: field(item, 'apply_url', 'application_url'),
+		postedAt: field(item, 'pubDate', 'published', 'updated', 'date'),
+		expiresAt: field(item, 'expires', 'valid_through', 'expiration_date'),
+		company: company ? { name: company } : null
+	};
+}
+
+// MARK: - Adapter
+
+export const rssFeedAdapter: FeedAdapter = {
+	id: 'rss',
+	label: 'RSS feed',
+
+	feedUrl(feed) {
+		return feed.url ?? '';
+	},
+
+	parse(body, feed) {
+		if (!/<(rss|feed|rdf:RDF)\b/i.test(body)) {
+			throw new Error('Response is not an RSS or Atom feed');
+		}
+		const items = [...body.matchAll(/<(item|entry)\b[^>]*>([\s\S]*?)<\/\1>/gi)].map((match) => match[2]);
+		return items.flatMap((item) => {
+			const job = toImportedJob(item, !!feed.company);
+			return job ? [job] : [];
+		});
+	}
+};
@@ -0,0 +1,72 @@
+/**
+ * Recorded Feed Fixtures
+ * ======================
+ *
+ * One recorded response per adapter, for running imports offline. The
+ * fixture fetcher answers each fixture feed's URL with the recorded body
+ * (and 404 for anything else), so the full import path (fetch, parse,
+ * normalize, write) runs without network access.
+ *
+ * Usage:
+ * ```typescript
+ * import { FIXTURE_FEEDS, fixtureFetcher } from '$lib/server/importers/fixtures';
+ *
+ * // No client: a dry run
+ * await importFeeds(null, FIXTURE_FEEDS, { fetcher: fixtureFetcher });
+ * ```
+ */
+
+import type { ImportFeed } from '../types';
+import { getFeedAdapter } from '../registry';
+
+// MARK: - Fixtures
+
+const bodies = import.meta.glob<string>('./*.{json,rss}', { query: '?raw', import: 'default', eager: true });
+
+/** Each fixture feed and the file holding its recorded response */
+const FIXTURES: { feed: ImportFeed; file: string; contentType: string }[] = [
+	{
+		feed: { adapter: 'greenhouse', board: 'northwind', company: { name: 'Northwind', website: 'https://northwind.example' } },
+		file: './greenhouse.json',
+		contentType: 'application/json'
+	},
+	{
+		feed: { adapter: 'lever', board: 'lumen', company: { name: 'Lumen', website: 'https://lumen.example' } },
+		file: './lever.json',
+		contentType: 'application/json'
+	},
+	{
+		feed: { adapter: 'ashby', board: 'quill', company: { name: 'Quill', website: 'https://quill.example' } },
+		file: './ashby.json',
+		contentType: 'application/json'
+	},
+	{
+		feed: { adapter: 'json', url: 'https://remotedevjobs.example/feed.json' },
+		file: './jobs.json',
+		contentType: 'application/feed+json'
+	},
+	{
+		feed: { adapter: 'rss', url: 'https://agilejobs.example/jobs.rss' },
+		file: './jobs.rss',
+		contentType: 'application/rss+xml'
+	}
+];
+
+/** Feeds that have a recorded response */
+export const FIXTURE_FEEDS: ImportFeed[] = FIXTURES.map((fixture) => fixture.feed);
+
+// MARK: - Fetcher
+
+/**
+ * A `fetch` that serves the recorded responses.
+ */
+export const fixtureFetcher: typeof fetch = async (input) => {
+	const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+	const fixture = FIXTURES.find((entry) => getFeedAdapter(entry.feed.adapter)?.feedUrl(entry.feed) === url);
+	const body = fixture ? bodies[fixture.file] : undefined;
+	if (!fixture || body === undefined) {
+		return new Response('Not found', { status: 404 });
+	}
+
+	return new Response(body, { status: 200, headers: { 'Content-Type': fixture.contentType } });
+};
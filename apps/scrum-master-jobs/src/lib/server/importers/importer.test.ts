@@ -0,0 +1,239 @@
+import { describe, expect, it } from 'vitest';
+import { createClient, type WebSocketLikeConstructor } from '@supabase/supabase-js';
+import type { FeedAdapterId, ImportFeed } from './types';
+import { FIXTURE_FEEDS, fixtureFetcher } from './fixtures';
+import { fetchFeed, importFeed, importFeeds } from './importer';
+import { contentHash } from './normalize';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+function fixtureFeed(adapter: FeedAdapterId): ImportFeed {
+	const feed = FIXTURE_FEEDS.find((entry) => entry.adapter === adapter);
+	if (!feed) throw new Error(`No fixture feed for ${adapter}`);
+	return feed;
+}
+
+// MARK: - Fake Database
+
+type Row = Record<string, unknown>;
+
+/** Whether a row passes one PostgREST filter ("eq.true", "in.(a,b)", "is.null") */
+function matches(row: Row, column: string, filter: string): boolean {
+	const [operator, ...rest] = filter.split('.');
+	const value = rest.join('.');
+	const cell = row[column] ?? null;
+
+	switch (operator) {
+		case 'eq':
+			return cell !== null && String(cell) === value;
+		case 'neq':
+			return cell !== null && String(cell) !== value;
+		case 'is':
+			return value === 'null' ? cell === null : String(cell) === value;
+		case 'in':
+			return cell !== null && value.slice(1, -1).split(',').includes(String(cell));
+		default:
+			throw new Error(`Unsupported filter ${filter}`);
+	}
+}
+
+/** Whether a row passes an `or` filter ("(source.is.null,source.neq.lever)") */
+function matchesAny(row: Row, filters: string): boolean {
+	return filters
+		.slice(1, -1)
+		.split(',')
+		.some((condition) => {
+			const [column, ...filter] = condition.split('.');
+			return matches(row, column, filter.join('.'));
+		});
+}
+
+/** Stands in for the WebSocket supabase-js wants on Node 20; the importer never subscribes */
+class NoWebSocket {
+	constructor() {
+		throw new Error('Realtime is not available in tests');
+	}
+}
+
+/**
+ * A Supabase client over in-memory tables. Requests go through a stand-in
+ * for PostgREST that knows the filters, inserts and updates the importer
+ * uses, so the real query builder is exercised.
+ */
+function fakeSupabase(tables: Record<string, Row[]>) {
+	let nextId = 1;
+
+	const fetcher: typeof fetch = async (input, init) => {
+		const url = new URL(input instanceof Request ? input.url : String(input));
+		const rows = (tables[url.pathname.replace('/rest/v1/', '')] ??= []);
+		const filters = [...url.searchParams].filter(([key]) => !['select', 'limit', 'columns'].includes(key));
+		const selected = rows.filter((row) =>
+			filters.every(([key, filter]) => (key === 'or' ? matchesAny(row, filter) : matches(row, key, filter)))
+		);
+
+		switch (init?.method) {
+			case 'POST': {
+				const created = [JSON.parse(String(init.body))].flat().map((row: Row) => ({ id: `row-${nextId++}`, ...row }));
+				rows.push(...created);
+				return Response.json(created, { status: 201 });
+			}
+			case 'PATCH':
+				for (const row of selected) Object.assign(row, JSON.parse(String(init.body)));
+				return new Response(null, { status: 204 });
+			default:
+				return Response.json(selected.slice(0, Number(url.searchParams.get('limit') ?? rows.length)));
+		}
+	};
+
+	return createClient('http://supabase.test', 'service-role-key', {
+		auth: { persistSession: false, autoRefreshToken: false },
+		global: { fetch: fetcher },
+		realtime: { transport: NoWebSocket as unknown as WebSocketLikeConstructor }
+	});
+}
+
+// MARK: - Adapters
+
+describe('fetchFeed', () => {
+	it.each([
+		['greenhouse', ['Senior Backend Engineer, Payments', 'Product Designer', 'Data Engineering Intern (Summer 2027)']],
+		['lever', ['Staff Site Reliability Engineer', 'Customer Support Specialist (Contract)']],
+		['ashby', ['Frontend Engineer', 'Head of Finance']],
+		['json', ['Junior Python Developer', 'Part-time iOS Engineer']],
+		['rss', ['Scrum Master', 'Senior Agile Coach']]
+	] as const)('parses the recorded %s feed', async (adapter, titles) => {
+		const jobs = await fetchFeed(fixtureFeed(adapter), fixtureFetcher);
+
+		expect(jobs.map((job) => job.title)).toEqual(titles);
+		expect(jobs.every((job) => job.externalId && (job.applyUrl || job.sourceUrl))).toBe(true);
+	});
+
+	it('reads the fields each format carries', async () => {
+		const [greenhouse] = await fetchFeed(fixtureFeed('greenhouse'), fixtureFetcher);
+		const [lever] = await fetchFeed(fixtureFeed('lever'), fixtureFetcher);
+		const [ashby] = await fetchFeed(fixtureFeed('ashby'), fixtureFetcher);
+		const [json] = await fetchFeed(fixtureFeed('json'), fixtureFetcher);
+		const [rss] = await fetchFeed(fixtureFeed('rss'), fixtureFetcher);
+
+		expect(greenhouse).toMatchObject({ location: 'Remote - US', locationType: 'Remote', employmentType: 'Full-time' });
+		expect(lever).toMatchObject({ location: 'Remote (Europe)', salaryMin: 120000 });
+		expect(ashby).toMatchObject({ location: 'San Francisco', locationType: 'Hybrid', salaryMin: 150000 });
+		// Aggregator feeds name the company per item
+		expect(json.company?.name).toBe('Cargo Labs');
+		expect(rss).toMatchObject({ company: { name: 'Brightside' }, location: 'Berlin, Germany (Hybrid)' });
+	});
+
+	it('fails when the board has no feed', async () => {
+		await expect(fetchFeed({ adapter: 'greenhouse', board: 'missing' }, fixtureFetcher)).rejects.toThrow(
+			'Greenhouse feed returned HTTP 404'
+		);
+	});
+});
+
+// MARK: - Dry Run
+
+describe('importFeeds without a client', () => {
+	it('maps every fixture feed and reports failing feeds on their own', async () => {
+		const missing: ImportFeed = { adapter: 'lever', board: 'missing' };
+		const summaries = await importFeeds(null, [...FIXTURE_FEEDS, missing], { fetcher: fixtureFetcher, now });
+
+		expect(summaries.map(({ adapter, parsed, inserted, error }) => ({ adapter, parsed, inserted, error }))).toEqual([
+			{ adapter: 'greenhouse', parsed: 3, inserted: 3, error: undefined },
+			{ adapter: 'lever', parsed: 2, inserted: 2, error: undefined },
+			{ adapter: 'ashby', parsed: 2, inserted: 2, error: undefined },
+			{ adapter: 'json', parsed: 2, inserted: 2, error: undefined },
+			{ adapter: 'rss', parsed: 2, inserted: 2, error: undefined },
+			{ adapter: 'lever', parsed: 0, inserted: 0, error: 'Lever feed returned HTTP 404' }
+		]);
+	});
+});
+
+// MARK: - Writing
+
+describe('importFeed', () => {
+	const feed = fixtureFeed('greenhouse');
+	const paymentsHash = contentHash('Northwind', { title: 'Senior Backend Engineer, Payments', location: 'Remote - US' });
+
+	it('creates the company and inserts new jobs', async () => {
+		const tables: Record<string, Row[]> = { companies: [], jobs: [] };
+		const summary = await importFeed(fakeSupabase(tables), feed, { fetcher: fixtureFetcher, now });
+
+		expect(summary).toMatchObject({ parsed: 3, inserted: 3, updated: 0, skipped: 0, duplicates: 0 });
+		expect(tables.companies).toMatchObject([{ name: 'Northwind', slug: 'northwind' }]);
+		expect(tables.jobs.every((job) => job.company_id === tables.companies[0].id)).toBe(true);
+	});
+
+	it('updates known jobs by content hash on the next run', async () => {
+		const tables: Record<string, Row[]> = { companies: [], jobs: [] };
+		await importFeed(fakeSupabase(tables), feed, { fetcher: fixtureFetcher, now });
+
+		const [payments, designer, intern] = tables.jobs;
+		Object.assign(payments, { slug: 'payments-engineer' });
+		Object.assign(designer, { is_active: false, closed_reason: 'stale' });
+		Object.assign(intern, { is_active: false, closed_reason: null });
+
+		const later = new Date('2026-10-20T12:00:00Z');
+		const summary = await importFeed(fakeSupabase(tables), feed, { fetcher: fixtureFetcher, now: later });
+
+		expect(summary).toMatchObject({ inserted: 0, updated: 3, skipped: 0 });
+		expect(tables.companies).toHaveLength(1);
+		expect(tables.jobs).toHaveLength(3);
+		expect(tables.jobs.every((job) => job.refreshed_at === later.toISOString())).toBe(true);
+		// The slug stays; the reaper's close is undone, an admin's takedown isn't
+		expect(payments.slug).toBe('payments-engineer');
+		expect(designer.is_active).toBe(true);
+		expect(intern.is_active).toBe(false);
+	});
+
+	it('leaves postings written on the board alone', async () => {
+		const posting = { id: 'job-1', content_hash: paymentsHash, source: 'direct', created_by: 'user-1', title: 'Ours' };
+		const tables: Record<string, Row[]> = { companies: [], jobs: [{ ...posting }] };
+		const summary = await importFeed(fakeSupabase(tables), feed, { fetcher: fixtureFetcher, now });
+
+		expect(summary).toMatchObject({ inserted: 2, updated: 0, skipped: 1 });
+		expect(tables.jobs[0]).toEqual(posting);
+	});
+});
+
+// MARK: - Duplicates
+
+describe('importFeed duplicate detection', () => {
+	const feed = fixtureFeed('greenhouse');
+	const northwind = { id: 'company-northwind', name: 'Northwind', slug: 'northwind' };
+
+	/** The payments role as listed elsewhere, under a different content hash */
+	function listedElsewhere(source: string | null, isActive = true): Row {
+		return {
+			id: `job-${source}`,
+			company_id: northwind.id,
+			title: 'Sr. Backend Engineer - Payments',
+			location: 'Remote (US)',
+			description: null,
+			is_active: isActive,
+			source,
+			content_hash: `hash-${source}`
+		};
+	}
+
+	it('drops new jobs that are already live from another source', async () => {
+		const tables: Record<string, Row[]> = { companies: [{ ...northwind }], jobs: [listedElsewhere(null)] };
+		const summary = await importFeed(fakeSupabase(tables), feed, { fetcher: fixtureFetcher, now });
+
+		expect(summary).toMatchObject({ inserted: 2, duplicates: 1 });
+		expect(tables.jobs.map((job) => job.title)).toEqual([
+			'Sr. Backend Engineer - Payments',
+			'Product Designer',
+			'Data Engineering Intern (Summer 2027)'
+		]);
+	});
+
+	it('keeps matches from the same feed and closed listings', async () => {
+		const tables: Record<string, Row[]> = {
+			companies: [{ ...northwind }],
+			jobs: [listedElsewhere('greenhouse'), listedElsewhere('lever', false)]
+		};
+		const summary = await importFeed(fakeSupabase(tables), feed, { fetcher: fixtureFetcher, now });
+
+		expect(summary).toMatchObject({ inserted: 3, duplicates: 0 });
+	});
+});
@@ -0,0 +1,340 @@
+/**
+ * Job Importer
+ * ============
+ *
+ * Fetches a feed, maps it through its adapter and `toJobInsert()`, and
+ * writes the jobs keyed by `content_hash`:
+ * - a hash the table hasn't seen is inserted as a live, approved job
+ * - a known hash is updated in place and its `refreshed_at` bumped, so
+ *   the expiry reaper (`$lib/server/expiry`) closes jobs that drop out
+ *   of their feed once they go stale
+ * - a hash that belongs to a posting written on the board is left alone
+ *
+ * Before that, near-duplicates (`$lib/jobs/dedupe`) are dropped: a job
+ * the feed lists twice under different wording, and a new job that is
+ * already live on the board from another source (say, the employer's
+ * own posting or another feed). Matches from the same feed are kept, as
+ * they are usually the same listing with an edited title or location.
+ *
+ * The upsert is done as a select plus insert/update rather than
+ * `upsert(..., { onConflict: 'content_hash' })`: an ON CONFLICT insert
+ * runs `ensure_unique_job_slug()` (005_job_slugs.sql) for the discarded
+ * insert and would rewrite the slug of every known job on every run.
+ *
+ * The HTTP client is injected, so imports can run against recorded
+ * fixtures (./fixtures) without network access.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+	Company as CompanyRow,
+	CompanyInsert,
+	Job as JobRow,
+	JobCloseReason,
+	JobInsert,
+	JobUpdate
+} from '$lib/supabase/types';
+import { companySlug } from '$lib/jobs/companies';
+import { dedupeSignature, groupDuplicates, isNearDuplicate, type DedupeFields } from '$lib/jobs/dedupe';
+import { toJobInsert } from './normalize';
+import { feedLabel, getFeedAdapter } from './registry';
+import type { FeedImportSummary, ImportCompany, ImportFeed, ImportedJob } from './types';
+
+// MARK: - Configuration
+
+const FETCH_TIMEOUT_MS = 15_000;
+
+/** Jobs read from one feed, to stay inside serverless time limits */
+const MAX_JOBS_PER_FEED = 500;
+
+/** Live jobs per feed checked for near-duplicates of new ones */
+const MAX_BOARD_JOBS_COMPARED = 1000;
+
+/** Closes the feed undoes by listing the job again; moderators' takedowns stick */
+const REOPENABLE_CLOSE_REASONS: JobCloseReason[] = ['expired', 'stale', 'unreachable'];
+
+// MARK: - Types
+
+export interface ImportOptions {
+	/** HTTP client for feed requests */
+	fetcher: typeof fetch;
+	now?: Date;
+}
+
+type ExistingJob = Pick<JobRow, 'id' | 'content_hash' | 'source' | 'created_by' | 'is_active' | 'closed_reason'>;
+
+type BoardJob = Pick<JobRow, 'company_id' | 'title' | 'location' | 'description'>;
+
+// MARK: - Fetching
+
+/**
+ * Fetch and parse a feed.
+ * @throws Error when the request fails or the body isn't in the adapter's format
+ */
+export async function fetchFeed(feed: ImportFeed, fetcher: typeof fetch): Promise<ImportedJob[]> {
+	const adapter = getFeedAdapter(feed.adapter);
+	if (!adapter) {
+		throw new Error(`Unknown feed adapter "${feed.adapter}"`);
+	}
+
+	const response = await fetcher(adapter.feedUrl(feed), {
+		headers: { Accept: 'application/json, application/rss+xml, application/xml;q=0.9, */*;q=0.8' },
+		signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+	});
+	if (!response.ok) {
+		throw new Error(`${adapter.label} feed returned HTTP ${response.status}`);
+	}
+
+	return adapter.parse(await response.text(), feed).slice(0, MAX_JOBS_PER_FEED);
+}
+
+// MARK: - Companies
+
+/**
+ * Company ids by slug, creating companies the table doesn't have yet.
+ * Requires a service-role client.
+ */
+async function resolveCompanies(supabase: SupabaseClient, companies: ImportCompany[]): Promise<Map<string, string>> {
+	const bySlug = new Map(companies.map((company) => [companySlug(company.name), company]));
+	const slugs = [...bySlug.keys()].filter(Boolean);
+	if (slugs.length === 0) return new Map();
+
+	const { data, error } = await supabase.from('companies').select('id, slug').in('slug', slugs);
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	const ids = new Map((data ?? []).map((row: Pick<CompanyRow, 'id' | 'slug'>) => [row.slug, row.id]));
+	const missing: CompanyInsert[] = slugs
+		.filter((slug) => !ids.has(slug))
+		.map((slug) => {
+			const company = bySlug.get(slug)!;
+			return {
+				name: company.name,
+				slug,
+				logo_url: company.logoUrl ?? null,
+				website: company.website ?? null,
+				location: null,
+				industry: null,
+				description: null,
+				employee_count: null,
+				founded_year: null,
+				is_verified: false
+			};
+		});
+
+	if (missing.length > 0) {
+		const { data: created, error: createError } = await supabase.from('companies').insert(missing).select('id, slug');
+		if (createError) {
+			throw new Error(createError.message);
+		}
+		for (const row of (created ?? []) as Pick<CompanyRow, 'id' | 'slug'>[]) {
+			ids.set(row.slug, row.id);
+		}
+	}
+
+	return ids;
+}
+
+// MARK: - Duplicates
+
+/**
+ * Comparison fields of a row. Rows of a dry run have no company id yet,
+ * so they are compared by company name.
+ */
+function rowDedupeFields(row: JobInsert, companyName: string): DedupeFields {
+	return {
+		company: row.company_id || companySlug(companyName),
+		title: row.title,
+		location: row.location,
+		description: row.description
+	};
+}
+
+/**
+ * Content hashes of `rows` that near-duplicate a live job from another
+ * source at the same company.
+ */
+async function findBoardDuplicates(supabase: SupabaseClient, rows: JobInsert[], source: string): Promise<Set<string>> {
+	const companyIds = [...new Set(rows.map((row) => row.company_id).filter(Boolean))];
+	if (companyIds.length === 0) return new Set();
+
+	const { data, error } = await supabase
+		.from('jobs')
+		.select('company_id, title, location, description')
+		.in('company_id', companyIds)
+		.eq('is_active', true)
+		.or(`source.is.null,source.neq.${source}`)
+		.limit(MAX_BOARD_JOBS_COMPARED);
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	const board = ((data ?? []) as BoardJob[]).map((job) => dedupeSignature({ ...job, company: job.company_id }));
+	const duplicates = new Set<string>();
+	for (const row of rows) {
+		const signature = dedupeSignature({ ...row, company: row.company_id });
+		if (row.content_hash && board.some((job) => isNearDuplicate(job, signature))) {
+			duplicates.add(row.content_hash);
+		}
+	}
+	return duplicates;
+}
+
+// MARK: - Writing
+
+/** Columns refreshed on a known job; slug, review state and featuring stay as they are */
+function toJobRefresh(row: JobInsert, existing: ExistingJob): JobUpdate {
+	const { slug: _slug, is_featured: _featured, review_status: _status, created_by: _author, ...changes } = row;
+	return {
+		...changes,
+		// Reopen jobs the reaper closed; an admin's takedown (no reason, or after reports) sticks
+		is_active:
+			existing.is_active ||
+			(existing.closed_reason !== null && REOPENABLE_CLOSE_REASONS.includes(existing.closed_reason))
+	};
+}
+
+/**
+ * Import one feed.
+ * Requires a service-role client (imports create companies and jobs).
+ * Without a client it's a dry run: the feed is fetched and mapped, and
+ * `inserted` counts the jobs that would be written.
+ */
+export async function importFeed(
+	supabase: SupabaseClient | null,
+	feed: ImportFeed,
+	{ fetcher, now = new Date() }: ImportOptions
+): Promise<FeedImportSummary> {
+	const summary: FeedImportSummary = {
+		adapter: feed.adapter,
+		feed: feedLabel(feed),
+		parsed: 0,
+		inserted: 0,
+		updated: 0,
+		skipped: 0,
+		duplicates: 0
+	};
+
+	const jobs = await fetchFeed(feed, fetcher);
+	summary.parsed = jobs.length;
+
+	const withCompany = jobs.flatMap((job) => {
+		const company = job.company ?? feed.company;
+		return company?.name ? [{ job, company }] : [];
+	});
+	const companyIds = !supabase
+		? new Map(withCompany.map(({ company }) => [companySlug(company.name), '']))
+		: await resolveCompanies(supabase, withCompany.map(({ company }) => company));
+
+	// One row per hash; a feed that lists the same opening twice keeps the first
+	const hashed = new Map<string, { row: JobInsert; companyName: string }>();
+	for (const { job, company } of withCompany) {
+		const companyId = companyIds.get(companySlug(company.name));
+		const row =
+			companyId !== undefined
+				? toJobInsert(job, { companyId, companyName: company.name, source: feed.adapter, now })
+				: null;
+		if (row?.content_hash && !hashed.has(row.content_hash)) {
+			hashed.set(row.content_hash, { row, companyName: company.name });
+		}
+	}
+	summary.skipped = jobs.length - hashed.size;
+
+	// Near-duplicates within the feed keep the first listing too
+	const rows = new Map<string, JobInsert>();
+	const groups = groupDuplicates([...hashed], ([, { row, companyName }]) => rowDedupeFields(row, companyName));
+	for (const [[hash, { row }]] of groups) {
+		rows.set(hash, row);
+	}
+	summary.duplicates = hashed.size - rows.size;
+
+	if (!supabase) {
+		summary.inserted = rows.size;
+		return summary;
+	}
+	if (rows.size === 0) return summary;
+
+	const { data, error } = await supabase
+		.from('jobs')
+		.select('id, content_hash, source, created_by, is_active, closed_reason')
+		.in('content_hash', [...rows.keys()]);
+	if (error) {
+		throw new Error(error.message);
+	}
+	const existing = new Map(((data ?? []) as ExistingJob[]).map((job) => [job.content_hash, job]));
+
+	const boardDuplicates = await findBoardDuplicates(
+		supabase,
+		[...rows.values()].filter((row) => !existing.has(row.content_hash)),
+		feed.adapter
+	);
+
+	const inserts: JobInsert[] = [];
+	for (const [hash, row] of rows) {
+		const known = existing.get(hash);
+		if (!known && boardDuplicates.has(hash)) {
+			summary.duplicates++;
+			continue;
+		}
+		if (!known) {
+			inserts.push(row);
+			continue;
+		}
+		if (known.created_by || known.source === 'direct') {
+			summary.skipped++;
+			continue;
+		}
+
+		const { error: updateError } = await supabase.from('jobs').update(toJobRefresh(row, known)).eq('id', known.id);
+		if (updateError) {
+			console.error(`[Import] Failed to refresh job ${known.id}:`, updateError.message);
+			summary.skipped++;
+		} else {
+			summary.updated++;
+		}
+	}
+
+	if (inserts.length > 0) {
+		const { data: created, error: insertError } = await supabase.from('jobs').insert(inserts).select('id');
+		if (insertError) {
+			throw new Error(insertError.message);
+		}
+		summary.inserted = created?.length ?? 0;
+	}
+
+	return summary;
+}
+
+/**
+ * Import every feed in turn. A failing feed is reported in its summary
+ * and doesn't stop the others.
+ */
+export async function importFeeds(
+	supabase: SupabaseClient | null,
+	feeds: ImportFeed[],
+	options: ImportOptions
+): Promise<FeedImportSummary[]> {
+	const summaries: FeedImportSummary[] = [];
+
+	for (const feed of feeds) {
+		try {
+			summaries.push(await importFeed(supabase, feed, options));
+		} catch (err) {
+			const message = err instanceof Error ? err.message : String(err);
+			console.error(`[Import] Feed ${feedLabel(feed)} failed:`, message);
+			summaries.push({
+				adapter: feed.adapter,
+				feed: feedLabel(feed),
+				parsed: 0,
+				inserted: 0,
+				updated: 0,
+				skipped: 0,
+				duplicates: 0,
+				error: message
+			});
+		}
+	}
+
+	return summaries;
+}
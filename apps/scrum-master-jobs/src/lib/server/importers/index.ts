@@ -0,0 +1,60 @@
+/**
+ * Job Importers Module
+ * ====================
+ *
+ * Ingests jobs from ATS boards (Greenhouse, Lever, Ashby) and generic
+ * JSON and RSS feeds into the `jobs` table, deduplicated by
+ * `content_hash`.
+ *
+ * Usage (from a scheduled endpoint):
+ * ```typescript
+ * import { runJobImports } from '$lib/server/importers';
+ *
+ * const summary = await runJobImports({ fetcher: fetch });
+ * ```
+ */
+
+import { createServiceClient } from '$lib/server/supabase';
+import { importFeeds, type ImportOptions } from './importer';
+import { getImportFeeds } from './registry';
+import type { FeedImportSummary, ImportFeed } from './types';
+
+export { importFeed, importFeeds, fetchFeed } from './importer';
+export type { ImportOptions } from './importer';
+export {
+	registerFeedAdapter,
+	getFeedAdapter,
+	getImportFeeds,
+	validateImportFeed,
+	feedLabel
+} from './registry';
+export {
+	toJobInsert,
+	contentHash,
+	htmlToText,
+	inferLocationType,
+	inferEmploymentType,
+	inferExperienceLevel
+} from './normalize';
+export { FIXTURE_FEEDS, fixtureFetcher } from './fixtures';
+export type * from './types';
+
+// MARK: - Scheduled Run
+
+export interface JobImportRunSummary {
+	feeds: FeedImportSummary[];
+}
+
+/**
+ * One scheduler tick: import every configured feed (JOB_IMPORT_FEEDS),
+ * or the given `feeds`. A dry run reads and maps the feeds but writes
+ * nothing, and needs no database.
+ */
+export async function runJobImports({
+	feeds = getImportFeeds(),
+	dryRun = false,
+	...options
+}: ImportOptions & { feeds?: ImportFeed[]; dryRun?: boolean }): Promise<JobImportRunSummary> {
+	const supabase = dryRun ? null : createServiceClient();
+	return { feeds: await importFeeds(supabase, feeds, options) };
+}
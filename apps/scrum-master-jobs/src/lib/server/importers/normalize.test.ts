@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import type { ImportedJob } from './types';
+import {
+	contentHash,
+	htmlToText,
+	inferEmploymentType,
+	inferExperienceLevel,
+	inferLocationType,
+	toJobInsert
+} from './normalize';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const job: ImportedJob = {
+	externalId: '1',
+	title: 'Senior Backend Engineer',
+	description: '<p>Build the ledger.</p>',
+	location: 'Remote - US',
+	applyUrl: 'https://jobs.example/1/apply',
+	sourceUrl: 'https://jobs.example/1'
+};
+
+function insert(overrides: Partial<ImportedJob>) {
+	return toJobInsert(
+		{ ...job, ...overrides },
+		{ companyId: 'company-1', companyName: 'Northwind', source: 'greenhouse', now }
+	);
+}
+
+// MARK: - Text
+
+describe('htmlToText', () => {
+	it('keeps paragraphs and list items as plain text', () => {
+		expect(htmlToText('<p>Intro</p><ul><li>One</li><li>Two</li></ul>')).toBe('Intro\n\n- One\n\n- Two');
+	});
+
+	it('unescapes double-escaped HTML and drops scripts', () => {
+		expect(htmlToText('&lt;p&gt;What you&amp;#39;ll do&lt;/p&gt;&lt;script&gt;track()&lt;/script&gt;')).toBe(
+			"What you'll do"
+		);
+	});
+});
+
+// MARK: - Enum Inference
+
+describe('inferLocationType', () => {
+	it('prefers the feed hint over the location text', () => {
+		expect(inferLocationType({ locationType: 'OnSite', location: 'Remote' })).toBe('On-site');
+		expect(inferLocationType({ isRemote: true, location: 'Berlin' })).toBe('Remote');
+	});
+
+	it('reads the location text', () => {
+		expect(inferLocationType({ location: 'New York, NY (Hybrid)' })).toBe('Hybrid');
+		expect(inferLocationType({ location: 'Anywhere (UTC-3 to UTC+3)' })).toBe('Remote');
+		expect(inferLocationType({ location: 'Chicago, IL' })).toBe('On-site');
+		expect(inferLocationType({ location: null })).toBe('Remote');
+	});
+});
+
+describe('inferEmploymentType', () => {
+	it('parses the feed wording, then the title', () => {
+		expect(inferEmploymentType({ employmentType: 'FullTime', title: 'Designer' })).toBe('Full-time');
+		expect(inferEmploymentType({ title: 'Data Engineering Intern (Summer 2027)' })).toBe('Internship');
+		expect(inferEmploymentType({ title: 'Customer Support Specialist (Contract)' })).toBe('Contract');
+		expect(inferEmploymentType({ title: 'Part-time iOS Engineer' })).toBe('Part-time');
+		expect(inferEmploymentType({ title: 'Product Designer' })).toBe('Full-time');
+	});
+});
+
+describe('inferExperienceLevel', () => {
+	it('parses the feed value, then seniority words in the title', () => {
+		expect(inferExperienceLevel({ experienceLevel: 'senior', title: 'Designer' })).toBe('Senior');
+		expect(inferExperienceLevel({ title: 'Head of Finance' })).toBe('Executive');
+		expect(inferExperienceLevel({ title: 'Staff Site Reliability Engineer' })).toBe('Lead');
+		expect(inferExperienceLevel({ title: 'Sr. Frontend Engineer' })).toBe('Senior');
+		expect(inferExperienceLevel({ title: 'Junior Python Developer' })).toBe('Entry');
+		expect(inferExperienceLevel({ title: 'Product Designer' })).toBe('Mid');
+	});
+});
+
+// MARK: - Hashing
+
+describe('contentHash', () => {
+	it('ignores case, punctuation and the description', () => {
+		expect(contentHash('Northwind', job)).toBe(
+			contentHash('NORTHWIND', { title: 'senior backend engineer!', location: 'Remote  US' })
+		);
+	});
+
+	it('tells locations apart', () => {
+		expect(contentHash('Northwind', job)).not.toBe(contentHash('Northwind', { ...job, location: 'Chicago, IL' }));
+	});
+});
+
+// MARK: - Mapping
+
+describe('toJobInsert', () => {
+	it('maps a job to a live, approved row', () => {
+		const row = insert({});
+
+		expect(row).toMatchObject({
+			company_id: 'company-1',
+			title: 'Senior Backend Engineer',
+			slug: 'senior-backend-engineer-at-northwind',
+			description: 'Build the ledger.',
+			location_type: 'Remote',
+			employment_type: 'Full-time',
+			experience_level: 'Senior',
+			apply_url: 'https://jobs.example/1/apply',
+			source: 'greenhouse',
+			source_url: 'https://jobs.example/1',
+			is_active: true,
+			review_status: 'approved',
+			created_by: null,
+			content_hash: contentHash('Northwind', job),
+			refreshed_at: now.toISOString()
+		});
+	});
+
+	it('skips jobs without a title or a link to apply through', () => {
+		expect(insert({ title: '  ' })).toBeNull();
+		expect(insert({ applyUrl: null, sourceUrl: null })).toBeNull();
+		expect(insert({ applyUrl: null })?.apply_url).toBe('https://jobs.example/1');
+	});
+
+	it('keeps dates within now', () => {
+		expect(insert({ postedAt: '2026-10-02T10:00:00-04:00' })?.posted_at).toBe('2026-10-02T14:00:00.000Z');
+		expect(insert({ postedAt: '2027-01-01T00:00:00Z' })?.posted_at).toBe(now.toISOString());
+		expect(insert({ expiresAt: '2026-10-01T00:00:00Z' })?.expires_at).toBeNull();
+	});
+
+	it('cleans the salary range', () => {
+		expect(insert({ salaryMin: 150000, salaryMax: 120000, salaryCurrency: 'eur' })).toMatchObject({
+			salary_min: 150000,
+			salary_max: 150000,
+			salary_currency: 'EUR',
+			salary_period: 'year'
+		});
+		expect(insert({ salaryMax: 45.5, salaryCurrency: 'dollars', salaryPeriod: 'per-hour-rate' })).toMatchObject({
+			salary_min: 46,
+			salary_max: 46,
+			salary_currency: 'USD',
+			salary_period: 'hour'
+		});
+	});
+});
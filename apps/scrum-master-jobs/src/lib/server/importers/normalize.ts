@@ -0,0 +1,219 @@
+/**
+ * Import Normalizer
+ * =================
+ *
+ * Turns an adapter's `ImportedJob` into a `JobInsert`. This is the only
+ * place that cleans feed HTML into plain text, infers the location,
+ * employment and experience enums from free text, and computes the
+ * `content_hash` the importer upserts on.
+ *
+ * The hash covers company, title and location only, so a job keeps its
+ * hash when the employer edits the description, and the same opening
+ * listed on two ATS boards collapses into one row.
+ */
+
+import { createHash } from 'node:crypto';
+import type { EmploymentType, ExperienceLevel, LocationType } from '$lib/types';
+import type { JobInsert } from '$lib/supabase/types';
+import { companySlug } from '$lib/jobs/companies';
+import { MAX_DESCRIPTION_LENGTH, MAX_SALARY, MAX_TITLE_LENGTH } from '$lib/jobs/posting';
+import { parseEmploymentType, parseExperienceLevel, parseLocationType } from '$lib/server/jobs';
+import type { FeedAdapterId, ImportedJob } from './types';
+
+// MARK: - Text
+
+const NAMED_ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+	nbsp: ' ',
+	ndash: '–',
+	mdash: '—',
+	hellip: '…',
+	rsquo: '’',
+	lsquo: '‘',
+	rdquo: '”',
+	ldquo: '“',
+	bull: '•'
+};
+
+/**
+ * Decode HTML character references ("&amp;", "&#39;", "&#x2014;").
+ */
+export function decodeEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+		if (code[0] === '#') {
+			const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+			return Number.isFinite(point) && point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+		}
+		return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+	});
+}
+
+/**
+ * Convert feed HTML into plain text with paragraph breaks and "- "
+ * bullets. Feeds that double-escape their HTML (Greenhouse) are
+ * unescaped first.
+ */
+export function htmlToText(html: string): string {
+	const source = /&lt;[a-z/]/i.test(html) ? decodeEntities(html) : html;
+
+	return decodeEntities(
+		source
+			.replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+			.replace(/<li[^>]*>/gi, '\n- ')
+			.replace(/<br\s*\/?>/gi, '\n')
+			.replace(/<\/(p|div|h[1-6]|ul|ol|li|tr|section)>/gi, '\n')
+			.replace(/<[^>]+>/g, '')
+	)
+		.replace(/[ \t ]+/g, ' ')
+		.replace(/ *\n */g, '\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
+
+function clip(text: string, max: number): string {
+	return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
+
+// MARK: - Enum Inference
+
+/**
+ * Where the job is done: the feed's own hint first, then the location
+ * text. A job with a location and no remote/hybrid wording is on-site.
+ */
+export function inferLocationType(job: Pick<ImportedJob, 'locationType' | 'isRemote' | 'location'>): LocationType {
+	const hinted = parseLocationType(job.locationType);
+	if (hinted) return hinted;
+	if (job.isRemote) return 'Remote';
+
+	const location = job.location?.toLowerCase() ?? '';
+	if (/\bhybrid\b/.test(location)) return 'Hybrid';
+	if (/\b(remote|anywhere|distributed|work from home)\b/.test(location)) return 'Remote';
+	return location ? 'On-site' : 'Remote';
+}
+
+/**
+ * Employment type from the feed's wording ("FullTime", "Full time",
+ * "Contract - 6 months"), then from the title.
+ */
+export function inferEmploymentType(job: Pick<ImportedJob, 'employmentType' | 'title'>): EmploymentType {
+	const parsed = parseEmploymentType(job.employmentType);
+	if (parsed) return parsed;
+
+	const text = `${job.employmentType ?? ''} ${job.title}`.toLowerCase();
+	if (/\bintern(ship)?\b/.test(text)) return 'Internship';
+	if (/\b(contract(or)?|freelance|temporary|temp|fixed[- ]term)\b/.test(text)) return 'Contract';
+	if (/\bpart[- ]?time\b/.test(text)) return 'Part-time';
+	return 'Full-time';
+}
+
+/**
+ * Experience level from the feed, or from seniority words in the title.
+ */
+export function inferExperienceLevel(job: Pick<ImportedJob, 'experienceLevel' | 'title'>): ExperienceLevel {
+	const parsed = parseExperienceLevel(job.experienceLevel);
+	if (parsed) return parsed;
+
+	const title = job.title.toLowerCase();
+	if (/\b(director|vp|vice president|chief|head of|c[tfo]o)\b/.test(title)) return 'Executive';
+	if (/\b(principal|staff|lead)\b/.test(title)) return 'Lead';
+	if (/\b(senior|sr\.?)\b/.test(title)) return 'Senior';
+	if (/\b(intern|junior|jr\.?|entry|graduate|new grad|associate)\b/.test(title)) return 'Entry';
+	return 'Mid';
+}
+
+// MARK: - Hashing
+
+function hashPart(value: string | null | undefined): string {
+	return (value ?? '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Dedup key for `jobs.content_hash`: company, title and location.
+ */
+export function contentHash(companyName: string, job: Pick<ImportedJob, 'title' | 'location'>): string {
+	return createHash('sha256')
+		.update([companyName, job.title, job.location].map(hashPart).join('|'))
+		.digest('hex');
+}
+
+// MARK: - Mapping
+
+function toIsoDate(value: string | null | undefined): string | null {
+	if (!value) return null;
+	const time = Date.parse(value);
+	return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+function toSalary(
+	job: ImportedJob
+): Pick<JobInsert, 'salary_min' | 'salary_max' | 'salary_currency' | 'salary_period'> {
+	const valid = (value: number | null | undefined) =>
+		typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= MAX_SALARY ? Math.round(value) : null;
+	const min = valid(job.salaryMin) ?? valid(job.salaryMax);
+	const max = valid(job.salaryMax) ?? min;
+	const currency = job.salaryCurrency?.trim().toUpperCase();
+
+	return {
+		salary_min: min,
+		salary_max: max !== null && min !== null && max < min ? min : max,
+		salary_currency: currency && /^[A-Z]{3}$/.test(currency) ? currency : 'USD',
+		salary_period: job.salaryPeriod && /hour/i.test(job.salaryPeriod) ? 'hour' : 'year'
+	};
+}
+
+/**
+ * Build the `jobs` row for an imported job.
+ * @returns null when the job has no title or no link to apply through
+ */
+export function toJobInsert(
+	job: ImportedJob,
+	{
+		companyId,
+		companyName,
+		source,
+		now = new Date()
+	}: { companyId: string; companyName: string; source: FeedAdapterId; now?: Date }
+): JobInsert | null {
+	const title = clip(decodeEntities(job.title).replace(/\s+/g, ' ').trim(), MAX_TITLE_LENGTH);
+	const applyUrl = job.applyUrl || job.sourceUrl || null;
+	if (!title || !applyUrl) return null;
+
+	const postedAt = toIsoDate(job.postedAt);
+	const expiresAt = toIsoDate(job.expiresAt);
+	const normalized = { ...job, title };
+
+	return {
+		company_id: companyId,
+		title,
+		slug: companySlug(`${title} at ${companyName}`) || 'job',
+		description: clip(htmlToText(job.description ?? ''), MAX_DESCRIPTION_LENGTH),
+		requirements: (job.requirements ?? []).map(htmlToText).filter(Boolean),
+		benefits: (job.benefits ?? []).map(htmlToText).filter(Boolean),
+		skills: job.skills ?? [],
+		location: job.location?.trim() || null,
+		location_type: inferLocationType(normalized),
+		employment_type: inferEmploymentType(normalized),
+		experience_level: inferExperienceLevel(normalized),
+		...toSalary(job),
+		apply_url: applyUrl,
+		is_easy_apply: false,
+		is_featured: false,
+		is_active: true,
+		content_hash: contentHash(companyName, normalized),
+		source,
+		source_url: job.sourceUrl || applyUrl,
+		posted_at: postedAt && Date.parse(postedAt) <= now.getTime() ? postedAt : now.toISOString(),
+		expires_at: expiresAt && Date.parse(expiresAt) > now.getTime() ? expiresAt : null,
+		screening_questions: [],
+		review_status: 'approved',
+		review_note: null,
+		submitted_at: null,
+		reviewed_at: null,
+		created_by: null,
+		refreshed_at: now.toISOString()
+	};
+}
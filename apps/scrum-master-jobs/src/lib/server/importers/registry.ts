@@ -0,0 +1,100 @@
+/**
+ * Feed Adapter Registry
+ * =====================
+ *
+ * Holds every `FeedAdapter` by id and reads the configured feeds from
+ * JOB_IMPORT_FEEDS, a JSON array of `ImportFeed`s:
+ *
+ * ```bash
+ * JOB_IMPORT_FEEDS='[
+ *   { "adapter": "greenhouse", "board": "acme", "company": { "name": "Acme" } },
+ *   { "adapter": "rss", "url": "https://example.com/jobs.rss" }
+ * ]'
+ * ```
+ */
+
+import { env } from '$env/dynamic/private';
+import type { FeedAdapter, FeedAdapterId, ImportFeed } from './types';
+import { greenhouseAdapter } from './adapters/greenhouse';
+import { leverAdapter } from './adapters/lever';
+import { ashbyAdapter } from './adapters/ashby';
+import { jsonFeedAdapter } from './adapters/json';
+import { rssFeedAdapter } from './adapters/rss';
+
+// MARK: - Registry
+
+const adapters = new Map<string, FeedAdapter>();
+
+/**
+ * Register a feed adapter, replacing any adapter with the same id.
+ */
+export function registerFeedAdapter(adapter: FeedAdapter): void {
+	adapters.set(adapter.id, adapter);
+}
+
+/**
+ * Look up a registered adapter by id.
+ */
+export function getFeedAdapter(id: string): FeedAdapter | undefined {
+	return adapters.get(id);
+}
+
+// MARK: - Configuration
+
+/** ATS adapters address a feed by board name; generic ones by URL */
+const BOARD_ADAPTERS: FeedAdapterId[] = ['greenhouse', 'lever', 'ashby'];
+
+/**
+ * Check one configured feed.
+ * @returns A reason when the entry is unusable, otherwise null
+ */
+export function validateImportFeed(feed: ImportFeed): string | null {
+	if (!getFeedAdapter(feed.adapter)) return `Unknown feed adapter "${feed.adapter}"`;
+	if (BOARD_ADAPTERS.includes(feed.adapter)) {
+		if (!feed.board) return `${feed.adapter} feeds need a "board"`;
+		if (!feed.company?.name) return `${feed.adapter} feeds need a "company" with a name`;
+	} else if (!feed.url || !/^https?:\/\//.test(feed.url)) {
+		return `${feed.adapter} feeds need an http(s) "url"`;
+	}
+	return null;
+}
+
+/**
+ * The feeds configured in JOB_IMPORT_FEEDS (none when unset).
+ * @throws Error when the variable isn't a JSON array of valid feeds
+ */
+export function getImportFeeds(): ImportFeed[] {
+	const raw = env.JOB_IMPORT_FEEDS?.trim();
+	if (!raw) return [];
+
+	let feeds: unknown;
+	try {
+		feeds = JSON.parse(raw);
+	} catch {
+		throw new Error('JOB_IMPORT_FEEDS is not valid JSON');
+	}
+	if (!Array.isArray(feeds)) {
+		throw new Error('JOB_IMPORT_FEEDS must be a JSON array');
+	}
+
+	for (const feed of feeds as ImportFeed[]) {
+		const problem = validateImportFeed(feed);
+		if (problem) throw new Error(`JOB_IMPORT_FEEDS: ${problem}`);
+	}
+	return feeds as ImportFeed[];
+}
+
+/**
+ * A short name for a feed in logs and summaries ("greenhouse:acme").
+ */
+export function feedLabel(feed: ImportFeed): string {
+	return `${feed.adapter}:${feed.board ?? feed.url ?? ''}`;
+}
+
+// MARK: - Built-in Adapters
+
+registerFeedAdapter(greenhouseAdapter);
+registerFeedAdapter(leverAdapter);
+registerFeedAdapter(ashbyAdapter);
+registerFeedAdapter(jsonFeedAdapter);
+registerFeedAdapter(rssFeedAdapter);
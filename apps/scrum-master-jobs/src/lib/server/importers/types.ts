@@ -0,0 +1,115 @@
+/**
+ * Job Importer Types
+ * ==================
+ *
+ * Contracts shared by the feed adapters and the importer.
+ *
+ * An adapter only has to build its feed URL and rename fields into an
+ * `ImportedJob`. Text cleanup, enum inference, the content hash and the
+ * final `JobInsert` are handled once by `toJobInsert()` in normalize.ts,
+ * the same split the /jobs sources use with `RawJob`.
+ */
+
+// MARK: - Feeds
+
+/** Feed formats with a built-in adapter */
+export type FeedAdapterId = 'greenhouse' | 'lever' | 'ashby' | 'json' | 'rss';
+
+/**
+ * The company a feed belongs to, or that a feed item names.
+ */
+export interface ImportCompany {
+	name: string;
+	website?: string | null;
+	logoUrl?: string | null;
+}
+
+/**
+ * One configured feed (an entry of JOB_IMPORT_FEEDS).
+ *
+ * ATS feeds are addressed by the company's board name on that ATS
+ * (`board`); generic feeds by `url`.
+ */
+export interface ImportFeed {
+	adapter: FeedAdapterId;
+	/** Greenhouse board token, Lever site or Ashby job board name */
+	board?: string;
+	/** Feed URL for the `json` and `rss` adapters */
+	url?: string;
+	/** Company for every job in the feed; generic feeds may name one per item instead */
+	company?: ImportCompany;
+}
+
+// MARK: - Imported Jobs
+
+/**
+ * Source-agnostic job record, as read from a feed.
+ * Enum fields are free text and get inferred during normalization;
+ * `description` may still contain HTML.
+ */
+export interface ImportedJob {
+	/** The job's id in the feed */
+	externalId: string;
+	title: string;
+	description?: string | null;
+	requirements?: string[] | null;
+	benefits?: string[] | null;
+	skills?: string[] | null;
+	location?: string | null;
+	/** Workplace hint from the feed ("remote", "OnSite", …) */
+	locationType?: string | null;
+	employmentType?: string | null;
+	experienceLevel?: string | null;
+	isRemote?: boolean | null;
+	salaryMin?: number | null;
+	salaryMax?: number | null;
+	salaryCurrency?: string | null;
+	/** Pay period of the range; anything mentioning "hour" is hourly, the rest yearly */
+	salaryPeriod?: string | null;
+	/** Page on the employer's site that describes the job */
+	sourceUrl?: string | null;
+	/** Where candidates apply; defaults to `sourceUrl` */
+	applyUrl?: string | null;
+	postedAt?: string | null;
+	expiresAt?: string | null;
+	/** Per-item company for aggregator feeds */
+	company?: ImportCompany | null;
+}
+
+// MARK: - Adapters
+
+/**
+ * Reads one feed format.
+ */
+export interface FeedAdapter {
+	id: FeedAdapterId;
+	/** Human-readable name for logs */
+	label: string;
+	/** URL to request for a feed */
+	feedUrl(feed: ImportFeed): string;
+	/**
+	 * Turn the response body into jobs.
+	 * @throws Error when the body isn't in the adapter's format
+	 */
+	parse(body: string, feed: ImportFeed): ImportedJob[];
+}
+
+// MARK: - Results
+
+/**
+ * What one feed import did.
+ */
+export interface FeedImportSummary {
+	adapter: FeedAdapterId;
+	feed: string;
+	/** Jobs read from the feed */
+	parsed: number;
+	inserted: number;
+	updated: number;
+	/** Jobs that were invalid, or that match a posting written on the board */
+	skipped: number;
+	/** New jobs left out as near-duplicates of another in the feed or a live job from another source */
+	duplicates: number;
+	/** Set when the feed could not be fetched, parsed or written */
+	error?: string;
+}
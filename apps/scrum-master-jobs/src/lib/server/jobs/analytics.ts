@@ -0,0 +1,157 @@
+/**
+ * Job Event Tracking
+ * ==================
+ *
+ * Records job seekers' interactions with listings in `job_events` and
+ * reads them back for the employer dashboard (013_job_events.sql).
+ *
+ * Visitors are the signed-in user, or else a random id kept in the
+ * `visitor_id` cookie. `record_job_events()` drops repeats from the same
+ * visitor inside the event's dedup window, events on closed jobs and the
+ * company's own staff; requests from crawlers and other bots are dropped
+ * here before they reach the database. Mock listings (non-UUID ids) are
+ * never recorded. Only the server can record events: the function is
+ * called with the service role, so visitors can't write events (or pick
+ * their event types and visitor ids) directly.
+ *
+ * Tracking must never break the page it runs on, so `trackJobEvents()`
+ * logs failures instead of throwing.
+ *
+ * Usage:
+ * ```typescript
+ * import { trackJobEvents, getJobEventCounts } from '$lib/server/jobs';
+ *
+ * await trackJobEvents(event, 'detail_open', [job.id]);
+ * const counts = await getJobEventCounts(locals.supabase, jobIds, rangeStart(30));
+ * ```
+ */
+
+import type { Cookies } from '@sveltejs/kit';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { JobEventType } from '$lib/types';
+import type { JobEventCount } from '$lib/jobs/analytics';
+import { createServiceClient } from '$lib/server/supabase';
+import { UUID_PATTERN } from './detail';
+
+// MARK: - Configuration
+
+const VISITOR_COOKIE = 'visitor_id';
+
+/** Anonymous visitors keep their id for a year */
+const VISITOR_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/**
+ * User agents of crawlers, link previewers, uptime monitors and scripted
+ * clients. Requests without a user agent are treated as bots too.
+ */
+const BOT_PATTERN =
+	/bot|crawl|spider|slurp|scrape|headless|phantom|lighthouse|pingdom|uptime|monitor|preview|facebookexternalhit|embedly|curl|wget|python|java\/|go-http|okhttp|axios|node-fetch|undici|libwww|httpclient/i;
+
+/** Most jobs recorded in one call (one page of /jobs) */
+const MAX_JOBS_PER_EVENT = 100;
+
+// MARK: - Types
+
+/** The parts of a request event tracking needs */
+export interface TrackingContext {
+	locals: App.Locals;
+	cookies: Cookies;
+	request: Request;
+}
+
+// MARK: - Visitors
+
+/**
+ * Whether a request most likely comes from a bot rather than a person.
+ */
+export function isBotRequest(request: Request): boolean {
+	const userAgent = request.headers.get('user-agent');
+	return !userAgent || BOT_PATTERN.test(userAgent);
+}
+
+/**
+ * The visitor id for a request: the user id when signed in, otherwise the
+ * id in the visitor cookie, set on first use.
+ */
+function visitorId({ locals, cookies }: TrackingContext): string {
+	if (locals.user) return locals.user.id;
+
+	const existing = cookies.get(VISITOR_COOKIE);
+	if (existing && UUID_PATTERN.test(existing)) return existing;
+
+	const id = crypto.randomUUID();
+	cookies.set(VISITOR_COOKIE, id, {
+		path: '/',
+		httpOnly: true,
+		sameSite: 'lax',
+		maxAge: VISITOR_COOKIE_MAX_AGE
+	});
+	return id;
+}
+
+// MARK: - Recording
+
+/**
+ * Record one event per job for a visitor (the signed-in user's id, if
+ * any, is passed as `userId`). Requires a service-role client.
+ * @returns The number of events written (repeats and closed jobs are skipped)
+ * @throws Error when the write fails
+ */
+export async function recordJobEvents(
+	supabase: SupabaseClient,
+	type: JobEventType,
+	jobIds: string[],
+	visitor: string,
+	userId: string | null
+): Promise<number> {
+	const ids = [...new Set(jobIds.filter((id) => UUID_PATTERN.test(id)))].slice(0, MAX_JOBS_PER_EVENT);
+	if (ids.length === 0) return 0;
+
+	const { data, error } = await supabase.rpc('record_job_events', {
+		p_job_ids: ids,
+		p_event_type: type,
+		p_visitor_id: visitor,
+		p_user_id: userId
+	});
+
+	if (error) throw new Error(error.message);
+	return (data as number | null) ?? 0;
+}
+
+/**
+ * Record an event for the visitor behind a request, unless it comes from
+ * a bot. Failures are logged, never thrown.
+ */
+export async function trackJobEvents(context: TrackingContext, type: JobEventType, jobIds: string[]): Promise<void> {
+	if (isBotRequest(context.request) || !jobIds.some((id) => UUID_PATTERN.test(id))) return;
+
+	try {
+		const userId = context.locals.user?.id ?? null;
+		await recordJobEvents(createServiceClient(), type, jobIds, visitorId(context), userId);
+	} catch (err) {
+		console.error(`[Jobs] Failed to record ${type} events:`, err instanceof Error ? err.message : err);
+	}
+}
+
+// MARK: - Reporting
+
+/**
+ * Daily event counts for jobs since a day (YYYY-MM-DD, UTC). RLS limits
+ * the counts to jobs of the signed-in user's companies.
+ * @throws Error when the counts can't be read
+ */
+export async function getJobEventCounts(
+	supabase: SupabaseClient,
+	jobIds: string[],
+	since: string
+): Promise<JobEventCount[]> {
+	const ids = jobIds.filter((id) => UUID_PATTERN.test(id));
+	if (ids.length === 0) return [];
+
+	const { data, error } = await supabase.rpc('job_event_daily_counts', { p_job_ids: ids, p_since: since });
+
+	if (error) throw new Error(error.message);
+	return ((data ?? []) as { job_id: string; day: string; event_type: JobEventType; events: number | string }[]).map(
+		(row) => ({ jobId: row.job_id, day: row.day, type: row.event_type, events: Number(row.events) })
+	);
+}
@@ -0,0 +1,391 @@
+/**
+ * Job Applications
+ * ================
+ *
+ * Easy Apply submissions, the candidate's application tracker and the
+ * company's applicant inbox. Every query runs with the signed-in user's
+ * client, so RLS (006_job_applications.sql) decides what each side sees:
+ * candidates their own applications, company members the applications
+ * to their company's jobs.
+ *
+ * Résumés live in the private `resumes` bucket under "<user_id>/..." and
+ * are only ever handed out as short-lived signed URLs.
+ *
+ * Usage:
+ * ```typescript
+ * import { submitApplication, getMyApplications } from '$lib/server/jobs/applications';
+ *
+ * await submitApplication(locals.supabase, locals.user.id, job.id, input);
+ * const applications = await getMyApplications(locals.supabase, locals.user.id);
+ * ```
+ */
+
+import type { SupabaseClient, PostgrestError } from '@supabase/supabase-js';
+import type { Applicant, ApplicationStatus, JobApplication } from '$lib/types';
+import type {
+	Application,
+	ApplicationInsert,
+	ApplicationUpdate,
+	JobWithCompany
+} from '$lib/supabase/types';
+import { EMPLOYER_STATUSES, canWithdraw, parseScreeningQuestions } from '$lib/jobs/applications';
+import { normalizeJob } from './normalize';
+import { toRawJob } from './sources/supabase';
+
+// MARK: - Configuration
+
+const RESUME_BUCKET = 'resumes';
+
+/** How long résumé download links stay valid, in seconds */
+const RESUME_URL_TTL = 10 * 60;
+
+/** Most applications shown in the inbox at once */
+const MAX_INBOX_APPLICATIONS = 200;
+
+// MARK: - Errors
+
+/**
+ * An application read or write that failed, with the HTTP status to report.
+ */
+export class ApplicationError extends Error {
+	constructor(
+		message: string,
+		readonly status: number
+	) {
+		super(message);
+		this.name = 'ApplicationError';
+	}
+}
+
+/**
+ * Map a PostgREST error onto an ApplicationError.
+ */
+function toApplicationError(error: PostgrestError): ApplicationError {
+	switch (error.code) {
+		// unique_violation: one application per job and candidate
+		case '23505':
+			return new ApplicationError('You have already applied to this job', 409);
+		// foreign_key_violation / invalid_text_representation (bad uuid)
+		case '23503':
+		case '22P02':
+			return new ApplicationError('Job not found', 404);
+		// insufficient_privilege: RLS rejected the row (closed job, not Easy Apply, not your company)
+		case '42501':
+			return new ApplicationError('This job is not accepting applications here', 403);
+		default:
+			return new ApplicationError(error.message, 500);
+	}
+}
+
+// MARK: - Types
+
+export interface ApplicationInput {
+	name: string;
+	email: string;
+	phone: string;
+	coverLetter: string;
+	answers: Record<string, string>;
+	resume: File;
+}
+
+export interface InboxFilters {
+	jobId?: string | null;
+	status?: ApplicationStatus | null;
+}
+
+export interface ApplicantInbox {
+	/** Companies the user recruits for */
+	companies: { id: string; name: string; slug: string }[];
+	/** Jobs that have applications, for the job filter */
+	jobs: { id: string; title: string }[];
+	applicants: Applicant[];
+}
+
+type ApplicationWithJob = Application & {
+	job: JobWithCompany | null;
+	events: { status: ApplicationStatus; created_at: string }[] | null;
+};
+
+type InboxRow = Application & {
+	job: { id: string; title: string; company_id: string; screening_questions: unknown } | null;
+};
+
+// MARK: - Candidate
+
+/**
+ * The user's application to a job, if they have one.
+ */
+export async function getApplicationForJob(
+	supabase: SupabaseClient,
+	userId: string,
+	jobId: string
+): Promise<Pick<Application, 'id' | 'status' | 'created_at'> | null> {
+	const { data, error } = await supabase
+		.from('applications')
+		.select('id, status, created_at')
+		.eq('user_id', userId)
+		.eq('job_id', jobId)
+		.maybeSingle();
+
+	if (error) {
+		throw toApplicationError(error);
+	}
+
+	return data;
+}
+
+/**
+ * File extension for an uploaded résumé, from its name or content type.
+ */
+function resumeExtension(file: File): string {
+	const fromName = file.name.match(/\.(pdf|docx?)$/i)?.[1];
+	if (fromName) return `.${fromName.toLowerCase()}`;
+	return file.type === 'application/pdf' ? '.pdf' : file.type === 'application/msword' ? '.doc' : '.docx';
+}
+
+/**
+ * Upload the résumé and create the application. The résumé is removed
+ * again if the application can't be saved, so failed submissions don't
+ * leave orphaned files behind.
+ * Input must already be validated (see `$lib/jobs/applications`).
+ * @throws ApplicationError 409 when the user already applied
+ */
+export async function submitApplication(
+	supabase: SupabaseClient,
+	userId: string,
+	jobId: string,
+	input: ApplicationInput
+): Promise<string> {
+	const path = `${userId}/${crypto.randomUUID()}${resumeExtension(input.resume)}`;
+
+	const { error: uploadError } = await supabase.storage
+		.from(RESUME_BUCKET)
+		.upload(path, input.resume, { contentType: input.resume.type, upsert: false });
+
+	if (uploadError) {
+		console.error('[Jobs] Résumé upload failed:', uploadError.message);
+		throw new ApplicationError('Your résumé could not be uploaded. Please try again.', 500);
+	}
+
+	const application: ApplicationInsert = {
+		job_id: jobId,
+		user_id: userId,
+		name: input.name,
+		email: input.email,
+		phone: input.phone || null,
+		resume_path: path,
+		resume_filename: input.resume.name || `resume${resumeExtension(input.resume)}`,
+		cover_letter: input.coverLetter || null,
+		answers: input.answers
+	};
+
+	const { data, error } = await supabase.from('applications').insert(application).select('id').single();
+
+	if (error) {
+		await supabase.storage.from(RESUME_BUCKET).remove([path]);
+		throw toApplicationError(error);
+	}
+
+	return data.id;
+}
+
+/**
+ * The user's applications with their status history, newest first.
+ */
+export async function getMyApplications(supabase: SupabaseClient, userId: string): Promise<JobApplication[]> {
+	const { data, error } = await supabase
+		.from('applications')
+		.select(
+			`
+			*,
+			job:jobs(
+				*,
+				company:companies(*)
+			),
+			events:application_status_events(status, created_at)
+		`
+		)
+		.eq('user_id', userId)
+		.order('created_at', { ascending: false })
+		.overrideTypes<ApplicationWithJob[], { merge: false }>();
+
+	if (error) {
+		throw toApplicationError(error);
+	}
+
+	return (data ?? []).flatMap((row) =>
+		row.job
+			? [
+					{
+						id: row.id,
+						job: normalizeJob(toRawJob(row.job)),
+						status: row.status,
+						coverLetter: row.cover_letter ?? '',
+						resumeFilename: row.resume_filename,
+						appliedAt: row.created_at,
+						history: (row.events ?? [])
+							.map((event) => ({ status: event.status, at: event.created_at }))
+							.sort((a, b) => a.at.localeCompare(b.at))
+					}
+				]
+			: []
+	);
+}
+
+/**
+ * Withdraw one of the user's applications.
+ * @throws ApplicationError 404 when it isn't theirs, 409 when it is already closed
+ */
+export async function withdrawApplication(
+	supabase: SupabaseClient,
+	userId: string,
+	applicationId: string
+): Promise<void> {
+	const { data: current, error: readError } = await supabase
+		.from('applications')
+		.select('status')
+		.eq('id', applicationId)
+		.eq('user_id', userId)
+		.maybeSingle();
+
+	if (readError) throw toApplicationError(readError);
+	if (!current) throw new ApplicationError('Application not found', 404);
+	if (!canWithdraw(current.status)) {
+		throw new ApplicationError('This application is already closed', 409);
+	}
+
+	const changes: ApplicationUpdate = { status: 'withdrawn' };
+	const { error } = await supabase
+		.from('applications')
+		.update(changes)
+		.eq('id', applicationId)
+		.eq('user_id', userId);
+
+	if (error) {
+		throw toApplicationError(error);
+	}
+}
+
+// MARK: - Company
+
+/**
+ * Companies the user is a member of.
+ */
+export async function getMemberCompanies(
+	supabase: SupabaseClient,
+	userId: string
+): Promise<ApplicantInbox['companies']> {
+	const { data, error } = await supabase
+		.from('company_members')
+		.select('company:companies(id, name, slug)')
+		.eq('user_id', userId)
+		.overrideTypes<{ company: ApplicantInbox['companies'][number] | null }[], { merge: false }>();
+
+	if (error) {
+		throw toApplicationError(error);
+	}
+
+	return (data ?? []).flatMap((row) => row.company ?? []);
+}
+
+/**
+ * Applications to the jobs of every company the user recruits for,
+ * newest first, with signed résumé links.
+ * @returns null when the user is not a member of any company
+ */
+export async function getApplicantInbox(
+	supabase: SupabaseClient,
+	userId: string,
+	filters: InboxFilters = {}
+): Promise<ApplicantInbox | null> {
+	const companies = await getMemberCompanies(supabase, userId);
+	if (companies.length === 0) return null;
+
+	let request = supabase
+		.from('applications')
+		.select('*, job:jobs!inner(id, title, company_id, screening_questions)')
+		.in('job.company_id', companies.map((company) => company.id))
+		.order('created_at', { ascending: false })
+		.limit(MAX_INBOX_APPLICATIONS);
+
+	if (filters.jobId) request = request.eq('job_id', filters.jobId);
+	if (filters.status) request = request.eq('status', filters.status);
+
+	const { data, error } = await request.overrideTypes<InboxRow[], { merge: false }>();
+	if (error) {
+		throw toApplicationError(error);
+	}
+
+	const rows = (data ?? []).filter((row) => row.job);
+	const resumeUrls = await signResumeUrls(supabase, rows.map((row) => row.resume_path));
+
+	const jobs = new Map<string, string>();
+	for (const row of rows) jobs.set(row.job!.id, row.job!.title);
+
+	return {
+		companies,
+		jobs: [...jobs].map(([id, title]) => ({ id, title })).sort((a, b) => a.title.localeCompare(b.title)),
+		applicants: rows.map((row) => ({
+			id: row.id,
+			jobId: row.job_id,
+			jobTitle: row.job!.title,
+			name: row.name,
+			email: row.email,
+			phone: row.phone ?? '',
+			status: row.status,
+			coverLetter: row.cover_letter ?? '',
+			answers: row.answers ?? {},
+			questions: parseScreeningQuestions(row.job!.screening_questions),
+			resumeFilename: row.resume_filename,
+			resumeUrl: resumeUrls.get(row.resume_path) ?? null,
+			appliedAt: row.created_at
+		}))
+	};
+}
+
+/**
+ * Signed download links for résumés, keyed by path.
+ * A signing failure only loses the links, not the inbox.
+ */
+async function signResumeUrls(supabase: SupabaseClient, paths: string[]): Promise<Map<string, string>> {
+	if (paths.length === 0) return new Map();
+
+	const { data, error } = await supabase.storage.from(RESUME_BUCKET).createSignedUrls(paths, RESUME_URL_TTL);
+	if (error) {
+		console.error('[Jobs] Failed to sign résumé URLs:', error.message);
+		return new Map();
+	}
+
+	return new Map(
+		(data ?? []).flatMap((entry) => (entry.path && entry.signedUrl ? [[entry.path, entry.signedUrl] as const] : []))
+	);
+}
+
+/**
+ * Move an application to another stage of the company's pipeline.
+ * @throws ApplicationError 404 when the user can't manage it
+ */
+export async function updateApplicationStatus(
+	supabase: SupabaseClient,
+	applicationId: string,
+	status: ApplicationStatus
+): Promise<void> {
+	if (!EMPLOYER_STATUSES.includes(status)) {
+		throw new ApplicationError('Unknown status', 400);
+	}
+
+	const changes: ApplicationUpdate = { status };
+	const { data, error } = await supabase
+		.from('applications')
+		.update(changes)
+		.eq('id', applicationId)
+		.neq('status', 'withdrawn')
+		.select('id');
+
+	if (error) {
+		throw toApplicationError(error);
+	}
+	if (!data || data.length === 0) {
+		throw new ApplicationError('Application not found or withdrawn', 404);
+	}
+}
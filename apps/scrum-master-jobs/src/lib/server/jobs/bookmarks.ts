@@ -0,0 +1,253 @@
+/**
+ * Saved Jobs
+ * ==========
+ *
+ * Reads and writes the `bookmarks` table for the signed-in user.
+ * RLS scopes every query to `auth.uid()`; the explicit `user_id` filters
+ * keep the intent visible and let Postgres use the per-user index.
+ *
+ * Also manages the secret token of the user's iCal feed of saved-job
+ * deadlines (`calendar_feeds`), and reads that feed for a token.
+ *
+ * Usage:
+ * ```typescript
+ * import { saveJob, getSavedJobs } from '$lib/server/jobs/bookmarks';
+ *
+ * await saveJob(locals.supabase, locals.user.id, jobId);
+ * const saved = await getSavedJobs(locals.supabase, locals.user.id);
+ * ```
+ */
+
+import type { SupabaseClient, PostgrestError } from '@supabase/supabase-js';
+import type { Job, SavedJob } from '$lib/types';
+import type { BookmarkInsert, CalendarFeed, JobWithCompany } from '$lib/supabase/types';
+import { MAX_BOOKMARK_NOTES_LENGTH } from '$lib/jobs/bookmarks';
+import { normalizeJob } from './normalize';
+import { toRawJob } from './sources/supabase';
+
+// MARK: - Errors
+
+/**
+ * A bookmark write that failed, with the HTTP status to report.
+ */
+export class BookmarkError extends Error {
+	constructor(
+		message: string,
+		readonly status: number
+	) {
+		super(message);
+		this.name = 'BookmarkError';
+	}
+}
+
+/**
+ * Map a PostgREST error onto a BookmarkError.
+ * Unknown or malformed job ids surface as 404 rather than 500.
+ */
+function toBookmarkError(error: PostgrestError): BookmarkError {
+	// 23503: foreign_key_violation, 22P02: invalid_text_representation (bad uuid)
+	if (error.code === '23503' || error.code === '22P02') {
+		return new BookmarkError('Job not found', 404);
+	}
+	return new BookmarkError(error.message, 500);
+}
+
+// MARK: - Types
+
+/** A bookmark with its job, as selected by `getSavedJobs` */
+interface SavedJobRow {
+	notes: string | null;
+	created_at: string;
+	job: JobWithCompany | null;
+}
+
+// MARK: - Reads
+
+/**
+ * Ids of every job the user has saved.
+ * Used to render bookmark state on job lists.
+ */
+export async function getSavedJobIds(supabase: SupabaseClient, userId: string): Promise<string[]> {
+	const { data, error } = await supabase.from('bookmarks').select('job_id').eq('user_id', userId);
+
+	if (error) {
+		throw toBookmarkError(error);
+	}
+
+	return (data ?? []).map((row: { job_id: string }) => row.job_id);
+}
+
+/**
+ * The user's saved jobs with notes, newest bookmark first.
+ * Jobs that have since been deactivated are hidden by the jobs RLS
+ * policy, so their bookmarks are skipped.
+ */
+export async function getSavedJobs(supabase: SupabaseClient, userId: string): Promise<SavedJob[]> {
+	const { data, error } = await supabase
+		.from('bookmarks')
+		.select(
+			`
+			notes,
+			created_at,
+			job:jobs(
+				*,
+				company:companies(*)
+			)
+		`
+		)
+		.eq('user_id', userId)
+		.order('created_at', { ascending: false })
+		.overrideTypes<SavedJobRow[], { merge: false }>();
+
+	if (error) {
+		throw toBookmarkError(error);
+	}
+
+	const rows = data ?? [];
+
+	return rows.flatMap((row) =>
+		row.job
+			? [{ job: normalizeJob(toRawJob(row.job)), notes: row.notes ?? '', savedAt: row.created_at }]
+			: []
+	);
+}
+
+// MARK: - Writes
+
+/**
+ * Bookmark a job. Saving an already-saved job is a no-op.
+ */
+export async function saveJob(supabase: SupabaseClient, userId: string, jobId: string): Promise<void> {
+	const bookmark: BookmarkInsert = { user_id: userId, job_id: jobId, notes: null };
+
+	const { error } = await supabase
+		.from('bookmarks')
+		.upsert(bookmark, { onConflict: 'user_id,job_id', ignoreDuplicates: true });
+
+	if (error) {
+		throw toBookmarkError(error);
+	}
+}
+
+/**
+ * Remove a bookmark (and its notes). Removing a missing bookmark is a no-op.
+ */
+export async function unsaveJob(supabase: SupabaseClient, userId: string, jobId: string): Promise<void> {
+	const { error } = await supabase
+		.from('bookmarks')
+		.delete()
+		.eq('user_id', userId)
+		.eq('job_id', jobId);
+
+	if (error) {
+		throw toBookmarkError(error);
+	}
+}
+
+/**
+ * Replace the private notes on a bookmark. Blank notes are stored as null.
+ * @throws BookmarkError 404 when the job is not saved
+ */
+export async function updateBookmarkNotes(
+	supabase: SupabaseClient,
+	userId: string,
+	jobId: string,
+	notes: string
+): Promise<void> {
+	if (notes.length > MAX_BOOKMARK_NOTES_LENGTH) {
+		throw new BookmarkError(`Notes must be ${MAX_BOOKMARK_NOTES_LENGTH} characters or fewer`, 400);
+	}
+
+	const { data, error } = await supabase
+		.from('bookmarks')
+		.update({ notes: notes.trim() || null })
+		.eq('user_id', userId)
+		.eq('job_id', jobId)
+		.select('id');
+
+	if (error) {
+		throw toBookmarkError(error);
+	}
+	if (!data || data.length === 0) {
+		throw new BookmarkError('Job is not saved', 404);
+	}
+}
+
+// MARK: - Calendar Feed
+
+/**
+ * Token of the user's deadline calendar feed, or null before they create one.
+ */
+export async function getCalendarToken(supabase: SupabaseClient, userId: string): Promise<string | null> {
+	const { data, error } = await supabase.from('calendar_feeds').select('token').eq('user_id', userId).maybeSingle();
+
+	if (error) {
+		throw toBookmarkError(error);
+	}
+
+	return (data as Pick<CalendarFeed, 'token'> | null)?.token ?? null;
+}
+
+/**
+ * Create the user's calendar feed token, or replace it (revoking the old
+ * feed URL).
+ * @returns The new token
+ */
+export async function resetCalendarToken(supabase: SupabaseClient, userId: string): Promise<string> {
+	const { data, error } = await supabase
+		.from('calendar_feeds')
+		.upsert({ user_id: userId, token: crypto.randomUUID() }, { onConflict: 'user_id' })
+		.select('token')
+		.single();
+
+	if (error) {
+		throw toBookmarkError(error);
+	}
+
+	return (data as Pick<CalendarFeed, 'token'>).token;
+}
+
+/**
+ * Saved jobs with a closing date, for the calendar feed of a token.
+ * Calendar apps fetch without a session, so this takes a service-role
+ * client and applies the visibility rules RLS would: closed and
+ * unpublished jobs are left out.
+ * @returns The jobs, or null when no feed has this token
+ */
+export async function getCalendarDeadlines(serviceClient: SupabaseClient, token: string): Promise<Job[] | null> {
+	const { data: feed, error: feedError } = await serviceClient
+		.from('calendar_feeds')
+		.select('user_id')
+		.eq('token', token)
+		.maybeSingle();
+
+	if (feedError) {
+		throw toBookmarkError(feedError);
+	}
+	if (!feed) return null;
+
+	const { data, error } = await serviceClient
+		.from('bookmarks')
+		.select(
+			`
+			job:jobs(
+				*,
+				company:companies(*)
+			)
+		`
+		)
+		.eq('user_id', (feed as Pick<CalendarFeed, 'user_id'>).user_id)
+		.order('created_at', { ascending: false })
+		.overrideTypes<{ job: JobWithCompany | null }[], { merge: false }>();
+
+	if (error) {
+		throw toBookmarkError(error);
+	}
+
+	const rows = data ?? [];
+	return rows.flatMap(({ job }) =>
+		job && job.is_active && job.review_status === 'approved' && job.expires_at
+			? [normalizeJob(toRawJob(job))]
+			: []
+	);
+}
@@ -0,0 +1,183 @@
+/**
+ * Company Directory Data
+ * ======================
+ *
+ * Loads companies for /jobs/companies and a single company with its open
+ * roles for /jobs/companies/[slug]. Reads the `companies` table (with
+ * each company's active jobs) and falls back to the companies in the mock
+ * listings, like the /jobs pipeline, when the table is unreachable or
+ * empty.
+ *
+ * Salary ranges are converted to the rate table's base currency so
+ * companies can be compared.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Job, Salary } from '$lib/types';
+import type { Company as CompanyRow, JobWithCompany } from '$lib/supabase/types';
+import { getCompanies, jobs as mockJobs } from '$lib/data/jobs';
+import { companySalaryRange, type CompanyListing } from '$lib/jobs/companies';
+import type { RateTable } from '$lib/jobs/currency';
+import { normalizeCompany, normalizeJob } from './normalize';
+import { toRawCompany, toRawJob } from './sources/supabase';
+
+// MARK: - Configuration
+
+/** Most companies read for the directory */
+const MAX_COMPANIES = 1000;
+
+// MARK: - Types
+
+export interface CompanyDirectoryResult {
+	companies: CompanyListing[];
+	/** Which data set answered ("supabase" or "mock") */
+	source: 'supabase' | 'mock';
+}
+
+export interface CompanyProfile {
+	listing: CompanyListing;
+	/** Open roles, newest first */
+	jobs: Job[];
+	source: 'supabase' | 'mock';
+}
+
+type CompanyJobRow = Pick<
+	JobWithCompany,
+	'salary_min' | 'salary_max' | 'salary_currency' | 'salary_period' | 'is_active'
+>;
+
+interface CompanyWithJobsRow extends CompanyRow {
+	jobs: CompanyJobRow[] | null;
+}
+
+// MARK: - Mapping
+
+/**
+ * Salary of a `jobs` row, filling a missing bound from the other one.
+ */
+function rowSalary(job: CompanyJobRow): Salary | null {
+	const min = job.salary_min ?? job.salary_max;
+	const max = job.salary_max ?? job.salary_min;
+	return min !== null && max !== null
+		? { min, max, currency: job.salary_currency ?? 'USD', period: job.salary_period ?? 'year' }
+		: null;
+}
+
+/**
+ * Directory entry for a company and its open roles' salaries.
+ */
+function toListing(row: CompanyRow, salaries: Salary[], openRoles: number, table: RateTable): CompanyListing {
+	const company = normalizeCompany(toRawCompany(row));
+
+	return {
+		company: { ...company, slug: company.slug! },
+		openRoles,
+		salaryRange: companySalaryRange(salaries, table.base, table)
+	};
+}
+
+function mockListing(jobs: Job[], table: RateTable): CompanyListing {
+	const company = jobs[0].company;
+
+	return {
+		company: { ...company, slug: company.slug! },
+		openRoles: jobs.length,
+		salaryRange: companySalaryRange(jobs.flatMap((job) => job.salary ?? []), table.base, table)
+	};
+}
+
+/** Mock jobs grouped by company slug */
+function mockJobsBySlug(): Map<string, Job[]> {
+	const bySlug = new Map<string, Job[]>();
+	for (const job of mockJobs) {
+		const slug = job.company.slug!;
+		bySlug.set(slug, [...(bySlug.get(slug) ?? []), job]);
+	}
+	return bySlug;
+}
+
+function newestFirst(a: Job, b: Job): number {
+	return b.postedAt.localeCompare(a.postedAt);
+}
+
+// MARK: - Directory
+
+function mockDirectory(table: RateTable): CompanyListing[] {
+	const bySlug = mockJobsBySlug();
+	return getCompanies().map((company) => mockListing(bySlug.get(company.slug!) ?? [], table));
+}
+
+/**
+ * Every company, alphabetically, with its open role count and salary range.
+ * Filtering happens on the page (see `matchesCompanyQuery`) because the
+ * size buckets are derived from free-text headcounts.
+ */
+export async function loadCompanies(supabase: SupabaseClient, table: RateTable): Promise<CompanyDirectoryResult> {
+	const { data, error } = await supabase
+		.from('companies')
+		.select('*, jobs(salary_min, salary_max, salary_currency, salary_period, is_active)')
+		.order('name')
+		.limit(MAX_COMPANIES)
+		.overrideTypes<CompanyWithJobsRow[], { merge: false }>();
+
+	if (error) {
+		console.error('[Jobs] Companies query failed, using mock data:', error.message);
+		return { companies: mockDirectory(table), source: 'mock' };
+	}
+
+	const rows = data ?? [];
+	if (rows.length === 0) {
+		return { companies: mockDirectory(table), source: 'mock' };
+	}
+
+	return {
+		companies: rows.map((row) => {
+			const open = (row.jobs ?? []).filter((job) => job.is_active);
+			return toListing(row, open.flatMap((job) => rowSalary(job) ?? []), open.length, table);
+		}),
+		source: 'supabase'
+	};
+}
+
+// MARK: - Profile
+
+/**
+ * A company and its open roles by slug.
+ * Slugs missing from the table are looked up in the mock listings, so
+ * directory links keep working while the table is empty.
+ * @returns The profile, or null when no company has the slug
+ */
+export async function loadCompanyProfile(
+	supabase: SupabaseClient,
+	slug: string,
+	table: RateTable
+): Promise<CompanyProfile | null> {
+	const { data: row, error } = await supabase.from('companies').select('*').eq('slug', slug).maybeSingle();
+
+	if (error) {
+		console.error('[Jobs] Company query failed, using mock data:', error.message);
+	} else if (row) {
+		const { data, error: jobsError } = await supabase
+			.from('jobs')
+			.select('*, company:companies(*)')
+			.eq('company_id', (row as CompanyRow).id)
+			.eq('is_active', true)
+			.order('posted_at', { ascending: false });
+
+		if (jobsError) {
+			console.error('[Jobs] Failed to load company jobs:', jobsError.message);
+		}
+
+		const jobs = ((data ?? []) as JobWithCompany[]).map((job) => normalizeJob(toRawJob(job)));
+		return {
+			listing: toListing(row as CompanyRow, jobs.flatMap((job) => job.salary ?? []), jobs.length, table),
+			jobs,
+			source: 'supabase'
+		};
+	}
+
+	const jobs = mockJobsBySlug().get(slug);
+	if (!jobs) return null;
+
+	return { listing: mockListing(jobs, table), jobs: [...jobs].sort(newestFirst), source: 'mock' };
+}
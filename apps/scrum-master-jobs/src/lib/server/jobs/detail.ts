@@ -0,0 +1,90 @@
+/**
+ * Job Detail Data
+ * ===============
+ *
+ * Loads a single job for its /jobs/[slug] page. Reads the `jobs` table by
+ * slug (005_job_slugs.sql makes slugs unique across the board) and falls
+ * back to the mock listings, which have no slugs and are addressed by id.
+ * Also loads a handful of jobs by id for the /jobs/compare page.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Job } from '$lib/types';
+import type { JobWithCompany } from '$lib/supabase/types';
+import { jobs as mockJobs } from '$lib/data/jobs';
+import { isExpired } from '$lib/jobs/expiry';
+import { normalizeJob } from './normalize';
+import { notExpiredFilter, toRawJob } from './sources/supabase';
+
+// MARK: - Types
+
+export interface JobDetailResult {
+	job: Job;
+	/** Which data set answered ("supabase" or "mock") */
+	source: 'supabase' | 'mock';
+}
+
+// MARK: - Loading
+
+/** Job ids in the table are UUIDs; anything else can only be a slug */
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * An active job by slug, or by id for links from sources without slugs.
+ * @returns The job, or null when nothing active matches
+ */
+export async function loadJobBySlug(supabase: SupabaseClient, slug: string): Promise<JobDetailResult | null> {
+	const column = UUID_PATTERN.test(slug) ? 'id' : 'slug';
+
+	const { data, error } = await supabase
+		.from('jobs')
+		.select('*, company:companies(*)')
+		.eq(column, slug)
+		.eq('is_active', true)
+		.or(notExpiredFilter())
+		.maybeSingle();
+
+	if (error) {
+		console.error('[Jobs] Job query failed, using mock data:', error.message);
+	} else if (data) {
+		return { job: normalizeJob(toRawJob(data as JobWithCompany)), source: 'supabase' };
+	}
+
+	const job = mockJobs.find((mock) => (mock.slug || mock.id) === slug && !isExpired(mock));
+	return job ? { job, source: 'mock' } : null;
+}
+
+/**
+ * Active jobs by id, in the order the ids were given. Ids the table
+ * doesn't have are looked up in the mock listings; ids that match
+ * nothing active are left out.
+ */
+export async function loadJobsByIds(supabase: SupabaseClient, ids: string[]): Promise<Job[]> {
+	const found = new Map<string, Job>();
+	const uuids = ids.filter((id) => UUID_PATTERN.test(id));
+
+	if (uuids.length > 0) {
+		const { data, error } = await supabase
+			.from('jobs')
+			.select('*, company:companies(*)')
+			.in('id', uuids)
+			.eq('is_active', true)
+			.or(notExpiredFilter());
+
+		if (error) {
+			console.error('[Jobs] Job query failed, using mock data:', error.message);
+		} else {
+			for (const row of (data ?? []) as JobWithCompany[]) {
+				found.set(row.id, normalizeJob(toRawJob(row)));
+			}
+		}
+	}
+
+	for (const id of ids) {
+		if (found.has(id)) continue;
+		const job = mockJobs.find((mock) => mock.id === id && !isExpired(mock));
+		if (job) found.set(id, job);
+	}
+
+	return ids.flatMap((id) => found.get(id) ?? []);
+}
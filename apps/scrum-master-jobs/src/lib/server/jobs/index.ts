@@ -0,0 +1,84 @@
+/**
+ * Job Sources Module
+ * ==================
+ *
+ * Re-exports the job source pipeline from a single entry point.
+ *
+ * Usage:
+ * ```typescript
+ * import { loadJobsFromSources } from '$lib/server/jobs';
+ *
+ * const { jobs, total, source, attempts } = await loadJobsFromSources({
+ *   fetch,
+ *   supabase: locals.supabase,
+ *   query: parseJobQuery(url.searchParams)
+ * });
+ * ```
+ */
+
+export { loadJobsFromSources } from './pipeline';
+export {
+	registerJobSource,
+	getJobSource,
+	getJobSourceConfig,
+	resolveSourceSettings,
+	DEFAULT_SOURCE_SETTINGS
+} from './registry';
+export {
+	normalizeJob,
+	normalizeCompany,
+	parseLocationType,
+	parseEmploymentType,
+	parseExperienceLevel
+} from './normalize';
+export {
+	getSavedJobIds,
+	getSavedJobs,
+	saveJob,
+	unsaveJob,
+	updateBookmarkNotes,
+	getCalendarToken,
+	resetCalendarToken,
+	getCalendarDeadlines,
+	BookmarkError
+} from './bookmarks';
+export { loadCompanies, loadCompanyProfile } from './companies';
+export { loadJobBySlug, loadJobsByIds } from './detail';
+export { getProfileSkills, loadRecommendedJobs } from './recommendations';
+export { trackJobEvents, recordJobEvents, getJobEventCounts, isBotRequest } from './analytics';
+export {
+	submitJobReport,
+	getModerationQueue,
+	moderateJob,
+	getModerationLog,
+	getReportThreshold,
+	setReportThreshold,
+	ReportError
+} from './reports';
+export {
+	getApplicationForJob,
+	submitApplication,
+	getMyApplications,
+	withdrawApplication,
+	getMemberCompanies,
+	getApplicantInbox,
+	updateApplicationStatus,
+	ApplicationError
+} from './applications';
+export {
+	getPostingCompanies,
+	createJobPost,
+	getJobPost,
+	updateJobPost,
+	deleteJobPost,
+	getCompanyJobPosts,
+	repostJobPost,
+	getReviewQueue,
+	approveJobPost,
+	requestJobPostChanges,
+	JobPostError
+} from './posting';
+export type { PostingCompany } from './posting';
+export type { RecommendedJobsResult } from './recommendations';
+export type { TrackingContext } from './analytics';
+export type * from './types';
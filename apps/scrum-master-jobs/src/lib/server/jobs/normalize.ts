@@ -0,0 +1,190 @@
+/**
+ * Job Normalizer
+ * ==============
+ *
+ * Turns a source-specific `RawJob` into the frontend `Job` type.
+ * This is the only place that decides defaults for missing fields and
+ * maps free-form enum strings onto `LocationType`, `EmploymentType`
+ * and `ExperienceLevel`.
+ */
+
+import type {
+	Company,
+	Job,
+	LocationType,
+	EmploymentType,
+	ExperienceLevel,
+	RemoteEligibility
+} from '$lib/types';
+import { companySlug } from '$lib/jobs/companies';
+import { isRemoteRegion } from '$lib/jobs/remote';
+import { parseScreeningQuestions } from '$lib/jobs/applications';
+import type { RawCompany, RawJob } from './types';
+
+// MARK: - Defaults
+
+/** Defaults mirror the column defaults in 001_initial_schema.sql */
+const DEFAULT_LOCATION_TYPE: LocationType = 'Remote';
+const DEFAULT_EMPLOYMENT_TYPE: EmploymentType = 'Full-time';
+const DEFAULT_EXPERIENCE_LEVEL: ExperienceLevel = 'Mid';
+const DEFAULT_CURRENCY = 'USD';
+const PLACEHOLDER_LOGO = '/placeholder-company.png';
+
+// MARK: - Enum Coercion
+
+/**
+ * Lowercase and strip separators so "on_site", "On-Site" and "onsite"
+ * all compare equal.
+ */
+function enumKey(value: string): string {
+	return value.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+const LOCATION_TYPES: Record<string, LocationType> = {
+	remote: 'Remote',
+	hybrid: 'Hybrid',
+	onsite: 'On-site',
+	office: 'On-site',
+	inoffice: 'On-site'
+};
+
+const EMPLOYMENT_TYPES: Record<string, EmploymentType> = {
+	fulltime: 'Full-time',
+	permanent: 'Full-time',
+	parttime: 'Part-time',
+	contract: 'Contract',
+	contractor: 'Contract',
+	freelance: 'Contract',
+	temporary: 'Contract',
+	internship: 'Internship',
+	intern: 'Internship'
+};
+
+const EXPERIENCE_LEVELS: Record<string, ExperienceLevel> = {
+	entry: 'Entry',
+	junior: 'Entry',
+	mid: 'Mid',
+	midlevel: 'Mid',
+	intermediate: 'Mid',
+	senior: 'Senior',
+	lead: 'Lead',
+	staff: 'Lead',
+	principal: 'Lead',
+	executive: 'Executive',
+	director: 'Executive'
+};
+
+/**
+ * Map a free-form location type onto `LocationType`.
+ * @returns The matching value, or null when the string is unrecognised
+ */
+export function parseLocationType(value: string | null | undefined): LocationType | null {
+	return value ? (LOCATION_TYPES[enumKey(value)] ?? null) : null;
+}
+
+/**
+ * Map a free-form employment type onto `EmploymentType`.
+ * @returns The matching value, or null when the string is unrecognised
+ */
+export function parseEmploymentType(value: string | null | undefined): EmploymentType | null {
+	return value ? (EMPLOYMENT_TYPES[enumKey(value)] ?? null) : null;
+}
+
+/**
+ * Map a free-form experience level onto `ExperienceLevel`.
+ * @returns The matching value, or null when the string is unrecognised
+ */
+export function parseExperienceLevel(value: string | null | undefined): ExperienceLevel | null {
+	return value ? (EXPERIENCE_LEVELS[enumKey(value)] ?? null) : null;
+}
+
+// MARK: - Normalizer
+
+/**
+ * Build a frontend `Company` from a raw source record.
+ * Sources without slugs get one derived from the company name.
+ */
+export function normalizeCompany(company: RawCompany): Company {
+	const name = company.name ?? 'Unknown Company';
+
+	return {
+		name,
+		slug: company.slug || companySlug(name),
+		logo: company.logoUrl ?? PLACEHOLDER_LOGO,
+		location: company.location ?? 'Remote',
+		industry: company.industry ?? 'Technology',
+		website: company.website ?? '',
+		description: company.description ?? '',
+		employeeCount: company.employeeCount ?? undefined,
+		foundedYear: company.foundedYear ?? undefined,
+		isVerified: company.isVerified ?? false
+	};
+}
+
+/**
+ * Remote eligibility of a raw record. Unknown region codes, malformed
+ * country codes and invalid overlap windows are dropped; a remote job
+ * with nothing left is open anywhere (no `remote`).
+ */
+export function normalizeRemote(raw: RawJob, locationType: LocationType): RemoteEligibility | undefined {
+	if (locationType !== 'Remote') return undefined;
+
+	const regions = (raw.remoteRegions ?? []).filter(isRemoteRegion);
+	const countries = (raw.remoteCountries ?? [])
+		.map((code) => code.trim().toUpperCase())
+		.filter((code) => /^[A-Z]{2}$/.test(code));
+	const start = raw.remoteOverlapStart;
+	const end = raw.remoteOverlapEnd;
+	const overlap =
+		typeof start === 'number' && typeof end === 'number' && start >= 0 && start < 24 && end > start && end <= start + 24
+			? { startHour: start, endHour: end }
+			: undefined;
+
+	if (regions.length === 0 && countries.length === 0 && !overlap) return undefined;
+	return { regions, countries, ...(overlap ? { overlap } : {}) };
+}
+
+/**
+ * Build a frontend `Job` from a raw source record.
+ * Missing fields fall back to the same defaults the database uses.
+ */
+export function normalizeJob(raw: RawJob): Job {
+	const salaryMin = raw.salaryMin ?? raw.salaryMax ?? null;
+	const salaryMax = raw.salaryMax ?? raw.salaryMin ?? null;
+	const locationType = parseLocationType(raw.locationType) ?? DEFAULT_LOCATION_TYPE;
+
+	return {
+		id: raw.id,
+		slug: raw.slug ?? undefined,
+		title: raw.title,
+		description: raw.description ?? '',
+		requirements: raw.requirements ?? [],
+		benefits: raw.benefits ?? [],
+		skills: raw.skills ?? [],
+		company: normalizeCompany(raw.company ?? {}),
+		location: raw.location ?? 'Remote',
+		locationType,
+		employmentType: parseEmploymentType(raw.employmentType) ?? DEFAULT_EMPLOYMENT_TYPE,
+		experienceLevel: parseExperienceLevel(raw.experienceLevel) ?? DEFAULT_EXPERIENCE_LEVEL,
+		salary:
+			salaryMin !== null && salaryMax !== null
+				? {
+						min: salaryMin,
+						max: salaryMax,
+						currency: raw.salaryCurrency ?? DEFAULT_CURRENCY,
+						period: raw.salaryPeriod === 'hour' ? 'hour' : 'year'
+					}
+				: undefined,
+		remote: normalizeRemote(raw, locationType),
+		postedAt: raw.postedAt ?? new Date().toISOString(),
+		originalPostedAt: raw.originalPostedAt ?? undefined,
+		expiresAt: raw.expiresAt ?? undefined,
+		applicants: raw.applicants ?? undefined,
+		applyUrl: raw.applyUrl ?? '',
+		isEasyApply: raw.isEasyApply ?? false,
+		isFeatured: raw.isFeatured ?? false,
+		source: raw.source ?? undefined,
+		screeningQuestions: parseScreeningQuestions(raw.screeningQuestions),
+		highlight: raw.highlight ?? undefined
+	};
+}
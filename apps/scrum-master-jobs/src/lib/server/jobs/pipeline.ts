@@ -0,0 +1,208 @@
+/**
+ * Job Source Pipeline
+ * ===================
+ *
+ * Walks the configured sources in order and returns one page of jobs from
+ * the first source that can serve the query. Filtering and pagination
+ * happen at the source, not after the fact. Every source gets its own timeout, and a source that
+ * keeps failing is skipped for a cooldown period instead of slowing
+ * down every request.
+ *
+ * Health is tracked in memory per server instance, which is enough to
+ * stop a dead upstream from adding its full timeout to every page load.
+ *
+ * Near-duplicate listings on a page (one opening from two feeds, or a
+ * board posting and its ATS copy) are collapsed into one job with
+ * `alsoPostedOn`. Duplicates that land on different pages are not
+ * detected, so the total stays the source's count of listings and is an
+ * upper bound on distinct openings; pages label it as approximate when
+ * they show collapsed jobs.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+	JobSourceAttempt,
+	JobSourceConfig,
+	JobSourceResult,
+	JobSourceSettings
+} from './types';
+import { EMPTY_JOB_QUERY, hasJobFilters, type JobQuery } from '$lib/jobs/query';
+import { highlightJob } from '$lib/jobs/search';
+import { collapseDuplicateJobs } from '$lib/jobs/dedupe';
+import { normalizeJob } from './normalize';
+import { getJobSource, getJobSourceConfig, resolveSourceSettings } from './registry';
+
+// MARK: - Health Tracking
+
+interface SourceHealth {
+	consecutiveFailures: number;
+	/** Epoch ms until which the source is skipped */
+	cooldownUntil: number;
+}
+
+const health = new Map<string, SourceHealth>();
+
+function getHealth(sourceId: string): SourceHealth {
+	let entry = health.get(sourceId);
+	if (!entry) {
+		entry = { consecutiveFailures: 0, cooldownUntil: 0 };
+		health.set(sourceId, entry);
+	}
+	return entry;
+}
+
+function recordSuccess(sourceId: string): void {
+	const entry = getHealth(sourceId);
+	entry.consecutiveFailures = 0;
+	entry.cooldownUntil = 0;
+}
+
+function recordFailure(sourceId: string, settings: JobSourceSettings): void {
+	const entry = getHealth(sourceId);
+	entry.consecutiveFailures += 1;
+	if (entry.consecutiveFailures >= settings.failureThreshold) {
+		entry.cooldownUntil = Date.now() + settings.cooldownMs;
+	}
+}
+
+// MARK: - Timeout
+
+class SourceTimeoutError extends Error {
+	constructor(timeoutMs: number) {
+		super(`Timed out after ${timeoutMs}ms`);
+		this.name = 'SourceTimeoutError';
+	}
+}
+
+/**
+ * Run `task` with an AbortSignal that fires after `timeoutMs`.
+ * Rejects with SourceTimeoutError even if the task ignores the signal.
+ */
+async function withTimeout<T>(
+	timeoutMs: number,
+	task: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+	const controller = new AbortController();
+	let timer: ReturnType<typeof setTimeout> | undefined;
+
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => {
+			controller.abort();
+			reject(new SourceTimeoutError(timeoutMs));
+		}, timeoutMs);
+	});
+
+	try {
+		return await Promise.race([task(controller.signal), timeout]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+// MARK: - Pipeline
+
+interface PipelineOptions {
+	fetch: typeof fetch;
+	supabase: SupabaseClient;
+	/** Filters and page to load (defaults to the unfiltered first page) */
+	query?: JobQuery;
+	config?: JobSourceConfig;
+}
+
+/**
+ * Load one page of jobs from the first healthy source that can serve the query.
+ *
+ * @returns Normalized jobs with pagination totals, the id of the source
+ *          that supplied them, and one attempt record per source considered
+ */
+export async function loadJobsFromSources({
+	fetch,
+	supabase,
+	query = EMPTY_JOB_QUERY,
+	config = getJobSourceConfig()
+}: PipelineOptions): Promise<JobSourceResult> {
+	const attempts: JobSourceAttempt[] = [];
+	const filtered = hasJobFilters(query);
+	const pageInfo = (total: number) => ({
+		total,
+		page: query.page,
+		perPage: query.perPage,
+		totalPages: Math.ceil(total / query.perPage)
+	});
+
+	for (const sourceId of config.order) {
+		const source = getJobSource(sourceId);
+		const settings = resolveSourceSettings(config, sourceId);
+
+		if (!source) {
+			attempts.push({ source: sourceId, status: 'unknown', count: 0, durationMs: 0, reason: 'Not registered' });
+			continue;
+		}
+
+		if (!settings.enabled) {
+			attempts.push({ source: sourceId, status: 'disabled', count: 0, durationMs: 0, reason: 'Disabled in config' });
+			continue;
+		}
+
+		const { cooldownUntil } = getHealth(sourceId);
+		if (cooldownUntil > Date.now()) {
+			attempts.push({
+				source: sourceId,
+				status: 'unhealthy',
+				count: 0,
+				durationMs: 0,
+				reason: `Cooling down for ${Math.ceil((cooldownUntil - Date.now()) / 1000)}s after repeated failures`
+			});
+			continue;
+		}
+
+		const unsupportedReason = source.unsupported?.(query);
+		if (unsupportedReason) {
+			attempts.push({ source: sourceId, status: 'unsupported', count: 0, durationMs: 0, reason: unsupportedReason });
+			continue;
+		}
+
+		const startedAt = Date.now();
+
+		try {
+			const { jobs: rawJobs, total } = await withTimeout(settings.timeoutMs, (signal) =>
+				source.fetchJobs({ fetch, supabase, signal, query })
+			);
+			const durationMs = Date.now() - startedAt;
+
+			// An empty unfiltered board means the source has no data yet;
+			// an empty filtered result is a genuine "no matches".
+			if (total === 0 && !filtered && !settings.acceptEmpty) {
+				attempts.push({ source: sourceId, status: 'empty', count: 0, durationMs, reason: 'Returned no jobs' });
+				continue;
+			}
+
+			recordSuccess(sourceId);
+			attempts.push({ source: sourceId, status: 'ok', count: total, durationMs });
+
+			let jobs = rawJobs.map(normalizeJob);
+			if (query.q) {
+				// Sources that rank but don't highlight get app-side highlights
+				jobs = jobs.map((job) => (job.highlight ? job : { ...job, highlight: highlightJob(job, query.q) }));
+			}
+
+			return {
+				jobs: collapseDuplicateJobs(jobs),
+				// Counts listings; shrinking it by this page's duplicates would skew every other page
+				...pageInfo(total),
+				source: sourceId,
+				attempts
+			};
+		} catch (err) {
+			const durationMs = Date.now() - startedAt;
+			const timedOut = err instanceof SourceTimeoutError;
+			const reason = err instanceof Error ? err.message : String(err);
+
+			recordFailure(sourceId, settings);
+			attempts.push({ source: sourceId, status: timedOut ? 'timeout' : 'error', count: 0, durationMs, reason });
+			console.error(`[Jobs] ${source.label} failed, falling back:`, reason);
+		}
+	}
+
+	return { jobs: [], ...pageInfo(0), source: null, attempts };
+}
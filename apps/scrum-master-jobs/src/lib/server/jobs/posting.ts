@@ -0,0 +1,383 @@
+/**
+ * Employer Job Postings
+ * =====================
+ *
+ * Writes and reviews postings from the employer portal. Company members
+ * save drafts and submit them for review; admins approve them or send
+ * them back with a note. Every query runs with the signed-in user's
+ * client, so RLS and the `manage_job_review_state()` trigger
+ * (007_job_posting.sql) enforce who may do what:
+ * - members only write their own company's unpublished postings
+ * - only admins can approve, which publishes the job
+ *
+ * Usage:
+ * ```typescript
+ * import { createJobPost, getReviewQueue } from '$lib/server/jobs/posting';
+ *
+ * const id = await createJobPost(locals.supabase, locals.user.id, company, post, 'review');
+ * const queue = await getReviewQueue(locals.supabase);
+ * ```
+ */
+
+import type { SupabaseClient, PostgrestError } from '@supabase/supabase-js';
+import type { Company, JobPosting } from '$lib/types';
+import type {
+	Company as CompanyRow,
+	JobInsert,
+	JobReviewStatus,
+	JobUpdate,
+	JobWithCompany
+} from '$lib/supabase/types';
+import { companySlug } from '$lib/jobs/companies';
+import { jobPostStatus, type JobPostMode, type ValidJobPost } from '$lib/jobs/posting';
+import { normalizeCompany, normalizeJob } from './normalize';
+import { toRawCompany, toRawJob } from './sources/supabase';
+
+// MARK: - Configuration
+
+/** Most postings listed on the employer dashboard */
+const MAX_COMPANY_POSTINGS = 200;
+
+/** Review statuses an employer can still edit */
+const EDITABLE_STATUSES: JobReviewStatus[] = ['draft', 'pending_review'];
+
+// MARK: - Errors
+
+/**
+ * A posting read or write that failed, with the HTTP status to report.
+ */
+export class JobPostError extends Error {
+	constructor(
+		message: string,
+		readonly status: number
+	) {
+		super(message);
+		this.name = 'JobPostError';
+	}
+}
+
+/**
+ * Map a PostgREST error onto a JobPostError.
+ */
+function toJobPostError(error: PostgrestError): JobPostError {
+	switch (error.code) {
+		// foreign_key_violation / invalid_text_representation (bad uuid)
+		case '23503':
+		case '22P02':
+			return new JobPostError('Posting not found', 404);
+		// insufficient_privilege: RLS or the review trigger rejected the write
+		case '42501':
+			return new JobPostError('You can’t change this posting', 403);
+		// invalid_input_value for an enum column
+		case '22P05':
+		case '23514':
+			return new JobPostError('Some fields have invalid values', 400);
+		default:
+			return new JobPostError(error.message, 500);
+	}
+}
+
+// MARK: - Types
+
+/**
+ * A company the user can post for.
+ */
+export interface PostingCompany {
+	id: string;
+	company: Company;
+}
+
+// MARK: - Mapping
+
+/**
+ * URL slug for a posting: "<title>-at-<company>". Collisions are
+ * suffixed by `ensure_unique_job_slug()` (005_job_slugs.sql).
+ */
+function jobPostSlug(title: string, companyName: string): string {
+	return companySlug(`${title} at ${companyName}`) || 'job';
+}
+
+/** Columns written by both creating and editing a posting */
+type JobPostColumns = Pick<
+	JobInsert,
+	| 'title'
+	| 'slug'
+	| 'description'
+	| 'requirements'
+	| 'benefits'
+	| 'skills'
+	| 'location'
+	| 'location_type'
+	| 'employment_type'
+	| 'experience_level'
+	| 'salary_min'
+	| 'salary_max'
+	| 'salary_currency'
+	| 'salary_period'
+	| 'remote_regions'
+	| 'remote_countries'
+	| 'remote_overlap_start'
+	| 'remote_overlap_end'
+	| 'apply_url'
+	| 'is_easy_apply'
+	| 'screening_questions'
+	| 'expires_at'
+	| 'review_status'
+>;
+
+function toJobColumns(post: ValidJobPost, companyName: string, mode: JobPostMode): JobPostColumns {
+	return {
+		title: post.title,
+		slug: jobPostSlug(post.title, companyName),
+		description: post.description,
+		requirements: post.requirements,
+		benefits: post.benefits,
+		skills: post.skills,
+		location: post.location || null,
+		location_type: post.locationType,
+		employment_type: post.employmentType,
+		experience_level: post.experienceLevel,
+		salary_min: post.salary?.min ?? null,
+		salary_max: post.salary?.max ?? null,
+		salary_currency: post.salary?.currency ?? 'USD',
+		salary_period: post.salary?.period ?? 'year',
+		remote_regions: post.remote?.regions ?? [],
+		remote_countries: post.remote?.countries ?? [],
+		remote_overlap_start: post.remote?.overlap?.startHour ?? null,
+		remote_overlap_end: post.remote?.overlap?.endHour ?? null,
+		apply_url: post.applyUrl,
+		is_easy_apply: post.isEasyApply,
+		screening_questions: post.screeningQuestions.map((question) => ({ ...question })),
+		expires_at: post.expiresAt,
+		review_status: mode === 'review' ? 'pending_review' : 'draft'
+	};
+}
+
+function toJobPosting(row: JobWithCompany): JobPosting {
+	return {
+		id: row.id,
+		job: normalizeJob(toRawJob(row)),
+		status: jobPostStatus(row),
+		reviewNote: row.review_note,
+		submittedAt: row.submitted_at,
+		updatedAt: row.updated_at,
+		closedReason: row.closed_reason
+	};
+}
+
+// MARK: - Employer
+
+/**
+ * Companies the user can post jobs for.
+ */
+export async function getPostingCompanies(supabase: SupabaseClient, userId: string): Promise<PostingCompany[]> {
+	const { data, error } = await supabase
+		.from('company_members')
+		.select('company:companies(*)')
+		.eq('user_id', userId)
+		.overrideTypes<{ company: CompanyRow | null }[], { merge: false }>();
+
+	if (error) {
+		throw toJobPostError(error);
+	}
+
+	return (data ?? [])
+		.flatMap((row) => (row.company ? [{ id: row.company.id, company: normalizeCompany(toRawCompany(row.company)) }] : []))
+		.sort((a, b) => a.company.name.localeCompare(b.company.name));
+}
+
+/**
+ * Create a posting as a draft, or straight into the review queue.
+ * @returns The new job's id
+ */
+export async function createJobPost(
+	supabase: SupabaseClient,
+	userId: string,
+	company: PostingCompany,
+	post: ValidJobPost,
+	mode: JobPostMode
+): Promise<string> {
+	const job: JobInsert = {
+		...toJobColumns(post, company.company.name, mode),
+		company_id: company.id,
+		is_featured: false,
+		is_active: false,
+		content_hash: null,
+		source: 'direct',
+		source_url: null,
+		posted_at: new Date().toISOString(),
+		review_note: null,
+		submitted_at: null,
+		reviewed_at: null,
+		created_by: userId
+	};
+
+	const { data, error } = await supabase.from('jobs').insert(job).select('id').single();
+
+	if (error) {
+		throw toJobPostError(error);
+	}
+
+	return data.id;
+}
+
+/**
+ * A posting with its company id, for the edit page.
+ * @returns null when it doesn't exist or the user can't see it
+ */
+export async function getJobPost(
+	supabase: SupabaseClient,
+	id: string
+): Promise<{ posting: JobPosting; companyId: string } | null> {
+	const { data, error } = await supabase
+		.from('jobs')
+		.select('*, company:companies(*)')
+		.eq('id', id)
+		.maybeSingle();
+
+	if (error) {
+		if (error.code === '22P02') return null;
+		throw toJobPostError(error);
+	}
+
+	if (!data) return null;
+
+	const row = data as JobWithCompany;
+	return { posting: toJobPosting(row), companyId: row.company_id };
+}
+
+/**
+ * Save changes to a draft or pending posting. Saving with mode `draft`
+ * takes a pending posting back out of the review queue.
+ * @throws JobPostError 404 when the posting isn't editable by the user
+ */
+export async function updateJobPost(
+	supabase: SupabaseClient,
+	id: string,
+	companyName: string,
+	post: ValidJobPost,
+	mode: JobPostMode
+): Promise<void> {
+	const { data, error } = await supabase
+		.from('jobs')
+		.update(toJobColumns(post, companyName, mode))
+		.eq('id', id)
+		.in('review_status', EDITABLE_STATUSES)
+		.select('id');
+
+	if (error) {
+		throw toJobPostError(error);
+	}
+	if (!data || data.length === 0) {
+		throw new JobPostError('This posting can no longer be edited', 404);
+	}
+}
+
+/**
+ * Delete a draft posting.
+ * @throws JobPostError 404 when it isn't a draft the user can delete
+ */
+export async function deleteJobPost(supabase: SupabaseClient, id: string): Promise<void> {
+	const { data, error } = await supabase
+		.from('jobs')
+		.delete()
+		.eq('id', id)
+		.eq('review_status', 'draft')
+		.select('id');
+
+	if (error) {
+		throw toJobPostError(error);
+	}
+	if (!data || data.length === 0) {
+		throw new JobPostError('Only drafts can be deleted', 404);
+	}
+}
+
+/**
+ * Every posting of the given companies, most recently changed first.
+ */
+export async function getCompanyJobPosts(supabase: SupabaseClient, companyIds: string[]): Promise<JobPosting[]> {
+	if (companyIds.length === 0) return [];
+
+	const { data, error } = await supabase
+		.from('jobs')
+		.select('*, company:companies(*)')
+		.in('company_id', companyIds)
+		.order('updated_at', { ascending: false })
+		.limit(MAX_COMPANY_POSTINGS);
+
+	if (error) {
+		throw toJobPostError(error);
+	}
+
+	return ((data ?? []) as JobWithCompany[]).map(toJobPosting);
+}
+
+/**
+ * Send a closed posting back to the review queue. Approval publishes it
+ * again for a fresh 30 days (`repost_job()`, 008_job_expiry.sql).
+ * @throws JobPostError 404 when it isn't a closed posting of the user's company
+ */
+export async function repostJobPost(supabase: SupabaseClient, id: string): Promise<void> {
+	const { data, error } = await supabase.rpc('repost_job', { p_job_id: id });
+
+	if (error) {
+		throw toJobPostError(error);
+	}
+	if (!data) {
+		throw new JobPostError('Only closed postings can be reposted', 404);
+	}
+}
+
+// MARK: - Admin Review
+
+/**
+ * Postings waiting for approval, oldest submission first.
+ */
+export async function getReviewQueue(supabase: SupabaseClient): Promise<JobPosting[]> {
+	const { data, error } = await supabase
+		.from('jobs')
+		.select('*, company:companies(*)')
+		.eq('review_status', 'pending_review')
+		.order('submitted_at', { ascending: true });
+
+	if (error) {
+		throw toJobPostError(error);
+	}
+
+	return ((data ?? []) as JobWithCompany[]).map(toJobPosting);
+}
+
+/**
+ * Apply a review decision to a pending posting.
+ */
+async function reviewJobPost(supabase: SupabaseClient, id: string, changes: JobUpdate): Promise<void> {
+	const { data, error } = await supabase
+		.from('jobs')
+		.update(changes)
+		.eq('id', id)
+		.eq('review_status', 'pending_review')
+		.select('id');
+
+	if (error) {
+		throw toJobPostError(error);
+	}
+	if (!data || data.length === 0) {
+		throw new JobPostError('This posting is no longer waiting for review', 404);
+	}
+}
+
+/**
+ * Approve a pending posting. The review trigger publishes it: it goes
+ * live now and closes on its closing date (30 days if none was set).
+ */
+export async function approveJobPost(supabase: SupabaseClient, id: string): Promise<void> {
+	await reviewJobPost(supabase, id, { review_status: 'approved' });
+}
+
+/**
+ * Send a pending posting back to draft with a note for the employer.
+ */
+export async function requestJobPostChanges(supabase: SupabaseClient, id: string, note: string): Promise<void> {
+	await reviewJobPost(supabase, id, { review_status: 'draft', review_note: note });
+}
@@ -0,0 +1,113 @@
+/**
+ * Recommended Jobs
+ * ================
+ *
+ * The "Recommended" sort on /jobs. Sources page and order results
+ * themselves, so the recommended order is built here instead: the newest
+ * MAX_PER_PAGE matches for the current filters are loaded as one pool,
+ * scored for the user with `$lib/jobs/recommend`, and paginated in the
+ * app. Matches beyond the pool are not ranked.
+ *
+ * Usage:
+ * ```typescript
+ * import { loadRecommendedJobs } from '$lib/server/jobs';
+ *
+ * const result = await loadRecommendedJobs({ fetch, supabase, userId, query, table });
+ * result.reasons[job.id]; // ["Matches your skills: Svelte"]
+ * ```
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { JobSourceResult } from './types';
+import type { RateTable } from '$lib/jobs/currency';
+import { MAX_PER_PAGE, paginate, type JobQuery } from '$lib/jobs/query';
+import { buildPreferences, hasPreferences, recommendJobs } from '$lib/jobs/recommend';
+import { getSavedJobs } from './bookmarks';
+import { loadJobsFromSources } from './pipeline';
+
+// MARK: - Types
+
+export interface RecommendedJobsResult extends JobSourceResult {
+	/** Whether the user gave any signal to rank by; when false the jobs are in the usual order */
+	ranked: boolean;
+	/** Score (0-100) and reasons per job id on this page */
+	scores: Record<string, { score: number; reasons: string[] }>;
+	/** More jobs matched than were ranked */
+	truncated: boolean;
+}
+
+interface RecommendedJobsOptions {
+	fetch: typeof fetch;
+	supabase: SupabaseClient;
+	userId: string;
+	query: JobQuery;
+	table: RateTable;
+}
+
+// MARK: - Profile Skills
+
+/**
+ * The skills on a user's profile (012_profile_skills.sql).
+ * @throws Error when the profile can't be read
+ */
+export async function getProfileSkills(supabase: SupabaseClient, userId: string): Promise<string[]> {
+	const { data, error } = await supabase.from('profiles').select('skills').eq('id', userId).maybeSingle();
+
+	if (error) throw new Error(error.message);
+	return (data as { skills: string[] | null } | null)?.skills ?? [];
+}
+
+// MARK: - Loading
+
+/**
+ * One page of jobs in recommended order for a user. Missing skills or
+ * bookmarks only weaken the ranking, so those failures are logged and
+ * ranked without.
+ */
+export async function loadRecommendedJobs({
+	fetch,
+	supabase,
+	userId,
+	query,
+	table
+}: RecommendedJobsOptions): Promise<RecommendedJobsResult> {
+	const [pool, skills, savedJobs] = await Promise.all([
+		loadJobsFromSources({ fetch, supabase, query: { ...query, page: 1, perPage: MAX_PER_PAGE } }),
+		getProfileSkills(supabase, userId).catch((err) => {
+			console.error('[Jobs] Failed to load profile skills:', err instanceof Error ? err.message : err);
+			return [] as string[];
+		}),
+		getSavedJobs(supabase, userId).then(
+			(saved) => saved.map((entry) => entry.job),
+			(err) => {
+				console.error('[Jobs] Failed to load saved jobs:', err instanceof Error ? err.message : err);
+				return [];
+			}
+		)
+	]);
+
+	const preferences = buildPreferences({
+		skills,
+		savedJobs,
+		minSalary: query.minSalary,
+		currency: (query.minSalary && query.currency) || table.base,
+		table
+	});
+	const ranked = hasPreferences(preferences);
+	const recommendations = ranked
+		? recommendJobs(pool.jobs, preferences)
+		: pool.jobs.map((job) => ({ job, score: 0, reasons: [] as string[] }));
+	const page = paginate(recommendations, query);
+
+	return {
+		...pool,
+		jobs: page.map((entry) => entry.job),
+		total: recommendations.length,
+		page: query.page,
+		perPage: query.perPage,
+		totalPages: Math.ceil(recommendations.length / query.perPage),
+		ranked,
+		scores: Object.fromEntries(page.map((entry) => [entry.job.id, { score: entry.score, reasons: entry.reasons }])),
+		truncated: pool.total > recommendations.length
+	};
+}
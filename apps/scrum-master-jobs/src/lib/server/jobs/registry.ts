@@ -0,0 +1,97 @@
+/**
+ * Job Source Registry
+ * ===================
+ *
+ * Holds every available `JobSource` by id and the configuration that
+ * decides which of them run and in what order.
+ *
+ * Usage:
+ * ```typescript
+ * import { registerJobSource } from '$lib/server/jobs';
+ *
+ * registerJobSource({
+ *   id: 'greenhouse',
+ *   label: 'Greenhouse',
+ *   fetchJobs: async ({ fetch, signal }) => [...]
+ * });
+ * ```
+ *
+ * The order can be overridden without a code change by setting
+ * JOB_SOURCE_ORDER to a comma-separated list (e.g. "supabase,mock").
+ */
+
+import { env } from '$env/dynamic/private';
+import type { JobSource, JobSourceConfig, JobSourceSettings } from './types';
+import { vaporJobSource } from './sources/vapor';
+import { supabaseJobSource } from './sources/supabase';
+import { mockJobSource } from './sources/mock';
+
+// MARK: - Configuration
+
+/** Settings applied to any source that doesn't override them */
+export const DEFAULT_SOURCE_SETTINGS: JobSourceSettings = {
+	enabled: true,
+	timeoutMs: 5000,
+	failureThreshold: 3,
+	cooldownMs: 60_000,
+	acceptEmpty: false
+};
+
+/**
+ * Default pipeline: Vapor API → Supabase → mock data.
+ * The mock source accepts an empty result since nothing comes after it.
+ */
+const defaultConfig: JobSourceConfig = {
+	order: ['vapor-api', 'supabase', 'mock'],
+	settings: {
+		'vapor-api': { timeoutMs: 4000 },
+		supabase: { timeoutMs: 5000 },
+		mock: { timeoutMs: 1000, acceptEmpty: true }
+	}
+};
+
+// MARK: - Registry
+
+const sources = new Map<string, JobSource>();
+
+/**
+ * Register a job source, replacing any source with the same id.
+ */
+export function registerJobSource(source: JobSource): void {
+	sources.set(source.id, source);
+}
+
+/**
+ * Look up a registered source by id.
+ */
+export function getJobSource(id: string): JobSource | undefined {
+	return sources.get(id);
+}
+
+/**
+ * Resolve the active pipeline configuration.
+ * JOB_SOURCE_ORDER replaces the default order when set.
+ */
+export function getJobSourceConfig(): JobSourceConfig {
+	const order = env.JOB_SOURCE_ORDER?.split(',')
+		.map((id) => id.trim())
+		.filter(Boolean);
+
+	return order?.length ? { ...defaultConfig, order } : defaultConfig;
+}
+
+/**
+ * Merge a source's overrides onto the default settings.
+ */
+export function resolveSourceSettings(
+	config: JobSourceConfig,
+	sourceId: string
+): JobSourceSettings {
+	return { ...DEFAULT_SOURCE_SETTINGS, ...config.settings[sourceId] };
+}
+
+// MARK: - Built-in Sources
+
+registerJobSource(vaporJobSource);
+registerJobSource(supabaseJobSource);
+registerJobSource(mockJobSource);
@@ -0,0 +1,274 @@
+/**
+ * Job Reports & Moderation
+ * ========================
+ *
+ * Reports on listings from job seekers and the admin moderation queue.
+ * Every query runs with the signed-in user's client, so RLS and the
+ * functions in 014_job_reports.sql decide what each side can do:
+ * - users file one report per job, on live jobs only
+ * - the `hide_reported_job()` trigger hides a job at the report threshold
+ * - only admins see reports, decide on them (`moderate_job()`), read the
+ *   audit trail and change the threshold
+ *
+ * Usage:
+ * ```typescript
+ * import { submitJobReport, getModerationQueue } from '$lib/server/jobs';
+ *
+ * await submitJobReport(locals.supabase, locals.user.id, jobId, { reason: 'scam', details: '' });
+ * const queue = await getModerationQueue(locals.supabase);
+ * ```
+ */
+
+import type { SupabaseClient, PostgrestError } from '@supabase/supabase-js';
+import type { ModerationEvent, ReportedJob } from '$lib/types';
+import type {
+	JobModerationEvent,
+	JobReport as JobReportRow,
+	JobReportInsert,
+	JobWithCompany,
+	Profile
+} from '$lib/supabase/types';
+import type { JobReportInput } from '$lib/jobs/reports';
+import { UUID_PATTERN } from './detail';
+import { normalizeJob } from './normalize';
+import { toRawJob } from './sources/supabase';
+
+// MARK: - Configuration
+
+/** Most open reports loaded into the queue at once */
+const MAX_QUEUE_REPORTS = 500;
+
+/** Audit trail entries shown under the queue */
+const MAX_LOG_EVENTS = 50;
+
+// MARK: - Errors
+
+/**
+ * A report or moderation write that failed, with the HTTP status to report.
+ */
+export class ReportError extends Error {
+	constructor(
+		message: string,
+		readonly status: number
+	) {
+		super(message);
+		this.name = 'ReportError';
+	}
+}
+
+/**
+ * Map a PostgREST error onto a ReportError.
+ */
+function toReportError(error: PostgrestError): ReportError {
+	switch (error.code) {
+		// unique_violation: one report per job and user
+		case '23505':
+			return new ReportError('You have already reported this job', 409);
+		// foreign_key_violation / invalid_text_representation (bad uuid)
+		case '23503':
+		case '22P02':
+			return new ReportError('Job not found', 404);
+		// insufficient_privilege: RLS rejected the row (closed job, not an admin)
+		case '42501':
+			return new ReportError('This job can’t be reported or moderated', 403);
+		// check_violation: details too long, threshold out of range
+		case '23514':
+			return new ReportError('Some fields have invalid values', 400);
+		default:
+			return new ReportError(error.message, 500);
+	}
+}
+
+// MARK: - Types
+
+type ReportRow = Pick<JobReportRow, 'id' | 'job_id' | 'reason' | 'details' | 'created_at'> & {
+	job: JobWithCompany | null;
+};
+
+type ModerationEventRow = JobModerationEvent & {
+	job: { title: string; company: { name: string } | null } | null;
+};
+
+// MARK: - Reporting
+
+/**
+ * File a report on a live job.
+ * @throws ReportError 409 when the user already reported it, 403 when the job isn't live
+ */
+export async function submitJobReport(
+	supabase: SupabaseClient,
+	userId: string,
+	jobId: string,
+	report: JobReportInput
+): Promise<void> {
+	// Mock listings aren't in the table, so there is nothing to report
+	if (!UUID_PATTERN.test(jobId)) {
+		throw new ReportError('Job not found', 404);
+	}
+
+	const row: JobReportInsert = {
+		job_id: jobId,
+		reporter_id: userId,
+		reason: report.reason,
+		details: report.details || null
+	};
+	const { error } = await supabase.from('job_reports').insert(row);
+
+	if (error) {
+		throw toReportError(error);
+	}
+}
+
+// MARK: - Moderation Queue
+
+/**
+ * Jobs with open reports, the longest-waiting first. Hidden jobs are
+ * included, since they wait on a decision.
+ */
+export async function getModerationQueue(supabase: SupabaseClient): Promise<ReportedJob[]> {
+	const { data, error } = await supabase
+		.from('job_reports')
+		.select('id, job_id, reason, details, created_at, job:jobs(*, company:companies(*))')
+		.eq('status', 'open')
+		.order('created_at', { ascending: true })
+		.limit(MAX_QUEUE_REPORTS)
+		.overrideTypes<ReportRow[], { merge: false }>();
+
+	if (error) {
+		throw toReportError(error);
+	}
+
+	const queue = new Map<string, ReportedJob>();
+	for (const row of data ?? []) {
+		if (!row.job) continue;
+
+		const entry = queue.get(row.job_id) ?? {
+			job: normalizeJob(toRawJob(row.job)),
+			hidden: !row.job.is_active && row.job.closed_reason === 'reported',
+			reports: []
+		};
+		entry.reports.push({
+			id: row.id,
+			reason: row.reason,
+			details: row.details ?? '',
+			reportedAt: row.created_at
+		});
+		queue.set(row.job_id, entry);
+	}
+
+	return [...queue.values()];
+}
+
+/**
+ * Resolve every open report on a job: dismiss them (a job the threshold
+ * hid goes live again) or deactivate the job. The decision is recorded
+ * in the audit trail.
+ * @throws ReportError 404 when the job has no open reports
+ */
+export async function moderateJob(
+	supabase: SupabaseClient,
+	jobId: string,
+	decision: 'dismissed' | 'deactivated',
+	note: string
+): Promise<void> {
+	const { data, error } = await supabase.rpc('moderate_job', {
+		p_job_id: jobId,
+		p_action: decision,
+		p_note: note || null
+	});
+
+	if (error) {
+		throw toReportError(error);
+	}
+	if (!data) {
+		throw new ReportError('This job has no open reports', 404);
+	}
+}
+
+// MARK: - Audit Trail
+
+/**
+ * The latest moderation events, newest first.
+ */
+export async function getModerationLog(supabase: SupabaseClient): Promise<ModerationEvent[]> {
+	const { data, error } = await supabase
+		.from('job_moderation_events')
+		.select('*, job:jobs(title, company:companies(name))')
+		.order('created_at', { ascending: false })
+		.limit(MAX_LOG_EVENTS)
+		.overrideTypes<ModerationEventRow[], { merge: false }>();
+
+	if (error) {
+		throw toReportError(error);
+	}
+
+	const rows = data ?? [];
+	const actorIds = [...new Set(rows.flatMap((row) => (row.actor_id ? [row.actor_id] : [])))];
+	const actors = await getActorNames(supabase, actorIds);
+
+	return rows.map((row) => ({
+		id: row.id,
+		jobId: row.job_id,
+		jobTitle: row.job?.title ?? 'Deleted job',
+		companyName: row.job?.company?.name ?? '',
+		action: row.action,
+		actor: row.actor_id ? (actors.get(row.actor_id) ?? 'An admin') : null,
+		reportCount: row.report_count,
+		note: row.note,
+		at: row.created_at
+	}));
+}
+
+/**
+ * Display names of admins by id. Profiles are public, so a failure here
+ * only costs the names and is logged.
+ */
+async function getActorNames(supabase: SupabaseClient, ids: string[]): Promise<Map<string, string>> {
+	if (ids.length === 0) return new Map();
+
+	const { data, error } = await supabase.from('profiles').select('id, username, name').in('id', ids);
+	if (error) {
+		console.error('[Jobs] Failed to load moderator names:', error.message);
+		return new Map();
+	}
+
+	return new Map(
+		((data ?? []) as Pick<Profile, 'id' | 'username' | 'name'>[]).map((profile) => [
+			profile.id,
+			profile.name || profile.username
+		])
+	);
+}
+
+// MARK: - Settings
+
+/**
+ * Open reports from different users that hide a job.
+ */
+export async function getReportThreshold(supabase: SupabaseClient): Promise<number> {
+	const { data, error } = await supabase
+		.from('moderation_settings')
+		.select('report_hide_threshold')
+		.eq('id', true)
+		.maybeSingle();
+
+	if (error) {
+		throw toReportError(error);
+	}
+	return (data as { report_hide_threshold: number } | null)?.report_hide_threshold ?? 3;
+}
+
+/**
+ * Change the report threshold. Jobs that already have that many open
+ * reports are hidden with their next report.
+ */
+export async function setReportThreshold(supabase: SupabaseClient, threshold: number): Promise<void> {
+	const { error } = await supabase
+		.from('moderation_settings')
+		.update({ report_hide_threshold: threshold })
+		.eq('id', true);
+
+	if (error) {
+		throw toReportError(error);
+	}
+}
@@ -0,0 +1,100 @@
+/**
+ * Salary Samples
+ * ==============
+ *
+ * Loads the salary range of every live posting (active and not past its
+ * closing date) for the salary explorer. Reads `salary_min`/`salary_max`/`salary_currency`/
+ * `salary_period` from Supabase and falls back to the mock listings, like
+ * the /jobs pipeline, when the table is unreachable or has no salaries
+ * yet.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { jobs as mockJobs } from '$lib/data/jobs';
+import type { SalarySample } from '$lib/jobs/salaries';
+import { parseExperienceLevel, parseLocationType } from './normalize';
+import { notExpiredFilter } from './sources/supabase';
+
+// MARK: - Configuration
+
+/** Most postings read per request */
+const MAX_SAMPLES = 5000;
+
+// MARK: - Types
+
+export interface SalarySampleResult {
+	samples: SalarySample[];
+	/** Which data set answered ("supabase" or "mock") */
+	source: 'supabase' | 'mock';
+}
+
+interface SalaryRow {
+	salary_min: number | null;
+	salary_max: number | null;
+	salary_currency: string | null;
+	salary_period: string | null;
+	experience_level: string | null;
+	location_type: string | null;
+	skills: string[] | null;
+	company: { name: string } | null;
+}
+
+// MARK: - Loading
+
+function toSample(row: SalaryRow): SalarySample | null {
+	const min = row.salary_min ?? row.salary_max;
+	const max = row.salary_max ?? row.salary_min;
+	if (min === null || max === null) return null;
+
+	return {
+		min,
+		max,
+		currency: row.salary_currency ?? 'USD',
+		period: row.salary_period === 'hour' ? 'hour' : 'year',
+		experienceLevel: parseExperienceLevel(row.experience_level) ?? 'Mid',
+		locationType: parseLocationType(row.location_type) ?? 'Remote',
+		skills: row.skills ?? [],
+		company: row.company?.name ?? 'Unknown Company'
+	};
+}
+
+function mockSamples(): SalarySample[] {
+	return mockJobs.flatMap((job) =>
+		job.salary
+			? [
+					{
+						min: job.salary.min,
+						max: job.salary.max,
+						currency: job.salary.currency,
+						period: job.salary.period,
+						experienceLevel: job.experienceLevel,
+						locationType: job.locationType,
+						skills: job.skills,
+						company: job.company.name
+					}
+				]
+			: []
+	);
+}
+
+/**
+ * Salary samples for every live posting that lists a salary.
+ */
+export async function loadSalarySamples(supabase: SupabaseClient): Promise<SalarySampleResult> {
+	const { data, error } = await supabase
+		.from('jobs')
+		.select('salary_min, salary_max, salary_currency, salary_period, experience_level, location_type, skills, company:companies(name)')
+		.eq('is_active', true)
+		.or(notExpiredFilter())
+		.or('salary_min.not.is.null,salary_max.not.is.null')
+		.limit(MAX_SAMPLES)
+		.overrideTypes<SalaryRow[], { merge: false }>();
+
+	if (error) {
+		console.error('[Jobs] Salary query failed, using mock data:', error.message);
+		return { samples: mockSamples(), source: 'mock' };
+	}
+
+	const samples = (data ?? []).flatMap((row) => toSample(row) ?? []);
+	return samples.length > 0 ? { samples, source: 'supabase' } : { samples: mockSamples(), source: 'mock' };
+}
@@ -0,0 +1,43 @@
+/**
+ * Mock Job Source
+ * ===============
+ *
+ * Serves the bundled demo listings from `$lib/data/jobs`.
+ * Kept last in the default order so the board is never empty.
+ */
+
+import { jobs as mockJobs } from '$lib/data/jobs';
+import { isExpired } from '$lib/jobs/expiry';
+import { getRateTable } from '$lib/server/currency';
+import { matchesJobQuery, paginate } from '$lib/jobs/query';
+import { searchJobs } from '$lib/jobs/search';
+import type { JobSource } from '../types';
+
+export const mockJobSource: JobSource = {
+	id: 'mock',
+	label: 'Mock data',
+
+	async fetchJobs({ query }) {
+		const table = getRateTable();
+		const filtered = mockJobs.filter((job) => !isExpired(job) && matchesJobQuery(job, { ...query, q: '' }, table));
+		const matches = query.q
+			? searchJobs(filtered, query.q).map(({ job, highlight }) => ({ ...job, highlight }))
+			: filtered;
+
+		return {
+			jobs: paginate(matches, query).map((job) => ({
+				...job,
+				salaryMin: job.salary?.min,
+				salaryMax: job.salary?.max,
+				salaryCurrency: job.salary?.currency,
+				salaryPeriod: job.salary?.period,
+				remoteRegions: job.remote?.regions,
+				remoteCountries: job.remote?.countries,
+				remoteOverlapStart: job.remote?.overlap?.startHour,
+				remoteOverlapEnd: job.remote?.overlap?.endHour,
+				company: { ...job.company, logoUrl: job.company.logo }
+			})),
+			total: matches.length
+		};
+	}
+};
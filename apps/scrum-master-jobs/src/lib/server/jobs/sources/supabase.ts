@@ -0,0 +1,264 @@
+/**
+ * Supabase Job Source
+ * ===================
+ *
+ * Queries the `jobs` table directly with RLS (Row Level Security).
+ * Uses snake_case column names (PostgreSQL convention).
+ *
+ * Free-text queries go through the `search_jobs` RPC (002_job_search.sql)
+ * for ranked, stemmed, typo-tolerant matching with highlights.
+ *
+ * The minimum salary filter is converted to per-currency thresholds with
+ * the server's rate table (`salaryThresholds`), so the database compares
+ * plain amounts. Likewise the timezone filter reaches it as the viewer's
+ * working day in UTC hours (`workdayWindowUtc`), and the country filter
+ * with the country's region (011_remote_eligibility.sql).
+ */
+
+import type { Company, JobWithCompany, SearchJobsRow } from '$lib/supabase/types';
+import { toSearchTermGroups, parseHeadline } from '$lib/jobs/search';
+import { salaryThresholds } from '$lib/jobs/currency';
+import { findCountry, workdayWindowUtc, type UtcWindow } from '$lib/jobs/remote';
+import type { JobQuery } from '$lib/jobs/query';
+import { getRateTable } from '$lib/server/currency';
+import type { JobSource, JobSourceContext, RawCompany, RawJobPage, RawJob } from '../types';
+
+// MARK: - Mapping
+
+/** Map a `companies` row to a RawCompany */
+export function toRawCompany(company: Company): RawCompany {
+	return {
+		name: company.name,
+		slug: company.slug,
+		logoUrl: company.logo_url,
+		location: company.location,
+		industry: company.industry,
+		website: company.website,
+		description: company.description,
+		employeeCount: company.employee_count,
+		foundedYear: company.founded_year,
+		isVerified: company.is_verified
+	};
+}
+
+/** Map a `jobs` row (with joined company) to a RawJob */
+export function toRawJob(job: JobWithCompany): RawJob {
+	return {
+		id: job.id,
+		slug: job.slug,
+		title: job.title,
+		description: job.description,
+		requirements: job.requirements,
+		benefits: job.benefits,
+		skills: job.skills,
+		location: job.location,
+		locationType: job.location_type,
+		employmentType: job.employment_type,
+		experienceLevel: job.experience_level,
+		salaryMin: job.salary_min,
+		salaryMax: job.salary_max,
+		salaryCurrency: job.salary_currency,
+		salaryPeriod: job.salary_period,
+		remoteRegions: job.remote_regions,
+		remoteCountries: job.remote_countries,
+		remoteOverlapStart: job.remote_overlap_start,
+		remoteOverlapEnd: job.remote_overlap_end,
+		postedAt: job.posted_at,
+		originalPostedAt: job.original_posted_at,
+		expiresAt: job.expires_at,
+		applyUrl: job.apply_url,
+		isEasyApply: job.is_easy_apply,
+		isFeatured: job.is_featured,
+		source: job.source,
+		screeningQuestions: job.screening_questions,
+		company: job.company ? toRawCompany(job.company) : null
+	};
+}
+
+/**
+ * PostgREST `or` filter for jobs whose closing date hasn't passed. The
+ * expiry reaper (`$lib/server/expiry`) deactivates them on its next run;
+ * this keeps them off the board in the meantime.
+ */
+export function notExpiredFilter(now: Date = new Date()): string {
+	return `expires_at.is.null,expires_at.gt.${now.toISOString()}`;
+}
+
+/**
+ * Per-currency thresholds for the query's minimum salary, or null when
+ * the filter isn't set. See `salaryThresholds`.
+ */
+function querySalaryThresholds(query: JobQuery) {
+	if (!query.minSalary) return null;
+	const table = getRateTable();
+	return salaryThresholds(query.minSalary, query.currency || table.base, table);
+}
+
+/**
+ * PostgREST `or` filter for jobs whose salary reaches the thresholds:
+ * one `and(...)` per currency and period. The top of the range is
+ * compared, or the minimum when a job posts only that, as in
+ * `search_jobs` (021_min_salary_fallback.sql). With no thresholds (an
+ * unknown currency) nothing matches.
+ */
+function minSalaryFilter(thresholds: ReturnType<typeof salaryThresholds>): string {
+	const clauses = Object.entries(thresholds).flatMap(([currency, byPeriod]) =>
+		Object.entries(byPeriod).map(
+			([period, amount]) =>
+				`and(salary_currency.eq.${currency},salary_period.eq.${period},` +
+				`or(salary_max.gte.${amount},and(salary_max.is.null,salary_min.gte.${amount})))`
+		)
+	);
+	return clauses.length > 0 ? clauses.join(',') : 'id.is.null';
+}
+
+/**
+ * PostgREST `or` filter for remote jobs open to `country`: open anywhere
+ * (no regions and no countries), to the country, or to its region.
+ */
+function remoteCountryFilter(country: string): string {
+	const region = findCountry(country)?.region;
+	return [
+		'and(remote_countries.eq.{},remote_regions.eq.{})',
+		`remote_countries.cs.{${country}}`,
+		...(region ? [`remote_regions.cs.{${region}}`] : [])
+	].join(',');
+}
+
+/**
+ * PostgREST `or` filter for remote jobs whose overlap window fits the
+ * working day (see `fitsWorkday`), or that have no window.
+ */
+function remoteWorkdayFilter(workday: UtcWindow): string {
+	return [
+		'remote_overlap_start.is.null',
+		...[-24, 0, 24].map(
+			(shift) =>
+				`and(remote_overlap_start.gte.${workday.start - shift},remote_overlap_end.lte.${workday.end - shift})`
+		)
+	].join(',');
+}
+
+// MARK: - Ranked Search
+
+/**
+ * Run a free-text query through `search_jobs`, then load the matching
+ * rows (with company) and return them in rank order with highlights.
+ */
+async function rankedSearch({ supabase, signal, query }: JobSourceContext): Promise<RawJobPage> {
+	const workday = query.timezone ? workdayWindowUtc(query.timezone) : null;
+	const { data: hits, error } = await supabase
+		.rpc('search_jobs', {
+			p_term_groups: toSearchTermGroups(query.q),
+			p_raw: query.q,
+			p_location: query.location || null,
+			p_location_type: query.locationType,
+			p_employment_type: query.employmentType,
+			p_experience_level: query.experienceLevel,
+			p_salary_thresholds: querySalaryThresholds(query),
+			p_remote_country: query.country || null,
+			p_remote_region: query.country ? (findCountry(query.country)?.region ?? null) : null,
+			p_workday_start: workday?.start ?? null,
+			p_workday_end: workday?.end ?? null,
+			p_limit: query.perPage,
+			p_offset: (query.page - 1) * query.perPage
+		})
+		.abortSignal(signal);
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	const rows = (hits ?? []) as SearchJobsRow[];
+	if (rows.length === 0) {
+		return { jobs: [], total: 0 };
+	}
+
+	const { data, error: jobsError } = await supabase
+		.from('jobs')
+		.select(
+			`
+			*,
+			company:companies(*)
+		`
+		)
+		.in('id', rows.map((row) => row.job_id))
+		.or(notExpiredFilter())
+		.abortSignal(signal);
+
+	if (jobsError) {
+		throw new Error(jobsError.message);
+	}
+
+	const byId = new Map(((data ?? []) as JobWithCompany[]).map((job) => [job.id, job]));
+
+	return {
+		jobs: rows.flatMap((row) => {
+			const job = byId.get(row.job_id);
+			if (!job) return [];
+			return {
+				...toRawJob(job),
+				highlight: {
+					title: parseHeadline(row.title_highlight),
+					snippet: parseHeadline(row.snippet)
+				}
+			};
+		}),
+		total: Number(rows[0].total_count)
+	};
+}
+
+// MARK: - Source
+
+export const supabaseJobSource: JobSource = {
+	id: 'supabase',
+	label: 'Supabase',
+
+	async fetchJobs(context) {
+		const { supabase, signal, query } = context;
+		if (query.q) {
+			return rankedSearch(context);
+		}
+
+		let request = supabase
+			.from('jobs')
+			.select(
+				`
+				*,
+				company:companies(*)
+			`,
+				{ count: 'exact' }
+			)
+			.eq('is_active', true)
+			.or(notExpiredFilter());
+
+		if (query.location) request = request.eq('location', query.location);
+		if (query.locationType) request = request.eq('location_type', query.locationType);
+		if (query.employmentType) request = request.eq('employment_type', query.employmentType);
+		if (query.experienceLevel) request = request.eq('experience_level', query.experienceLevel);
+
+		const thresholds = querySalaryThresholds(query);
+		if (thresholds) request = request.or(minSalaryFilter(thresholds));
+
+		// Remote eligibility filters only apply to remote jobs
+		if (query.country || query.timezone) request = request.eq('location_type', 'Remote');
+		if (query.country) request = request.or(remoteCountryFilter(query.country));
+		if (query.timezone) request = request.or(remoteWorkdayFilter(workdayWindowUtc(query.timezone)));
+
+		const from = (query.page - 1) * query.perPage;
+		const { data, count, error } = await request
+			.order('is_featured', { ascending: false })
+			.order('posted_at', { ascending: false })
+			.range(from, from + query.perPage - 1)
+			.abortSignal(signal);
+
+		if (error) {
+			throw new Error(error.message);
+		}
+
+		return {
+			jobs: ((data ?? []) as JobWithCompany[]).map(toRawJob),
+			total: count ?? 0
+		};
+	}
+};
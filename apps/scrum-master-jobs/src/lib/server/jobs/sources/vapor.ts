@@ -0,0 +1,152 @@
+/**
+ * Vapor API Job Source
+ * ====================
+ *
+ * Fetches jobs from the Vapor API (Fly.io deployment).
+ * The response uses camelCase to match Swift/Vapor naming conventions.
+ */
+
+import { env } from '$env/dynamic/private';
+import type { JobSource, RawJob } from '../types';
+
+// MARK: - Configuration
+
+/** Default Vapor API base URL, overridable with VAPOR_API_URL */
+const DEFAULT_VAPOR_API_URL = 'https://jobboard-vapor-api.fly.dev';
+
+// MARK: - Vapor API Types
+
+/**
+ * Company data from Vapor API response.
+ */
+interface VaporCompany {
+	id: string;
+	name: string;
+	slug: string;
+	logoURL?: string;
+	website?: string;
+	location?: string;
+	industry?: string;
+	isVerified: boolean;
+}
+
+/**
+ * Salary data from Vapor API response.
+ */
+interface VaporSalary {
+	min: number;
+	max: number;
+	currency: string;
+}
+
+/**
+ * Job data from Vapor API response.
+ */
+interface VaporJob {
+	id: string;
+	title: string;
+	slug: string;
+	description: string;
+	requirements: string[];
+	benefits: string[];
+	skills: string[];
+	location?: string;
+	locationType: string;
+	employmentType: string;
+	experienceLevel: string;
+	salary?: VaporSalary;
+	company?: VaporCompany;
+	postedAt: string;
+	applyURL?: string;
+	isEasyApply: boolean;
+	isFeatured: boolean;
+}
+
+/**
+ * Paginated response from Vapor API.
+ */
+interface VaporJobsResponse {
+	items: VaporJob[];
+	metadata: {
+		page: number;
+		perPage: number;
+		total: number;
+		totalPages: number;
+	};
+}
+
+// MARK: - Mapping
+
+function toRawJob(job: VaporJob): RawJob {
+	return {
+		id: job.id,
+		slug: job.slug,
+		title: job.title,
+		description: job.description,
+		requirements: job.requirements,
+		benefits: job.benefits,
+		skills: job.skills,
+		location: job.location,
+		locationType: job.locationType,
+		employmentType: job.employmentType,
+		experienceLevel: job.experienceLevel,
+		salaryMin: job.salary?.min,
+		salaryMax: job.salary?.max,
+		salaryCurrency: job.salary?.currency,
+		postedAt: job.postedAt,
+		applyUrl: job.applyURL,
+		isEasyApply: job.isEasyApply,
+		isFeatured: job.isFeatured,
+		company: job.company
+			? {
+					name: job.company.name,
+					slug: job.company.slug,
+					logoUrl: job.company.logoURL,
+					location: job.company.location,
+					industry: job.company.industry,
+					website: job.company.website,
+					isVerified: job.company.isVerified
+				}
+			: null
+	};
+}
+
+// MARK: - Source
+
+export const vaporJobSource: JobSource = {
+	id: 'vapor-api',
+	label: 'Vapor API',
+
+	/**
+	 * The Vapor `JobFilters` DTO has no exact-location, salary or remote
+	 * eligibility filter, and its `search` param is a plain ILIKE without
+	 * ranking or synonyms.
+	 */
+	unsupported(query) {
+		if (query.location) return 'Location filter is not supported';
+		if (query.q) return 'Ranked search is not supported';
+		if (query.minSalary) return 'Salary filter is not supported';
+		if (query.country || query.timezone) return 'Remote eligibility filter is not supported';
+		return null;
+	},
+
+	async fetchJobs({ fetch, signal, query }) {
+		const baseUrl = env.VAPOR_API_URL || DEFAULT_VAPOR_API_URL;
+		const params = new URLSearchParams({
+			page: String(query.page),
+			perPage: String(query.perPage)
+		});
+		if (query.locationType) params.set('locationType', query.locationType);
+		if (query.employmentType) params.set('employmentType', query.employmentType);
+		if (query.experienceLevel) params.set('experienceLevel', query.experienceLevel);
+
+		const response = await fetch(`${baseUrl}/api/v1/jobs?${params}`, { signal });
+
+		if (!response.ok) {
+			throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+		}
+
+		const data: VaporJobsResponse = await response.json();
+		return { jobs: data.items.map(toRawJob), total: data.metadata.total };
+	}
+};
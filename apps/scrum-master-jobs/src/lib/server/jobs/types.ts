@@ -0,0 +1,186 @@
+/**
+ * Job Source Types
+ * ================
+ *
+ * Contracts shared by every job source in the /jobs load pipeline.
+ *
+ * A source only has to fetch its payload and rename fields into a
+ * `RawJob`. Defaults, enum coercion and the final `Job` shape are
+ * handled once by `normalizeJob()` in normalize.ts.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { JobHighlight } from '$lib/types';
+import type { JobPage, JobQuery } from '$lib/jobs/query';
+
+// MARK: - Raw Job Records
+
+/**
+ * Company fields as delivered by a source, before defaults are applied.
+ */
+export interface RawCompany {
+	name?: string | null;
+	slug?: string | null;
+	logoUrl?: string | null;
+	location?: string | null;
+	industry?: string | null;
+	website?: string | null;
+	description?: string | null;
+	employeeCount?: string | null;
+	foundedYear?: number | null;
+	isVerified?: boolean | null;
+}
+
+/**
+ * Source-agnostic job record.
+ * Every field except `id` and `title` may be missing or null;
+ * enum fields are plain strings and get coerced during normalization.
+ */
+export interface RawJob {
+	id: string;
+	slug?: string | null;
+	title: string;
+	description?: string | null;
+	requirements?: string[] | null;
+	benefits?: string[] | null;
+	skills?: string[] | null;
+	location?: string | null;
+	locationType?: string | null;
+	employmentType?: string | null;
+	experienceLevel?: string | null;
+	salaryMin?: number | null;
+	salaryMax?: number | null;
+	salaryCurrency?: string | null;
+	/** "year" or "hour"; anything else is read as per year */
+	salaryPeriod?: string | null;
+	/** Remote eligibility: region codes, ISO country codes and the UTC overlap window */
+	remoteRegions?: string[] | null;
+	remoteCountries?: string[] | null;
+	remoteOverlapStart?: number | null;
+	remoteOverlapEnd?: number | null;
+	postedAt?: string | null;
+	originalPostedAt?: string | null;
+	expiresAt?: string | null;
+	applicants?: number | null;
+	applyUrl?: string | null;
+	isEasyApply?: boolean | null;
+	isFeatured?: boolean | null;
+	/** Where the listing came from ("direct" or an importer feed) */
+	source?: string | null;
+	/** Easy Apply questions as stored (validated during normalization) */
+	screeningQuestions?: unknown;
+	company?: RawCompany | null;
+	/** Search highlights, when the source ranks free-text queries itself */
+	highlight?: JobHighlight | null;
+}
+
+/**
+ * One page of raw jobs plus the total number of matches.
+ */
+export interface RawJobPage {
+	jobs: RawJob[];
+	total: number;
+}
+
+// MARK: - Sources
+
+/**
+ * Per-request dependencies handed to each source.
+ */
+export interface JobSourceContext {
+	/** SvelteKit's fetch from the load event */
+	fetch: typeof fetch;
+	/** Request-scoped Supabase client (respects RLS) */
+	supabase: SupabaseClient;
+	/** Aborted when the source exceeds its configured timeout */
+	signal: AbortSignal;
+	/**
+	 * Filters, search term and page to apply at the source.
+	 * When `query.q` is set, results must be ordered by relevance.
+	 */
+	query: JobQuery;
+}
+
+/**
+ * A pluggable provider of job listings.
+ */
+export interface JobSource {
+	/** Stable identifier used in config and reported back to the page */
+	id: string;
+	/** Human-readable name for logs and UI */
+	label: string;
+	/** Fetch one page of jobs; throw to signal failure so the pipeline falls through */
+	fetchJobs(context: JobSourceContext): Promise<RawJobPage>;
+	/**
+	 * Optional capability check. Return a reason when the source cannot
+	 * serve `query` (e.g. a filter its API lacks); it is then skipped
+	 * without counting as a failure.
+	 */
+	unsupported?(query: JobQuery): string | null;
+}
+
+/**
+ * Health and timeout settings for a single source.
+ */
+export interface JobSourceSettings {
+	/** Set to false to skip the source without removing it from the order */
+	enabled: boolean;
+	/** Abort the source after this many milliseconds */
+	timeoutMs: number;
+	/** Consecutive failures before the source is put in cooldown */
+	failureThreshold: number;
+	/** How long an unhealthy source is skipped before being retried */
+	cooldownMs: number;
+	/**
+	 * Whether an empty unfiltered result counts as success (otherwise falls
+	 * through). Empty results for a filtered query are always accepted.
+	 */
+	acceptEmpty: boolean;
+}
+
+/**
+ * Pipeline configuration: which sources run, in which order.
+ */
+export interface JobSourceConfig {
+	order: string[];
+	settings: Record<string, Partial<JobSourceSettings>>;
+}
+
+// MARK: - Results
+
+/**
+ * Outcome of one source during a pipeline run.
+ * - ok: returned jobs (the pipeline stops here)
+ * - empty: returned no jobs for an unfiltered query and `acceptEmpty` is off
+ * - unsupported: cannot serve the query's filters
+ * - error: threw or returned an error
+ * - timeout: exceeded `timeoutMs`
+ * - unhealthy: skipped because it is in cooldown
+ * - disabled: turned off in config
+ * - unknown: listed in `order` but never registered
+ */
+export type JobSourceStatus =
+	| 'ok'
+	| 'empty'
+	| 'unsupported'
+	| 'error'
+	| 'timeout'
+	| 'unhealthy'
+	| 'disabled'
+	| 'unknown';
+
+export interface JobSourceAttempt {
+	source: string;
+	status: JobSourceStatus;
+	/** Total matches reported (0 unless status is ok or empty) */
+	count: number;
+	durationMs: number;
+	/** Why the source was not used, when it wasn't */
+	reason?: string;
+}
+
+export interface JobSourceResult extends JobPage {
+	/** Id of the source that supplied `jobs`, or null if every source failed */
+	source: string | null;
+	attempts: JobSourceAttempt[];
+}
@@ -0,0 +1,70 @@
+/**
+ * Mail Module
+ * ===========
+ *
+ * Pluggable outgoing mail. The transport is picked by MAIL_TRANSPORT
+ * ("console" by default, or "smtp"), so a local SMTP catcher can stand in
+ * for a real relay without code changes.
+ *
+ * Usage:
+ * ```typescript
+ * import { getMailTransport, getMailSender } from '$lib/server/mail';
+ *
+ * await getMailTransport().send({
+ *   from: getMailSender(),
+ *   to: { email: 'dev@example.com' },
+ *   subject: 'Hello',
+ *   text: 'Hi there'
+ * });
+ * ```
+ */
+
+import { env } from '$env/dynamic/private';
+import type { MailAddress, MailTransport } from './types';
+import { consoleMailTransport } from './transports/console';
+import { smtpMailTransport } from './transports/smtp';
+
+export type * from './types';
+
+// MARK: - Registry
+
+const DEFAULT_TRANSPORT = 'console';
+const DEFAULT_SENDER: MailAddress = { email: 'alerts@localhost', name: 'Job Alerts' };
+
+const transports = new Map<string, MailTransport>();
+
+/**
+ * Register a mail transport, replacing any transport with the same id.
+ */
+export function registerMailTransport(transport: MailTransport): void {
+	transports.set(transport.id, transport);
+}
+
+/**
+ * The transport named by MAIL_TRANSPORT.
+ * @throws Error when MAIL_TRANSPORT names an unregistered transport
+ */
+export function getMailTransport(): MailTransport {
+	const id = env.MAIL_TRANSPORT?.trim() || DEFAULT_TRANSPORT;
+	const transport = transports.get(id);
+	if (!transport) {
+		throw new Error(`Unknown mail transport "${id}"`);
+	}
+	return transport;
+}
+
+/**
+ * The From address for outgoing mail (MAIL_FROM, e.g. "Jobs <jobs@example.com>").
+ */
+export function getMailSender(): MailAddress {
+	const from = env.MAIL_FROM?.trim();
+	if (!from) return DEFAULT_SENDER;
+
+	const match = from.match(/^(.*)<([^>]+)>$/);
+	return match ? { name: match[1].trim().replace(/^"|"$/g, '') || undefined, email: match[2].trim() } : { email: from };
+}
+
+// MARK: - Built-in Transports
+
+registerMailTransport(consoleMailTransport);
+registerMailTransport(smtpMailTransport);
@@ -0,0 +1,19 @@
+/**
+ * Console Mail Transport
+ * ======================
+ *
+ * Logs messages instead of sending them. The default when no transport
+ * is configured, so development never emails real users by accident.
+ */
+
+import type { MailTransport } from '../types';
+
+export const consoleMailTransport: MailTransport = {
+	id: 'console',
+
+	async send(message) {
+		console.info(
+			`[Mail] To: ${message.to.email}\n[Mail] Subject: ${message.subject}\n${message.text}`
+		);
+	}
+};
@@ -0,0 +1,256 @@
+/**
+ * SMTP Mail Transport
+ * ===================
+ *
+ * A small SMTP client (RFC 5321) built on `node:net`/`node:tls`, so no
+ * mail library is needed. It speaks plain SMTP, optionally over implicit
+ * TLS (port 465) with AUTH PLAIN, which covers local catchers such as
+ * Mailpit or MailHog as well as most transactional relays.
+ *
+ * STARTTLS is not supported; use SMTP_SECURE=true against a relay's
+ * implicit-TLS port instead. Credentials are only ever sent over TLS:
+ * with SMTP_USER set but SMTP_SECURE off, sending fails before connecting.
+ *
+ * Configuration (env):
+ * - SMTP_HOST    (default "localhost")
+ * - SMTP_PORT    (default 1025, the usual local catcher port)
+ * - SMTP_SECURE  "true" to connect with TLS
+ * - SMTP_USER / SMTP_PASSWORD  for AUTH PLAIN (optional, requires SMTP_SECURE)
+ */
+
+import net from 'node:net';
+import tls from 'node:tls';
+import { randomUUID } from 'node:crypto';
+import { env } from '$env/dynamic/private';
+import type { MailAddress, MailMessage, MailTransport } from '../types';
+
+// MARK: - Configuration
+
+const DEFAULT_HOST = 'localhost';
+const DEFAULT_PORT = 1025;
+const TIMEOUT_MS = 10_000;
+
+interface SmtpSettings {
+	host: string;
+	port: number;
+	secure: boolean;
+	user?: string;
+	password?: string;
+}
+
+function getSmtpSettings(): SmtpSettings {
+	return {
+		host: env.SMTP_HOST || DEFAULT_HOST,
+		port: Number(env.SMTP_PORT) || DEFAULT_PORT,
+		secure: env.SMTP_SECURE === 'true',
+		user: env.SMTP_USER || undefined,
+		password: env.SMTP_PASSWORD || undefined
+	};
+}
+
+// MARK: - Message Encoding
+
+/** Strip CR/LF so user-controlled values can't inject headers */
+function headerValue(value: string): string {
+	return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+/** RFC 2047 encoded-word for non-ASCII header text */
+function encodeWord(value: string): string {
+	const clean = headerValue(value);
+	return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean).toString('base64')}?=`;
+}
+
+function formatAddress(address: MailAddress): string {
+	const email = headerValue(address.email);
+	if (!address.name) return `<${email}>`;
+	return `${encodeWord(address.name.replace(/"/g, ''))} <${email}>`;
+}
+
+/** Base64 body wrapped at 76 characters; never needs dot-stuffing */
+function base64Body(content: string): string {
+	return (
+		Buffer.from(content)
+			.toString('base64')
+			.match(/.{1,76}/g)
+			?.join('\r\n') ?? ''
+	);
+}
+
+/**
+ * Build the RFC 5322 message text, with a multipart/alternative body
+ * when an HTML version is present.
+ */
+function buildMessage(message: MailMessage): string {
+	const domain = message.from.email.split('@')[1] ?? 'localhost';
+	const headers = [
+		`From: ${formatAddress(message.from)}`,
+		`To: ${formatAddress(message.to)}`,
+		`Subject: ${encodeWord(message.subject)}`,
+		`Date: ${new Date().toUTCString()}`,
+		`Message-ID: <${randomUUID()}@${headerValue(domain)}>`,
+		'MIME-Version: 1.0',
+		...Object.entries(message.headers ?? {}).map(
+			([name, value]) => `${headerValue(name)}: ${headerValue(value)}`
+		)
+	];
+
+	const textPart = [
+		'Content-Type: text/plain; charset=utf-8',
+		'Content-Transfer-Encoding: base64',
+		'',
+		base64Body(message.text)
+	];
+
+	if (!message.html) {
+		return [...headers, ...textPart].join('\r\n');
+	}
+
+	const boundary = `alt-${randomUUID()}`;
+	return [
+		...headers,
+		`Content-Type: multipart/alternative; boundary="${boundary}"`,
+		'',
+		`--${boundary}`,
+		...textPart,
+		`--${boundary}`,
+		'Content-Type: text/html; charset=utf-8',
+		'Content-Transfer-Encoding: base64',
+		'',
+		base64Body(message.html),
+		`--${boundary}--`
+	].join('\r\n');
+}
+
+// MARK: - Connection
+
+interface SmtpReply {
+	code: number;
+	text: string;
+}
+
+/**
+ * One SMTP session. Replies are queued as they arrive and handed out in
+ * order, so each command can simply await the next reply.
+ */
+class SmtpConnection {
+	#socket: net.Socket;
+	#buffer = '';
+	#lines: string[] = [];
+	#replies: SmtpReply[] = [];
+	#waiters: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void }[] = [];
+	#error: Error | null = null;
+
+	private constructor(socket: net.Socket) {
+		this.#socket = socket;
+		socket.setEncoding('utf8');
+		socket.setTimeout(TIMEOUT_MS, () => this.#fail(new Error('SMTP connection timed out')));
+		socket.on('data', (chunk: string) => this.#receive(chunk));
+		socket.on('error', (err) => this.#fail(err));
+		socket.on('close', () => this.#fail(new Error('SMTP connection closed')));
+	}
+
+	static open(settings: SmtpSettings): Promise<SmtpConnection> {
+		return new Promise((resolve, reject) => {
+			const event = settings.secure ? 'secureConnect' : 'connect';
+			const socket = settings.secure
+				? tls.connect({ host: settings.host, port: settings.port, servername: settings.host })
+				: net.connect({ host: settings.host, port: settings.port });
+
+			socket.once(event, () => resolve(new SmtpConnection(socket)));
+			socket.once('error', reject);
+		});
+	}
+
+	#receive(chunk: string) {
+		this.#buffer += chunk;
+		let newline: number;
+		while ((newline = this.#buffer.indexOf('\r\n')) !== -1) {
+			const line = this.#buffer.slice(0, newline);
+			this.#buffer = this.#buffer.slice(newline + 2);
+			this.#lines.push(line.slice(4));
+
+			// "250-..." continues a multi-line reply, "250 ..." ends it
+			if (/^\d{3}(?: |$)/.test(line)) {
+				const reply = { code: Number(line.slice(0, 3)), text: this.#lines.join('\n') };
+				this.#lines = [];
+				const waiter = this.#waiters.shift();
+				if (waiter) waiter.resolve(reply);
+				else this.#replies.push(reply);
+			}
+		}
+	}
+
+	#fail(err: Error) {
+		if (this.#error) return;
+		this.#error = err;
+		for (const waiter of this.#waiters.splice(0)) waiter.reject(err);
+		this.#socket.destroy();
+	}
+
+	/** Wait for the next reply and check its code */
+	async expect(...codes: number[]): Promise<SmtpReply> {
+		const reply =
+			this.#replies.shift() ??
+			(await new Promise<SmtpReply>((resolve, reject) => {
+				if (this.#error) reject(this.#error);
+				else this.#waiters.push({ resolve, reject });
+			}));
+
+		if (!codes.includes(reply.code)) {
+			throw new Error(`SMTP ${reply.code}: ${reply.text}`);
+		}
+		return reply;
+	}
+
+	/** Send a command line and check the reply code */
+	command(line: string, ...codes: number[]): Promise<SmtpReply> {
+		this.#socket.write(`${line}\r\n`);
+		return this.expect(...codes);
+	}
+
+	close() {
+		this.#socket.end();
+		this.#error ??= new Error('SMTP connection closed');
+	}
+}
+
+// MARK: - Transport
+
+/**
+ * Deliver one message over a fresh SMTP session.
+ */
+async function sendViaSmtp(settings: SmtpSettings, message: MailMessage): Promise<void> {
+	const authenticate = Boolean(settings.user && settings.password);
+	if (authenticate && !settings.secure) {
+		throw new Error('SMTP credentials are only sent over TLS; set SMTP_SECURE=true');
+	}
+
+	const connection = await SmtpConnection.open(settings);
+
+	try {
+		await connection.expect(220);
+		await connection.command(`EHLO ${message.from.email.split('@')[1] ?? 'localhost'}`, 250);
+
+		if (authenticate) {
+			const credentials = Buffer.from(`\0${settings.user}\0${settings.password}`).toString('base64');
+			await connection.command(`AUTH PLAIN ${credentials}`, 235);
+		}
+
+		await connection.command(`MAIL FROM:<${headerValue(message.from.email)}>`, 250);
+		await connection.command(`RCPT TO:<${headerValue(message.to.email)}>`, 250, 251);
+		await connection.command('DATA', 354);
+		await connection.command(`${buildMessage(message)}\r\n.`, 250);
+		await connection.command('QUIT', 221).catch(() => undefined);
+	} finally {
+		connection.close();
+	}
+}
+
+export const smtpMailTransport: MailTransport = {
+	id: 'smtp',
+
+	send(message) {
+		return sendViaSmtp(getSmtpSettings(), message);
+	}
+};
@@ -0,0 +1,42 @@
+/**
+ * Mail Types
+ * ==========
+ *
+ * The message shape and the `MailTransport` contract every delivery
+ * backend implements. Callers build a `MailMessage`; the configured
+ * transport decides how (or whether) it leaves the server.
+ */
+
+// MARK: - Messages
+
+export interface MailAddress {
+	email: string;
+	name?: string;
+}
+
+export interface MailMessage {
+	from: MailAddress;
+	to: MailAddress;
+	subject: string;
+	/** Plain-text body (always sent, for clients that don't render HTML) */
+	text: string;
+	/** Optional HTML alternative */
+	html?: string;
+	/** Extra headers, e.g. `List-Unsubscribe` */
+	headers?: Record<string, string>;
+}
+
+// MARK: - Transports
+
+/**
+ * A mail delivery backend (SMTP relay, local catcher, console, ...).
+ */
+export interface MailTransport {
+	/** Stable id used in MAIL_TRANSPORT (e.g. "smtp") */
+	id: string;
+	/**
+	 * Deliver one message.
+	 * @throws Error when the message could not be handed off
+	 */
+	send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,44 @@
+/**
+ * Supabase Service Client
+ * =======================
+ *
+ * A Supabase client authenticated with the service role key, for
+ * server-side jobs that act on behalf of no particular user (schedulers,
+ * mailers, unsubscribe links). It bypasses RLS, so never pass it to code
+ * that handles user input without its own authorization checks.
+ *
+ * Usage:
+ * ```typescript
+ * import { createServiceClient } from '$lib/server/supabase';
+ *
+ * const supabase = createServiceClient();
+ * if (!isAdmin(locals.user)) error(403, 'Admins only');
+ * ```
+ */
+
+import { createClient, type SupabaseClient, type User } from '@supabase/supabase-js';
+import { PUBLIC_SUPABASE_URL } from '$env/static/public';
+import { env } from '$env/dynamic/private';
+
+/**
+ * Create a service-role client.
+ * @throws Error when SUPABASE_SERVICE_ROLE_KEY is not configured
+ */
+export function createServiceClient(): SupabaseClient {
+	const serviceRoleKey = env.SUPABASE_SERVICE_ROLE_KEY;
+	if (!serviceRoleKey) {
+		throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured');
+	}
+
+	return createClient(PUBLIC_SUPABASE_URL, serviceRoleKey, {
+		auth: { persistSession: false, autoRefreshToken: false }
+	});
+}
+
+/**
+ * Whether a user is an admin. Mirrors the `auth.jwt()->>'role' = 'admin'`
+ * check the RLS policies use, so pages only offer what the database allows.
+ */
+export function isAdmin(user: User | null): boolean {
+	return user?.role === 'admin';
+}
@@ -0,0 +1,140 @@
+/**
+ * Compare Tray Store
+ * ==================
+ *
+ * The jobs pinned for side-by-side comparison, kept across pages and
+ * visits in localStorage. The tray only builds the link to
+ * /jobs/compare; the page itself reads the set from its URL, so shared
+ * links work for anyone.
+ *
+ * Entries keep the title and company so the tray can show them without
+ * loading the jobs again.
+ *
+ * Usage:
+ * ```typescript
+ * import { getComparedJobs, initCompareTray, toggleCompared } from '$lib/stores/compare.svelte';
+ *
+ * // In a page's onMount
+ * onMount(() => initCompareTray());
+ *
+ * // Pin or unpin from a job card
+ * toggleCompared(job);
+ *
+ * // Read reactively
+ * let pinned = $derived(getComparedJobs());
+ * ```
+ *
+ * SSR-safe: state starts empty and is only read from or written to
+ * localStorage in the browser.
+ */
+
+import type { Job } from '$lib/types';
+import { MAX_COMPARED_JOBS } from '$lib/jobs/compare';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/** A job pinned to the tray */
+export interface ComparedJobEntry {
+	id: string;
+	title: string;
+	company: string;
+}
+
+// ============================================
+// REACTIVE STATE
+// ============================================
+
+const STORAGE_KEY = 'compare-jobs';
+
+let entries = $state<ComparedJobEntry[]>([]);
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/** Jobs in the tray, in the order they were pinned */
+export function getComparedJobs(): ComparedJobEntry[] {
+	return entries;
+}
+
+/** Whether a job is in the tray */
+export function isCompared(jobId: string): boolean {
+	return entries.some((entry) => entry.id === jobId);
+}
+
+/** Whether the tray has room for another job */
+export function canCompareMore(): boolean {
+	return entries.length < MAX_COMPARED_JOBS;
+}
+
+/**
+ * Pin a job, or unpin it if it's already in the tray. Pinning a job when
+ * the tray is full does nothing.
+ * @returns Whether the job is in the tray afterwards
+ */
+export function toggleCompared(job: Job): boolean {
+	if (isCompared(job.id)) {
+		removeCompared(job.id);
+		return false;
+	}
+	if (!canCompareMore()) return false;
+
+	save([...entries, { id: job.id, title: job.title, company: job.company.name }]);
+	return true;
+}
+
+/** Unpin a job */
+export function removeCompared(jobId: string): void {
+	save(entries.filter((entry) => entry.id !== jobId));
+}
+
+/** Empty the tray */
+export function clearCompared(): void {
+	save([]);
+}
+
+/**
+ * Replace the tray with the jobs being compared, so opening a shared
+ * comparison link carries on from that set.
+ */
+export function setComparedJobs(jobs: Job[]): void {
+	save(
+		jobs
+			.slice(0, MAX_COMPARED_JOBS)
+			.map((job) => ({ id: job.id, title: job.title, company: job.company.name }))
+	);
+}
+
+/**
+ * Restore the tray from localStorage. Call in onMount of pages that show
+ * it; malformed stored values are ignored.
+ */
+export function initCompareTray(): void {
+	if (typeof window === 'undefined') return;
+
+	try {
+		const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+		if (!Array.isArray(stored)) return;
+		entries = stored
+			.filter(
+				(entry): entry is ComparedJobEntry =>
+					typeof entry?.id === 'string' && typeof entry?.title === 'string' && typeof entry?.company === 'string'
+			)
+			.slice(0, MAX_COMPARED_JOBS);
+	} catch {
+		entries = [];
+	}
+}
+
+// ============================================
+// PERSISTENCE
+// ============================================
+
+function save(next: ComparedJobEntry[]): void {
+	entries = next;
+	if (typeof window !== 'undefined') {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+	}
+}
@@ -170,6 +170,8 @@ export const sidebarMenus: Record<Section, SidebarMenu> = {
 			{ href: '/jobs/salaries', label: 'Salaries', icon: 'dollar' },
 			{ href: '/jobs/remote', label: 'Remote Jobs', icon: 'globe' },
 			{ href: '/jobs/saved', label: 'Saved Jobs', icon: 'bookmark' },
+			{ href: '/jobs/applications', label: 'My Applications', icon: 'folder' },
+			{ href: '/jobs/post', label: 'Post a Job', icon: 'plus' },
 			{ href: '/jobs/alerts', label: 'Job Alerts', icon: 'bell' }
 		],
 		showTags: true,
@@ -17,6 +17,25 @@ export type LocationType = 'Remote' | 'Hybrid' | 'On-site';
 export type EmploymentType = 'Full-time' | 'Part-time' | 'Contract' | 'Internship';
 export type ExperienceLevel = 'Entry' | 'Mid' | 'Senior' | 'Lead' | 'Executive';
 export type MatchAction = 'like' | 'pass' | 'superlike';
+export type AlertFrequency = 'instant' | 'daily' | 'weekly';
+export type AlertDeliveryStatus = 'pending' | 'sent' | 'failed';
+export type ApplicationStatus =
+	| 'submitted'
+	| 'reviewing'
+	| 'interviewing'
+	| 'offered'
+	| 'hired'
+	| 'rejected'
+	| 'withdrawn';
+export type CompanyMemberRole = 'owner' | 'recruiter';
+export type JobReviewStatus = 'draft' | 'pending_review' | 'approved';
+export type JobCloseReason = 'expired' | 'stale' | 'unreachable' | 'reported' | 'removed';
+export type SalaryPeriod = 'year' | 'hour';
+export type JobEventType = 'view' | 'detail_open' | 'apply_click' | 'bookmark' | 'easy_apply';
+export type JobReportReason = 'scam' | 'expired' | 'misleading' | 'duplicate' | 'offensive' | 'other';
+export type JobReportStatus = 'open' | 'dismissed' | 'actioned';
+export type JobModerationAction = 'auto_hidden' | 'dismissed' | 'deactivated';
+export type ArticleReactionType = 'heart' | 'unicorn' | 'save';
 
 // ============================================
 // TABLE TYPES
@@ -32,6 +51,12 @@ export interface Profile {
 	website: string | null;
 	github: string | null;
 	twitter: string | null;
+	/** Currency to show salary estimates in (010_salary_currency.sql) */
+	preferred_currency: string | null;
+	/** IANA timezone for the remote jobs hub (011_remote_eligibility.sql) */
+	timezone: string | null;
+	/** The user's own skills, compared with job skills (012_profile_skills.sql) */
+	skills: string[];
 	created_at: string;
 	updated_at: string;
 }
@@ -68,6 +93,12 @@ export interface Job {
 	salary_min: number | null;
 	salary_max: number | null;
 	salary_currency: string;
+	salary_period: SalaryPeriod;
+	/** Where a remote job can be worked from and its overlap window in UTC hours (011_remote_eligibility.sql) */
+	remote_regions: string[];
+	remote_countries: string[];
+	remote_overlap_start: number | null;
+	remote_overlap_end: number | null;
 	apply_url: string | null;
 	is_easy_apply: boolean;
 	is_featured: boolean;
@@ -77,6 +108,22 @@ export interface Job {
 	source_url: string | null;
 	posted_at: string;
 	expires_at: string | null;
+	/** Easy Apply questions, see `ScreeningQuestion` in $lib/types (006_job_applications.sql) */
+	screening_questions: Record<string, unknown>[];
+	/** Employer posting workflow (007_job_posting.sql) */
+	review_status: JobReviewStatus;
+	review_note: string | null;
+	submitted_at: string | null;
+	reviewed_at: string | null;
+	created_by: string | null;
+	/** Expiry and link-check state (008_job_expiry.sql) */
+	original_posted_at: string;
+	refreshed_at: string;
+	apply_url_checked_at: string | null;
+	apply_url_failures: number;
+	expiry_notified_at: string | null;
+	closed_at: string | null;
+	closed_reason: JobCloseReason | null;
 	created_at: string;
 	updated_at: string;
 }
@@ -85,12 +132,133 @@ export interface JobWithCompany extends Job {
 	company: Company;
 }
 
+/**
+ * Row returned by the search_jobs() RPC (002_job_search.sql).
+ * Highlights wrap matches in ⟦ ⟧; total_count repeats on every row.
+ */
+export interface SearchJobsRow {
+	job_id: string;
+	rank: number;
+	title_highlight: string;
+	snippet: string;
+	total_count: number;
+}
+
 export interface Bookmark {
 	id: string;
 	user_id: string;
 	job_id: string;
 	notes: string | null;
 	created_at: string;
+	updated_at: string;
+}
+
+export interface JobAlert {
+	id: string;
+	user_id: string;
+	name: string;
+	/** Saved /jobs filters, see `AlertFilters` in $lib/jobs/alerts */
+	filters: Record<string, unknown>;
+	frequency: AlertFrequency;
+	email: string;
+	is_active: boolean;
+	unsubscribe_token: string;
+	last_checked_at: string;
+	last_sent_at: string | null;
+	created_at: string;
+	updated_at: string;
+}
+
+export interface CalendarFeed {
+	user_id: string;
+	/** Secret in the iCal feed URL; replacing it revokes the old URL */
+	token: string;
+	created_at: string;
+	updated_at: string;
+}
+
+export interface JobAlertDelivery {
+	id: string;
+	alert_id: string;
+	job_ids: string[];
+	status: AlertDeliveryStatus;
+	attempts: number;
+	last_error: string | null;
+	sent_at: string | null;
+	created_at: string;
+}
+
+export interface CompanyMember {
+	id: string;
+	company_id: string;
+	user_id: string;
+	role: CompanyMemberRole;
+	created_at: string;
+}
+
+export interface Application {
+	id: string;
+	job_id: string;
+	user_id: string;
+	status: ApplicationStatus;
+	name: string;
+	email: string;
+	phone: string | null;
+	/** Object path in the private `resumes` storage bucket */
+	resume_path: string;
+	resume_filename: string;
+	cover_letter: string | null;
+	/** Screening answers keyed by question id */
+	answers: Record<string, string>;
+	status_changed_at: string;
+	created_at: string;
+	updated_at: string;
+}
+
+export interface ApplicationStatusEvent {
+	id: string;
+	application_id: string;
+	status: ApplicationStatus;
+	created_at: string;
+}
+
+export interface JobEvent {
+	id: number;
+	job_id: string;
+	event_type: JobEventType;
+	/** The user id for signed-in visitors, otherwise a random cookie id */
+	visitor_id: string;
+	user_id: string | null;
+	created_at: string;
+}
+
+export interface JobReport {
+	id: string;
+	job_id: string;
+	reporter_id: string;
+	reason: JobReportReason;
+	details: string | null;
+	status: JobReportStatus;
+	resolved_at: string | null;
+	resolved_by: string | null;
+	created_at: string;
+}
+
+export interface JobModerationEvent {
+	id: string;
+	job_id: string;
+	action: JobModerationAction;
+	/** The deciding admin; null when the report threshold hid the job */
+	actor_id: string | null;
+	report_count: number;
+	note: string | null;
+	created_at: string;
+}
+
+export interface ModerationSettings {
+	id: true;
+	report_hide_threshold: number;
+	updated_at: string;
 }
 
 export interface Article {
@@ -120,6 +288,55 @@ export interface ArticleWithAuthor extends Article {
 	author: Profile;
 }
 
+/** Threaded comment on an article (016_article_comments.sql) */
+export interface Comment {
+	id: string;
+	article_id: string;
+	/** Null for top-level comments */
+	parent_id: string | null;
+	author_id: string;
+	/** Markdown; empty once deleted */
+	body: string;
+	is_deleted: boolean;
+	edited_at: string | null;
+	deleted_at: string | null;
+	created_at: string;
+	updated_at: string;
+}
+
+/** An earlier version of an edited or deleted comment */
+export interface CommentRevision {
+	id: number;
+	comment_id: string;
+	body: string;
+	created_at: string;
+}
+
+/** A user's heart, unicorn or save on an article (017_article_reactions.sql) */
+export interface Reaction {
+	id: string;
+	user_id: string;
+	article_id: string;
+	type: ArticleReactionType;
+	/** Saves only: when the user archived it from their reading list (018_reading_list.sql) */
+	archived_at: string | null;
+	created_at: string;
+}
+
+/** A tag a user follows, by its canonical name (019_tags.sql) */
+export interface TagFollow {
+	id: string;
+	user_id: string;
+	tag: string;
+	created_at: string;
+}
+
+/** Row returned by the article_tag_counts() RPC (019_tags.sql) */
+export interface ArticleTagCountRow {
+	tag: string;
+	articles: number;
+}
+
 export interface Match {
 	id: string;
 	from_user_id: string;
@@ -143,9 +360,30 @@ export interface LinkedAccount {
 
 export type ProfileInsert = Omit<Profile, 'created_at' | 'updated_at'>;
 export type CompanyInsert = Omit<Company, 'id' | 'created_at' | 'updated_at'>;
-export type JobInsert = Omit<Job, 'id' | 'created_at' | 'updated_at'>;
-export type BookmarkInsert = Omit<Bookmark, 'id' | 'created_at'>;
+/** Expiry columns have defaults or are kept by the lifecycle trigger (008_job_expiry.sql) */
+type JobExpiryColumns =
+	| 'original_posted_at'
+	| 'refreshed_at'
+	| 'apply_url_checked_at'
+	| 'apply_url_failures'
+	| 'expiry_notified_at'
+	| 'closed_at'
+	| 'closed_reason';
+/** Remote eligibility defaults to anywhere, at any hours (011_remote_eligibility.sql) */
+type JobRemoteColumns = 'remote_regions' | 'remote_countries' | 'remote_overlap_start' | 'remote_overlap_end';
+export type JobInsert = Omit<Job, 'id' | 'created_at' | 'updated_at' | JobExpiryColumns | JobRemoteColumns> &
+	Partial<Pick<Job, JobExpiryColumns | JobRemoteColumns>>;
+export type BookmarkInsert = Omit<Bookmark, 'id' | 'created_at' | 'updated_at'>;
+export type JobAlertInsert = Pick<JobAlert, 'user_id' | 'name' | 'filters' | 'frequency' | 'email'>;
+export type ApplicationInsert = Pick<
+	Application,
+	'job_id' | 'user_id' | 'name' | 'email' | 'phone' | 'resume_path' | 'resume_filename' | 'cover_letter' | 'answers'
+>;
+export type JobReportInsert = Pick<JobReport, 'job_id' | 'reporter_id' | 'reason' | 'details'>;
 export type ArticleInsert = Omit<Article, 'id' | 'created_at' | 'updated_at' | 'hearts_count' | 'unicorns_count' | 'saves_count' | 'comments_count' | 'views_count'>;
+export type CommentInsert = Pick<Comment, 'article_id' | 'parent_id' | 'author_id' | 'body'>;
+export type ReactionInsert = Pick<Reaction, 'user_id' | 'article_id' | 'type'>;
+export type TagFollowInsert = Pick<TagFollow, 'user_id' | 'tag'>;
 export type MatchInsert = Omit<Match, 'id' | 'is_mutual' | 'created_at'>;
 
 // ============================================
@@ -155,4 +393,9 @@ export type MatchInsert = Omit<Match, 'id' | 'is_mutual' | 'created_at'>;
 export type ProfileUpdate = Partial<Omit<Profile, 'id' | 'created_at' | 'updated_at'>>;
 export type CompanyUpdate = Partial<Omit<Company, 'id' | 'created_at' | 'updated_at'>>;
 export type JobUpdate = Partial<Omit<Job, 'id' | 'created_at' | 'updated_at'>>;
+export type BookmarkUpdate = Pick<Bookmark, 'notes'>;
+export type JobAlertUpdate = Partial<Pick<JobAlert, 'name' | 'filters' | 'frequency' | 'is_active'>>;
+export type ApplicationUpdate = Pick<Application, 'status'>;
+export type CommentUpdate = Partial<Pick<Comment, 'body' | 'is_deleted'>>;
+export type ReactionUpdate = Pick<Reaction, 'archived_at'>;
 export type ArticleUpdate = Partial<Omit<Article, 'id' | 'author_id' | 'created_at' | 'updated_at'>>;
@@ -23,3 +23,73 @@ export interface Article {
 	publishedAt: string;
 	community: string;
 }
+
+/**
+ * A reaction a reader can leave on an article, one of each per reader.
+ * Counted in `Article.reactions` (hearts, unicorns, saves).
+ */
+export type ReactionType = 'heart' | 'unicorn' | 'save';
+
+/**
+ * An article the reader saved, on their reading list (/readinglist).
+ */
+export interface ReadingListItem {
+	article: Article;
+	savedAt: string;
+	/** When the reader archived it, null while it's still to read */
+	archivedAt: string | null;
+}
+
+/**
+ * Where an article is in its lifecycle. Drafts are private; scheduled
+ * articles go live at their publication date.
+ */
+export type ArticleStatus = 'draft' | 'scheduled' | 'published';
+
+/**
+ * An article as its author edits it (/new and /[username]/[slug]/edit).
+ */
+export interface ArticleDraft {
+	id: string;
+	slug: string;
+	status: ArticleStatus;
+	title: string;
+	excerpt: string;
+	content: string;
+	coverImage: string | null;
+	tags: string[];
+	community: string;
+	/** Minutes, computed by the server on every save */
+	readingTime: number;
+	/** When the article went or goes live, null for drafts */
+	publishedAt: string | null;
+	updatedAt: string;
+}
+
+/**
+ * A comment in an article's thread, with its replies.
+ */
+export interface ArticleComment {
+	id: string;
+	parentId: string | null;
+	author: Pick<User, 'id' | 'name' | 'username' | 'avatar'>;
+	/** Markdown; empty for deleted comments */
+	body: string;
+	createdAt: string;
+	/** Last edit, null if never edited */
+	editedAt: string | null;
+	/** Deleted comments stay in the thread while they have replies */
+	deleted: boolean;
+	/** Written by the article's author, highlighted in the thread */
+	byArticleAuthor: boolean;
+	/** Earlier versions, oldest first */
+	revisions: CommentRevision[];
+	replies: ArticleComment[];
+}
+
+/** An earlier version of an edited comment */
+export interface CommentRevision {
+	body: string;
+	/** When it was replaced */
+	replacedAt: string;
+}
@@ -7,6 +7,28 @@ export type {
 	Job,
 	Company,
 	Salary,
+	SalaryPeriod,
+	RemoteRegion,
+	RemoteOverlap,
+	RemoteEligibility,
+	HighlightSegment,
+	JobHighlight,
+	DuplicateListing,
+	SavedJob,
+	ScreeningQuestion,
+	ApplicationStatus,
+	ApplicationStatusChange,
+	JobApplication,
+	Applicant,
+	JobPostStatus,
+	JobCloseReason,
+	JobPosting,
+	JobEventType,
+	JobReportReason,
+	JobModerationAction,
+	JobReport,
+	ReportedJob,
+	ModerationEvent,
 	LocationType,
 	EmploymentType,
 	ExperienceLevel
@@ -16,7 +38,7 @@ export type {
 export type { User } from './user';
 
 // Article types
-export type { Article } from './article';
+export type { Article, ReactionType, ReadingListItem, ArticleStatus, ArticleDraft, ArticleComment, CommentRevision } from './article';
 
 // Community types
 export type { Community } from './community';
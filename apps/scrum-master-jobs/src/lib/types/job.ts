@@ -5,22 +5,117 @@
 export type LocationType = 'Remote' | 'Hybrid' | 'On-site';
 export type EmploymentType = 'Full-time' | 'Part-time' | 'Contract' | 'Internship';
 export type ExperienceLevel = 'Entry' | 'Mid' | 'Senior' | 'Lead' | 'Executive';
+export type ApplicationStatus =
+	| 'submitted'
+	| 'reviewing'
+	| 'interviewing'
+	| 'offered'
+	| 'hired'
+	| 'rejected'
+	| 'withdrawn';
+/** Where an employer's posting is in its lifecycle */
+export type JobPostStatus = 'draft' | 'pending_review' | 'published' | 'expired';
+/** Why a listing was taken off the board */
+export type JobCloseReason = 'expired' | 'stale' | 'unreachable' | 'reported' | 'removed';
+/** What a salary amount pays for */
+export type SalaryPeriod = 'year' | 'hour';
+/** How a job seeker interacted with a listing, as tracked for its employer */
+export type JobEventType = 'view' | 'detail_open' | 'apply_click' | 'bookmark' | 'easy_apply';
+/** Why a job seeker reported a listing */
+export type JobReportReason = 'scam' | 'expired' | 'misleading' | 'duplicate' | 'offensive' | 'other';
+/** What happened to a reported listing: hidden at the report threshold, or a moderator's decision */
+export type JobModerationAction = 'auto_hidden' | 'dismissed' | 'deactivated';
+
+/** Broad areas a remote job can be open to; see $lib/jobs/remote for the countries in each */
+export type RemoteRegion = 'americas' | 'europe' | 'middle-east' | 'africa' | 'asia-pacific';
 
 export interface Company {
 	name: string;
+	/** URL segment for /jobs/companies/[slug] */
+	slug?: string;
 	logo: string;
 	location: string;
 	industry?: string;
+	website?: string;
+	description?: string;
+	/** Headcount range as published, e.g. "50-200" or "5000+" */
+	employeeCount?: string;
+	foundedYear?: number;
+	isVerified?: boolean;
 }
 
 export interface Salary {
 	min: number;
 	max: number;
 	currency: string;
+	/** Amounts are per year unless this says otherwise */
+	period?: SalaryPeriod;
+}
+
+/**
+ * A run of text in a search highlight; `match` marks query hits.
+ */
+export interface HighlightSegment {
+	text: string;
+	match: boolean;
+}
+
+/**
+ * Hours a remote job needs to overlap with the team, in UTC.
+ * `endHour` is after `startHour` and may pass 24 when the window
+ * crosses midnight UTC (22 to 26 is 22:00-02:00 UTC).
+ */
+export interface RemoteOverlap {
+	startHour: number;
+	endHour: number;
+}
+
+/**
+ * Where a remote job can be worked from. No regions and no countries
+ * means anywhere; no overlap means no fixed hours.
+ */
+export interface RemoteEligibility {
+	regions: RemoteRegion[];
+	/** ISO 3166-1 alpha-2 codes, e.g. "DE" */
+	countries: string[];
+	overlap?: RemoteOverlap;
+}
+
+/**
+ * Search hit highlighting for a job's title and a description snippet.
+ */
+export interface JobHighlight {
+	title: HighlightSegment[];
+	snippet: HighlightSegment[];
+}
+
+/**
+ * Another listing of the same opening, folded into the job shown on
+ * /jobs (see `$lib/jobs/dedupe`).
+ */
+export interface DuplicateListing {
+	id: string;
+	slug?: string;
+	/** Where the listing came from (`jobs.source`); null for board postings */
+	source: string | null;
+	applyUrl?: string;
+}
+
+/**
+ * A question the employer asks on the Easy Apply form.
+ * `choice` questions list their `options`.
+ */
+export interface ScreeningQuestion {
+	id: string;
+	label: string;
+	type: 'text' | 'yes_no' | 'choice';
+	options?: string[];
+	required: boolean;
 }
 
 export interface Job {
 	id: string;
+	slug?: string;
 	title: string;
 	company: Company;
 	location: string;
@@ -28,11 +123,131 @@ export interface Job {
 	employmentType: EmploymentType;
 	experienceLevel: ExperienceLevel;
 	salary?: Salary;
+	/** Set on remote jobs that limit where or when they can be worked */
+	remote?: RemoteEligibility;
 	description: string;
 	requirements: string[];
 	benefits: string[];
 	skills: string[];
 	postedAt: string;
+	/** First publication date; earlier than `postedAt` when the job was reposted */
+	originalPostedAt?: string;
+	/** When the posting closes, if the employer set a date */
+	expiresAt?: string;
 	applicants?: number;
+	applyUrl?: string;
 	isEasyApply?: boolean;
+	isFeatured?: boolean;
+	/** Where the listing came from: "direct" for board postings, else the importer feed ("greenhouse", "rss", …) */
+	source?: string | null;
+	/** Other listings of the same opening, collapsed into this one */
+	alsoPostedOn?: DuplicateListing[];
+	/** Asked on the Easy Apply form */
+	screeningQuestions?: ScreeningQuestion[];
+	/** Present when the job was returned for a free-text search */
+	highlight?: JobHighlight;
+}
+
+/**
+ * A job the signed-in user bookmarked, with their private notes.
+ */
+export interface SavedJob {
+	job: Job;
+	notes: string;
+	savedAt: string;
+}
+
+/**
+ * One entry in an application's status history.
+ */
+export interface ApplicationStatusChange {
+	status: ApplicationStatus;
+	at: string;
+}
+
+/**
+ * An Easy Apply application as its candidate sees it.
+ */
+export interface JobApplication {
+	id: string;
+	job: Job;
+	status: ApplicationStatus;
+	coverLetter: string;
+	resumeFilename: string;
+	appliedAt: string;
+	/** Oldest first */
+	history: ApplicationStatusChange[];
+}
+
+/**
+ * An application as the hiring company sees it in the applicant inbox.
+ */
+export interface Applicant {
+	id: string;
+	jobId: string;
+	jobTitle: string;
+	name: string;
+	email: string;
+	phone: string;
+	status: ApplicationStatus;
+	coverLetter: string;
+	/** Screening answers keyed by question id */
+	answers: Record<string, string>;
+	questions: ScreeningQuestion[];
+	resumeFilename: string;
+	/** Short-lived signed download link, null if it couldn't be created */
+	resumeUrl: string | null;
+	appliedAt: string;
+}
+
+/**
+ * A posting as its employer (or a reviewing admin) sees it.
+ */
+export interface JobPosting {
+	id: string;
+	job: Job;
+	status: JobPostStatus;
+	/** Reviewer's note when the posting was sent back to draft */
+	reviewNote: string | null;
+	submittedAt: string | null;
+	updatedAt: string;
+	/** Set when the board took a published posting down */
+	closedReason: JobCloseReason | null;
+}
+
+/**
+ * A report on a listing as a moderator sees it.
+ */
+export interface JobReport {
+	id: string;
+	reason: JobReportReason;
+	details: string;
+	reportedAt: string;
+}
+
+/**
+ * A listing with open reports, in the moderation queue.
+ */
+export interface ReportedJob {
+	job: Job;
+	/** Hidden from the board because its reports reached the threshold */
+	hidden: boolean;
+	/** Oldest first */
+	reports: JobReport[];
+}
+
+/**
+ * One entry in the moderation audit trail.
+ */
+export interface ModerationEvent {
+	id: string;
+	jobId: string;
+	jobTitle: string;
+	companyName: string;
+	action: JobModerationAction;
+	/** Name of the deciding admin; null when the report threshold hid the job */
+	actor: string | null;
+	reportCount: number;
+	note: string | null;
+	at: string;
 }
@@ -2,14 +2,59 @@
  * Root Layout Server
  * ==================
  *
- * Passes session and user data to all pages via PageData.
+ * Passes session and user data to all pages via PageData, along with the
+ * viewer's display currency and timezone (from their profile) and the
+ * rate table used to show salaries in that currency.
  */
 
 import type { LayoutServerLoad } from './$types';
+import { getRateTable } from '$lib/server/currency';
+import { isSupportedCurrency } from '$lib/jobs/currency';
+import { isValidTimeZone } from '$lib/jobs/remote';
 
 export const load: LayoutServerLoad = async ({ locals }) => {
+	const rateTable = getRateTable();
+	const preferences = await loadPreferences(locals, rateTable);
+
 	return {
 		session: locals.session,
-		user: locals.user
+		user: locals.user,
+		displayCurrency: preferences.displayCurrency,
+		timezone: preferences.timezone,
+		rateTable
 	};
 };
+
+/**
+ * The signed-in user's preferred currency, if the rate table supports it,
+ * and their timezone, if it is a valid IANA name. A failed lookup only
+ * costs the salary estimates and local overlap hours, so it is logged and
+ * treated as "no preference".
+ */
+async function loadPreferences(
+	locals: App.Locals,
+	rateTable: ReturnType<typeof getRateTable>
+): Promise<{ displayCurrency: string | null; timezone: string | null }> {
+	const none = { displayCurrency: null, timezone: null };
+	if (!locals.user) return none;
+
+	const { data, error } = await locals.supabase
+		.from('profiles')
+		.select('preferred_currency, timezone')
+		.eq('id', locals.user.id)
+		.maybeSingle();
+
+	if (error) {
+		console.error('[Profile] Failed to load preferences:', error.message);
+		return none;
+	}
+
+	const row = data as { preferred_currency: string | null; timezone: string | null } | null;
+	const currency = row?.preferred_currency ?? null;
+	const timezone = row?.timezone ?? null;
+
+	return {
+		displayCurrency: currency && isSupportedCurrency(currency, rateTable) ? currency : null,
+		timezone: timezone && isValidTimeZone(timezone) ? timezone : null
+	};
+}
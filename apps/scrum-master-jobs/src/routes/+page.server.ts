@@ -0,0 +1,51 @@
+/**
+ * Home Feed Page Server
+ * =====================
+ *
+ * Articles published in the editor, which the page ranks together with
+ * the mock feed, and the signed-in user's followed tags, which lift
+ * matching posts in the Relevant order. Signed-out visitors, and anyone
+ * whose follows can't be read, get the unpersonalised feed.
+ */
+
+import type { PageServerLoad } from './$types';
+import { getFollowedTags, getPublishedArticles } from '$lib/server/articles';
+import type { Article } from '$lib/types';
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals }) => {
+	const [published, followedTags] = await Promise.all([loadPublished(locals), loadFollowedTags(locals)]);
+
+	return {
+		// Cards don't show the body
+		articles: published.map((article) => ({ ...article, content: '' })),
+		followedTags
+	};
+};
+
+// MARK: - Helpers
+
+/**
+ * Live articles from the editor. The mock feed still fills the page if
+ * this fails, so the error is only logged.
+ */
+async function loadPublished(locals: App.Locals): Promise<Article[]> {
+	try {
+		return await getPublishedArticles(locals.supabase);
+	} catch (err) {
+		console.error('[Articles] Failed to load the home feed:', err instanceof Error ? err.message : err);
+		return [];
+	}
+}
+
+async function loadFollowedTags(locals: App.Locals): Promise<string[]> {
+	if (!locals.user) return [];
+
+	try {
+		return await getFollowedTags(locals.supabase, locals.user.id);
+	} catch (err) {
+		console.error('[Articles] Failed to load followed tags:', err instanceof Error ? err.message : err);
+		return [];
+	}
+}
@@ -0,0 +1,176 @@
+/**
+ * Article Page Server
+ * ===================
+ *
+ * Loads an article written in the editor from Supabase, with its comment
+ * threads and the reader's own reactions. Articles that aren't in the
+ * table come from the mock feed on the page itself, so a miss here is not
+ * an error. Authors also see their own drafts and scheduled articles (RLS
+ * hides them from everyone else), marked as such and with a link back to
+ * the editor.
+ *
+ * The comment actions post, reply to, edit and delete comments. Failures
+ * come back with the `target` form they belong to: "new", "reply-<id>",
+ * "edit-<id>" or "delete-<id>".
+ */
+
+import { fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import {
+	ArticleError,
+	addComment,
+	deleteComment,
+	editComment,
+	getArticleByPath,
+	getArticleComments,
+	getUserReactions
+} from '$lib/server/articles';
+import { validateComment } from '$lib/articles/comments';
+import type { ArticleComment, ReactionType } from '$lib/types';
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals, params }) => {
+	const none = {
+		article: null,
+		status: null,
+		canEdit: false,
+		comments: [] as ArticleComment[],
+		commentsError: null,
+		reactions: [] as ReactionType[]
+	};
+
+	let found: Awaited<ReturnType<typeof getArticleByPath>>;
+	try {
+		found = await getArticleByPath(locals.supabase, params.username, params.slug);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		console.error('[Articles] Failed to load article:', message);
+		return none;
+	}
+	if (!found) return none;
+
+	const [{ comments, commentsError }, reactions] = await Promise.all([
+		loadComments(locals, found.article.id, found.authorId),
+		loadReactions(locals, found.article.id)
+	]);
+
+	return {
+		article: found.article,
+		status: found.status,
+		canEdit: found.authorId === locals.user?.id,
+		comments,
+		commentsError,
+		reactions
+	};
+};
+
+// MARK: - Helpers
+
+/**
+ * The article's comment threads. A failure leaves the article readable,
+ * with a message in place of the discussion.
+ */
+async function loadComments(locals: App.Locals, articleId: string, authorId: string) {
+	try {
+		return { comments: await getArticleComments(locals.supabase, articleId, authorId), commentsError: null };
+	} catch (err) {
+		console.error('[Articles] Failed to load comments:', err instanceof Error ? err.message : err);
+		return { comments: [] as ArticleComment[], commentsError: 'Comments could not be loaded. Please try again.' };
+	}
+}
+
+/**
+ * The signed-in reader's reactions on the article. They only light up the
+ * buttons, so a failure is logged and treated as "no reactions".
+ */
+async function loadReactions(locals: App.Locals, articleId: string): Promise<ReactionType[]> {
+	if (!locals.user) return [];
+
+	try {
+		return await getUserReactions(locals.supabase, locals.user.id, articleId);
+	} catch (err) {
+		console.error('[Articles] Failed to load reactions:', err instanceof Error ? err.message : err);
+		return [];
+	}
+}
+
+// MARK: - Form Actions
+
+/**
+ * Run a comment write, mapping failures onto form errors for `target`.
+ */
+async function writeComment(target: string, run: () => Promise<void>) {
+	try {
+		await run();
+	} catch (err) {
+		if (err instanceof ArticleError) {
+			if (err.status >= 500) console.error('[Articles] Failed to save comment:', err.message);
+			return fail(err.status, {
+				target,
+				error: err.status >= 500 ? 'Your comment could not be saved. Please try again.' : err.message
+			});
+		}
+		throw err;
+	}
+	return null;
+}
+
+export const actions: Actions = {
+	/**
+	 * Comment on the article, or reply to a comment when `parentId` is set.
+	 */
+	comment: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+		const userId = locals.user.id;
+
+		const form = await request.formData();
+		const articleId = String(form.get('articleId') ?? '');
+		const parentId = String(form.get('parentId') ?? '') || null;
+		const target = parentId ? `reply-${parentId}` : 'new';
+
+		const parsed = validateComment({ body: form.get('body') });
+		if ('error' in parsed) {
+			return fail(400, { target, error: parsed.error });
+		}
+
+		return (
+			(await writeComment(target, () => addComment(locals.supabase, userId, articleId, parentId, parsed.body))) ?? {
+				target,
+				saved: true
+			}
+		);
+	},
+
+	/**
+	 * Change one of the user's comments.
+	 */
+	editComment: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+		const userId = locals.user.id;
+
+		const form = await request.formData();
+		const id = String(form.get('id') ?? '');
+		const target = `edit-${id}`;
+
+		const parsed = validateComment({ body: form.get('body') });
+		if ('error' in parsed) {
+			return fail(400, { target, error: parsed.error });
+		}
+
+		return (await writeComment(target, () => editComment(locals.supabase, userId, id, parsed.body))) ?? { target, saved: true };
+	},
+
+	/**
+	 * Delete one of the user's comments.
+	 */
+	deleteComment: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+		const userId = locals.user.id;
+
+		const id = String((await request.formData()).get('id') ?? '');
+		const target = `delete-${id}`;
+
+		return (await writeComment(target, () => deleteComment(locals.supabase, userId, id))) ?? { target, saved: true };
+	}
+};
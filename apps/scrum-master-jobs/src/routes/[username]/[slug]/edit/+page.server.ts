@@ -0,0 +1,116 @@
+/**
+ * Edit Article Page Server
+ * ========================
+ *
+ * Edits one of the signed-in author's articles in any state, and
+ * deletes drafts. Other people's articles 404, as if they didn't exist.
+ * Saves go by the article's id, so they still land after an autosave has
+ * renamed the draft's slug.
+ */
+
+import { error, fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import {
+	ArticleError,
+	deleteArticleDraft,
+	getAuthorArticle,
+	getAuthorArticleBySlug,
+	getAuthorUsername,
+	saveArticle
+} from '$lib/server/articles';
+import { readArticleForm, savedArticlePath, toArticleInput, validateArticle } from '$lib/articles/editor';
+import type { ArticleDraft } from '$lib/types';
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals, params, url }) => {
+	if (!locals.user) {
+		redirect(303, '/login');
+	}
+
+	const username = await getAuthorUsername(locals.supabase, locals.user.id).catch(() => null);
+	const article =
+		username === params.username
+			? await getAuthorArticleBySlug(locals.supabase, locals.user.id, params.slug).catch(() => null)
+			: null;
+	if (!username || !article) {
+		error(404, 'Article not found');
+	}
+
+	const saved = url.searchParams.get('saved');
+	const notice = saved === 'draft' || saved === 'scheduled' ? saved : null;
+
+	return { username, article, initial: toArticleInput(article), notice };
+};
+
+// MARK: - Form Actions
+
+export const actions: Actions = {
+	/**
+	 * Save changes. `intent` is "publish" to publish, update or schedule
+	 * the article, anything else keeps or moves it to draft.
+	 */
+	save: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+
+		const form = await request.formData();
+		const mode = form.get('intent') === 'publish' ? 'publish' : 'draft';
+		const id = String(form.get('id') ?? '');
+		const input = readArticleForm(form);
+
+		const [username, existing] = await Promise.all([
+			getAuthorUsername(locals.supabase, locals.user.id).catch(() => null),
+			getAuthorArticle(locals.supabase, locals.user.id, id).catch(() => null)
+		]);
+		if (!username || !existing) {
+			return fail(404, { input, errors: {}, error: 'Article not found' });
+		}
+
+		const { article, errors } = validateArticle(input, mode, { live: existing.status === 'published' });
+		if (!article) {
+			return fail(400, { input, errors, error: 'Please fix the highlighted fields' });
+		}
+
+		let saved: ArticleDraft;
+		try {
+			saved = await saveArticle(locals.supabase, locals.user.id, existing.id, article, mode);
+		} catch (err) {
+			if (err instanceof ArticleError) {
+				if (err.status >= 500) console.error('[Articles] Failed to save article:', err.message);
+				return fail(err.status, {
+					input,
+					errors: {},
+					error: err.status >= 500 ? 'The article could not be saved. Please try again.' : err.message
+				});
+			}
+			throw err;
+		}
+
+		redirect(303, savedArticlePath(username, saved));
+	},
+
+	/**
+	 * Delete a draft.
+	 */
+	delete: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+
+		const id = String((await request.formData()).get('id') ?? '');
+
+		try {
+			await deleteArticleDraft(locals.supabase, locals.user.id, id);
+		} catch (err) {
+			if (err instanceof ArticleError) {
+				if (err.status >= 500) console.error('[Articles] Failed to delete draft:', err.message);
+				return fail(err.status, {
+					input: null,
+					errors: {},
+					error: err.status >= 500 ? 'The draft could not be deleted. Please try again.' : err.message
+				});
+			}
+			throw err;
+		}
+
+		redirect(303, '/new');
+	}
+};
@@ -0,0 +1,55 @@
+/**
+ * Article Reaction Endpoint
+ * =========================
+ *
+ * Reaction writes for the signed-in user, called by the optimistic
+ * reaction buttons (see `$lib/articles/reactions.svelte.ts`).
+ *
+ * - PUT    /articles/:id/reactions/:type  React (idempotent)
+ * - DELETE /articles/:id/reactions/:type  Take the reaction back (idempotent)
+ *
+ * `type` is heart, unicorn or save. Responds 401 when signed out, so the
+ * client can roll back, and 403 for articles that aren't live.
+ */
+
+import { error, json } from '@sveltejs/kit';
+import type { RequestEvent, RequestHandler } from './$types';
+import { ArticleError, addReaction, isReactionType, removeReaction } from '$lib/server/articles';
+import type { ReactionType } from '$lib/types';
+
+// MARK: - Helpers
+
+/**
+ * Run a reaction write for the signed-in user, mapping ArticleError onto
+ * an HTTP error.
+ */
+async function write(event: RequestEvent, run: (userId: string, type: ReactionType) => Promise<void>) {
+	if (!event.locals.user) {
+		error(401, 'Sign in to react to articles');
+	}
+
+	const { id, type } = event.params;
+	if (!isReactionType(type)) {
+		error(404, 'Unknown reaction');
+	}
+
+	try {
+		await run(event.locals.user.id, type);
+	} catch (err) {
+		if (err instanceof ArticleError) {
+			if (err.status >= 500) console.error('[Articles] Reaction write failed:', err.message);
+			error(err.status, err.message);
+		}
+		throw err;
+	}
+
+	return json({ articleId: id, type, ok: true });
+}
+
+// MARK: - Handlers
+
+export const PUT: RequestHandler = (event) =>
+	write(event, (userId, type) => addReaction(event.locals.supabase, userId, event.params.id, type));
+
+export const DELETE: RequestHandler = (event) =>
+	write(event, (userId, type) => removeReaction(event.locals.supabase, userId, event.params.id, type));
@@ -0,0 +1,54 @@
+/**
+ * Draft Autosave Endpoint
+ * =======================
+ *
+ * Autosaves drafts from the article editor (see `requestAutosave()` in
+ * `$lib/articles/editor`). A body without an `id` creates the draft;
+ * later saves send the id back.
+ *
+ * - PUT /articles/drafts  body: `{ "id": "..." | null, "title": "...", "content": "...", ... }`
+ *
+ * Responds with the draft's id, slug and reading time. 401 when signed
+ * out, 409 for published and scheduled articles (they are only saved on
+ * purpose), and 400 when the draft doesn't validate.
+ */
+
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { ArticleError, autosaveArticle } from '$lib/server/articles';
+import { readArticleForm, validateArticle, type AutosavedArticle } from '$lib/articles/editor';
+
+// MARK: - Handlers
+
+export const PUT: RequestHandler = async ({ request, locals }) => {
+	if (!locals.user) {
+		error(401, 'Sign in to save drafts');
+	}
+
+	const body = await request.json().catch(() => null);
+	if (!body || typeof body !== 'object' || (body.id !== null && typeof body.id !== 'string')) {
+		error(400, 'Expected { "id": string | null, "title": string, "content": string, ... }');
+	}
+
+	const { article, errors } = validateArticle(readArticleForm(body), 'draft');
+	if (!article) {
+		error(400, Object.values(errors)[0] ?? 'The draft could not be saved');
+	}
+
+	try {
+		const draft = await autosaveArticle(locals.supabase, locals.user.id, body.id, article);
+		const saved: AutosavedArticle = {
+			id: draft.id,
+			slug: draft.slug,
+			readingTime: draft.readingTime,
+			savedAt: draft.updatedAt
+		};
+		return json(saved);
+	} catch (err) {
+		if (err instanceof ArticleError) {
+			if (err.status >= 500) console.error('[Articles] Failed to autosave draft:', err.message);
+			error(err.status, err.status >= 500 ? 'The draft could not be saved. Please try again.' : err.message);
+		}
+		throw err;
+	}
+};
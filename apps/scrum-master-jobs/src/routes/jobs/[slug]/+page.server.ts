@@ -0,0 +1,63 @@
+/**
+ * Job Detail Page Server Load
+ * ===========================
+ *
+ * Server-renders one job at its permalink, with the canonical URL and
+ * schema.org `JobPosting` JSON-LD for search engines.
+ *
+ * Jobs are addressed by slug; links by id (from sources without slugs,
+ * or old links) redirect permanently to the canonical path. Canonical
+ * URLs use SITE_URL when set so every deployment points at one origin.
+ *
+ * Opening the page records a `detail_open` event for the employer.
+ */
+
+import { error, redirect } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import type { PageServerLoad } from './$types';
+import { getSavedJobIds, loadJobBySlug, trackJobEvents } from '$lib/server/jobs';
+import { jobPath, serializeJsonLd, toJobPosting } from '$lib/jobs/seo';
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals, params, url, cookies, request }) => {
+	const result = await loadJobBySlug(locals.supabase, params.slug);
+
+	if (!result) {
+		error(404, 'Job not found');
+	}
+
+	const { job, source } = result;
+	const path = jobPath(job);
+	if (url.pathname !== path) {
+		redirect(301, path);
+	}
+
+	const canonical = new URL(path, env.SITE_URL || url.origin);
+	await trackJobEvents({ locals, cookies, request }, 'detail_open', [job.id]);
+
+	return {
+		job,
+		source,
+		canonicalUrl: canonical.href,
+		jsonLd: serializeJsonLd(toJobPosting(job, canonical)),
+		isSaved: await isSaved(locals, job.id)
+	};
+};
+
+// MARK: - Helpers
+
+/**
+ * Whether the signed-in user bookmarked the job.
+ * A bookmarks failure shouldn't take down the page, so it counts as "not saved".
+ */
+async function isSaved(locals: App.Locals, jobId: string): Promise<boolean> {
+	if (!locals.user) return false;
+
+	try {
+		return (await getSavedJobIds(locals.supabase, locals.user.id)).includes(jobId);
+	} catch (err) {
+		console.error('[Jobs] Failed to load saved job ids:', err instanceof Error ? err.message : err);
+		return false;
+	}
+}
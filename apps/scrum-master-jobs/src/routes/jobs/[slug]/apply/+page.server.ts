@@ -0,0 +1,139 @@
+/**
+ * Easy Apply Page Server
+ * ======================
+ *
+ * Loads the Easy Apply form for a job and handles the submission:
+ * résumé upload to the private `resumes` bucket, cover letter and the
+ * job's screening questions.
+ *
+ * Only signed-in users can apply; jobs without Easy Apply send visitors
+ * back to the job page, where the CTA links out to the employer.
+ * A sent application records an `easy_apply` event for the employer.
+ */
+
+import { fail, redirect, error } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import {
+	ApplicationError,
+	getApplicationForJob,
+	loadJobBySlug,
+	submitApplication,
+	trackJobEvents
+} from '$lib/server/jobs';
+import { jobPath } from '$lib/jobs/seo';
+import {
+	MAX_COVER_LETTER_LENGTH,
+	collectAnswers,
+	validateResume
+} from '$lib/jobs/applications';
+
+// MARK: - Constants
+
+const MAX_NAME_LENGTH = 120;
+const MAX_PHONE_LENGTH = 40;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals, params, url }) => {
+	const result = await loadJobBySlug(locals.supabase, params.slug);
+	if (!result) {
+		error(404, 'Job not found');
+	}
+
+	const { job, source } = result;
+	const path = `${jobPath(job)}/apply`;
+	if (url.pathname !== path) redirect(301, path);
+	if (!job.isEasyApply) redirect(303, jobPath(job));
+	if (!locals.user) redirect(303, '/login');
+
+	// Demo listings aren't in the database, so there is nothing to apply to
+	let existing = null;
+	if (source === 'supabase') {
+		try {
+			existing = await getApplicationForJob(locals.supabase, locals.user.id, job.id);
+		} catch (err) {
+			console.error('[Jobs] Failed to check for an existing application:', err instanceof Error ? err.message : err);
+		}
+	}
+
+	return {
+		job,
+		canApply: source === 'supabase',
+		existing,
+		defaults: {
+			name: String(locals.user.user_metadata?.name ?? ''),
+			email: locals.user.email ?? ''
+		}
+	};
+};
+
+// MARK: - Form Actions
+
+export const actions: Actions = {
+	/**
+	 * Submit an application. Everything the form validates is checked
+	 * again here with the same rules.
+	 */
+	default: async ({ request, locals, params, cookies }) => {
+		if (!locals.user) redirect(303, '/login');
+
+		const result = await loadJobBySlug(locals.supabase, params.slug);
+		if (!result || result.source !== 'supabase' || !result.job.isEasyApply) {
+			return fail(404, { error: 'This job is not accepting applications here' });
+		}
+		const { job } = result;
+
+		const form = await request.formData();
+		const name = String(form.get('name') ?? '').trim();
+		const email = String(form.get('email') ?? '').trim();
+		const phone = String(form.get('phone') ?? '').trim();
+		const coverLetter = String(form.get('coverLetter') ?? '').trim();
+		const resume = form.get('resume');
+
+		if (!name || name.length > MAX_NAME_LENGTH) {
+			return fail(400, { error: 'Enter your name' });
+		}
+		if (!EMAIL_PATTERN.test(email)) {
+			return fail(400, { error: 'Enter a valid email address' });
+		}
+		if (phone.length > MAX_PHONE_LENGTH) {
+			return fail(400, { error: 'Enter a shorter phone number' });
+		}
+		if (coverLetter.length > MAX_COVER_LETTER_LENGTH) {
+			return fail(400, { error: `Cover letters must be ${MAX_COVER_LETTER_LENGTH} characters or fewer` });
+		}
+
+		const resumeError = validateResume(resume instanceof File ? resume : null);
+		if (resumeError) {
+			return fail(400, { error: resumeError });
+		}
+
+		const { answers, error: answerError } = collectAnswers(job.screeningQuestions ?? [], form);
+		if (answerError) {
+			return fail(400, { error: answerError });
+		}
+
+		try {
+			await submitApplication(locals.supabase, locals.user.id, job.id, {
+				name,
+				email,
+				phone,
+				coverLetter,
+				answers,
+				resume: resume as File
+			});
+		} catch (err) {
+			if (err instanceof ApplicationError) {
+				if (err.status >= 500) console.error('[Jobs] Failed to submit application:', err.message);
+				return fail(err.status, {
+					error: err.status >= 500 ? 'Your application could not be sent. Please try again.' : err.message
+				});
+			}
+			throw err;
+		}
+
+		await trackJobEvents({ locals, cookies, request }, 'easy_apply', [job.id]);
+		redirect(303, '/jobs/applications?applied=1');
+	}
+};
@@ -0,0 +1,184 @@
+/**
+ * Job Alerts Page Server
+ * ======================
+ *
+ * Lists the signed-in user's alerts and handles creating, updating and
+ * deleting them. Filters arriving in the URL (from "Create alert" on
+ * /jobs) prefill the new-alert form.
+ *
+ * Writes go through the user's own Supabase client, so RLS keeps every
+ * action scoped to their alerts.
+ */
+
+import { fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import type { JobAlert, JobAlertInsert, JobAlertUpdate } from '$lib/supabase/types';
+import { parseJobQuery } from '$lib/jobs/query';
+import {
+	isAlertFrequency,
+	toAlertFilters,
+	MAX_ALERT_NAME_LENGTH,
+	MAX_ALERTS_PER_USER
+} from '$lib/jobs/alerts';
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals, url }) => {
+	if (!locals.user) {
+		redirect(303, '/login');
+	}
+
+	const { data, error } = await locals.supabase
+		.from('job_alerts')
+		.select('id, name, filters, frequency, is_active, last_sent_at, created_at')
+		.eq('user_id', locals.user.id)
+		.order('created_at', { ascending: false });
+
+	if (error) {
+		console.error('[Alerts] Failed to load alerts:', error.message);
+	}
+
+	return {
+		alerts: (data ?? []) as Pick<
+			JobAlert,
+			'id' | 'name' | 'filters' | 'frequency' | 'is_active' | 'last_sent_at' | 'created_at'
+		>[],
+		loadError: error ? 'Your alerts could not be loaded. Please try again.' : null,
+		prefill: parseJobQuery(url.searchParams),
+		email: locals.user.email ?? null
+	};
+};
+
+// MARK: - Form Actions
+
+export const actions: Actions = {
+	/**
+	 * Create an alert from the submitted filters.
+	 * Filter fields use the /jobs URL param names.
+	 */
+	create: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+		if (!locals.user.email) {
+			return fail(400, { error: 'Your account has no email address to send alerts to' });
+		}
+
+		const form = await request.formData();
+		const name = String(form.get('name') ?? '').trim();
+		const frequency = form.get('frequency');
+
+		if (!name) {
+			return fail(400, { error: 'Give your alert a name' });
+		}
+		if (name.length > MAX_ALERT_NAME_LENGTH) {
+			return fail(400, { error: `Alert names must be ${MAX_ALERT_NAME_LENGTH} characters or fewer` });
+		}
+		if (!isAlertFrequency(frequency)) {
+			return fail(400, { error: 'Choose how often to be emailed' });
+		}
+
+		const { count } = await locals.supabase
+			.from('job_alerts')
+			.select('id', { count: 'exact', head: true })
+			.eq('user_id', locals.user.id);
+
+		if ((count ?? 0) >= MAX_ALERTS_PER_USER) {
+			return fail(400, { error: `You can keep up to ${MAX_ALERTS_PER_USER} alerts` });
+		}
+
+		// Re-parse through the URL rules so stored filters are always valid
+		const params = new URLSearchParams();
+		const keys = [
+			'q',
+			'location',
+			'locationType',
+			'employmentType',
+			'experienceLevel',
+			'minSalary',
+			'currency',
+			'country',
+			'tz'
+		];
+		for (const key of keys) {
+			const value = form.get(key);
+			if (typeof value === 'string' && value.trim()) params.set(key, value.trim());
+		}
+
+		const alert: JobAlertInsert = {
+			user_id: locals.user.id,
+			name,
+			filters: toAlertFilters(parseJobQuery(params)),
+			frequency,
+			email: locals.user.email
+		};
+
+		const { error } = await locals.supabase.from('job_alerts').insert(alert);
+		if (error) {
+			console.error('[Alerts] Failed to create alert:', error.message);
+			return fail(500, { error: 'The alert could not be saved. Please try again.' });
+		}
+
+		return { created: true };
+	},
+
+	/**
+	 * Change an alert's frequency or pause/resume it.
+	 */
+	update: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+
+		const form = await request.formData();
+		const id = String(form.get('id') ?? '');
+		const changes: JobAlertUpdate = {};
+
+		const frequency = form.get('frequency');
+		if (frequency !== null) {
+			if (!isAlertFrequency(frequency)) return fail(400, { error: 'Unknown frequency' });
+			changes.frequency = frequency;
+		}
+
+		const active = form.get('is_active');
+		if (active !== null) {
+			changes.is_active = active === 'true';
+		}
+
+		if (!id || Object.keys(changes).length === 0) {
+			return fail(400, { error: 'Nothing to update' });
+		}
+
+		const { error } = await locals.supabase
+			.from('job_alerts')
+			.update(changes)
+			.eq('id', id)
+			.eq('user_id', locals.user.id);
+
+		if (error) {
+			console.error('[Alerts] Failed to update alert:', error.message);
+			return fail(500, { error: 'The alert could not be updated. Please try again.' });
+		}
+
+		return { updated: true };
+	},
+
+	/**
+	 * Delete an alert and any digests still queued for it.
+	 */
+	delete: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+
+		const form = await request.formData();
+		const id = String(form.get('id') ?? '');
+
+		const { error } = await locals.supabase
+			.from('job_alerts')
+			.delete()
+			.eq('id', id)
+			.eq('user_id', locals.user.id);
+
+		if (error) {
+			console.error('[Alerts] Failed to delete alert:', error.message);
+			return fail(500, { error: 'The alert could not be deleted. Please try again.' });
+		}
+
+		return { deleted: true };
+	}
+};
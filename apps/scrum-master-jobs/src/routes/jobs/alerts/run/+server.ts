@@ -0,0 +1,43 @@
+/**
+ * Job Alerts Scheduler Endpoint
+ * =============================
+ *
+ * One tick of the alert pipeline: match new jobs against due alerts,
+ * queue digests, and send them. Call it on a schedule (e.g. every 15
+ * minutes, so instant alerts stay timely) from Vercel Cron or any
+ * scheduler that can send a bearer token:
+ *
+ *   curl -H "Authorization: Bearer $CRON_SECRET" https://<site>/jobs/alerts/run
+ *
+ * Security:
+ * - Requires `Authorization: Bearer <CRON_SECRET>` (Vercel Cron sends this)
+ * - Disabled (503) until CRON_SECRET is configured
+ */
+
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { env } from '$env/dynamic/private';
+import { runJobAlerts } from '$lib/server/alerts';
+import { isCronAuthorized } from '$lib/server/cron';
+
+const run: RequestHandler = async ({ request, url }) => {
+	const secret = env.CRON_SECRET;
+	if (!secret) {
+		error(503, 'Job alerts are not configured');
+	}
+	if (!isCronAuthorized(request, secret)) {
+		error(401, 'Unauthorized');
+	}
+
+	try {
+		const summary = await runJobAlerts({ baseUrl: env.SITE_URL || url.origin });
+		return json(summary);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		console.error('[Alerts] Run failed:', message);
+		error(500, 'Job alert run failed');
+	}
+};
+
+export const GET = run;
+export const POST = run;
@@ -0,0 +1,72 @@
+/**
+ * Alert Unsubscribe Page Server
+ * =============================
+ *
+ * Target of the unsubscribe link in every alert email. Works without
+ * signing in: the token in the URL identifies the alert.
+ *
+ * Loading the page only shows a confirmation (mail scanners prefetch
+ * links); the alert is paused when the form is submitted.
+ */
+
+import { error, fail } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import { createServiceClient } from '$lib/server/supabase';
+import { UUID_PATTERN } from '$lib/server/jobs/detail';
+
+// MARK: - Helpers
+
+/**
+ * Look up the alert for a token with the service client
+ * (the visitor is usually not signed in, so RLS would hide it).
+ */
+async function findAlert(token: string) {
+	if (!UUID_PATTERN.test(token)) return null;
+
+	const { data, error: queryError } = await createServiceClient()
+		.from('job_alerts')
+		.select('id, name, is_active')
+		.eq('unsubscribe_token', token)
+		.maybeSingle();
+
+	if (queryError) {
+		console.error('[Alerts] Unsubscribe lookup failed:', queryError.message);
+		error(500, 'Something went wrong. Please try again.');
+	}
+
+	return data as { id: string; name: string; is_active: boolean } | null;
+}
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ params }) => {
+	const alert = await findAlert(params.token);
+	if (!alert) {
+		error(404, 'This unsubscribe link is invalid or the alert was deleted');
+	}
+
+	return { name: alert.name, isActive: alert.is_active };
+};
+
+// MARK: - Form Actions
+
+export const actions: Actions = {
+	default: async ({ params }) => {
+		const alert = await findAlert(params.token);
+		if (!alert) {
+			return fail(404, { error: 'This unsubscribe link is invalid or the alert was deleted' });
+		}
+
+		const { error: updateError } = await createServiceClient()
+			.from('job_alerts')
+			.update({ is_active: false })
+			.eq('id', alert.id);
+
+		if (updateError) {
+			console.error('[Alerts] Unsubscribe failed:', updateError.message);
+			return fail(500, { error: 'We could not unsubscribe you. Please try again.' });
+		}
+
+		return { unsubscribed: true };
+	}
+};
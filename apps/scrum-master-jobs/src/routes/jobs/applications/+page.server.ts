@@ -0,0 +1,70 @@
+/**
+ * My Applications Page Server
+ * ===========================
+ *
+ * The signed-in user's Easy Apply applications with their status
+ * history, and withdrawing an application that is still open.
+ * Signed-out visitors are sent to /login.
+ */
+
+import { fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import { ApplicationError, getMyApplications, withdrawApplication } from '$lib/server/jobs';
+import type { JobApplication } from '$lib/types';
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals, url }) => {
+	if (!locals.user) {
+		redirect(303, '/login');
+	}
+
+	const justApplied = url.searchParams.get('applied') === '1';
+
+	try {
+		return {
+			applications: await getMyApplications(locals.supabase, locals.user.id),
+			loadError: null,
+			justApplied
+		};
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		console.error('[Jobs] Failed to load applications:', message);
+		return {
+			applications: [] as JobApplication[],
+			loadError: 'Your applications could not be loaded. Please try again.',
+			justApplied
+		};
+	}
+};
+
+// MARK: - Form Actions
+
+export const actions: Actions = {
+	/**
+	 * Withdraw an application that hasn't reached a final status.
+	 */
+	withdraw: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+
+		const form = await request.formData();
+		const id = String(form.get('id') ?? '');
+		if (!id) {
+			return fail(400, { error: 'Nothing to withdraw' });
+		}
+
+		try {
+			await withdrawApplication(locals.supabase, locals.user.id, id);
+		} catch (err) {
+			if (err instanceof ApplicationError) {
+				if (err.status >= 500) console.error('[Jobs] Failed to withdraw application:', err.message);
+				return fail(err.status, {
+					error: err.status >= 500 ? 'The application could not be withdrawn. Please try again.' : err.message
+				});
+			}
+			throw err;
+		}
+
+		return { withdrawn: true };
+	}
+};
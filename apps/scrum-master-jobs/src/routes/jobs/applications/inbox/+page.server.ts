@@ -0,0 +1,79 @@
+/**
+ * Applicant Inbox Page Server
+ * ===========================
+ *
+ * Applications to the jobs of every company the signed-in user recruits
+ * for, filterable by job and status through the URL (`?job=`, `?status=`),
+ * and moving an application through the hiring pipeline.
+ *
+ * Membership comes from `company_members`; RLS makes sure recruiters only
+ * ever read and update their own company's applications.
+ */
+
+import { fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import { ApplicationError, getApplicantInbox, updateApplicationStatus } from '$lib/server/jobs';
+import { isApplicationStatus } from '$lib/jobs/applications';
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals, url }) => {
+	if (!locals.user) {
+		redirect(303, '/login');
+	}
+
+	const status = url.searchParams.get('status');
+	const filters = {
+		jobId: url.searchParams.get('job') || null,
+		status: isApplicationStatus(status) ? status : null
+	};
+
+	try {
+		return {
+			inbox: await getApplicantInbox(locals.supabase, locals.user.id, filters),
+			filters,
+			loadError: null
+		};
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		console.error('[Jobs] Failed to load applicant inbox:', message);
+		return {
+			inbox: null,
+			filters,
+			loadError: 'Applications could not be loaded. Please try again.'
+		};
+	}
+};
+
+// MARK: - Form Actions
+
+export const actions: Actions = {
+	/**
+	 * Move an application to another status.
+	 */
+	updateStatus: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+
+		const form = await request.formData();
+		const id = String(form.get('id') ?? '');
+		const status = form.get('status');
+
+		if (!id || !isApplicationStatus(status)) {
+			return fail(400, { error: 'Choose a status' });
+		}
+
+		try {
+			await updateApplicationStatus(locals.supabase, id, status);
+		} catch (err) {
+			if (err instanceof ApplicationError) {
+				if (err.status >= 500) console.error('[Jobs] Failed to update application status:', err.message);
+				return fail(err.status, {
+					error: err.status >= 500 ? 'The status could not be updated. Please try again.' : err.message
+				});
+			}
+			throw err;
+		}
+
+		return { updated: true };
+	}
+};
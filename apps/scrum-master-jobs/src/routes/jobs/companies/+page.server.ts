@@ -0,0 +1,39 @@
+/**
+ * Company Directory Page Server Load
+ * ==================================
+ *
+ * Every company on the board with its open roles and salary range,
+ * filtered by industry and headcount.
+ *
+ * URL params:
+ * - `industry`  exact industry name
+ * - `size`      startup | small | mid | large | enterprise (see COMPANY_SIZES)
+ */
+
+import type { PageServerLoad } from './$types';
+import { loadCompanies } from '$lib/server/jobs';
+import { getRateTable } from '$lib/server/currency';
+import { matchesCompanyQuery, parseCompanyQuery } from '$lib/jobs/companies';
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals, url }) => {
+	const rateTable = getRateTable();
+	const query = parseCompanyQuery(url.searchParams);
+
+	const { companies, source } = await loadCompanies(locals.supabase, rateTable);
+
+	// Industries offered by the filter come from every company, not just the visible ones
+	const industries = [
+		...new Set(companies.flatMap((listing) => listing.company.industry ?? []))
+	].sort((a, b) => a.localeCompare(b));
+
+	return {
+		companies: companies.filter((listing) => matchesCompanyQuery(listing, query)),
+		total: companies.length,
+		industries,
+		query,
+		currency: rateTable.base,
+		source
+	};
+};
@@ -0,0 +1,29 @@
+/**
+ * Company Profile Page Server Load
+ * ================================
+ *
+ * One company with its open roles and their salary range.
+ * Unknown slugs are a 404.
+ */
+
+import { error } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+import { loadCompanyProfile } from '$lib/server/jobs';
+import { getRateTable } from '$lib/server/currency';
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals, params }) => {
+	const rateTable = getRateTable();
+	const profile = await loadCompanyProfile(locals.supabase, params.slug, rateTable);
+
+	if (!profile) {
+		error(404, 'Company not found');
+	}
+
+	return {
+		...profile,
+		currency: rateTable.base,
+		ratesAsOf: rateTable.asOf
+	};
+};
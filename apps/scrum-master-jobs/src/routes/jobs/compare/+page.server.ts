@@ -0,0 +1,49 @@
+/**
+ * Job Comparison Page Server
+ * ==========================
+ *
+ * Loads the jobs named in `?jobs=id,id` (up to four) for a side-by-side
+ * comparison, plus the signed-in user's skills to show the overlap with
+ * each job. The set lives only in the URL, so comparisons can be shared;
+ * jobs that closed since the link was made are reported as missing.
+ */
+
+import type { PageServerLoad } from './$types';
+import { getProfileSkills, loadJobsByIds } from '$lib/server/jobs';
+import { parseCompareIds } from '$lib/jobs/compare';
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals, url }) => {
+	const ids = parseCompareIds(url.searchParams.get('jobs'));
+
+	const [jobs, skills] = await Promise.all([
+		ids.length > 0 ? loadJobsByIds(locals.supabase, ids) : Promise.resolve([]),
+		loadSkills(locals)
+	]);
+
+	return {
+		jobs,
+		/** The viewer's skills, or null when signed out */
+		skills,
+		/** Ids in the link that no longer match an open job */
+		missingCount: ids.length - jobs.length
+	};
+};
+
+// MARK: - Helpers
+
+/**
+ * The signed-in user's skills. A failed lookup only hides the overlap,
+ * so it is logged and treated as no skills.
+ */
+async function loadSkills(locals: App.Locals): Promise<string[] | null> {
+	if (!locals.user) return null;
+
+	try {
+		return await getProfileSkills(locals.supabase, locals.user.id);
+	} catch (err) {
+		console.error('[Profile] Failed to load skills:', err instanceof Error ? err.message : err);
+		return [];
+	}
+}
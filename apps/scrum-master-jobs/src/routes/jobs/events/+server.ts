@@ -0,0 +1,31 @@
+/**
+ * Job Events Endpoint
+ * ===================
+ *
+ * Browser-side job events for employer analytics, sent by
+ * `trackJobEvent()` in `$lib/jobs/analytics`:
+ *
+ * - POST /jobs/events  body: `{ "type": "detail_open" | "apply_click", "jobId": "..." }`
+ *
+ * Other event types are recorded by the server where they happen and are
+ * rejected here. Responds 204 whether or not the event was recorded
+ * (bots and repeats are dropped silently).
+ */
+
+import { error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { trackJobEvents } from '$lib/server/jobs';
+import { CLIENT_JOB_EVENTS } from '$lib/jobs/analytics';
+import type { JobEventType } from '$lib/types';
+
+// MARK: - Handlers
+
+export const POST: RequestHandler = async (event) => {
+	const body = await event.request.json().catch(() => null);
+	if (!CLIENT_JOB_EVENTS.includes(body?.type) || typeof body?.jobId !== 'string') {
+		error(400, 'Expected { "type": "detail_open" | "apply_click", "jobId": string }');
+	}
+
+	await trackJobEvents(event, body.type as JobEventType, [body.jobId]);
+	return new Response(null, { status: 204 });
+};
@@ -0,0 +1,43 @@
+/**
+ * Job Expiry Scheduler Endpoint
+ * =============================
+ *
+ * One tick of listing expiry: close expired and stale listings, check a
+ * batch of apply links, and remind posters whose listing closes soon.
+ * Call it on a schedule (e.g. hourly) from Vercel Cron or any scheduler
+ * that can send a bearer token:
+ *
+ *   curl -H "Authorization: Bearer $CRON_SECRET" https://<site>/jobs/expiry/run
+ *
+ * Security:
+ * - Requires `Authorization: Bearer <CRON_SECRET>` (Vercel Cron sends this)
+ * - Disabled (503) until CRON_SECRET is configured
+ */
+
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { env } from '$env/dynamic/private';
+import { isCronAuthorized } from '$lib/server/cron';
+import { runJobExpiry } from '$lib/server/expiry';
+
+const run: RequestHandler = async ({ request, url, fetch }) => {
+	const secret = env.CRON_SECRET;
+	if (!secret) {
+		error(503, 'Job expiry is not configured');
+	}
+	if (!isCronAuthorized(request, secret)) {
+		error(401, 'Unauthorized');
+	}
+
+	try {
+		const summary = await runJobExpiry({ baseUrl: env.SITE_URL || url.origin, fetcher: fetch });
+		return json(summary);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		console.error('[Expiry] Run failed:', message);
+		error(500, 'Job expiry run failed');
+	}
+};
+
+export const GET = run;
+export const POST = run;
@@ -0,0 +1,51 @@
+/**
+ * Job Feed Endpoint
+ * =================
+ *
+ * RSS 2.0, Atom and JSON Feed versions of a /jobs search, so a filtered
+ * view can be followed in a feed reader:
+ *
+ *   /jobs/feed/rss?q=react&locationType=Remote
+ *   /jobs/feed/atom?experienceLevel=Senior
+ *   /jobs/feed/json
+ *
+ * Takes the same filter params as /jobs (see `$lib/jobs/query`) and
+ * returns the newest JOB_FEED_SIZE matches through the job source
+ * pipeline. Pagination params are ignored.
+ */
+
+import { error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { loadJobsFromSources } from '$lib/server/jobs';
+import { hasJobFilters, parseJobQuery, toJobSearchParams } from '$lib/jobs/query';
+import { describeAlertFilters } from '$lib/jobs/alerts';
+import { FEED_CONTENT_TYPES, JOB_FEED_SIZE, isJobFeedFormat, renderJobFeed } from '$lib/jobs/feeds';
+
+/** Readers poll often; let caches absorb repeat requests */
+const CACHE_MAX_AGE_SECONDS = 15 * 60;
+
+export const GET: RequestHandler = async ({ params, url, locals, fetch }) => {
+	if (!isJobFeedFormat(params.format)) {
+		error(404, 'Unknown feed format');
+	}
+
+	const query = { ...parseJobQuery(url.searchParams), page: 1, perPage: JOB_FEED_SIZE };
+	const { jobs } = await loadJobsFromSources({ fetch, supabase: locals.supabase, query });
+
+	const search = toJobSearchParams({ ...query, perPage: undefined }).toString();
+	const filtered = hasJobFilters(query);
+	const body = renderJobFeed(params.format, jobs, {
+		title: filtered ? `Jobs: ${describeAlertFilters(query)} | Community` : 'Jobs | Community',
+		description: filtered ? `Newest jobs matching ${describeAlertFilters(query)}` : 'Newest jobs on the board',
+		homeUrl: new URL(search ? `/jobs?${search}` : '/jobs', url.origin),
+		feedUrl: new URL(url.pathname + url.search, url.origin),
+		updatedAt: new Date()
+	});
+
+	return new Response(body, {
+		headers: {
+			'Content-Type': FEED_CONTENT_TYPES[params.format],
+			'Cache-Control': `public, max-age=${CACHE_MAX_AGE_SECONDS}`
+		}
+	});
+};
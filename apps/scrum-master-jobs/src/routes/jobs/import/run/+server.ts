@@ -0,0 +1,54 @@
+/**
+ * Job Import Scheduler Endpoint
+ * =============================
+ *
+ * One tick of job ingestion: import every feed in JOB_IMPORT_FEEDS
+ * (Greenhouse, Lever and Ashby boards, JSON and RSS feeds). Call it on a
+ * schedule (e.g. every few hours) from Vercel Cron or any scheduler that
+ * can send a bearer token:
+ *
+ *   curl -H "Authorization: Bearer $CRON_SECRET" https://<site>/jobs/import/run
+ *
+ * Query parameters:
+ * - `dry_run=1` fetches and maps the feeds but writes nothing
+ * - `fixtures=1` imports the recorded fixture feeds instead of the
+ *   configured ones, without network access (always a dry run outside dev)
+ *
+ * Security:
+ * - Requires `Authorization: Bearer <CRON_SECRET>` (Vercel Cron sends this)
+ * - Disabled (503) until CRON_SECRET is configured
+ */
+
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { dev } from '$app/environment';
+import { env } from '$env/dynamic/private';
+import { isCronAuthorized } from '$lib/server/cron';
+import { FIXTURE_FEEDS, fixtureFetcher, runJobImports } from '$lib/server/importers';
+
+const run: RequestHandler = async ({ request, url, fetch }) => {
+	const secret = env.CRON_SECRET;
+	if (!secret) {
+		error(503, 'Job imports are not configured');
+	}
+	if (!isCronAuthorized(request, secret)) {
+		error(401, 'Unauthorized');
+	}
+
+	const useFixtures = url.searchParams.get('fixtures') === '1';
+	const dryRun = url.searchParams.get('dry_run') === '1' || (useFixtures && !dev);
+
+	try {
+		const summary = await runJobImports(
+			useFixtures ? { feeds: FIXTURE_FEEDS, fetcher: fixtureFetcher, dryRun } : { fetcher: fetch, dryRun }
+		);
+		return json({ dryRun, ...summary });
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		console.error('[Import] Run failed:', message);
+		error(500, 'Job import run failed');
+	}
+};
+
+export const GET = run;
+export const POST = run;
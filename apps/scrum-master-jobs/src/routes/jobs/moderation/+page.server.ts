@@ -0,0 +1,140 @@
+/**
+ * Moderation Queue Page Server
+ * ============================
+ *
+ * Admin queue of reported listings. Dismissing clears a job's reports
+ * (and puts it back on the board if the report threshold hid it);
+ * deactivating takes the job down. Both are recorded in the audit trail
+ * shown under the queue, along with the report threshold setting.
+ * Only admins can open the page; `moderate_job()` and RLS
+ * (014_job_reports.sql) enforce the same on every write.
+ */
+
+import { error, fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import {
+	ReportError,
+	getModerationLog,
+	getModerationQueue,
+	getReportThreshold,
+	moderateJob,
+	setReportThreshold
+} from '$lib/server/jobs';
+import { isAdmin } from '$lib/server/supabase';
+import { MAX_REPORT_THRESHOLD, MIN_REPORT_THRESHOLD } from '$lib/jobs/reports';
+import type { ModerationEvent, ReportedJob } from '$lib/types';
+
+// MARK: - Constants
+
+const MAX_MODERATION_NOTE_LENGTH = 1000;
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals }) => {
+	if (!locals.user) {
+		redirect(303, '/login');
+	}
+	if (!isAdmin(locals.user)) {
+		error(403, 'Only admins can moderate reports');
+	}
+
+	try {
+		const [queue, log, threshold] = await Promise.all([
+			getModerationQueue(locals.supabase),
+			getModerationLog(locals.supabase),
+			getReportThreshold(locals.supabase)
+		]);
+		return { queue, log, threshold, loadError: null };
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		console.error('[Jobs] Failed to load moderation queue:', message);
+		return {
+			queue: [] as ReportedJob[],
+			log: [] as ModerationEvent[],
+			threshold: null,
+			loadError: 'The moderation queue could not be loaded. Please try again.'
+		};
+	}
+};
+
+// MARK: - Form Actions
+
+/**
+ * Run a moderation write, mapping failures onto form errors.
+ */
+async function moderate(id: string | null, run: () => Promise<void>) {
+	try {
+		await run();
+	} catch (err) {
+		if (err instanceof ReportError) {
+			if (err.status >= 500) console.error('[Jobs] Failed to save moderation decision:', err.message);
+			return fail(err.status, {
+				id,
+				error: err.status >= 500 ? 'The decision could not be saved. Please try again.' : err.message
+			});
+		}
+		throw err;
+	}
+	return null;
+}
+
+/**
+ * Read the job id and note of a decision.
+ */
+async function readDecision(request: Request) {
+	const form = await request.formData();
+	return {
+		id: String(form.get('id') ?? ''),
+		note: String(form.get('note') ?? '').trim()
+	};
+}
+
+export const actions: Actions = {
+	/**
+	 * Dismiss a job's reports as unfounded.
+	 */
+	dismiss: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+		if (!isAdmin(locals.user)) return fail(403, { id: null, error: 'Only admins can moderate reports' });
+
+		const { id, note } = await readDecision(request);
+		if (note.length > MAX_MODERATION_NOTE_LENGTH) {
+			return fail(400, { id, error: `Notes must be ${MAX_MODERATION_NOTE_LENGTH} characters or fewer` });
+		}
+
+		return (await moderate(id, () => moderateJob(locals.supabase, id, 'dismissed', note))) ?? { dismissed: id };
+	},
+
+	/**
+	 * Take a reported job off the board.
+	 */
+	deactivate: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+		if (!isAdmin(locals.user)) return fail(403, { id: null, error: 'Only admins can moderate reports' });
+
+		const { id, note } = await readDecision(request);
+		if (note.length > MAX_MODERATION_NOTE_LENGTH) {
+			return fail(400, { id, error: `Notes must be ${MAX_MODERATION_NOTE_LENGTH} characters or fewer` });
+		}
+
+		return (await moderate(id, () => moderateJob(locals.supabase, id, 'deactivated', note))) ?? { deactivated: id };
+	},
+
+	/**
+	 * Change how many open reports hide a job.
+	 */
+	threshold: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+		if (!isAdmin(locals.user)) return fail(403, { id: null, error: 'Only admins can moderate reports' });
+
+		const threshold = Number((await request.formData()).get('threshold'));
+		if (!Number.isInteger(threshold) || threshold < MIN_REPORT_THRESHOLD || threshold > MAX_REPORT_THRESHOLD) {
+			return fail(400, {
+				id: null,
+				error: `The threshold must be a whole number from ${MIN_REPORT_THRESHOLD} to ${MAX_REPORT_THRESHOLD}`
+			});
+		}
+
+		return (await moderate(null, () => setReportThreshold(locals.supabase, threshold))) ?? { thresholdSaved: true };
+	}
+};
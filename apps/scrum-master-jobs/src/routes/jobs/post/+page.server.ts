@@ -0,0 +1,78 @@
+/**
+ * Post a Job Page Server
+ * ======================
+ *
+ * New postings from the employer portal. Company members fill in the
+ * form and either save a draft or submit it for review; either way the
+ * posting stays off the board until an admin approves it (/jobs/review).
+ *
+ * Users who don't recruit for a company see how to get access instead.
+ */
+
+import { fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import { JobPostError, createJobPost, getPostingCompanies, type PostingCompany } from '$lib/server/jobs';
+import { EMPTY_JOB_POST, readJobPostForm, validateJobPost } from '$lib/jobs/posting';
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals }) => {
+	if (!locals.user) {
+		redirect(303, '/login');
+	}
+
+	try {
+		return { companies: await getPostingCompanies(locals.supabase, locals.user.id), initial: EMPTY_JOB_POST, loadError: null };
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		console.error('[Jobs] Failed to load posting companies:', message);
+		return {
+			companies: [] as PostingCompany[],
+			initial: EMPTY_JOB_POST,
+			loadError: 'Your companies could not be loaded. Please try again.'
+		};
+	}
+};
+
+// MARK: - Form Actions
+
+export const actions: Actions = {
+	/**
+	 * Create the posting. `intent` is "review" to submit it, anything else
+	 * saves a draft.
+	 */
+	default: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+
+		const form = await request.formData();
+		const mode = form.get('intent') === 'review' ? 'review' : 'draft';
+		const input = readJobPostForm(form);
+
+		const companies = await getPostingCompanies(locals.supabase, locals.user.id).catch(() => []);
+		const company = companies.find((option) => option.id === form.get('companyId'));
+		if (!company) {
+			return fail(403, { input, errors: {}, error: 'You can only post jobs for companies you recruit for' });
+		}
+
+		const { post, errors } = validateJobPost(input, mode);
+		if (!post) {
+			return fail(400, { input, errors, error: 'Please fix the highlighted fields' });
+		}
+
+		try {
+			await createJobPost(locals.supabase, locals.user.id, company, post, mode);
+		} catch (err) {
+			if (err instanceof JobPostError) {
+				if (err.status >= 500) console.error('[Jobs] Failed to create posting:', err.message);
+				return fail(err.status, {
+					input,
+					errors: {},
+					error: err.status >= 500 ? 'The posting could not be saved. Please try again.' : err.message
+				});
+			}
+			throw err;
+		}
+
+		redirect(303, `/jobs/postings?saved=${mode}`);
+	}
+};
@@ -0,0 +1,120 @@
+/**
+ * Edit Posting Page Server
+ * ========================
+ *
+ * Edits a draft or pending posting from the employer portal, and deletes
+ * drafts. Published and expired postings are read-only for employers, so
+ * they send the user back to their postings list.
+ */
+
+import { error, fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import {
+	JobPostError,
+	deleteJobPost,
+	getJobPost,
+	getPostingCompanies,
+	updateJobPost
+} from '$lib/server/jobs';
+import { readJobPostForm, toJobPostInput, validateJobPost } from '$lib/jobs/posting';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// MARK: - Helpers
+
+/**
+ * The posting and its company, if the user recruits for that company.
+ */
+async function loadEditablePost(supabase: SupabaseClient, userId: string, id: string) {
+	const [result, companies] = await Promise.all([getJobPost(supabase, id), getPostingCompanies(supabase, userId)]);
+	const company = result ? companies.find((option) => option.id === result.companyId) : undefined;
+	return result && company ? { posting: result.posting, company } : null;
+}
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals, params }) => {
+	if (!locals.user) {
+		redirect(303, '/login');
+	}
+
+	const result = await loadEditablePost(locals.supabase, locals.user.id, params.id);
+	if (!result) {
+		error(404, 'Posting not found');
+	}
+
+	const { posting, company } = result;
+	if (posting.status !== 'draft' && posting.status !== 'pending_review') {
+		redirect(303, '/jobs/postings');
+	}
+
+	return {
+		posting,
+		companies: [company],
+		initial: toJobPostInput(posting.job)
+	};
+};
+
+// MARK: - Form Actions
+
+export const actions: Actions = {
+	/**
+	 * Save changes. `intent` is "review" to (re)submit, anything else
+	 * keeps or moves the posting to draft.
+	 */
+	default: async ({ request, locals, params }) => {
+		if (!locals.user) redirect(303, '/login');
+
+		const form = await request.formData();
+		const mode = form.get('intent') === 'review' ? 'review' : 'draft';
+		const input = readJobPostForm(form);
+
+		const result = await loadEditablePost(locals.supabase, locals.user.id, params.id).catch(() => null);
+		if (!result) {
+			return fail(404, { input, errors: {}, error: 'Posting not found' });
+		}
+
+		const { post, errors } = validateJobPost(input, mode);
+		if (!post) {
+			return fail(400, { input, errors, error: 'Please fix the highlighted fields' });
+		}
+
+		try {
+			await updateJobPost(locals.supabase, params.id, result.company.company.name, post, mode);
+		} catch (err) {
+			if (err instanceof JobPostError) {
+				if (err.status >= 500) console.error('[Jobs] Failed to update posting:', err.message);
+				return fail(err.status, {
+					input,
+					errors: {},
+					error: err.status >= 500 ? 'The posting could not be saved. Please try again.' : err.message
+				});
+			}
+			throw err;
+		}
+
+		redirect(303, `/jobs/postings?saved=${mode}`);
+	},
+
+	/**
+	 * Delete a draft.
+	 */
+	delete: async ({ locals, params }) => {
+		if (!locals.user) redirect(303, '/login');
+
+		try {
+			await deleteJobPost(locals.supabase, params.id);
+		} catch (err) {
+			if (err instanceof JobPostError) {
+				if (err.status >= 500) console.error('[Jobs] Failed to delete posting:', err.message);
+				return fail(err.status, {
+					input: null,
+					errors: {},
+					error: err.status >= 500 ? 'The posting could not be deleted. Please try again.' : err.message
+				});
+			}
+			throw err;
+		}
+
+		redirect(303, '/jobs/postings?saved=deleted');
+	}
+};
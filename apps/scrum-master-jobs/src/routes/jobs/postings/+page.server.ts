@@ -0,0 +1,71 @@
+/**
+ * Your Postings Page Server
+ * =========================
+ *
+ * Every posting of the companies the signed-in user recruits for, in all
+ * states: draft, pending review, published and expired. Expired postings
+ * can be reposted, which sends them back through review.
+ * Signed-out visitors are sent to /login.
+ */
+
+import { fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import { JobPostError, getCompanyJobPosts, getPostingCompanies, repostJobPost } from '$lib/server/jobs';
+import type { JobPosting } from '$lib/types';
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals, url }) => {
+	if (!locals.user) {
+		redirect(303, '/login');
+	}
+
+	const saved = url.searchParams.get('saved');
+	const notice = saved === 'review' || saved === 'draft' || saved === 'deleted' || saved === 'reposted' ? saved : null;
+
+	try {
+		const companies = await getPostingCompanies(locals.supabase, locals.user.id);
+		const postings = await getCompanyJobPosts(
+			locals.supabase,
+			companies.map((option) => option.id)
+		);
+		return { isRecruiter: companies.length > 0, postings, notice, loadError: null };
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		console.error('[Jobs] Failed to load postings:', message);
+		return {
+			isRecruiter: true,
+			postings: [] as JobPosting[],
+			notice,
+			loadError: 'Your postings could not be loaded. Please try again.'
+		};
+	}
+};
+
+// MARK: - Form Actions
+
+export const actions: Actions = {
+	/**
+	 * Repost an expired posting for review.
+	 */
+	repost: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+
+		const id = String((await request.formData()).get('id') ?? '');
+
+		try {
+			await repostJobPost(locals.supabase, id);
+		} catch (err) {
+			if (err instanceof JobPostError) {
+				if (err.status >= 500) console.error('[Jobs] Failed to repost posting:', err.message);
+				return fail(err.status, {
+					id,
+					error: err.status >= 500 ? 'The posting could not be reposted. Please try again.' : err.message
+				});
+			}
+			throw err;
+		}
+
+		redirect(303, '/jobs/postings?saved=reposted');
+	}
+};
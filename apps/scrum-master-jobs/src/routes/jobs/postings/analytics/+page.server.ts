@@ -0,0 +1,70 @@
+/**
+ * Posting Analytics Page Server
+ * =============================
+ *
+ * How the postings of the signed-in user's companies perform over the
+ * last 7, 30 or 90 days (`?days=`), for every posting or one (`?job=`):
+ * daily event counts from `job_events` summed into totals, a daily
+ * trend, the view → open → apply funnel and a per-posting table.
+ * Signed-out visitors are sent to /login.
+ */
+
+import { redirect } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+import { getCompanyJobPosts, getJobEventCounts, getPostingCompanies } from '$lib/server/jobs';
+import { parseAnalyticsRange, rangeStart, summarizeJobEvents } from '$lib/jobs/analytics';
+import { jobPostStatusLabel } from '$lib/jobs/posting';
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals, url }) => {
+	if (!locals.user) {
+		redirect(303, '/login');
+	}
+
+	const days = parseAnalyticsRange(url.searchParams.get('days'));
+	const now = new Date();
+
+	try {
+		const companies = await getPostingCompanies(locals.supabase, locals.user.id);
+		const postings = await getCompanyJobPosts(
+			locals.supabase,
+			companies.map((option) => option.id)
+		);
+
+		const jobs = postings.map((posting) => ({
+			id: posting.id,
+			title: posting.job.title,
+			company: posting.job.company.name,
+			status: jobPostStatusLabel(posting.status)
+		}));
+		const requested = url.searchParams.get('job');
+		const selectedJobId = jobs.some((job) => job.id === requested) ? requested : null;
+
+		const counts = await getJobEventCounts(
+			locals.supabase,
+			selectedJobId ? [selectedJobId] : jobs.map((job) => job.id),
+			rangeStart(days, now)
+		);
+
+		return {
+			isRecruiter: companies.length > 0,
+			days,
+			jobs,
+			selectedJobId,
+			summary: summarizeJobEvents(counts, { days, now }),
+			loadError: null
+		};
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		console.error('[Jobs] Failed to load posting analytics:', message);
+		return {
+			isRecruiter: true,
+			days,
+			jobs: [],
+			selectedJobId: null,
+			summary: summarizeJobEvents([], { days, now }),
+			loadError: 'Analytics could not be loaded. Please try again.'
+		};
+	}
+};
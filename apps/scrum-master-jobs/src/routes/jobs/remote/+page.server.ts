@@ -0,0 +1,74 @@
+/**
+ * Remote Jobs Hub Page Server
+ * ===========================
+ *
+ * Remote jobs filtered by where and when the viewer can work: `country`
+ * keeps jobs open to that country (or its region, or anywhere), `tz`
+ * keeps jobs whose overlap hours fall within the working day there.
+ *
+ * Without a `tz` param the signed-in user's saved timezone applies; the
+ * `timezone` action saves a new one to their profile.
+ */
+
+import { fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import { loadJobsFromSources } from '$lib/server/jobs';
+import { parseJobQuery, type JobQuery } from '$lib/jobs/query';
+import { isValidTimeZone } from '$lib/jobs/remote';
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals, fetch, url, parent }) => {
+	const { timezone: savedTimezone } = await parent();
+	const parsed = parseJobQuery(url.searchParams);
+
+	const query: JobQuery = {
+		...parsed,
+		locationType: 'Remote',
+		timezone: parsed.timezone || savedTimezone || ''
+	};
+
+	const result = await loadJobsFromSources({
+		fetch,
+		supabase: locals.supabase,
+		query
+	});
+
+	return {
+		...result,
+		query,
+		/** The timezone in effect is the one on the user's profile */
+		usingSavedTimezone: !parsed.timezone && Boolean(savedTimezone)
+	};
+};
+
+// MARK: - Form Actions
+
+export const actions: Actions = {
+	/**
+	 * Save the timezone the remote hub filters by. An empty value clears
+	 * it, so the hub shows jobs at any hours.
+	 */
+	timezone: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+
+		const formData = await request.formData();
+		const timezone = String(formData.get('timezone') ?? '').trim();
+
+		if (timezone && !isValidTimeZone(timezone)) {
+			return fail(400, { error: `${timezone} is not a known timezone.` });
+		}
+
+		const { error } = await locals.supabase
+			.from('profiles')
+			.update({ timezone: timezone || null })
+			.eq('id', locals.user.id);
+
+		if (error) {
+			console.error('[Profile] Failed to save timezone:', error.message);
+			return fail(500, { error: 'Your timezone could not be saved. Please try again.' });
+		}
+
+		return { timezoneSaved: true };
+	}
+};
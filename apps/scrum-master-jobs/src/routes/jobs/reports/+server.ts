@@ -0,0 +1,47 @@
+/**
+ * Job Report Endpoint
+ * ===================
+ *
+ * Reports on listings from the Report dialog in JobDetail
+ * (see `requestJobReport()` in `$lib/jobs/reports`).
+ *
+ * - POST /jobs/reports  body: `{ "jobId": "...", "reason": "scam", "details": "..." }`
+ *
+ * Responds 401 when signed out, 409 when the user already reported the
+ * job, and 400 when the report doesn't validate.
+ */
+
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { ReportError, submitJobReport } from '$lib/server/jobs';
+import { validateJobReport } from '$lib/jobs/reports';
+
+// MARK: - Handlers
+
+export const POST: RequestHandler = async ({ request, locals }) => {
+	if (!locals.user) {
+		error(401, 'Sign in to report jobs');
+	}
+
+	const body = await request.json().catch(() => null);
+	if (typeof body?.jobId !== 'string') {
+		error(400, 'Expected { "jobId": string, "reason": string, "details"?: string }');
+	}
+
+	const parsed = validateJobReport(body);
+	if ('error' in parsed) {
+		error(400, parsed.error);
+	}
+
+	try {
+		await submitJobReport(locals.supabase, locals.user.id, body.jobId, parsed.report);
+	} catch (err) {
+		if (err instanceof ReportError) {
+			if (err.status >= 500) console.error('[Jobs] Failed to save job report:', err.message);
+			error(err.status, err.status >= 500 ? 'Your report could not be sent. Please try again.' : err.message);
+		}
+		throw err;
+	}
+
+	return json({ jobId: body.jobId, ok: true }, { status: 201 });
+};
@@ -0,0 +1,93 @@
+/**
+ * Posting Review Queue Page Server
+ * ================================
+ *
+ * Admin approval queue for employer postings. Approving publishes a
+ * posting; requesting changes sends it back to the employer as a draft
+ * with a note. Only admins can open the page; RLS and the review trigger
+ * (007_job_posting.sql) enforce the same on every write.
+ */
+
+import { error, fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import { JobPostError, approveJobPost, getReviewQueue, requestJobPostChanges } from '$lib/server/jobs';
+import { isAdmin } from '$lib/server/supabase';
+import type { JobPosting } from '$lib/types';
+
+// MARK: - Constants
+
+const MAX_REVIEW_NOTE_LENGTH = 1000;
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals }) => {
+	if (!locals.user) {
+		redirect(303, '/login');
+	}
+	if (!isAdmin(locals.user)) {
+		error(403, 'Only admins can review postings');
+	}
+
+	try {
+		return { queue: await getReviewQueue(locals.supabase), loadError: null };
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		console.error('[Jobs] Failed to load review queue:', message);
+		return { queue: [] as JobPosting[], loadError: 'The review queue could not be loaded. Please try again.' };
+	}
+};
+
+// MARK: - Form Actions
+
+/**
+ * Run a review decision, mapping failures onto form errors.
+ */
+async function review(id: string, decide: () => Promise<void>) {
+	try {
+		await decide();
+	} catch (err) {
+		if (err instanceof JobPostError) {
+			if (err.status >= 500) console.error('[Jobs] Failed to review posting:', err.message);
+			return fail(err.status, {
+				id,
+				error: err.status >= 500 ? 'The decision could not be saved. Please try again.' : err.message
+			});
+		}
+		throw err;
+	}
+	return null;
+}
+
+export const actions: Actions = {
+	/**
+	 * Approve and publish a posting.
+	 */
+	approve: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+		if (!isAdmin(locals.user)) return fail(403, { id: null, error: 'Only admins can review postings' });
+
+		const id = String((await request.formData()).get('id') ?? '');
+		return (await review(id, () => approveJobPost(locals.supabase, id))) ?? { approved: id };
+	},
+
+	/**
+	 * Send a posting back to draft with a note for the employer.
+	 */
+	requestChanges: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+		if (!isAdmin(locals.user)) return fail(403, { id: null, error: 'Only admins can review postings' });
+
+		const form = await request.formData();
+		const id = String(form.get('id') ?? '');
+		const note = String(form.get('note') ?? '').trim();
+
+		if (!note) {
+			return fail(400, { id, error: 'Tell the employer what to change' });
+		}
+		if (note.length > MAX_REVIEW_NOTE_LENGTH) {
+			return fail(400, { id, error: `Notes must be ${MAX_REVIEW_NOTE_LENGTH} characters or fewer` });
+		}
+
+		return (await review(id, () => requestJobPostChanges(locals.supabase, id, note))) ?? { returned: id };
+	}
+};
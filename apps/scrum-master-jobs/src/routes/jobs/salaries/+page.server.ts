@@ -0,0 +1,56 @@
+/**
+ * Salary Insights Page Server Load
+ * ================================
+ *
+ * p25/median/p75 of posted salaries, grouped by experience level, work
+ * type, skill or company, in one currency picked by the visitor.
+ *
+ * URL params:
+ * - `by`        experienceLevel (default) | locationType | skill | company
+ * - `currency`  any currency in the rate table (default: the table's base)
+ */
+
+import type { PageServerLoad } from './$types';
+import { loadSalarySamples } from '$lib/server/jobs/salaries';
+import { getRateTable } from '$lib/server/currency';
+import { isSupportedCurrency, supportedCurrencies } from '$lib/jobs/currency';
+import {
+	groupSalaries,
+	summarizeSalaries,
+	SALARY_DIMENSIONS,
+	type SalaryDimension
+} from '$lib/jobs/salaries';
+
+// MARK: - Configuration
+
+/** Most skill/company groups shown (largest samples first) */
+const MAX_GROUPS = 30;
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals, url }) => {
+	const rateTable = getRateTable();
+
+	const requestedCurrency = url.searchParams.get('currency')?.toUpperCase() ?? '';
+	const currency = isSupportedCurrency(requestedCurrency, rateTable) ? requestedCurrency : rateTable.base;
+
+	const requestedDimension = url.searchParams.get('by');
+	const dimension: SalaryDimension =
+		SALARY_DIMENSIONS.find((option) => option.value === requestedDimension)?.value ?? 'experienceLevel';
+
+	const { samples, source } = await loadSalarySamples(locals.supabase);
+	const groups = groupSalaries(samples, dimension, currency, rateTable);
+
+	return {
+		currency,
+		dimension,
+		currencies: supportedCurrencies(rateTable),
+		ratesAsOf: rateTable.asOf,
+		overall: summarizeSalaries(samples, currency, rateTable),
+		groups: groups.slice(0, MAX_GROUPS),
+		hiddenGroups: Math.max(0, groups.length - MAX_GROUPS),
+		// Postings skipped because their currency isn't in the rate table
+		unconverted: samples.filter((sample) => !isSupportedCurrency(sample.currency, rateTable)).length,
+		source
+	};
+};
@@ -0,0 +1,59 @@
+/**
+ * Saved Jobs Page Server
+ * ======================
+ *
+ * Lists the signed-in user's bookmarked jobs with their private notes,
+ * and manages the secret link of their deadline calendar feed.
+ * Signed-out visitors are sent to /login.
+ */
+
+import { fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import { getCalendarToken, getSavedJobs, resetCalendarToken } from '$lib/server/jobs';
+import type { SavedJob } from '$lib/types';
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals }) => {
+	if (!locals.user) {
+		redirect(303, '/login');
+	}
+
+	const [saved, calendarToken] = await Promise.all([
+		getSavedJobs(locals.supabase, locals.user.id).then(
+			(savedJobs) => ({ savedJobs, loadError: null }),
+			(err) => {
+				const message = err instanceof Error ? err.message : String(err);
+				console.error('[Jobs] Failed to load saved jobs:', message);
+				return { savedJobs: [] as SavedJob[], loadError: 'Saved jobs could not be loaded. Please try again.' };
+			}
+		),
+		// The calendar link is optional; a failure just hides it
+		getCalendarToken(locals.supabase, locals.user.id).catch((err) => {
+			console.error('[Jobs] Failed to load calendar token:', err instanceof Error ? err.message : err);
+			return null;
+		})
+	]);
+
+	return { ...saved, calendarToken };
+};
+
+// MARK: - Form Actions
+
+export const actions: Actions = {
+	/**
+	 * Create the deadline calendar link, or replace it so the old link
+	 * stops working.
+	 */
+	calendar: async ({ locals }) => {
+		if (!locals.user) redirect(303, '/login');
+
+		try {
+			await resetCalendarToken(locals.supabase, locals.user.id);
+			return { calendarReset: true };
+		} catch (err) {
+			console.error('[Jobs] Failed to reset calendar token:', err instanceof Error ? err.message : err);
+			return fail(500, { error: 'The calendar link could not be updated. Please try again.' });
+		}
+	}
+};
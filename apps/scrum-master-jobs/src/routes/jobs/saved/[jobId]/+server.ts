@@ -0,0 +1,71 @@
+/**
+ * Saved Job Endpoint
+ * ==================
+ *
+ * Bookmark writes for the signed-in user, called by the optimistic
+ * save buttons (see `$lib/jobs/saved.svelte.ts`).
+ *
+ * - PUT    /jobs/saved/:jobId  Save the job (idempotent)
+ * - DELETE /jobs/saved/:jobId  Unsave the job (idempotent)
+ * - PATCH  /jobs/saved/:jobId  Update notes, body: `{ "notes": "..." }`
+ *
+ * Responds 401 when signed out, so the client can roll back. Saving
+ * records a `bookmark` event for the job's employer.
+ */
+
+import { error, json } from '@sveltejs/kit';
+import type { RequestEvent, RequestHandler } from './$types';
+import { BookmarkError, saveJob, trackJobEvents, unsaveJob, updateBookmarkNotes } from '$lib/server/jobs';
+
+// MARK: - Helpers
+
+/**
+ * Return the signed-in user's id, or fail with 401.
+ */
+function requireUserId(locals: App.Locals): string {
+	if (!locals.user) {
+		error(401, 'Sign in to save jobs');
+	}
+	return locals.user.id;
+}
+
+/**
+ * Run a bookmark write, mapping BookmarkError onto an HTTP error.
+ */
+async function write(event: RequestEvent, run: (userId: string) => Promise<void>) {
+	const userId = requireUserId(event.locals);
+
+	try {
+		await run(userId);
+	} catch (err) {
+		if (err instanceof BookmarkError) {
+			if (err.status >= 500) console.error('[Jobs] Bookmark write failed:', err.message);
+			error(err.status, err.message);
+		}
+		throw err;
+	}
+
+	return json({ jobId: event.params.jobId, ok: true });
+}
+
+// MARK: - Handlers
+
+export const PUT: RequestHandler = (event) =>
+	write(event, async (userId) => {
+		await saveJob(event.locals.supabase, userId, event.params.jobId);
+		await trackJobEvents(event, 'bookmark', [event.params.jobId]);
+	});
+
+export const DELETE: RequestHandler = (event) =>
+	write(event, (userId) => unsaveJob(event.locals.supabase, userId, event.params.jobId));
+
+export const PATCH: RequestHandler = async (event) => {
+	const body = await event.request.json().catch(() => null);
+	if (typeof body?.notes !== 'string') {
+		error(400, 'Expected { "notes": string }');
+	}
+
+	return write(event, (userId) =>
+		updateBookmarkNotes(event.locals.supabase, userId, event.params.jobId, body.notes)
+	);
+};
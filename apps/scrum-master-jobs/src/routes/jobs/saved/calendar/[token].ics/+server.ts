@@ -0,0 +1,51 @@
+/**
+ * Saved Job Deadlines Calendar Endpoint
+ * =====================================
+ *
+ * iCalendar feed of the closing dates of a user's saved jobs, for
+ * subscribing from Google Calendar, Apple Calendar or Outlook:
+ *
+ *   webcal://<site>/jobs/saved/calendar/<token>.ics
+ *
+ * Calendar apps fetch without signing in, so the secret token in the URL
+ * (created and reset on /jobs/saved) identifies the user. Unknown tokens
+ * are a 404, so a reset link stops working at once.
+ */
+
+import { error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { createServiceClient } from '$lib/server/supabase';
+import { getCalendarDeadlines } from '$lib/server/jobs';
+import { UUID_PATTERN } from '$lib/server/jobs/detail';
+import { FEED_CONTENT_TYPES, renderDeadlineCalendar } from '$lib/jobs/feeds';
+import type { Job } from '$lib/types';
+
+export const GET: RequestHandler = async ({ params, url }) => {
+	if (!UUID_PATTERN.test(params.token)) {
+		error(404, 'Calendar not found');
+	}
+
+	let jobs: Job[] | null;
+	try {
+		jobs = await getCalendarDeadlines(createServiceClient(), params.token);
+	} catch (err) {
+		console.error('[Jobs] Failed to load deadline calendar:', err instanceof Error ? err.message : err);
+		error(500, 'Calendar could not be loaded');
+	}
+	if (!jobs) {
+		error(404, 'Calendar not found');
+	}
+
+	const body = renderDeadlineCalendar(jobs, {
+		name: 'Saved job deadlines',
+		origin: new URL(url.origin),
+		now: new Date()
+	});
+
+	return new Response(body, {
+		headers: {
+			'Content-Type': FEED_CONTENT_TYPES.ics,
+			'Cache-Control': 'private, no-store'
+		}
+	});
+};
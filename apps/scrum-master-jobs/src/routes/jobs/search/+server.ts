@@ -0,0 +1,27 @@
+/**
+ * Job Search Endpoint
+ * ===================
+ *
+ * GET /jobs/search?q=k8s+engineer&locationType=Remote&page=1
+ *
+ * Same query params and source pipeline as the /jobs page, returned as
+ * JSON. With `q` set, results are ranked by relevance and each job carries
+ * `highlight` segments for its title and a description snippet.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { loadJobsFromSources } from '$lib/server/jobs';
+import { parseJobQuery } from '$lib/jobs/query';
+
+export const GET: RequestHandler = async ({ locals, fetch, url }) => {
+	const query = parseJobQuery(url.searchParams);
+
+	const result = await loadJobsFromSources({
+		fetch,
+		supabase: locals.supabase,
+		query
+	});
+
+	return json({ ...result, query });
+};
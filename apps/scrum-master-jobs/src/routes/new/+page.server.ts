@@ -0,0 +1,82 @@
+/**
+ * New Article Page Server
+ * =======================
+ *
+ * Starts a new article in the editor. The first autosave creates the
+ * draft and moves the editor to /[username]/[slug]/edit; saving or
+ * publishing from here does the same for authors without JavaScript.
+ * Lists the author's other articles so drafts are easy to pick up again.
+ * Signed-out visitors are sent to /login.
+ */
+
+import { error, fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import { ArticleError, getAuthorArticle, getAuthorArticles, getAuthorUsername, saveArticle } from '$lib/server/articles';
+import { EMPTY_ARTICLE, readArticleForm, savedArticlePath, validateArticle } from '$lib/articles/editor';
+import type { ArticleDraft } from '$lib/types';
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals }) => {
+	if (!locals.user) {
+		redirect(303, '/login');
+	}
+
+	const username = await getAuthorUsername(locals.supabase, locals.user.id).catch(() => null);
+	if (!username) {
+		error(403, 'Set up your profile before writing articles');
+	}
+
+	try {
+		return { username, articles: await getAuthorArticles(locals.supabase, locals.user.id), initial: EMPTY_ARTICLE };
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		console.error('[Articles] Failed to load your articles:', message);
+		return { username, articles: [] as ArticleDraft[], initial: EMPTY_ARTICLE };
+	}
+};
+
+// MARK: - Form Actions
+
+export const actions: Actions = {
+	/**
+	 * Save the article. `intent` is "publish" to publish or schedule it,
+	 * anything else saves a draft. `id` is set once an autosave created it.
+	 */
+	save: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+
+		const form = await request.formData();
+		const mode = form.get('intent') === 'publish' ? 'publish' : 'draft';
+		const id = String(form.get('id') ?? '') || null;
+		const input = readArticleForm(form);
+
+		const username = await getAuthorUsername(locals.supabase, locals.user.id).catch(() => null);
+		if (!username) {
+			return fail(403, { input, errors: {}, error: 'Set up your profile before writing articles' });
+		}
+
+		const existing = id ? await getAuthorArticle(locals.supabase, locals.user.id, id).catch(() => null) : null;
+		const { article, errors } = validateArticle(input, mode, { live: existing?.status === 'published' });
+		if (!article) {
+			return fail(400, { input, errors, error: 'Please fix the highlighted fields' });
+		}
+
+		let saved: ArticleDraft;
+		try {
+			saved = await saveArticle(locals.supabase, locals.user.id, id, article, mode);
+		} catch (err) {
+			if (err instanceof ArticleError) {
+				if (err.status >= 500) console.error('[Articles] Failed to save article:', err.message);
+				return fail(err.status, {
+					input,
+					errors: {},
+					error: err.status >= 500 ? 'The article could not be saved. Please try again.' : err.message
+				});
+			}
+			throw err;
+		}
+
+		redirect(303, savedArticlePath(username, saved));
+	}
+};
@@ -0,0 +1,80 @@
+/**
+ * Reading List Page Server
+ * ========================
+ *
+ * Lists the signed-in user's saved articles, filtered by the URL params
+ * of `$lib/articles/readinglist`, and archives or unarchives them.
+ * Signed-out visitors are sent to /login.
+ */
+
+import { fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import { ArticleError, getReadingList, setSaveArchived } from '$lib/server/articles';
+import { filterReadingList, parseReadingListQuery, readingListFacets } from '$lib/articles/readinglist';
+import type { ReadingListItem } from '$lib/types';
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals, url }) => {
+	if (!locals.user) {
+		redirect(303, '/login');
+	}
+
+	const query = parseReadingListQuery(url.searchParams);
+
+	let items: ReadingListItem[] = [];
+	let loadError: string | null = null;
+	try {
+		items = await getReadingList(locals.supabase, locals.user.id);
+	} catch (err) {
+		console.error('[Articles] Failed to load reading list:', err instanceof Error ? err.message : err);
+		loadError = 'Your reading list could not be loaded. Please try again.';
+	}
+
+	const archivedCount = items.filter((item) => item.archivedAt !== null).length;
+	return {
+		query,
+		// Bodies were only needed for searching; the list shows excerpts
+		items: filterReadingList(items, query).map((item) => ({ ...item, article: { ...item.article, content: '' } })),
+		facets: readingListFacets(items, query.view),
+		counts: { saved: items.length - archivedCount, archived: archivedCount },
+		loadError
+	};
+};
+
+// MARK: - Form Actions
+
+/**
+ * Archive or unarchive the saved article named by the form's `articleId`.
+ */
+async function archive(locals: App.Locals, request: Request, archived: boolean) {
+	if (!locals.user) redirect(303, '/login');
+
+	const articleId = String((await request.formData()).get('articleId') ?? '');
+	try {
+		await setSaveArchived(locals.supabase, locals.user.id, articleId, archived);
+	} catch (err) {
+		if (err instanceof ArticleError) {
+			if (err.status >= 500) console.error('[Articles] Failed to archive save:', err.message);
+			return fail(err.status, {
+				articleId,
+				error: err.status >= 500 ? 'Your reading list could not be updated. Please try again.' : err.message
+			});
+		}
+		throw err;
+	}
+
+	return { articleId, archived };
+}
+
+export const actions: Actions = {
+	/**
+	 * Move a saved article to the archive once read.
+	 */
+	archive: ({ locals, request }) => archive(locals, request, true),
+
+	/**
+	 * Bring an archived article back to the reading list.
+	 */
+	unarchive: ({ locals, request }) => archive(locals, request, false)
+};
@@ -0,0 +1,58 @@
+/**
+ * Reading List Export Endpoint
+ * ============================
+ *
+ * Downloads the signed-in user's reading list as links:
+ *
+ *   /readinglist/export/markdown?tag=agile
+ *   /readinglist/export/opml?view=archived
+ *
+ * Takes the same filter params as /readinglist (see
+ * `$lib/articles/readinglist`), so the export holds what the page shows.
+ * Responds 401 when signed out.
+ */
+
+import { error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getReadingList } from '$lib/server/articles';
+import {
+	EXPORT_CONTENT_TYPES,
+	EXPORT_EXTENSIONS,
+	describeReadingListFilters,
+	filterReadingList,
+	isReadingListExportFormat,
+	parseReadingListQuery,
+	renderReadingList
+} from '$lib/articles/readinglist';
+import type { ReadingListItem } from '$lib/types';
+
+export const GET: RequestHandler = async ({ params, url, locals }) => {
+	if (!isReadingListExportFormat(params.format)) {
+		error(404, 'Unknown export format');
+	}
+	if (!locals.user) {
+		error(401, 'Sign in to export your reading list');
+	}
+
+	const query = parseReadingListQuery(url.searchParams);
+	let items: ReadingListItem[];
+	try {
+		items = filterReadingList(await getReadingList(locals.supabase, locals.user.id), query);
+	} catch (err) {
+		console.error('[Articles] Failed to export reading list:', err instanceof Error ? err.message : err);
+		error(500, 'Your reading list could not be exported. Please try again.');
+	}
+
+	const filters = describeReadingListFilters(query);
+	const title = `${query.view === 'archived' ? 'Archived reading list' : 'Reading list'}${filters ? `: ${filters}` : ''}`;
+	const body = renderReadingList(params.format, items, { title, origin: new URL(url.origin), exportedAt: new Date() });
+
+	const filename = `reading-list${query.view === 'archived' ? '-archived' : ''}.${EXPORT_EXTENSIONS[params.format]}`;
+	return new Response(body, {
+		headers: {
+			'Content-Type': EXPORT_CONTENT_TYPES[params.format],
+			'Content-Disposition': `attachment; filename="${filename}"`,
+			'Cache-Control': 'private, no-store'
+		}
+	});
+};
@@ -0,0 +1,87 @@
+/**
+ * Settings Page Server
+ * ====================
+ *
+ * Saves the signed-in user's salary display currency and their skills
+ * (compared with job skills on /jobs/compare). The theme is kept in the
+ * browser and needs no server; the current currency and rate table come
+ * from the root layout.
+ */
+
+import { fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import { getRateTable } from '$lib/server/currency';
+import { getProfileSkills } from '$lib/server/jobs';
+import { isSupportedCurrency } from '$lib/jobs/currency';
+import { parseSkillList } from '$lib/jobs/compare';
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals }) => {
+	if (!locals.user) return { skills: [] as string[] };
+
+	try {
+		return { skills: await getProfileSkills(locals.supabase, locals.user.id) };
+	} catch (err) {
+		console.error('[Profile] Failed to load skills:', err instanceof Error ? err.message : err);
+		return { skills: [] as string[] };
+	}
+};
+
+// MARK: - Form Actions
+
+export const actions: Actions = {
+	/**
+	 * Set the preferred display currency. An empty value clears it, so
+	 * salaries are shown only in the currency they were posted in.
+	 */
+	currency: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+
+		const formData = await request.formData();
+		const currency = String(formData.get('currency') ?? '').trim().toUpperCase();
+
+		if (currency && !isSupportedCurrency(currency, getRateTable())) {
+			return fail(400, { error: `${currency} is not a supported currency.` });
+		}
+
+		const { error } = await locals.supabase
+			.from('profiles')
+			.update({ preferred_currency: currency || null })
+			.eq('id', locals.user.id);
+
+		if (error) {
+			console.error('[Profile] Failed to save preferred currency:', error.message);
+			return fail(500, { error: 'Your currency could not be saved. Please try again.' });
+		}
+
+		return { currencySaved: true };
+	},
+
+	/**
+	 * Replace the user's skill list (comma-separated). An empty value
+	 * clears it.
+	 */
+	skills: async ({ request, locals }) => {
+		if (!locals.user) redirect(303, '/login');
+
+		const formData = await request.formData();
+		const parsed = parseSkillList(String(formData.get('skills') ?? ''));
+
+		if ('error' in parsed) {
+			return fail(400, { skillsError: parsed.error });
+		}
+
+		const { error } = await locals.supabase
+			.from('profiles')
+			.update({ skills: parsed.skills })
+			.eq('id', locals.user.id);
+
+		if (error) {
+			console.error('[Profile] Failed to save skills:', error.message);
+			return fail(500, { skillsError: 'Your skills could not be saved. Please try again.' });
+		}
+
+		return { skillsSaved: true };
+	}
+};
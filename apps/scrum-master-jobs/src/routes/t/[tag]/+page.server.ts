@@ -0,0 +1,109 @@
+/**
+ * Tag Feed Page Server
+ * ====================
+ *
+ * Posts carrying a tag, from the mock feed and from articles published
+ * in the editor, sorted by `?sort=latest` (default) or `?sort=top`.
+ * Aliases redirect to the canonical tag (/t/js -> /t/javascript).
+ *
+ * The follow actions add the tag to the signed-in user's followed tags,
+ * which lift its posts in the home feed. The tag directory posts to them
+ * as well.
+ */
+
+import { error, fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import { ArticleError, followTag, getFollowedTags, getTagArticles, unfollowTag } from '$lib/server/articles';
+import { getArticlesByTag } from '$lib/data/articles';
+import { TAG_PATTERN, canonicalTag, parseTagSort, sortTagFeed, tagAliases, tagPath } from '$lib/articles/tags';
+import type { Article } from '$lib/types';
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals, params, url }) => {
+	const tag = canonicalTag(params.tag);
+	if (!TAG_PATTERN.test(tag)) {
+		error(404, 'Tag not found');
+	}
+	if (tag !== params.tag) {
+		redirect(301, `${tagPath(tag)}${url.search}`);
+	}
+
+	const sort = parseTagSort(url.searchParams.get('sort'));
+	const [published, following] = await Promise.all([loadPublished(locals, tag), loadFollowing(locals, tag)]);
+
+	return {
+		tag,
+		aliases: tagAliases(tag),
+		sort,
+		articles: sortTagFeed([...published, ...getArticlesByTag(tag)], sort),
+		following
+	};
+};
+
+// MARK: - Helpers
+
+/**
+ * Articles published in the editor with the tag. The mock feed still
+ * fills the page if this fails, so the error is only logged.
+ */
+async function loadPublished(locals: App.Locals, tag: string): Promise<Article[]> {
+	try {
+		return await getTagArticles(locals.supabase, tag);
+	} catch (err) {
+		console.error('[Articles] Failed to load tag feed:', err instanceof Error ? err.message : err);
+		return [];
+	}
+}
+
+/**
+ * Whether the signed-in user follows the tag; false when signed out or
+ * when the follows can't be read.
+ */
+async function loadFollowing(locals: App.Locals, tag: string): Promise<boolean> {
+	if (!locals.user) return false;
+
+	try {
+		return (await getFollowedTags(locals.supabase, locals.user.id)).includes(tag);
+	} catch (err) {
+		console.error('[Articles] Failed to load followed tags:', err instanceof Error ? err.message : err);
+		return false;
+	}
+}
+
+// MARK: - Form Actions
+
+/**
+ * Follow or unfollow the page's tag.
+ */
+async function setFollowing(locals: App.Locals, tag: string, follow: boolean) {
+	if (!locals.user) redirect(303, '/login');
+
+	try {
+		if (follow) await followTag(locals.supabase, locals.user.id, tag);
+		else await unfollowTag(locals.supabase, locals.user.id, tag);
+	} catch (err) {
+		if (err instanceof ArticleError) {
+			if (err.status >= 500) console.error('[Articles] Failed to update tag follow:', err.message);
+			return fail(err.status, {
+				tag: canonicalTag(tag),
+				error: err.status >= 500 ? 'Your followed tags could not be updated. Please try again.' : err.message
+			});
+		}
+		throw err;
+	}
+
+	return { tag: canonicalTag(tag), following: follow };
+}
+
+export const actions: Actions = {
+	/**
+	 * Follow the tag, so its posts rank higher in the home feed.
+	 */
+	follow: ({ locals, params }) => setFollowing(locals, params.tag, true),
+
+	/**
+	 * Stop following the tag.
+	 */
+	unfollow: ({ locals, params }) => setFollowing(locals, params.tag, false)
+};
@@ -0,0 +1,37 @@
+/**
+ * Tag Directory Page Server
+ * =========================
+ *
+ * Every tag in use with its article count, across the mock feed and the
+ * articles published in the editor, with aliases merged into their
+ * canonical tag. Signed-in users also get the tags they follow; the
+ * follow buttons post to /t/[tag]'s actions.
+ */
+
+import type { PageServerLoad } from './$types';
+import { getFollowedTags, getTagCounts } from '$lib/server/articles';
+import { articles } from '$lib/data/articles';
+import { countArticleTags, summarizeTags } from '$lib/articles/tags';
+
+// MARK: - Server Load Function
+
+export const load: PageServerLoad = async ({ locals }) => {
+	const [published, followedTags] = await Promise.all([
+		// Published counts add to the mock feed's; without them the directory still lists its tags
+		getTagCounts(locals.supabase).catch((err) => {
+			console.error('[Articles] Failed to load tag counts:', err instanceof Error ? err.message : err);
+			return new Map<string, number>();
+		}),
+		locals.user
+			? getFollowedTags(locals.supabase, locals.user.id).catch((err) => {
+					console.error('[Articles] Failed to load followed tags:', err instanceof Error ? err.message : err);
+					return [] as string[];
+				})
+			: ([] as string[])
+	]);
+
+	return {
+		tags: summarizeTags(countArticleTags(articles), published),
+		followedTags
+	};
+};
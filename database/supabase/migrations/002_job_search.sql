@@ -0,0 +1,146 @@
+-- ============================================
+-- Job Full-Text Search
+-- ============================================
+-- Run this in your Supabase SQL Editor after 001_initial_schema.sql
+--
+-- Adds a weighted tsvector over title, skills, company name, requirements
+-- and description, a trigram index for typo tolerance, and the
+-- search_jobs() RPC used by the Supabase job source.
+--
+-- Stemming comes from the 'english' text search config. Skill synonyms
+-- (e.g. k8s = Kubernetes) are expanded by the app before calling the RPC,
+-- so no custom dictionary files are needed on the database server.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- ============================================
+-- SEARCH COLUMNS
+-- ============================================
+
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR,
+  -- Short text (title + skills + company) for trigram typo matching
+  ADD COLUMN IF NOT EXISTS search_text TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_search_vector ON public.jobs USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_jobs_search_text_trgm ON public.jobs USING GIN(search_text gin_trgm_ops);
+
+-- Weights: A = title/skills, B = company, C = requirements, D = description
+CREATE OR REPLACE FUNCTION public.jobs_search_document()
+RETURNS TRIGGER AS $$
+DECLARE
+  company_name TEXT;
+BEGIN
+  SELECT name INTO company_name FROM public.companies WHERE id = NEW.company_id;
+
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', array_to_string(NEW.skills, ' ')), 'A') ||
+    setweight(to_tsvector('english', coalesce(company_name, '')), 'B') ||
+    setweight(to_tsvector('english', array_to_string(NEW.requirements, ' ')), 'C') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'D');
+
+  NEW.search_text := lower(concat_ws(' ', NEW.title, array_to_string(NEW.skills, ' '), company_name));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER jobs_search_document_update
+  BEFORE INSERT OR UPDATE OF title, skills, requirements, description, company_id ON public.jobs
+  FOR EACH ROW EXECUTE FUNCTION public.jobs_search_document();
+
+-- Re-index a company's jobs when its name changes
+CREATE OR REPLACE FUNCTION public.companies_refresh_job_search()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    UPDATE public.jobs SET company_id = company_id WHERE company_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER companies_refresh_job_search
+  AFTER UPDATE OF name ON public.companies
+  FOR EACH ROW EXECUTE FUNCTION public.companies_refresh_job_search();
+
+-- Backfill existing rows
+UPDATE public.jobs SET company_id = company_id;
+
+-- ============================================
+-- SEARCH RPC
+-- ============================================
+
+-- p_term_groups: one entry per query word, synonyms joined with " or "
+--   e.g. '{"k8s or kubernetes", "engineer"}' -> (k8s | kubernetes) & engineer
+-- p_raw: the user's original query, used for trigram typo matching
+-- Returns one page of matches with rank, highlighted title and snippet
+-- (matches wrapped in ⟦ ⟧), plus the total match count on every row.
+CREATE OR REPLACE FUNCTION public.search_jobs(
+  p_term_groups TEXT[],
+  p_raw TEXT,
+  p_location TEXT DEFAULT NULL,
+  p_location_type public.location_type DEFAULT NULL,
+  p_employment_type public.employment_type DEFAULT NULL,
+  p_experience_level public.experience_level DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  job_id UUID,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT
+) AS $$
+DECLARE
+  v_query TSQUERY;
+  v_group TEXT;
+BEGIN
+  FOREACH v_group IN ARRAY p_term_groups LOOP
+    IF v_query IS NULL THEN
+      v_query := websearch_to_tsquery('english', v_group);
+    ELSE
+      v_query := v_query && websearch_to_tsquery('english', v_group);
+    END IF;
+  END LOOP;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      j.id,
+      j.title,
+      j.description,
+      (coalesce(ts_rank_cd(j.search_vector, v_query), 0)
+        + 0.5 * word_similarity(lower(p_raw), j.search_text))::REAL AS score,
+      j.is_featured,
+      j.posted_at
+    FROM public.jobs j
+    WHERE j.is_active = true
+      AND (
+        (v_query IS NOT NULL AND j.search_vector @@ v_query)
+        -- Typo tolerance: close trigram match on title/skills/company
+        OR lower(p_raw) <% j.search_text
+      )
+      AND (p_location IS NULL OR j.location = p_location)
+      AND (p_location_type IS NULL OR j.location_type = p_location_type)
+      AND (p_employment_type IS NULL OR j.employment_type = p_employment_type)
+      AND (p_experience_level IS NULL OR j.experience_level = p_experience_level)
+  )
+  SELECT
+    m.id,
+    m.score,
+    CASE WHEN v_query IS NULL THEN m.title ELSE
+      ts_headline('english', m.title, v_query, 'StartSel=⟦, StopSel=⟧, HighlightAll=true')
+    END,
+    CASE WHEN v_query IS NULL THEN left(m.description, 200) ELSE
+      ts_headline('english', m.description, v_query,
+        'StartSel=⟦, StopSel=⟧, MaxWords=30, MinWords=15, MaxFragments=1')
+    END,
+    count(*) OVER ()
+  FROM matches m
+  ORDER BY m.score DESC, m.is_featured DESC, m.posted_at DESC
+  LIMIT p_limit OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,23 @@
+-- ============================================
+-- Bookmark Notes
+-- ============================================
+-- Run this in your Supabase SQL Editor after 002_job_search.sql
+--
+-- 001_initial_schema.sql lets users create and delete their bookmarks but
+-- not update them, so the private `notes` field could never be edited.
+-- Adds an UPDATE policy and an updated_at timestamp for notes edits.
+
+ALTER TABLE public.bookmarks
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT now();
+
+CREATE POLICY "Users can update own bookmarks"
+  ON public.bookmarks FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_bookmarks_updated_at
+  BEFORE UPDATE ON public.bookmarks
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- Newest-first listing on /jobs/saved
+CREATE INDEX IF NOT EXISTS idx_bookmarks_user_created ON public.bookmarks(user_id, created_at DESC);
@@ -0,0 +1,122 @@
+-- ============================================
+-- Job Alerts
+-- ============================================
+-- Run this in your Supabase SQL Editor after 003_bookmark_notes.sql
+--
+-- Saved searches that email new matching jobs as instant, daily or weekly
+-- digests. The matcher and mailer run server-side with the service role
+-- (see src/lib/server/alerts); users only manage their own alerts.
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+CREATE TYPE public.alert_frequency AS ENUM ('instant', 'daily', 'weekly');
+CREATE TYPE public.alert_delivery_status AS ENUM ('pending', 'sent', 'failed');
+
+-- ============================================
+-- JOB ALERTS (saved searches)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.job_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  -- Same filter fields as the /jobs URL (q, location, locationType, ...)
+  filters JSONB NOT NULL DEFAULT '{}',
+  frequency public.alert_frequency NOT NULL DEFAULT 'daily',
+  -- Delivery address: the owner's account email (set by set_job_alert_email)
+  email TEXT NOT NULL,
+  is_active BOOLEAN DEFAULT true,
+  -- Secret for the one-click unsubscribe link in every email
+  unsubscribe_token UUID UNIQUE NOT NULL DEFAULT gen_random_uuid(),
+  -- Jobs listed (created or approved) after this are "new" for the next digest
+  last_checked_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_alerts_user ON public.job_alerts(user_id);
+CREATE INDEX IF NOT EXISTS idx_job_alerts_due ON public.job_alerts(frequency, last_checked_at) WHERE is_active = true;
+
+-- RLS for job_alerts
+ALTER TABLE public.job_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own alerts"
+  ON public.job_alerts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own alerts"
+  ON public.job_alerts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own alerts"
+  ON public.job_alerts FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own alerts"
+  ON public.job_alerts FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_job_alerts_updated_at
+  BEFORE UPDATE ON public.job_alerts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- The policies above only check the owner, so the delivery address and the
+-- unsubscribe token are set here rather than trusted from the client:
+-- alerts are only ever mailed to the owner's account email (kept in sync
+-- on every write), and the token can't be chosen or changed.
+-- SECURITY DEFINER to read auth.users.
+CREATE OR REPLACE FUNCTION public.set_job_alert_email()
+RETURNS TRIGGER AS $$
+DECLARE
+  account_email TEXT;
+BEGIN
+  SELECT email INTO account_email FROM auth.users WHERE id = NEW.user_id;
+  IF account_email IS NULL THEN
+    RAISE EXCEPTION 'The account has no email address to send alerts to'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  NEW.email := account_email;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.unsubscribe_token := gen_random_uuid();
+  ELSE
+    NEW.unsubscribe_token := OLD.unsubscribe_token;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_job_alert_email
+  BEFORE INSERT OR UPDATE ON public.job_alerts
+  FOR EACH ROW EXECUTE FUNCTION public.set_job_alert_email();
+
+-- ============================================
+-- ALERT DELIVERIES (digest email queue)
+-- ============================================
+-- Written by the matcher, drained by the mailer. No policies: only the
+-- service role (which bypasses RLS) can read or write the queue.
+
+CREATE TABLE IF NOT EXISTS public.job_alert_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id UUID REFERENCES public.job_alerts(id) ON DELETE CASCADE NOT NULL,
+  job_ids UUID[] NOT NULL,
+  status public.alert_delivery_status NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_alert_deliveries_pending
+  ON public.job_alert_deliveries(created_at) WHERE status = 'pending';
+
+ALTER TABLE public.job_alert_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Matcher scans jobs by insert time, not posted_at (imports may backdate);
+-- approved employer postings are found by reviewed_at (see 007)
+CREATE INDEX IF NOT EXISTS idx_jobs_created_at ON public.jobs(created_at DESC);
@@ -0,0 +1,47 @@
+-- ============================================
+-- Job Slugs
+-- ============================================
+-- Run this in your Supabase SQL Editor after 004_job_alerts.sql
+--
+-- Job detail pages live at /jobs/[slug], so a slug has to identify one
+-- job across the whole board, not just within its company. Existing
+-- duplicates keep the oldest posting on the bare slug (so links already
+-- shared keep working) and suffix the rest with part of their id. New
+-- jobs that reuse a taken slug get the same suffix automatically.
+
+-- ============================================
+-- DEDUPLICATE EXISTING SLUGS
+-- ============================================
+
+WITH ranked AS (
+  SELECT
+    id,
+    row_number() OVER (PARTITION BY slug ORDER BY posted_at, id) AS position
+  FROM public.jobs
+)
+UPDATE public.jobs
+SET slug = jobs.slug || '-' || left(jobs.id::text, 8)
+FROM ranked
+WHERE ranked.id = jobs.id
+  AND ranked.position > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_slug ON public.jobs(slug);
+
+-- ============================================
+-- KEEP NEW SLUGS UNIQUE
+-- ============================================
+-- SECURITY DEFINER so inactive jobs hidden by RLS are still seen as taken.
+
+CREATE OR REPLACE FUNCTION public.ensure_unique_job_slug()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.jobs WHERE slug = NEW.slug AND id <> NEW.id) THEN
+    NEW.slug := NEW.slug || '-' || left(NEW.id::text, 8);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER ensure_jobs_unique_slug
+  BEFORE INSERT OR UPDATE OF slug ON public.jobs
+  FOR EACH ROW EXECUTE FUNCTION public.ensure_unique_job_slug();
@@ -0,0 +1,294 @@
+-- ============================================
+-- Job Applications (Easy Apply)
+-- ============================================
+-- Run this in your Supabase SQL Editor after 005_job_slugs.sql
+--
+-- Candidates apply to Easy Apply jobs with a résumé, cover letter and
+-- answers to the job's screening questions. Companies review applications
+-- in an inbox and move them through a status pipeline; every status
+-- change is recorded so candidates can follow their application.
+--
+-- Company staff are linked to their company through `company_members`,
+-- which decides who can read a company's applications and résumés.
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+CREATE TYPE public.application_status AS ENUM (
+  'submitted', 'reviewing', 'interviewing', 'offered', 'hired', 'rejected', 'withdrawn'
+);
+CREATE TYPE public.company_member_role AS ENUM ('owner', 'recruiter');
+
+-- ============================================
+-- COMPANY MEMBERS (employer accounts)
+-- ============================================
+-- Managed by admins (or the service role) for now.
+
+CREATE TABLE IF NOT EXISTS public.company_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role public.company_member_role NOT NULL DEFAULT 'recruiter',
+  created_at TIMESTAMPTZ DEFAULT now(),
+
+  UNIQUE(company_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_members_user ON public.company_members(user_id);
+
+-- RLS for company_members
+ALTER TABLE public.company_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own memberships"
+  ON public.company_members FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage company members"
+  ON public.company_members FOR ALL
+  USING (auth.jwt()->>'role' = 'admin');
+
+-- Whether the current user works for a company.
+-- SECURITY DEFINER so policies on other tables can call it without
+-- tripping over company_members' own RLS.
+CREATE OR REPLACE FUNCTION public.is_company_member(p_company_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.company_members
+    WHERE company_id = p_company_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Company staff can see their own postings even after they close
+CREATE POLICY "Company members can view own company jobs"
+  ON public.jobs FOR SELECT
+  USING (public.is_company_member(company_id));
+
+-- ============================================
+-- SCREENING QUESTIONS (per job)
+-- ============================================
+-- Array of { id, label, type: 'text' | 'yes_no' | 'choice', options?, required }
+-- (see ScreeningQuestion in src/lib/types/job.ts)
+
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS screening_questions JSONB NOT NULL DEFAULT '[]';
+
+-- ============================================
+-- APPLICATIONS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.applications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID REFERENCES public.jobs(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  status public.application_status NOT NULL DEFAULT 'submitted',
+  -- Contact details as entered on the form
+  name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  phone TEXT,
+  -- Object path in the private `resumes` bucket ("<user_id>/<file>")
+  resume_path TEXT NOT NULL,
+  resume_filename TEXT NOT NULL,
+  cover_letter TEXT,
+  -- Screening answers keyed by question id
+  answers JSONB NOT NULL DEFAULT '{}',
+  status_changed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+
+  UNIQUE(job_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_applications_user ON public.applications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_applications_job ON public.applications(job_id, created_at DESC);
+
+-- RLS for applications
+ALTER TABLE public.applications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own applications"
+  ON public.applications FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can apply to active Easy Apply jobs"
+  ON public.applications FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'submitted'
+    -- Only the applicant's own résumé, which the company can then read
+    AND (storage.foldername(resume_path))[1] = auth.uid()::text
+    AND EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = job_id AND jobs.is_active = true AND jobs.is_easy_apply = true
+    )
+  );
+
+CREATE POLICY "Users can withdraw own applications"
+  ON public.applications FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND status = 'withdrawn');
+
+CREATE POLICY "Company members can view applications to their jobs"
+  ON public.applications FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE jobs.id = job_id AND public.is_company_member(jobs.company_id)
+  ));
+
+CREATE POLICY "Company members can update applications to their jobs"
+  ON public.applications FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE jobs.id = job_id AND public.is_company_member(jobs.company_id)
+  ))
+  WITH CHECK (status <> 'withdrawn');
+
+-- Candidates keep seeing jobs they applied to after the posting closes.
+-- Goes through a SECURITY DEFINER function because a policy on jobs that
+-- queried applications directly would recurse into applications' own
+-- policies, which query jobs.
+CREATE OR REPLACE FUNCTION public.has_applied_to_job(p_job_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.applications
+    WHERE job_id = p_job_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Applicants can view jobs they applied to"
+  ON public.jobs FOR SELECT
+  USING (public.has_applied_to_job(id));
+
+CREATE TRIGGER update_applications_updated_at
+  BEFORE UPDATE ON public.applications
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- Policies can't limit which columns change, so updates from signed-in
+-- users may only touch the status. The service role is not restricted.
+CREATE OR REPLACE FUNCTION public.guard_application_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND (
+    NEW.job_id IS DISTINCT FROM OLD.job_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.email IS DISTINCT FROM OLD.email
+    OR NEW.phone IS DISTINCT FROM OLD.phone
+    OR NEW.resume_path IS DISTINCT FROM OLD.resume_path
+    OR NEW.resume_filename IS DISTINCT FROM OLD.resume_filename
+    OR NEW.cover_letter IS DISTINCT FROM OLD.cover_letter
+    OR NEW.answers IS DISTINCT FROM OLD.answers
+  ) THEN
+    RAISE EXCEPTION 'Only the status of an application can be changed'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND OLD.status = 'withdrawn' AND NEW.status <> 'withdrawn' THEN
+    RAISE EXCEPTION 'A withdrawn application cannot be reopened'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.status_changed_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER guard_applications_update
+  BEFORE UPDATE ON public.applications
+  FOR EACH ROW EXECUTE FUNCTION public.guard_application_update();
+
+-- ============================================
+-- APPLICATION STATUS HISTORY
+-- ============================================
+-- One row per status an application has been in, written by trigger.
+
+CREATE TABLE IF NOT EXISTS public.application_status_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID REFERENCES public.applications(id) ON DELETE CASCADE NOT NULL,
+  status public.application_status NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_status_events_application
+  ON public.application_status_events(application_id, created_at);
+
+-- RLS for application_status_events: visible to whoever can see the application
+ALTER TABLE public.application_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Status history follows application visibility"
+  ON public.application_status_events FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.applications
+    WHERE applications.id = application_id
+  ));
+
+CREATE OR REPLACE FUNCTION public.record_application_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.application_status_events (application_id, status)
+    VALUES (NEW.id, NEW.status);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_application_status_change
+  AFTER INSERT OR UPDATE OF status ON public.applications
+  FOR EACH ROW EXECUTE FUNCTION public.record_application_status();
+
+-- ============================================
+-- RÉSUMÉ STORAGE
+-- ============================================
+-- Private bucket. Candidates write into a folder named after their user
+-- id; company members can read résumés attached to applications for
+-- their jobs. Downloads go through short-lived signed URLs.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'resumes',
+  'resumes',
+  false,
+  5242880,
+  ARRAY[
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload own resumes"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'resumes'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can read own resumes"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'resumes'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete own resumes"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'resumes'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Company members can read applicant resumes"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'resumes'
+    AND EXISTS (
+      SELECT 1
+      FROM public.applications
+      JOIN public.jobs ON jobs.id = applications.job_id
+      WHERE applications.resume_path = storage.objects.name
+        AND public.is_company_member(jobs.company_id)
+    )
+  );
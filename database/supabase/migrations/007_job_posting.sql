@@ -0,0 +1,141 @@
+-- ============================================
+-- Employer Job Posting
+-- ============================================
+-- Run this in your Supabase SQL Editor after 006_job_applications.sql
+--
+-- Company members (see 006) can write job postings for their company.
+-- A posting starts as a draft, is submitted for review, and goes live
+-- once an admin approves it. Admins can also send it back to draft with
+-- a note explaining what to change.
+--
+-- A posting's state on the board combines review_status with the
+-- existing columns:
+--   draft           review_status = 'draft'           (is_active = false)
+--   pending review  review_status = 'pending_review'  (is_active = false)
+--   published       review_status = 'approved', is_active, expires_at in the future
+--   expired         review_status = 'approved', expires_at passed or is_active = false
+--
+-- Jobs that already exist (seed data, Vapor imports) are 'approved'.
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+CREATE TYPE public.job_review_status AS ENUM ('draft', 'pending_review', 'approved');
+
+-- ============================================
+-- JOB REVIEW COLUMNS
+-- ============================================
+
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS review_status public.job_review_status NOT NULL DEFAULT 'approved',
+  -- Admin's note when a posting is sent back to draft
+  ADD COLUMN IF NOT EXISTS review_note TEXT,
+  ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ,
+  -- Employer who wrote the posting (null for imported jobs)
+  ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Alert matcher: employer postings are new to alerts once approved
+CREATE INDEX IF NOT EXISTS idx_jobs_reviewed_at ON public.jobs(reviewed_at DESC)
+  WHERE reviewed_at IS NOT NULL;
+
+-- Admin approval queue, oldest submission first
+CREATE INDEX IF NOT EXISTS idx_jobs_review_queue
+  ON public.jobs(submitted_at)
+  WHERE review_status = 'pending_review';
+
+-- ============================================
+-- RLS: company members write unpublished postings
+-- ============================================
+-- Reading is covered by "Company members can view own company jobs" (006).
+-- Once approved, a posting can only be changed by admins.
+
+CREATE POLICY "Company members can create job postings"
+  ON public.jobs FOR INSERT
+  WITH CHECK (
+    public.is_company_member(company_id)
+    AND created_by = auth.uid()
+    AND review_status IN ('draft', 'pending_review')
+  );
+
+CREATE POLICY "Company members can edit unpublished postings"
+  ON public.jobs FOR UPDATE
+  USING (
+    public.is_company_member(company_id)
+    AND review_status IN ('draft', 'pending_review')
+  )
+  WITH CHECK (
+    public.is_company_member(company_id)
+    AND review_status IN ('draft', 'pending_review')
+  );
+
+CREATE POLICY "Company members can delete draft postings"
+  ON public.jobs FOR DELETE
+  USING (
+    public.is_company_member(company_id)
+    AND review_status = 'draft'
+  );
+
+-- ============================================
+-- REVIEW STATE TRIGGER
+-- ============================================
+-- Keeps is_active and the review timestamps in step with review_status,
+-- and stops employers from publishing or featuring their own postings.
+-- The service role (auth.uid() IS NULL) and admins are not restricted.
+
+CREATE OR REPLACE FUNCTION public.manage_job_review_state()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_is_admin BOOLEAN := COALESCE(auth.jwt()->>'role' = 'admin', false);
+  v_was_status public.job_review_status := CASE WHEN TG_OP = 'UPDATE' THEN OLD.review_status END;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT v_is_admin THEN
+    IF NEW.review_status = 'approved' AND v_was_status IS DISTINCT FROM 'approved' THEN
+      RAISE EXCEPTION 'Only admins can publish job postings'
+        USING ERRCODE = '42501';
+    END IF;
+    IF NEW.is_featured AND (TG_OP = 'INSERT' OR NOT OLD.is_featured) THEN
+      RAISE EXCEPTION 'Only admins can feature job postings'
+        USING ERRCODE = '42501';
+    END IF;
+    IF TG_OP = 'UPDATE' AND NEW.company_id IS DISTINCT FROM OLD.company_id THEN
+      RAISE EXCEPTION 'A posting cannot move to another company'
+        USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  -- Unpublished postings are never visible on the board
+  IF NEW.review_status <> 'approved' THEN
+    NEW.is_active := false;
+  END IF;
+
+  IF NEW.review_status = 'pending_review' AND v_was_status IS DISTINCT FROM 'pending_review' THEN
+    NEW.submitted_at := now();
+    NEW.review_note := NULL;
+  END IF;
+
+  -- Approval publishes the posting as of now, for 30 days unless the
+  -- employer picked a (future) closing date
+  IF TG_OP = 'UPDATE' AND NEW.review_status = 'approved' AND OLD.review_status <> 'approved' THEN
+    NEW.is_active := true;
+    NEW.posted_at := now();
+    NEW.reviewed_at := now();
+    NEW.review_note := NULL;
+    IF NEW.expires_at IS NULL OR NEW.expires_at <= now() THEN
+      NEW.expires_at := now() + interval '30 days';
+    END IF;
+  END IF;
+
+  -- Sent back to draft by a reviewer
+  IF TG_OP = 'UPDATE' AND OLD.review_status = 'pending_review' AND NEW.review_status = 'draft' AND v_is_admin THEN
+    NEW.reviewed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER manage_jobs_review_state
+  BEFORE INSERT OR UPDATE ON public.jobs
+  FOR EACH ROW EXECUTE FUNCTION public.manage_job_review_state();
@@ -0,0 +1,128 @@
+-- ============================================
+-- Job Expiry
+-- ============================================
+-- Run this in your Supabase SQL Editor after 007_job_posting.sql
+--
+-- Listings no longer stay on the board forever. A scheduled run
+-- (/jobs/expiry/run) closes a job when:
+--   expired      its expires_at has passed
+--   stale        it has no closing date and was not refreshed for 60 days
+--   unreachable  its apply_url failed several link checks in a row
+-- Posters are emailed a few days before their listing closes, and can
+-- repost a closed listing, which sends it back through review.
+--
+-- original_posted_at keeps the first publication date, so a reposted
+-- job (posted_at later than original_posted_at) can be marked as such.
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+CREATE TYPE public.job_close_reason AS ENUM ('expired', 'stale', 'unreachable');
+
+-- ============================================
+-- JOB EXPIRY COLUMNS
+-- ============================================
+
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS original_posted_at TIMESTAMPTZ,
+  -- Last time the source confirmed the listing (import, repost, reopen)
+  ADD COLUMN IF NOT EXISTS refreshed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS apply_url_checked_at TIMESTAMPTZ,
+  -- Consecutive failed checks of apply_url; reset by a successful one
+  ADD COLUMN IF NOT EXISTS apply_url_failures INTEGER NOT NULL DEFAULT 0,
+  -- Closing reminder sent to created_by for the current expires_at
+  ADD COLUMN IF NOT EXISTS expiry_notified_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS closed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS closed_reason public.job_close_reason;
+
+UPDATE public.jobs
+SET original_posted_at = posted_at,
+    refreshed_at = GREATEST(posted_at, updated_at)
+WHERE original_posted_at IS NULL;
+
+ALTER TABLE public.jobs
+  ALTER COLUMN original_posted_at SET DEFAULT now(),
+  ALTER COLUMN original_posted_at SET NOT NULL;
+
+-- Reaper and reminder scans only look at live jobs
+CREATE INDEX IF NOT EXISTS idx_jobs_active_expires_at
+  ON public.jobs(expires_at)
+  WHERE is_active;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_active_refreshed_at
+  ON public.jobs(refreshed_at)
+  WHERE is_active;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_active_link_check
+  ON public.jobs(apply_url_checked_at NULLS FIRST)
+  WHERE is_active AND apply_url IS NOT NULL;
+
+-- ============================================
+-- LIFECYCLE TRIGGER
+-- ============================================
+-- Runs after manage_jobs_review_state (triggers fire in name order), so
+-- it sees is_active as set by an approval.
+-- - A new closing or posting date re-arms the closing reminder
+-- - A changed apply_url starts its link checks over
+-- - Closing stamps closed_at; reopening clears the close and refreshes
+
+CREATE OR REPLACE FUNCTION public.track_job_lifecycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.original_posted_at := COALESCE(NEW.original_posted_at, NEW.posted_at, now());
+    RETURN NEW;
+  END IF;
+
+  IF NEW.expires_at IS DISTINCT FROM OLD.expires_at OR NEW.posted_at IS DISTINCT FROM OLD.posted_at THEN
+    NEW.expiry_notified_at := NULL;
+  END IF;
+
+  IF NEW.apply_url IS DISTINCT FROM OLD.apply_url THEN
+    NEW.apply_url_failures := 0;
+    NEW.apply_url_checked_at := NULL;
+  END IF;
+
+  IF OLD.is_active AND NOT NEW.is_active AND NEW.closed_at IS NULL THEN
+    NEW.closed_at := now();
+  END IF;
+
+  IF NEW.is_active AND NOT OLD.is_active THEN
+    NEW.closed_at := NULL;
+    NEW.closed_reason := NULL;
+    NEW.apply_url_failures := 0;
+    NEW.refreshed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER track_jobs_lifecycle
+  BEFORE INSERT OR UPDATE ON public.jobs
+  FOR EACH ROW EXECUTE FUNCTION public.track_job_lifecycle();
+
+-- ============================================
+-- FUNCTION: Repost a closed listing
+-- ============================================
+-- Members can't update approved postings (007), so reposting goes
+-- through this function. It only moves a closed posting of the
+-- caller's company back into review with no closing date; approval
+-- then publishes it again as of now for 30 days.
+
+CREATE OR REPLACE FUNCTION public.repost_job(p_job_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE public.jobs
+  SET review_status = 'pending_review',
+      expires_at = NULL
+  WHERE id = p_job_id
+    AND review_status = 'approved'
+    AND created_by IS NOT NULL
+    AND public.is_company_member(company_id)
+    AND (NOT is_active OR expires_at <= now());
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,41 @@
+-- ============================================
+-- Calendar Feeds
+-- ============================================
+-- Run this in your Supabase SQL Editor after 008_job_expiry.sql
+--
+-- A secret per-user token for the iCal feed of saved-job deadlines
+-- (/jobs/saved/calendar/<token>.ics). Calendar apps fetch the feed
+-- without a session, so the token in the URL identifies the user; the
+-- feed itself is read server-side with the service role. Users manage
+-- only their own token, and replacing it revokes the old URL.
+
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token UUID UNIQUE NOT NULL DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- RLS for calendar_feeds
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own calendar feed"
+  ON public.calendar_feeds FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own calendar feed"
+  ON public.calendar_feeds FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own calendar feed"
+  ON public.calendar_feeds FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own calendar feed"
+  ON public.calendar_feeds FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_calendar_feeds_updated_at
+  BEFORE UPDATE ON public.calendar_feeds
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
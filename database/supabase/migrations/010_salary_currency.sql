@@ -0,0 +1,117 @@
+-- ============================================
+-- Salary Periods & Display Currency
+-- ============================================
+-- Run this in your Supabase SQL Editor after 009_calendar_feeds.sql
+--
+-- Salaries can now be posted per hour as well as per year, and users pick
+-- a currency to see salaries in. Conversion rates stay in the app (see
+-- src/lib/jobs/currency.ts), so the minimum-salary filter reaches the
+-- database as per-currency thresholds already converted by the app.
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+CREATE TYPE public.salary_period AS ENUM ('year', 'hour');
+
+-- ============================================
+-- COLUMNS
+-- ============================================
+
+-- Existing salaries were all entered as annual amounts
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS salary_period public.salary_period NOT NULL DEFAULT 'year';
+
+-- Currency to show salaries in (estimates next to the posted amount);
+-- NULL shows salaries only as posted
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS preferred_currency TEXT
+    CHECK (preferred_currency ~ '^[A-Z]{3}$');
+
+-- ============================================
+-- SEARCH WITH SALARY FILTER
+-- ============================================
+-- Same as 002_job_search.sql plus p_salary_thresholds: the lowest
+-- salary_max (salary_min when only that is posted) a job may post in
+-- each currency and period, e.g.
+-- {"USD": {"year": 100000, "hour": 48.08}, "EUR": {"year": 92000, ...}}.
+-- Jobs without a salary, or in a currency missing from the map, are left
+-- out while the filter is set.
+
+DROP FUNCTION IF EXISTS public.search_jobs(
+  TEXT[], TEXT, TEXT, public.location_type, public.employment_type, public.experience_level, INTEGER, INTEGER
+);
+
+CREATE OR REPLACE FUNCTION public.search_jobs(
+  p_term_groups TEXT[],
+  p_raw TEXT,
+  p_location TEXT DEFAULT NULL,
+  p_location_type public.location_type DEFAULT NULL,
+  p_employment_type public.employment_type DEFAULT NULL,
+  p_experience_level public.experience_level DEFAULT NULL,
+  p_salary_thresholds JSONB DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  job_id UUID,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT
+) AS $$
+DECLARE
+  v_query TSQUERY;
+  v_group TEXT;
+BEGIN
+  FOREACH v_group IN ARRAY p_term_groups LOOP
+    IF v_query IS NULL THEN
+      v_query := websearch_to_tsquery('english', v_group);
+    ELSE
+      v_query := v_query && websearch_to_tsquery('english', v_group);
+    END IF;
+  END LOOP;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      j.id,
+      j.title,
+      j.description,
+      (coalesce(ts_rank_cd(j.search_vector, v_query), 0)
+        + 0.5 * word_similarity(lower(p_raw), j.search_text))::REAL AS score,
+      j.is_featured,
+      j.posted_at
+    FROM public.jobs j
+    WHERE j.is_active = true
+      AND (
+        (v_query IS NOT NULL AND j.search_vector @@ v_query)
+        -- Typo tolerance: close trigram match on title/skills/company
+        OR lower(p_raw) <% j.search_text
+      )
+      AND (p_location IS NULL OR j.location = p_location)
+      AND (p_location_type IS NULL OR j.location_type = p_location_type)
+      AND (p_employment_type IS NULL OR j.employment_type = p_employment_type)
+      AND (p_experience_level IS NULL OR j.experience_level = p_experience_level)
+      AND (
+        p_salary_thresholds IS NULL
+        OR COALESCE(j.salary_max, j.salary_min)
+          >= (p_salary_thresholds -> j.salary_currency ->> j.salary_period::TEXT)::NUMERIC
+      )
+  )
+  SELECT
+    m.id,
+    m.score,
+    CASE WHEN v_query IS NULL THEN m.title ELSE
+      ts_headline('english', m.title, v_query, 'StartSel=⟦, StopSel=⟧, HighlightAll=true')
+    END,
+    CASE WHEN v_query IS NULL THEN left(m.description, 200) ELSE
+      ts_headline('english', m.description, v_query,
+        'StartSel=⟦, StopSel=⟧, MaxWords=30, MinWords=15, MaxFragments=1')
+    END,
+    count(*) OVER ()
+  FROM matches m
+  ORDER BY m.score DESC, m.is_featured DESC, m.posted_at DESC
+  LIMIT p_limit OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,157 @@
+-- ============================================
+-- Remote Eligibility & Timezones
+-- ============================================
+-- Run this in your Supabase SQL Editor after 010_salary_currency.sql
+--
+-- Remote jobs can say where they can be worked from (regions and/or
+-- ISO 3166-1 alpha-2 countries; both empty means anywhere) and which
+-- hours they need to overlap with the team, as a window in UTC. Users
+-- keep their timezone on their profile for the /jobs/remote hub.
+--
+-- The region codes and country list live in src/lib/jobs/remote.ts.
+
+-- ============================================
+-- COLUMNS
+-- ============================================
+
+-- Overlap window in UTC hours. The end may pass 24 when the window
+-- crosses midnight UTC (e.g. 22 to 26 is 22:00-02:00 UTC).
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS remote_regions TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS remote_countries TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS remote_overlap_start SMALLINT,
+  ADD COLUMN IF NOT EXISTS remote_overlap_end SMALLINT,
+  -- Dropped and re-added so the migration can run again
+  DROP CONSTRAINT IF EXISTS jobs_remote_overlap_check,
+  ADD CONSTRAINT jobs_remote_overlap_check CHECK (
+    (remote_overlap_start IS NULL AND remote_overlap_end IS NULL)
+    OR (
+      remote_overlap_start BETWEEN 0 AND 23
+      AND remote_overlap_end > remote_overlap_start
+      AND remote_overlap_end <= remote_overlap_start + 24
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_jobs_remote_countries ON public.jobs USING GIN (remote_countries);
+CREATE INDEX IF NOT EXISTS idx_jobs_remote_regions ON public.jobs USING GIN (remote_regions);
+
+-- IANA timezone name (e.g. "Europe/Berlin"); NULL until the user picks one
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+-- ============================================
+-- SEARCH WITH REMOTE ELIGIBILITY
+-- ============================================
+-- Same as 010_salary_currency.sql plus two remote filters, each of which
+-- limits results to remote jobs:
+--   p_remote_country / p_remote_region: jobs open to that country, to its
+--     region, or to anywhere.
+--   p_workday_start / p_workday_end: the viewer's working day in UTC hours
+--     (may go below 0 or past 24); jobs whose overlap window fits inside
+--     it, or that have no window.
+
+DROP FUNCTION IF EXISTS public.search_jobs(
+  TEXT[], TEXT, TEXT, public.location_type, public.employment_type, public.experience_level, JSONB, INTEGER, INTEGER
+);
+
+CREATE OR REPLACE FUNCTION public.search_jobs(
+  p_term_groups TEXT[],
+  p_raw TEXT,
+  p_location TEXT DEFAULT NULL,
+  p_location_type public.location_type DEFAULT NULL,
+  p_employment_type public.employment_type DEFAULT NULL,
+  p_experience_level public.experience_level DEFAULT NULL,
+  p_salary_thresholds JSONB DEFAULT NULL,
+  p_remote_country TEXT DEFAULT NULL,
+  p_remote_region TEXT DEFAULT NULL,
+  p_workday_start NUMERIC DEFAULT NULL,
+  p_workday_end NUMERIC DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  job_id UUID,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT
+) AS $$
+DECLARE
+  v_query TSQUERY;
+  v_group TEXT;
+BEGIN
+  FOREACH v_group IN ARRAY p_term_groups LOOP
+    IF v_query IS NULL THEN
+      v_query := websearch_to_tsquery('english', v_group);
+    ELSE
+      v_query := v_query && websearch_to_tsquery('english', v_group);
+    END IF;
+  END LOOP;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      j.id,
+      j.title,
+      j.description,
+      (coalesce(ts_rank_cd(j.search_vector, v_query), 0)
+        + 0.5 * word_similarity(lower(p_raw), j.search_text))::REAL AS score,
+      j.is_featured,
+      j.posted_at
+    FROM public.jobs j
+    WHERE j.is_active = true
+      AND (
+        (v_query IS NOT NULL AND j.search_vector @@ v_query)
+        -- Typo tolerance: close trigram match on title/skills/company
+        OR lower(p_raw) <% j.search_text
+      )
+      AND (p_location IS NULL OR j.location = p_location)
+      AND (p_location_type IS NULL OR j.location_type = p_location_type)
+      AND (p_employment_type IS NULL OR j.employment_type = p_employment_type)
+      AND (p_experience_level IS NULL OR j.experience_level = p_experience_level)
+      AND (
+        p_salary_thresholds IS NULL
+        OR j.salary_max >= (p_salary_thresholds -> j.salary_currency ->> j.salary_period::TEXT)::NUMERIC
+      )
+      AND (
+        p_remote_country IS NULL
+        OR (
+          j.location_type = 'Remote'
+          AND (
+            (cardinality(j.remote_countries) = 0 AND cardinality(j.remote_regions) = 0)
+            OR p_remote_country = ANY (j.remote_countries)
+            OR p_remote_region = ANY (j.remote_regions)
+          )
+        )
+      )
+      AND (
+        p_workday_start IS NULL
+        OR (
+          j.location_type = 'Remote'
+          AND (
+            j.remote_overlap_start IS NULL
+            OR EXISTS (
+              SELECT 1 FROM unnest(ARRAY[-24, 0, 24]) AS shift
+              WHERE j.remote_overlap_start + shift >= p_workday_start
+                AND j.remote_overlap_end + shift <= p_workday_end
+            )
+          )
+        )
+      )
+  )
+  SELECT
+    m.id,
+    m.score,
+    CASE WHEN v_query IS NULL THEN m.title ELSE
+      ts_headline('english', m.title, v_query, 'StartSel=⟦, StopSel=⟧, HighlightAll=true')
+    END,
+    CASE WHEN v_query IS NULL THEN left(m.description, 200) ELSE
+      ts_headline('english', m.description, v_query,
+        'StartSel=⟦, StopSel=⟧, MaxWords=30, MinWords=15, MaxFragments=1')
+    END,
+    count(*) OVER ()
+  FROM matches m
+  ORDER BY m.score DESC, m.is_featured DESC, m.posted_at DESC
+  LIMIT p_limit OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
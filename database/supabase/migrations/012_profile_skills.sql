@@ -0,0 +1,19 @@
+-- ============================================
+-- Profile Skills
+-- ============================================
+-- Run this in your Supabase SQL Editor after 011_remote_eligibility.sql
+--
+-- Users list their own skills on their profile (edited under Settings).
+-- The job comparison page at /jobs/compare shows how each job's skills
+-- overlap with them. Skills are free text, matched case-insensitively;
+-- the length limits mirror src/lib/jobs/compare.ts.
+
+-- ============================================
+-- COLUMNS
+-- ============================================
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS skills TEXT[] NOT NULL DEFAULT '{}',
+  -- Dropped and re-added so the migration can run again
+  DROP CONSTRAINT IF EXISTS profiles_skills_length_check,
+  ADD CONSTRAINT profiles_skills_length_check CHECK (cardinality(skills) <= 30);
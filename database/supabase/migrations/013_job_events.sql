@@ -0,0 +1,138 @@
+-- ============================================
+-- Job Posting Analytics
+-- ============================================
+-- Run this in your Supabase SQL Editor after 012_profile_skills.sql
+--
+-- Records how job seekers interact with each listing, so employers can
+-- see how their postings perform at /jobs/postings/analytics:
+--
+-- - view:        the job was listed on a page of /jobs
+-- - detail_open: the job's details were opened (permalink or side panel)
+-- - apply_click: "Apply Now" was clicked through to the employer's site
+-- - bookmark:    the job was saved
+-- - easy_apply:  an Easy Apply application was submitted
+--
+-- Events are written only through record_job_events(), which drops
+-- repeats from the same visitor inside a per-event window, events on
+-- closed jobs, and the company's own staff. Only the server may call it
+-- (service role); bots are filtered by the app before it does
+-- (src/lib/server/jobs/analytics.ts).
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+CREATE TYPE public.job_event_type AS ENUM ('view', 'detail_open', 'apply_click', 'bookmark', 'easy_apply');
+
+-- ============================================
+-- JOB EVENTS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.job_events (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  job_id UUID REFERENCES public.jobs(id) ON DELETE CASCADE NOT NULL,
+  event_type public.job_event_type NOT NULL,
+  -- The user id for signed-in visitors, otherwise a random id kept in a cookie
+  visitor_id TEXT NOT NULL CHECK (char_length(visitor_id) <= 64),
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_events_job ON public.job_events(job_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_job_events_visitor
+  ON public.job_events(visitor_id, job_id, event_type, created_at DESC);
+
+-- RLS for job_events: no insert policy, writes go through record_job_events()
+ALTER TABLE public.job_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company members can view events on their jobs"
+  ON public.job_events FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE jobs.id = job_id AND public.is_company_member(jobs.company_id)
+  ));
+
+CREATE POLICY "Admins can view all job events"
+  ON public.job_events FOR SELECT
+  USING (auth.jwt()->>'role' = 'admin');
+
+-- ============================================
+-- RECORDING
+-- ============================================
+
+-- How long a repeat of the same event by the same visitor is ignored
+CREATE OR REPLACE FUNCTION public.job_event_dedup_window(p_event_type public.job_event_type)
+RETURNS INTERVAL AS $$
+  SELECT CASE p_event_type
+    WHEN 'view' THEN INTERVAL '30 minutes'
+    WHEN 'detail_open' THEN INTERVAL '30 minutes'
+    ELSE INTERVAL '1 day'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Record one event on each of p_job_ids for a visitor.
+-- Signed-in visitors (p_user_id) are always recorded under their user id,
+-- whatever p_visitor_id says, and are skipped on their own company's jobs.
+-- Only the server calls this, with the service role, after dropping bots
+-- and event types the browser may not send (src/lib/server/jobs/analytics.ts);
+-- visitors can't read or write job_events, nor call this function.
+-- Returns the number of events written.
+CREATE OR REPLACE FUNCTION public.record_job_events(
+  p_job_ids UUID[],
+  p_event_type public.job_event_type,
+  p_visitor_id TEXT,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_visitor TEXT := COALESCE(p_user_id::text, p_visitor_id);
+  v_written INTEGER;
+BEGIN
+  IF v_visitor IS NULL OR v_visitor = '' OR char_length(v_visitor) > 64 THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO public.job_events (job_id, event_type, visitor_id, user_id)
+  SELECT jobs.id, p_event_type, v_visitor, p_user_id
+  FROM public.jobs
+  WHERE jobs.id = ANY(p_job_ids)
+    AND jobs.is_active = true
+    AND NOT EXISTS (
+      SELECT 1 FROM public.company_members AS staff
+      WHERE staff.company_id = jobs.company_id AND staff.user_id = p_user_id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.job_events AS recent
+      WHERE recent.visitor_id = v_visitor
+        AND recent.job_id = jobs.id
+        AND recent.event_type = p_event_type
+        AND recent.created_at > now() - public.job_event_dedup_window(p_event_type)
+    );
+
+  GET DIAGNOSTICS v_written = ROW_COUNT;
+  RETURN v_written;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_job_events(UUID[], public.job_event_type, TEXT, UUID)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_job_events(UUID[], public.job_event_type, TEXT, UUID) TO service_role;
+
+-- ============================================
+-- REPORTING
+-- ============================================
+
+-- Events per job, UTC day and type since p_since, for the given jobs.
+-- Runs with the caller's rights, so RLS limits it to their company's jobs.
+CREATE OR REPLACE FUNCTION public.job_event_daily_counts(p_job_ids UUID[], p_since DATE)
+RETURNS TABLE (job_id UUID, day DATE, event_type public.job_event_type, events BIGINT) AS $$
+  SELECT
+    job_events.job_id,
+    (job_events.created_at AT TIME ZONE 'UTC')::date AS day,
+    job_events.event_type,
+    count(*) AS events
+  FROM public.job_events
+  WHERE job_events.job_id = ANY(p_job_ids)
+    AND job_events.created_at >= p_since::timestamp AT TIME ZONE 'UTC'
+  GROUP BY 1, 2, 3;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,215 @@
+-- ============================================
+-- Job Reports & Moderation
+-- ============================================
+-- Run this in your Supabase SQL Editor after 013_job_events.sql
+--
+-- Signed-in users can report a listing as a scam, expired, misleading,
+-- a duplicate, offensive or other. Once a job collects enough open
+-- reports (moderation_settings.report_hide_threshold), it is hidden from
+-- the board automatically (closed_reason 'reported') until an admin
+-- looks at it in the moderation queue (/jobs/moderation):
+--   dismiss     the reports are unfounded; a hidden job goes live again
+--   deactivate  the job is taken down for good (closed_reason 'removed')
+-- Every hide and every decision is written to job_moderation_events.
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+-- The new close reasons are only used inside function bodies below, so
+-- this runs in one transaction with the ALTERs.
+ALTER TYPE public.job_close_reason ADD VALUE IF NOT EXISTS 'reported';
+ALTER TYPE public.job_close_reason ADD VALUE IF NOT EXISTS 'removed';
+
+CREATE TYPE public.job_report_reason AS ENUM ('scam', 'expired', 'misleading', 'duplicate', 'offensive', 'other');
+CREATE TYPE public.job_report_status AS ENUM ('open', 'dismissed', 'actioned');
+CREATE TYPE public.job_moderation_action AS ENUM ('auto_hidden', 'dismissed', 'deactivated');
+
+-- ============================================
+-- MODERATION SETTINGS (single row)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.moderation_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  -- Open reports from different users that hide a job until reviewed
+  report_hide_threshold INTEGER NOT NULL DEFAULT 3 CHECK (report_hide_threshold BETWEEN 1 AND 100),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+INSERT INTO public.moderation_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.moderation_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage moderation settings"
+  ON public.moderation_settings FOR ALL
+  USING (auth.jwt()->>'role' = 'admin');
+
+CREATE TRIGGER update_moderation_settings_updated_at
+  BEFORE UPDATE ON public.moderation_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- ============================================
+-- JOB REPORTS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.job_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID REFERENCES public.jobs(id) ON DELETE CASCADE NOT NULL,
+  reporter_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  reason public.job_report_reason NOT NULL,
+  details TEXT CHECK (char_length(details) <= 1000),
+  status public.job_report_status NOT NULL DEFAULT 'open',
+  resolved_at TIMESTAMPTZ,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+
+  -- One report per job and user
+  UNIQUE(job_id, reporter_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_reports_open
+  ON public.job_reports(job_id, created_at)
+  WHERE status = 'open';
+
+-- RLS for job_reports
+ALTER TABLE public.job_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own reports"
+  ON public.job_reports FOR SELECT
+  USING (auth.uid() = reporter_id);
+
+CREATE POLICY "Users can report active jobs"
+  ON public.job_reports FOR INSERT
+  WITH CHECK (
+    auth.uid() = reporter_id
+    AND status = 'open'
+    AND resolved_at IS NULL
+    AND resolved_by IS NULL
+    AND EXISTS (SELECT 1 FROM public.jobs WHERE jobs.id = job_id AND jobs.is_active = true)
+  );
+
+CREATE POLICY "Admins can view all reports"
+  ON public.job_reports FOR SELECT
+  USING (auth.jwt()->>'role' = 'admin');
+
+-- ============================================
+-- AUDIT TRAIL
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.job_moderation_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID REFERENCES public.jobs(id) ON DELETE CASCADE NOT NULL,
+  action public.job_moderation_action NOT NULL,
+  -- The admin who decided; NULL when the threshold hid the job
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Open reports the action covered
+  report_count INTEGER NOT NULL DEFAULT 0,
+  note TEXT CHECK (char_length(note) <= 1000),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_moderation_events_created
+  ON public.job_moderation_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_job_moderation_events_job
+  ON public.job_moderation_events(job_id, created_at DESC);
+
+-- RLS for job_moderation_events: written only by the functions below
+ALTER TABLE public.job_moderation_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view moderation events"
+  ON public.job_moderation_events FOR SELECT
+  USING (auth.jwt()->>'role' = 'admin');
+
+-- ============================================
+-- TRIGGER: Hide a job at the report threshold
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.hide_reported_job()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_open INTEGER;
+  v_threshold INTEGER;
+BEGIN
+  SELECT count(*) INTO v_open
+  FROM public.job_reports
+  WHERE job_id = NEW.job_id AND status = 'open';
+
+  SELECT report_hide_threshold INTO v_threshold
+  FROM public.moderation_settings
+  WHERE id;
+
+  IF v_open < COALESCE(v_threshold, 3) THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.jobs
+  SET is_active = false,
+      closed_reason = 'reported'
+  WHERE id = NEW.job_id AND is_active;
+
+  IF FOUND THEN
+    INSERT INTO public.job_moderation_events (job_id, action, actor_id, report_count)
+    VALUES (NEW.job_id, 'auto_hidden', NULL, v_open);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER hide_reported_jobs
+  AFTER INSERT ON public.job_reports
+  FOR EACH ROW EXECUTE FUNCTION public.hide_reported_job();
+
+-- ============================================
+-- FUNCTION: Decide on a reported job
+-- ============================================
+-- Admins only. Resolves every open report on the job and records the
+-- decision. Returns false when the job has no open reports.
+
+CREATE OR REPLACE FUNCTION public.moderate_job(
+  p_job_id UUID,
+  p_action public.job_moderation_action,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_resolved INTEGER;
+BEGIN
+  IF COALESCE(auth.jwt()->>'role', '') <> 'admin' THEN
+    RAISE EXCEPTION 'Only admins can moderate jobs'
+      USING ERRCODE = '42501';
+  END IF;
+  IF p_action NOT IN ('dismissed', 'deactivated') THEN
+    RAISE EXCEPTION 'Unknown moderation decision'
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.job_reports
+  SET status = CASE WHEN p_action = 'dismissed' THEN 'dismissed' ELSE 'actioned' END::public.job_report_status,
+      resolved_at = now(),
+      resolved_by = auth.uid()
+  WHERE job_id = p_job_id AND status = 'open';
+
+  GET DIAGNOSTICS v_resolved = ROW_COUNT;
+  IF v_resolved = 0 THEN
+    RETURN false;
+  END IF;
+
+  IF p_action = 'dismissed' THEN
+    -- Only jobs the threshold hid go back up; other closes stand
+    UPDATE public.jobs
+    SET is_active = true
+    WHERE id = p_job_id AND NOT is_active AND closed_reason = 'reported';
+  ELSE
+    UPDATE public.jobs
+    SET is_active = false,
+        closed_reason = 'removed'
+    WHERE id = p_job_id;
+  END IF;
+
+  INSERT INTO public.job_moderation_events (job_id, action, actor_id, report_count, note)
+  VALUES (p_job_id, p_action, auth.uid(), v_resolved, NULLIF(btrim(p_note), ''));
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
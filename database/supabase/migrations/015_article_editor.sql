@@ -0,0 +1,84 @@
+-- ============================================
+-- Article Editor: Drafts & Scheduled Publishing
+-- ============================================
+-- Run this in your Supabase SQL Editor after 014_job_reports.sql
+--
+-- Authors write articles at /new and /[username]/[slug]/edit. An article
+-- is one of:
+--   draft      is_published = false; only the author sees it
+--   scheduled  is_published = true, published_at in the future; only the
+--              author sees it until then
+--   published  is_published = true, published_at has passed
+-- Once an article is live its slug and publication date are fixed, so
+-- links and feed order don't change when the author edits it.
+
+-- ============================================
+-- RLS: hide scheduled articles until they go live
+-- ============================================
+
+DROP POLICY IF EXISTS "Published articles are viewable by everyone" ON public.articles;
+
+CREATE POLICY "Published articles are viewable by everyone"
+  ON public.articles FOR SELECT
+  USING (is_published = true AND published_at <= now());
+
+-- The author's drafts and scheduled articles, most recently edited first
+CREATE INDEX IF NOT EXISTS idx_articles_author_updated ON public.articles(author_id, updated_at DESC);
+
+-- ============================================
+-- SLUGS
+-- ============================================
+
+-- Slugs are unique per author (UNIQUE(author_id, slug)). The editor
+-- derives them from the title, so suffix a clash instead of failing the
+-- save, as ensure_unique_job_slug() does for jobs.
+CREATE OR REPLACE FUNCTION public.ensure_unique_article_slug()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.articles
+    WHERE author_id = NEW.author_id AND slug = NEW.slug AND id <> NEW.id
+  ) THEN
+    NEW.slug := NEW.slug || '-' || left(NEW.id::text, 8);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER ensure_articles_unique_slug
+  BEFORE INSERT OR UPDATE OF slug ON public.articles
+  FOR EACH ROW EXECUTE FUNCTION public.ensure_unique_article_slug();
+
+-- ============================================
+-- PUBLICATION DATE
+-- ============================================
+
+-- Keeps published_at consistent with is_published:
+-- - drafts have no publication date
+-- - a live article keeps its slug and publication date
+-- - publishing or scheduling never dates an article in the past
+CREATE OR REPLACE FUNCTION public.stamp_article_publication()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.is_published AND OLD.published_at <= now() THEN
+    NEW.slug := OLD.slug;
+    IF NEW.is_published THEN
+      NEW.published_at := OLD.published_at;
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF NOT NEW.is_published THEN
+    NEW.published_at := NULL;
+  ELSE
+    NEW.published_at := GREATEST(COALESCE(NEW.published_at, now()), now());
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Runs after ensure_articles_unique_slug (triggers fire in name order),
+-- so a live article's slug is restored after any suffixing
+CREATE TRIGGER stamp_articles_publication
+  BEFORE INSERT OR UPDATE ON public.articles
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_article_publication();
@@ -0,0 +1,215 @@
+-- ============================================
+-- Article Comments
+-- ============================================
+-- Run this in your Supabase SQL Editor after 015_article_editor.sql
+--
+-- Threaded discussion under each article. Comments are markdown, can be
+-- replied to at any depth, edited (every earlier version is kept in
+-- comment_revisions) and deleted. Deletes are soft: the comment keeps
+-- its place in the thread so replies still make sense, but its body is
+-- cleared (the last version stays in the history, readable by its
+-- author only). articles.comments_count counts the comments that aren't
+-- deleted and is kept up to date by triggers.
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  article_id UUID REFERENCES public.articles(id) ON DELETE CASCADE NOT NULL,
+  -- NULL for top-level comments
+  parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  body TEXT NOT NULL DEFAULT '',
+  is_deleted BOOLEAN NOT NULL DEFAULT false,
+  edited_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+
+  CHECK (is_deleted OR char_length(btrim(body)) BETWEEN 1 AND 10000)
+);
+
+CREATE INDEX IF NOT EXISTS idx_comments_article ON public.comments(article_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_comments_parent ON public.comments(parent_id);
+CREATE INDEX IF NOT EXISTS idx_comments_author ON public.comments(author_id);
+
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+
+-- Comments are as visible as their article (the subquery runs under the
+-- articles policies, so drafts' comments stay private)
+CREATE POLICY "Comments on visible articles are viewable"
+  ON public.comments FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.articles a WHERE a.id = article_id));
+
+CREATE POLICY "Users can comment on published articles"
+  ON public.comments FOR INSERT
+  WITH CHECK (
+    auth.uid() = author_id
+    AND EXISTS (
+      SELECT 1 FROM public.articles a
+      WHERE a.id = article_id AND a.is_published AND a.published_at <= now()
+    )
+  );
+
+-- Edits and soft deletes; guard_comment_update() limits what can change
+CREATE POLICY "Users can update own comments"
+  ON public.comments FOR UPDATE
+  USING (auth.uid() = author_id);
+
+CREATE TRIGGER update_comments_updated_at
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- ============================================
+-- REVISIONS (edit history)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.comment_revisions (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE NOT NULL,
+  -- The body as it was before the edit or delete
+  body TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_comment_revisions_comment ON public.comment_revisions(comment_id, created_at);
+
+ALTER TABLE public.comment_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Readers see the history of comments that are still up; authors see
+-- the history of their own comments, deleted or not. Revisions are only
+-- written by guard_comment_update().
+CREATE POLICY "Revisions of visible comments are viewable"
+  ON public.comment_revisions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.comments c WHERE c.id = comment_id AND NOT c.is_deleted));
+
+CREATE POLICY "Authors can view the history of own comments"
+  ON public.comment_revisions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.comments c WHERE c.id = comment_id AND c.author_id = auth.uid()));
+
+-- ============================================
+-- THREAD RULES
+-- ============================================
+
+-- New comments start undeleted and unedited, and a reply must answer a
+-- comment on the same article that hasn't been deleted
+CREATE OR REPLACE FUNCTION public.guard_comment_insert()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.is_deleted := false;
+  NEW.edited_at := NULL;
+  NEW.deleted_at := NULL;
+
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.comments
+    WHERE id = NEW.parent_id AND article_id = NEW.article_id AND NOT is_deleted
+  ) THEN
+    RAISE EXCEPTION 'Replies must answer a comment on the same article'
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER guard_comments_insert
+  BEFORE INSERT ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.guard_comment_insert();
+
+-- Authors can only change the body or delete. Every edit keeps the
+-- previous body as a revision; a delete keeps the last body there too
+-- and clears it from the comment. Deleted comments are final.
+CREATE OR REPLACE FUNCTION public.guard_comment_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.article_id <> OLD.article_id
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+    OR NEW.author_id <> OLD.author_id
+    OR NEW.created_at <> OLD.created_at THEN
+    RAISE EXCEPTION 'Only the body of a comment can change'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF OLD.is_deleted THEN
+    RAISE EXCEPTION 'Deleted comments can''t be changed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.is_deleted THEN
+    INSERT INTO public.comment_revisions (comment_id, body) VALUES (OLD.id, OLD.body);
+    NEW.body := '';
+    NEW.deleted_at := now();
+    NEW.edited_at := OLD.edited_at;
+    RETURN NEW;
+  END IF;
+
+  NEW.deleted_at := NULL;
+  IF NEW.body IS DISTINCT FROM OLD.body THEN
+    INSERT INTO public.comment_revisions (comment_id, body) VALUES (OLD.id, OLD.body);
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER guard_comments_update
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.guard_comment_update();
+
+-- ============================================
+-- COMMENT COUNTS
+-- ============================================
+
+-- Keeps articles.comments_count equal to the article's comments that
+-- aren't deleted. Relative updates lock the article row, so concurrent
+-- comments can't lose a count.
+CREATE OR REPLACE FUNCTION public.count_article_comments()
+RETURNS TRIGGER AS $$
+DECLARE
+  delta INTEGER := 0;
+  target UUID;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    target := NEW.article_id;
+    delta := CASE WHEN NEW.is_deleted THEN 0 ELSE 1 END;
+  ELSIF TG_OP = 'DELETE' THEN
+    target := OLD.article_id;
+    delta := CASE WHEN OLD.is_deleted THEN 0 ELSE -1 END;
+  ELSE
+    target := NEW.article_id;
+    delta := (CASE WHEN NEW.is_deleted THEN 0 ELSE 1 END) - (CASE WHEN OLD.is_deleted THEN 0 ELSE 1 END);
+  END IF;
+
+  IF delta <> 0 THEN
+    UPDATE public.articles
+    SET comments_count = GREATEST(comments_count + delta, 0)
+    WHERE id = target;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER count_comments
+  AFTER INSERT OR DELETE OR UPDATE OF is_deleted ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.count_article_comments();
+
+-- Counter updates aren't edits: only bump articles.updated_at when the
+-- author changes the article itself
+DROP TRIGGER IF EXISTS update_articles_updated_at ON public.articles;
+
+CREATE TRIGGER update_articles_updated_at
+  BEFORE UPDATE OF title, slug, excerpt, content, cover_image_url, tags, community, is_published, published_at
+  ON public.articles
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- Start from the true counts (the column was never written before)
+UPDATE public.articles a
+SET comments_count = (
+  SELECT count(*) FROM public.comments c WHERE c.article_id = a.id AND NOT c.is_deleted
+);
@@ -0,0 +1,91 @@
+-- ============================================
+-- Article Reactions
+-- ============================================
+-- Run this in your Supabase SQL Editor after 016_article_comments.sql
+--
+-- Hearts, unicorns and saves on articles, one row per user, reaction
+-- type and article. Reacting twice is a no-op (the unique key), and
+-- articles.hearts_count / unicorns_count / saves_count are kept up to
+-- date by a trigger.
+
+-- ============================================
+-- REACTIONS
+-- ============================================
+
+CREATE TYPE public.article_reaction_type AS ENUM ('heart', 'unicorn', 'save');
+
+CREATE TABLE IF NOT EXISTS public.reactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  article_id UUID REFERENCES public.articles(id) ON DELETE CASCADE NOT NULL,
+  type public.article_reaction_type NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+
+  UNIQUE(user_id, article_id, type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reactions_article ON public.reactions(article_id);
+CREATE INDEX IF NOT EXISTS idx_reactions_user ON public.reactions(user_id, type, created_at DESC);
+
+ALTER TABLE public.reactions ENABLE ROW LEVEL SECURITY;
+
+-- Who reacted is private; everyone sees the counts on articles
+CREATE POLICY "Users can view own reactions"
+  ON public.reactions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can react to published articles"
+  ON public.reactions FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.articles a
+      WHERE a.id = article_id AND a.is_published AND a.published_at <= now()
+    )
+  );
+
+CREATE POLICY "Users can remove own reactions"
+  ON public.reactions FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ============================================
+-- REACTION COUNTS
+-- ============================================
+
+-- Keeps the article's count for the reaction type equal to its rows.
+-- Relative updates lock the article row, so concurrent reactions can't
+-- lose a count; a repeated reaction inserts nothing and fires nothing.
+CREATE OR REPLACE FUNCTION public.count_article_reactions()
+RETURNS TRIGGER AS $$
+DECLARE
+  delta INTEGER := 1;
+  reaction public.reactions;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    reaction := NEW;
+  ELSE
+    reaction := OLD;
+    delta := -1;
+  END IF;
+
+  UPDATE public.articles
+  SET
+    hearts_count = CASE WHEN reaction.type = 'heart' THEN GREATEST(hearts_count + delta, 0) ELSE hearts_count END,
+    unicorns_count = CASE WHEN reaction.type = 'unicorn' THEN GREATEST(unicorns_count + delta, 0) ELSE unicorns_count END,
+    saves_count = CASE WHEN reaction.type = 'save' THEN GREATEST(saves_count + delta, 0) ELSE saves_count END
+  WHERE id = reaction.article_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER count_reactions
+  AFTER INSERT OR DELETE ON public.reactions
+  FOR EACH ROW EXECUTE FUNCTION public.count_article_reactions();
+
+-- Start from the true counts (the columns were never written before)
+UPDATE public.articles a
+SET
+  hearts_count = (SELECT count(*) FROM public.reactions r WHERE r.article_id = a.id AND r.type = 'heart'),
+  unicorns_count = (SELECT count(*) FROM public.reactions r WHERE r.article_id = a.id AND r.type = 'unicorn'),
+  saves_count = (SELECT count(*) FROM public.reactions r WHERE r.article_id = a.id AND r.type = 'save');
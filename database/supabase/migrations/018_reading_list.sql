@@ -0,0 +1,43 @@
+-- ============================================
+-- Reading List
+-- ============================================
+-- Run this in your Supabase SQL Editor after 017_article_reactions.sql
+--
+-- The reading list is the user's `save` reactions. Saved articles can be
+-- archived once read and brought back later; removing the save (or
+-- saving again after that) starts unarchived.
+
+ALTER TABLE public.reactions ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+-- Dropped and re-added so the migration can run again
+ALTER TABLE public.reactions
+  DROP CONSTRAINT IF EXISTS reactions_archive_saves_only,
+  ADD CONSTRAINT reactions_archive_saves_only CHECK (type = 'save' OR archived_at IS NULL);
+
+CREATE INDEX IF NOT EXISTS idx_reactions_reading_list
+  ON public.reactions(user_id, created_at DESC)
+  WHERE type = 'save';
+
+-- Archiving is the only update; guard_reaction_update() keeps the rest fixed
+CREATE POLICY "Users can archive own saves"
+  ON public.reactions FOR UPDATE
+  USING (auth.uid() = user_id AND type = 'save');
+
+CREATE OR REPLACE FUNCTION public.guard_reaction_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_id <> OLD.user_id
+    OR NEW.article_id <> OLD.article_id
+    OR NEW.type <> OLD.type
+    OR NEW.created_at <> OLD.created_at THEN
+    RAISE EXCEPTION 'Only the archive state of a reaction can change'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER guard_reactions_update
+  BEFORE UPDATE ON public.reactions
+  FOR EACH ROW EXECUTE FUNCTION public.guard_reaction_update();
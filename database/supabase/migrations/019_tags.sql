@@ -0,0 +1,59 @@
+-- ============================================
+-- Tags
+-- ============================================
+-- Run this in your Supabase SQL Editor after 018_reading_list.sql
+--
+-- Tag following for the community feed, and article counts for the tag
+-- directory (/tags). Tags are stored as their canonical name; aliases
+-- such as `js` for `javascript` are resolved by the app
+-- (`$lib/articles/tags`) before anything is written.
+
+-- ============================================
+-- TAG FOLLOWS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.tag_follows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  tag TEXT NOT NULL CHECK (tag ~ '^[a-z0-9][a-z0-9-]{0,29}$'),
+  created_at TIMESTAMPTZ DEFAULT now(),
+
+  UNIQUE(user_id, tag)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tag_follows_user ON public.tag_follows(user_id);
+
+ALTER TABLE public.tag_follows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tag follows"
+  ON public.tag_follows FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can follow tags"
+  ON public.tag_follows FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can unfollow tags"
+  ON public.tag_follows FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ============================================
+-- TAG COUNTS
+-- ============================================
+
+-- Live articles per canonical tag. The alias map lives in the app
+-- (TAG_ALIASES in src/lib/articles/tags.ts) and is passed in as
+-- { "alias": "canonical" }; an article carrying several names of one tag
+-- counts once. Runs with the caller's rights, so the articles policies
+-- decide what is counted; the explicit filter leaves out the caller's own
+-- drafts.
+CREATE OR REPLACE FUNCTION public.article_tag_counts(p_aliases JSONB DEFAULT '{}')
+RETURNS TABLE (tag TEXT, articles BIGINT) AS $$
+  SELECT canonical.tag, count(DISTINCT a.id)
+  FROM public.articles a
+  CROSS JOIN LATERAL unnest(a.tags) AS t(tag)
+  CROSS JOIN LATERAL (SELECT ltrim(lower(btrim(t.tag)), '#') AS name) AS written
+  CROSS JOIN LATERAL (SELECT COALESCE(p_aliases ->> written.name, written.name) AS tag) AS canonical
+  WHERE a.is_published AND a.published_at <= now()
+  GROUP BY canonical.tag;
+$$ LANGUAGE sql STABLE SET search_path = public;